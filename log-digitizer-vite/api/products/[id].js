@@ -38,6 +38,7 @@ export default async function handler(req, res) {
         seriesName:       r.series_name,
         seriesColor:      r.series_color,
         points:           r.points ?? [],
+        model:            r.curve_model ?? null,
         imageData:        r.image_data,
         bgXform:          r.bg_xform,
         customAnchor:     r.custom_anchor,
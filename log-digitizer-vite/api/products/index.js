@@ -37,6 +37,7 @@ async function ensureTable(sql) {
   await sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS image_settings JSONB`;
   await sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS saved_by TEXT`;
   await sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS specs JSONB`;
+  await sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS curve_model JSONB`;
 }
 
 function rowToProduct(r, includeImage = false) {
@@ -49,6 +50,7 @@ function rowToProduct(r, includeImage = false) {
     seriesName:       r.series_name,
     seriesColor:      r.series_color,
     points:           r.points ?? [],
+    model:            r.curve_model ?? null,
     bgXform:          r.bg_xform,
     customAnchor:     r.custom_anchor,
     imageSettings:    r.image_settings,
@@ -73,7 +75,7 @@ export default async function handler(req, res) {
     if (req.method === 'GET') {
       const rows = await sql`
         SELECT id, company, name, saved_at, saved_by, series_name, series_color,
-               points, bg_xform, custom_anchor, image_settings, specs, min_break_current, source_slot
+               points, curve_model, bg_xform, custom_anchor, image_settings, specs, min_break_current, source_slot
         FROM products ORDER BY saved_at DESC
       `;
       return res.json(rows.map(r => rowToProduct(r, false)));
@@ -84,6 +86,7 @@ export default async function handler(req, res) {
       const b = req.body;
       const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 5);
       const pointsJson  = JSON.stringify(b.points ?? []);
+      const modelJson   = b.model ? JSON.stringify(b.model) : null;
       const bgXformJson = JSON.stringify(b.bgXform ?? {});
       const anchorJson  = b.customAnchor ? JSON.stringify(b.customAnchor) : null;
       const imageSettingsJson = b.imageSettings ? JSON.stringify(b.imageSettings) : null;
@@ -112,6 +115,7 @@ export default async function handler(req, res) {
             series_name       = ${b.seriesName ?? null},
             series_color      = ${b.seriesColor ?? null},
             points            = ${pointsJson}::jsonb,
+            curve_model       = ${modelJson}::jsonb,
             image_data        = ${b.imageData ?? null},
             bg_xform          = ${bgXformJson}::jsonb,
             custom_anchor     = ${anchorJson}::jsonb,
@@ -129,12 +133,13 @@ export default async function handler(req, res) {
       } else {
         await sql`
           INSERT INTO products
-            (id, company, name, saved_by, series_name, series_color, points,
+            (id, company, name, saved_by, series_name, series_color, points, curve_model,
              image_data, bg_xform, custom_anchor, image_settings, specs, min_break_current, source_slot)
           VALUES (
             ${id}, ${b.company}, ${b.name}, ${savedBy},
             ${b.seriesName ?? null}, ${b.seriesColor ?? null},
             ${pointsJson}::jsonb,
+            ${modelJson}::jsonb,
             ${b.imageData ?? null},
             ${bgXformJson}::jsonb,
             ${anchorJson}::jsonb,
@@ -0,0 +1,37 @@
+import { neon } from '@neondatabase/serverless';
+
+function getDb() {
+  const url =
+    process.env.DATABASE_URL ||
+    process.env.POSTGRES_URL ||
+    process.env.hyun_DATABASE_URL ||
+    process.env.hyun_POSTGRES_URL;
+  if (!url) throw new Error('DATABASE_URL/POSTGRES_URL is not set');
+  return neon(url);
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return res.status(200).end();
+
+  const { id } = req.query;
+
+  try {
+    /* GET /api/snapshots/:id — shared workspace incl. images */
+    if (req.method === 'GET') {
+      const sql = getDb();
+      /* same retention as POST /api/snapshots (30 days) */
+      const rows = await sql`SELECT * FROM snapshots WHERE id = ${id} AND created_at >= NOW() - INTERVAL '30 days'`;
+      if (!rows.length) return res.status(404).json({ error: 'Not found' });
+      const r = rows[0];
+      return res.json({ id: r.id, createdAt: r.created_at, project: r.project, images: r.images ?? [] });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: err.message });
+  }
+}
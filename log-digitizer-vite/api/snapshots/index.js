@@ -0,0 +1,75 @@
+import { neon } from '@neondatabase/serverless';
+import crypto from 'crypto';
+
+function getDb() {
+  const url =
+    process.env.DATABASE_URL ||
+    process.env.POSTGRES_URL ||
+    process.env.hyun_DATABASE_URL ||
+    process.env.hyun_POSTGRES_URL;
+  if (!url) throw new Error('DATABASE_URL/POSTGRES_URL is not set');
+  return neon(url);
+}
+
+/* Snapshots are written without login: keep each one small (the platform
+   rejects bodies over ~4.5 MB anyway) and the table bounded in count and age */
+const SNAPSHOT_MAX_BYTES = 4 * 1024 * 1024;
+const SNAPSHOT_MAX_IMAGES = 16;
+const SNAPSHOT_MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+const SNAPSHOT_MAX_COUNT = 500;
+const SNAPSHOT_TTL_DAYS = 30;
+
+/* { status, error } for a snapshot body that is malformed (400) or over the limits (413), or null */
+function snapshotProblem(body) {
+  const { project, images } = body ?? {};
+  if (!project || typeof project !== 'object' || !Array.isArray(images)) return { status: 400, error: 'project and images are required' };
+  if (Buffer.byteLength(JSON.stringify(body)) > SNAPSHOT_MAX_BYTES) return { status: 413, error: 'Request body too large' };
+  const all = images.flatMap(slots => (Array.isArray(slots) ? slots : [slots]));
+  if (all.some(v => v != null && (typeof v !== 'string' || !v.startsWith('data:image/')))) return { status: 400, error: 'images must be data:image/ URLs' };
+  const used = all.filter(Boolean);
+  if (used.length > SNAPSHOT_MAX_IMAGES) return { status: 413, error: `at most ${SNAPSHOT_MAX_IMAGES} images per snapshot` };
+  if (used.some(v => v.length > SNAPSHOT_MAX_IMAGE_BYTES)) return { status: 413, error: `images must be under ${SNAPSHOT_MAX_IMAGE_BYTES / 1024 / 1024} MB each` };
+  return null;
+}
+
+async function ensureTable(sql) {
+  await sql`
+    CREATE TABLE IF NOT EXISTS snapshots (
+      id          TEXT PRIMARY KEY,
+      created_at  TIMESTAMPTZ DEFAULT NOW(),
+      project     JSONB NOT NULL,
+      images      JSONB NOT NULL DEFAULT '[]'
+    )
+  `;
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return res.status(200).end();
+
+  try {
+    /* POST /api/snapshots — store a shared workspace (incl. images), returns its id */
+    if (req.method === 'POST') {
+      const problem = snapshotProblem(req.body);
+      if (problem) return res.status(problem.status).json({ error: problem.error });
+      const { project, images } = req.body;
+      const sql = getDb();
+      await ensureTable(sql);
+      /* expire old snapshots, then keep room for this one under the count cap */
+      await sql`DELETE FROM snapshots WHERE created_at < NOW() - make_interval(days => ${SNAPSHOT_TTL_DAYS})`;
+      await sql`DELETE FROM snapshots WHERE id NOT IN (SELECT id FROM snapshots ORDER BY created_at DESC LIMIT ${SNAPSHOT_MAX_COUNT - 1})`;
+      const id = crypto.randomBytes(6).toString('base64url');
+      const projectJson = JSON.stringify(project);
+      const imagesJson = JSON.stringify(images);
+      await sql`INSERT INTO snapshots (id, project, images) VALUES (${id}, ${projectJson}::jsonb, ${imagesJson}::jsonb)`;
+      return res.json({ id });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: err.message });
+  }
+}
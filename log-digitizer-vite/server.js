@@ -2,12 +2,23 @@ import express from 'express';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import crypto from 'crypto';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = 3001;
 const DB_PATH = path.join(__dirname, 'products.json');
+const SNAPSHOT_DIR = path.join(__dirname, 'snapshots');
+
+/* Share snapshots are written without login: keep each one small (same cap as
+   the Vercel function body) and the store bounded in count and age */
+const SNAPSHOT_MAX_BYTES = 4 * 1024 * 1024;
+const SNAPSHOT_MAX_IMAGES = 16;
+const SNAPSHOT_MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+const SNAPSHOT_MAX_COUNT = 500;
+const SNAPSHOT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
 const app = express();
+app.use('/api/snapshots', express.json({ limit: SNAPSHOT_MAX_BYTES }));
 app.use(express.json({ limit: '150mb' }));
 
 app.use((req, res, next) => {
@@ -73,7 +84,59 @@ app.delete('/api/products/:id', (req, res) => {
   res.json({ ok: true });
 });
 
+/* Share snapshots — full workspace incl. images, one JSON file per id */
+const snapshotPath = id => path.join(SNAPSHOT_DIR, `${id}.json`);
+
+/* { status, error } for a snapshot body that is malformed (400) or over the limits (413), or null */
+function snapshotProblem(project, images) {
+  if (!project || typeof project !== 'object' || !Array.isArray(images)) return { status: 400, error: 'project and images are required' };
+  const all = images.flatMap(slots => (Array.isArray(slots) ? slots : [slots]));
+  if (all.some(v => v != null && (typeof v !== 'string' || !v.startsWith('data:image/')))) return { status: 400, error: 'images must be data:image/ URLs' };
+  const used = all.filter(Boolean);
+  if (used.length > SNAPSHOT_MAX_IMAGES) return { status: 413, error: `at most ${SNAPSHOT_MAX_IMAGES} images per snapshot` };
+  if (used.some(v => v.length > SNAPSHOT_MAX_IMAGE_BYTES)) return { status: 413, error: `images must be under ${SNAPSHOT_MAX_IMAGE_BYTES / 1024 / 1024} MB each` };
+  return null;
+}
+
+/* Drop expired snapshots, then the oldest ones beyond the count cap */
+function pruneSnapshots() {
+  if (!fs.existsSync(SNAPSHOT_DIR)) return;
+  const files = fs.readdirSync(SNAPSHOT_DIR)
+    .filter(f => f.endsWith('.json'))
+    .map(f => ({ file: path.join(SNAPSHOT_DIR, f), time: fs.statSync(path.join(SNAPSHOT_DIR, f)).mtimeMs }))
+    .sort((a, b) => b.time - a.time);
+  files.forEach((f, i) => {
+    if (i >= SNAPSHOT_MAX_COUNT - 1 || Date.now() - f.time > SNAPSHOT_TTL_MS) fs.rmSync(f.file, { force: true });
+  });
+}
+
+app.post('/api/snapshots', (req, res) => {
+  const { project, images } = req.body ?? {};
+  const problem = snapshotProblem(project, images);
+  if (problem) return res.status(problem.status).json({ error: problem.error });
+  pruneSnapshots();
+  const id = crypto.randomBytes(6).toString('base64url');
+  fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+  fs.writeFileSync(snapshotPath(id), JSON.stringify({ id, createdAt: new Date().toISOString(), project, images }), 'utf8');
+  res.json({ id });
+});
+
+app.get('/api/snapshots/:id', (req, res) => {
+  const file = /^[\w-]+$/.test(req.params.id) ? snapshotPath(req.params.id) : null;
+  if (!file || !fs.existsSync(file) || Date.now() - fs.statSync(file).mtimeMs > SNAPSHOT_TTL_MS) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.type('json').send(fs.readFileSync(file, 'utf8'));
+});
+
+/* Body-size errors (413) and bad JSON (400) as JSON, like the handlers above */
+app.use((err, req, res, next) => {
+  if (!err.status || err.status >= 500) return next(err);
+  res.status(err.status).json({ error: err.type === 'entity.too.large' ? 'Request body too large' : err.message });
+});
+
 app.listen(PORT, () => {
   console.log(`\nProduct Library server  ->  http://localhost:${PORT}`);
-  console.log(`DB file                 ->  ${DB_PATH}\n`);
+  console.log(`DB file                 ->  ${DB_PATH}`);
+  console.log(`Snapshots               ->  ${SNAPSHOT_DIR}\n`);
 });
@@ -1,6 +1,28 @@
 /* @ts-nocheck */
-import { Fragment, useEffect, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import { type Sample } from "./lib/i2t";
+import { solveHomography, invertHomography, applyHomography, fitAxisTicks, type AxisFit } from "./lib/coords";
+import { type LocalProjectMeta, SESSION_ID, listLocalProjects, saveLocalProject, loadLocalProject, renameLocalProject, duplicateLocalProject, deleteLocalProject, localStorageUsage } from "./lib/localProjects";
+import { type XlsxCell, type XlsxSheet, buildXlsx } from "./lib/xlsx";
+import { type CoordinationReport, coordinationChartSvg, buildCoordinationReportHtml, printHtml } from "./lib/coordinationReport";
+import { type CodeFormat, CODE_FORMATS, codeIdentifier, generateCode } from "./lib/codeExport";
+import { type ChartStyle, type ChartData, type SeriesStyle, type LineDash, type MarkerShape, type LegendPosition, DEFAULT_CHART_STYLE, CHART_FONTS, renderChartSvg, svgToPng } from "./lib/chartExport";
+import { SHARE_HASH_MAX, encodeShareHash, decodeShareHash, snapshotHash, parseSnapshotHash, createSnapshot, fetchSnapshot } from "./lib/share";
+import { type WorkspaceSnapshot, sameWorkspace, describeWorkspaceChange, describeStateChange, historyEntryBytes, historyTrimCount } from "./lib/history";
+import { getAxisTransform, listAxisTransforms, resolveAxisScale, scaleTicks, snapAxisValue, rangeForScale } from "./lib/axisScales";
+import { type ImageFilters, DEFAULT_IMAGE_FILTERS, normalizeImageFilters, isIdentityFilters, imageFiltersKey, applyImageFilters, hueSat, hueColor } from "./lib/imageFilters";
+import { detectGrid, type GridAxisFit } from "./lib/gridDetect";
+import { type PDFDocumentProxy, type PdfCrop, type PdfSource, openPdf, renderPdfPage, extractPdfPaths } from "./lib/pdf";
+import { interpolateYAtX, resampleEvenX, decimatePolyline, maxDeviation } from "./lib/resample";
+import { type CurveModel, type CurveModelKind, CURVE_MODEL_LABELS, fitCurveModel, evaluateCurveModel, curveModelSignature, describeCurveModel } from "./lib/curveModels";
+import { type ToleranceBand, TOLERANCE_PRESETS, normalizeToleranceBand, bandEdgeCurves, bandEdgeTime, describeToleranceBand } from "./lib/toleranceBand";
+import { type ConsensusStats, consensusCurve } from "./lib/consensus";
+import { type AxisUnit, type AxisUnits, type AxisQuantity, UNITS, QUANTITY_LABELS, DEFAULT_AXIS_UNITS, baseUnit, normalizeAxisUnits, unitFactor, sameQuantities, convertPoints, axisTitle, describeUnits } from "./lib/units";
+import { type Project, PROJECT_VERSION, parseProject } from "./lib/project";
+import { readDigitizerFile, importedProject } from "./lib/digitizerImport";
+import { type CurveIssue, validateCurve, pointInPolygon } from "./lib/validateCurve";
+import { type VecBox, type VectorPage, parseSvgPaths, pathInRegion, guessGridPaths, fitVectorGrid, axisMap, pathToDataPoints } from "./lib/vectorPaths";
+import { type Raster, type Bounds, traceCurve, snapToStroke, sampleStrokeColor, resamplePolyline, parseHexColor, toHexColor } from "./lib/trace";
 
 /**
  * Log-scale Graph Digitizer
@@ -13,6 +35,14 @@ const SERIES_COLORS = ["#2563EB", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6"];
 const SERIES_NAMES  = ["A", "B", "C", "D", "E"];
 const BG_LABELS     = Array.from({ length: MAX_BG }, (_, i) => String.fromCharCode(65 + i));
 const BG_DEFAULT_OPACITY = Array.from({ length: MAX_BG }, (_, i) => i === 0 ? 1 : Math.max(0.25, 0.75 - i * 0.04));
+const PDF_DPI_OPTIONS = [72, 150, 200, 300];
+const PDF_MAX_THUMBS = 60;
+const MAX_PLOTS = 8;
+const MAX_HISTORY = 500;
+const HISTORY_BUDGET_OPTIONS = [64, 128, 256, 512]; // MB
+const HISTORY_MERGE_MS = 1500; // same-field edits closer than this share one entry
+const HISTORY_ABSORB_MS = 400; // workspace changes this soon after an edit belong to it
+const SESSION_SAVE_DELAY_MS = 1500; // crash-recovery copy is written this long after the last change
 const seriesColor = (i: number) => SERIES_COLORS[i] ?? `hsl(${(i * 67) % 360} 70% 45%)`;
 
 type Pt = { x: number; y: number };
@@ -28,7 +58,7 @@ const EMPTY_PRODUCT_SPECS: ProductSpecs = {
   protectionType:"", preArcing:"", clearing:"",
   dimensions:"", weight:"",
 };
-type Series = { name: string; color: string; points: Pt[]; visible?: boolean; crossLines?: boolean; tolerancePercent?: 0 | 10 | 15; specs?: Partial<ProductSpecs>; basePoints?: Pt[]; shiftMultiplier?: number };
+type Series = { name: string; color: string; points: Pt[]; visible?: boolean; crossLines?: boolean; tolerancePercent?: 0 | 10 | 15; toleranceBand?: ToleranceBand; consensus?: ConsensusStats & { sources?: string[] }; units?: AxisUnits; specs?: Partial<ProductSpecs>; basePoints?: Pt[]; shiftMultiplier?: number; model?: CurveModel };
 
 const parseEngineeringValue = (raw: unknown): number | null => {
   const text = String(raw ?? "").replace(/,/g, "").trim();
@@ -88,11 +118,19 @@ type CalPickKey = "x1" | "x2" | "y1" | "y2" | null;
 type CalPixel = { px: number; py: number } | null;
 type CalPixels = { x1: CalPixel; x2: CalPixel; y1: CalPixel; y2: CalPixel };
 type CalValues = { x1: string; x2: string; y1: string; y2: string };
+/** 원근(호모그래피) 캘리브 기준점: 캔버스 px + 그 점의 X·Y 값 */
+type CalRef = { px: number; py: number; x: string; y: string };
+type CalMode = "axes" | "perspective";
+/** 축 캘리브 추가 눈금(X3…, Y3…): 최소제곱 맞춤에 X1·X2 / Y1·Y2와 함께 사용 */
+type CalTick = { px: number; py: number; value: string };
+type CalTicks = { x: CalTick[]; y: CalTick[] };
 type PointRef = { seriesIndex: number; pointIndex: number };
 
 type AppState = {
   xMin: number; xMax: number; yMin: number; yMax: number;
   xLog: boolean; yLog: boolean;
+  xScale?: string; yScale?: string; // axisScales id; xLog/yLog mirror "log10"
+  units: AxisUnits;
   series: Series[];
   bgXform: BgXf[];
   customAnchors: (CustomAnchor | null)[];
@@ -108,34 +146,17 @@ const AccordionSection = ({ title, children, isOpen, onToggle }) => (
   </div>
 );
 
-const CoordinationCurveChart = ({ upper, lower, upperClearingPoints }) => {
-  const upperPoints=(upperClearingPoints??[]).filter(p=>p.x>0&&p.y>0);
-  const lowerPoints=(lower?.points??[]).filter(p=>p.x>0&&p.y>0);
-  const all=[...upperPoints,...lowerPoints];
-  if(upperPoints.length<2||lowerPoints.length<2) return <div className="rounded border border-dashed border-gray-300 bg-white p-5 text-center text-[10px] text-gray-400">곡선을 표시하려면 두 제품의 곡선과 I²t 데이터가 필요합니다.</div>;
-  const xs=all.map(p=>Math.log10(p.x)),ys=all.map(p=>Math.log10(p.y));
-  let xMin=Math.floor(Math.min(...xs)),xMax=Math.ceil(Math.max(...xs));
-  let yMin=Math.floor(Math.min(...ys)),yMax=Math.ceil(Math.max(...ys));
-  if(xMax===xMin)xMax=xMin+1;if(yMax===yMin)yMax=yMin+1;
-  const W=680,H=280,pad={l:58,r:18,t:22,b:42};
-  const px=x=>pad.l+(Math.log10(x)-xMin)/(xMax-xMin)*(W-pad.l-pad.r);
-  const py=y=>pad.t+(yMax-Math.log10(y))/(yMax-yMin)*(H-pad.t-pad.b);
-  const poly=points=>points.slice().sort((a,b)=>a.x-b.x).map(p=>`${px(p.x).toFixed(1)},${py(p.y).toFixed(1)}`).join(" ");
+const CoordinationCurveChart = ({ upper, lower, upperClearingPoints, lowerEdgePoints = null }) => {
+  const svg=coordinationChartSvg(upperClearingPoints??[],lowerEdgePoints??lower?.points??[]);
+  if(!svg) return <div className="rounded border border-dashed border-gray-300 bg-white p-5 text-center text-[10px] text-gray-400">곡선을 표시하려면 두 제품의 곡선과 I²t 데이터가 필요합니다.</div>;
   return (
     <div className="rounded border border-gray-200 bg-white p-2">
       <div className="mb-1 flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-semibold">
         <span className="text-red-600">━ 상위 Clearing (추정) · {upper?.name}</span>
         <span className="text-blue-600">━ 하위 Pre-arcing · {lower?.name}</span>
       </div>
-      <svg viewBox={`0 0 ${W} ${H}`} className="h-auto w-full" role="img" aria-label="선택차단 곡선 비교">
-        <rect x={pad.l} y={pad.t} width={W-pad.l-pad.r} height={H-pad.t-pad.b} fill="#fff" stroke="#94A3B8"/>
-        {Array.from({length:xMax-xMin+1},(_,i)=>xMin+i).map(exp=><g key={`x${exp}`}><line x1={px(10**exp)} x2={px(10**exp)} y1={pad.t} y2={H-pad.b} stroke="#CBD5E1"/><text x={px(10**exp)} y={H-pad.b+17} textAnchor="middle" fontSize="10" fill="#64748B">10^{exp}</text></g>)}
-        {Array.from({length:yMax-yMin+1},(_,i)=>yMin+i).map(exp=><g key={`y${exp}`}><line x1={pad.l} x2={W-pad.r} y1={py(10**exp)} y2={py(10**exp)} stroke="#CBD5E1"/><text x={pad.l-7} y={py(10**exp)+3} textAnchor="end" fontSize="10" fill="#64748B">10^{exp}</text></g>)}
-        <polyline points={poly(lowerPoints)} fill="none" stroke="#2563EB" strokeWidth="3"/>
-        <polyline points={poly(upperPoints)} fill="none" stroke="#DC2626" strokeWidth="3" strokeDasharray="8 4"/>
-        <text x={(pad.l+W-pad.r)/2} y={H-7} textAnchor="middle" fontSize="11" fill="#475569">Current (A, log)</text>
-        <text x="13" y={(pad.t+H-pad.b)/2} textAnchor="middle" fontSize="11" fill="#475569" transform={`rotate(-90 13 ${(pad.t+H-pad.b)/2})`}>Time (s, log)</text>
-      </svg>
+      {/* same markup as the printed Selection Check report */}
+      <div dangerouslySetInnerHTML={{__html:svg}}/>
     </div>
   );
 };
@@ -176,6 +197,13 @@ export default function App() {
   const [calValuesByBg, setCalValuesByBg] = useState<CalValues[]>(Array(MAX_BG).fill(null).map(() => ({ x1: "", x2: "", y1: "", y2: "" })));
   const [calPick, setCalPick] = useState<CalPickKey>(null);
   const [selectedCalPoint, setSelectedCalPoint] = useState<CalPickKey>(null);
+  const [calModeByBg, setCalModeByBg] = useState<CalMode[]>(Array(MAX_BG).fill("axes"));
+  const [calRefsByBg, setCalRefsByBg] = useState<CalRef[][]>(Array(MAX_BG).fill(null).map(() => []));
+  const [calRefPick, setCalRefPick] = useState(false);
+  const [calTicksByBg, setCalTicksByBg] = useState<CalTicks[]>(Array(MAX_BG).fill(null).map(() => ({ x: [], y: [] })));
+  const [calTickPick, setCalTickPick] = useState<"x" | "y" | null>(null);
+  const [selectedCalTick, setSelectedCalTick] = useState<{ axis: "x" | "y"; index: number } | null>(null);
+  const [selectedCalRef, setSelectedCalRef] = useState<number | null>(null);
   const LIFE_CURRENT_BASE = 3050;
   const [lifeCheckI, setLifeCheckI] = useState(0);
   const [lifeCheckT, setLifeCheckT] = useState(0);
@@ -248,15 +276,95 @@ export default function App() {
   const [magnifyOn, setMagnifyOn] = useState(true);
   const [magnifyFactor] = useState(3);
 
-  const [bgList, setBgList] = useState(Array(MAX_BG).fill(null));
+  /* auto trace - click a curve in the active slot, preview, then commit */
+  const [traceMode, setTraceMode] = useState(false);
+  const [traceSeed, setTraceSeed] = useState(null); // {px,py} canvas point clicked on the curve
+  const [traceColor, setTraceColor] = useState("#000000");
+  const [traceTolerance, setTraceTolerance] = useState(60);
+  const [traceStep, setTraceStep] = useState(0.05); // decades (log) or 1/10 of range (linear)
+  const [tracePreview, setTracePreview] = useState<Pt[]>([]);
+  /* resample / decimate - preview for the active series, applied through updateState (undoable) */
+  const [resampleOpen, setResampleOpen] = useState(false);
+  const [resampleCount, setResampleCount] = useState(40);
+  const [decimateTolerance, setDecimateTolerance] = useState(0.01); // decades (log axes) / axis units
+  /* analytic curve model fitting - stored on the series, used by the overlay and Selection Check */
+  const [modelKind, setModelKind] = useState<CurveModelKind>("thermal");
+  const [modelSegments, setModelSegments] = useState(3);
+  const [modelKnots, setModelKnots] = useState(8);
+  const [modelOverlay, setModelOverlay] = useState(true);
+  /* plausibility lint - thresholds for the Curve check panel and the save gate */
+  const [lintSlopeLimit, setLintSlopeLimit] = useState(45); // degrees, log-log
+  const [lintMaxGap, setLintMaxGap] = useState(1); // decades
+  /* consensus - average of several digitizations of one curve */
+  const [consensusPick, setConsensusPick] = useState<number[]>([]); // series indices
+  const [consensusCount, setConsensusCount] = useState(40);
+  const [resamplePreview, setResamplePreview] = useState(null); // { series, source (points array it was made from), kind: "resample"|"decimate", points: Pt[], before, maxDev }
+  const rasterCacheRef = useRef(new WeakMap());
+
+  /* snap to curve - new / nudged points move onto the nearest stroke centerline */
+  const [snapOn, setSnapOn] = useState(false);
+  const [snapColor, setSnapColor] = useState("#000000");
+  const [snapTolerance, setSnapTolerance] = useState(80);
+  const [snapRadius, setSnapRadius] = useState(10); // canvas px
+  const snapTargetRef = useRef(null); // {px,py} preview under the cursor
+
+  /* auto calibration - detected grid proposal, confirmed by the user before it is applied */
+  const [autoCal, setAutoCal] = useState(null); // { bg, ix:[x1,x2], iy:[y1,y2] image px, values: CalValues, xMajors, yMajors, summary }
+
+  /* PDF import dialog - page thumbnails, crop and DPI before rendering into a slot */
+  const [pdfImport, setPdfImport] = useState(null); // { slot, fileName, doc, pageCount, thumbs[], page, dpi, crop, preview, busy }
+  const pdfCropDragRef = useRef(null); // { x, y } drag start, fractions of the preview
+
+  /* vector import - exact curves from PDF/SVG path objects */
+  const [vectorImport, setVectorImport] = useState(null); // { fileName, doc, page, pageCount, data: VectorPage, preview, region, roles: { [pathId]: "curve"|"grid" }, tool, values: CalValues }
+  const vectorDragRef = useRef(null); // { x, y } region drag start, page units
+  const vectorFileRef = useRef(null);
+
+  const [bgList, setBgList] = useState(Array(MAX_BG).fill(null)); // { w, h, source?: PdfSource } per slot
+  /* workspace - several plots per project; only the active plot lives in the editor state, the others are parked in plotStoreRef */
+  const [plots, setPlots] = useState<{ id: number; name: string }[]>([{ id: 1, name: "Plot 1" }]);
+  const [activePlot, setActivePlot] = useState(0);
+  const [renamingPlot, setRenamingPlot] = useState<number | null>(null);
+  const plotStoreRef = useRef(new Map()); // plot id → { project, images?: { list, refs, urls }, imageUrls? (not yet decoded), history?, historyIndex? }
+  const plotIdRef = useRef(1);
+  /* local projects - IndexedDB copies with images; the session record is the crash-recovery copy */
+  const [showProjects, setShowProjects] = useState(false);
+  const [localProjects, setLocalProjects] = useState<LocalProjectMeta[]>([]);
+  const [localProject, setLocalProject] = useState<{ id: string; name: string } | null>(null); // project the editor was opened from / saved to
+  const [renamingLocal, setRenamingLocal] = useState<{ id: string; name: string } | null>(null);
+  /* WebPlotDigitizer / Engauge import: what came over and what could not be mapped */
+  const [importReport, setImportReport] = useState<{ source: string; name: string; series: number; issues: string[] } | null>(null);
+  const digitizerFileRef = useRef(null);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const sessionReadyRef = useRef(false); // no session writes before the previous one was restored
+  const sessionTimerRef = useRef<number | null>(null);
+  const sessionErrorRef = useRef(false);
+  /* share links - a snapshot opened read-only blocks edits and session writes until copied */
+  const [shareOpen, setShareOpen] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [snapshotView, setSnapshotView] = useState<{ id: string; createdAt: string } | null>(null);
+  const readOnlyRef = useRef(false);
+  /* chart export dialog - options persist between openings; series styles follow the series by index */
+  const [chartExport, setChartExport] = useState<{ format: "svg" | "png"; dpi: number; style: ChartStyle; series: SeriesStyle[] } | null>(null);
+  const [chartExportOpen, setChartExportOpen] = useState(false);
+  const [chartExportBusy, setChartExportBusy] = useState(false);
+  const exportHrefRef = useRef(new WeakMap<object, string>()); // image/canvas → data URL for embedding
+  /* code export dialog - format and sampling persist between openings */
+  const [codeExport, setCodeExport] = useState<{ series: number; format: CodeFormat; sampling: "points" | "resample"; count: number; baseUnits: boolean } | null>(null);
+  const [codeExportOpen, setCodeExportOpen] = useState(false);
   const [keepAspect, setKeepAspect] = useState(false);
   const [showBgs, setShowBgs] = useState(Array(MAX_BG).fill(true));
   const [opacityBgs, setOpacityBgs] = useState([...BG_DEFAULT_OPACITY]);
+  const [filtersByBg, setFiltersByBg] = useState<ImageFilters[]>(Array(MAX_BG).fill(null).map(() => ({ ...DEFAULT_IMAGE_FILTERS })));
+  const filteredBgRef = useRef(Array(MAX_BG).fill(null)); // { img, key, raster, canvas } per slot
   const [activeBg, setActiveBg] = useState(0);
   const calEnabled = calEnabledByBg[activeBg];
   const calClip = calClipByBg[activeBg];
   const calPixels = calPixelsByBg[activeBg];
   const calValues = calValuesByBg[activeBg];
+  const calMode = calModeByBg[activeBg];
+  const calRefs = calRefsByBg[activeBg];
+  const calTicks = calTicksByBg[activeBg];
 
   const [anchorMode] = useState("custom");
   const [pickAnchor, setPickAnchor] = useState(false);
@@ -291,16 +399,24 @@ export default function App() {
   const [guideXLabels, setGuideXLabels] = useState({});
   const [guideYLabels, setGuideYLabels] = useState({});
 
-  /* Undo / Redo */
+  /* Undo / Redo - each entry is the AppState plus _ws (workspace snapshot: calibration, image slots, guides, min-break, lifetime) and a _label */
   const [history, setHistory] = useState([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const currentState = history[historyIndex];
-
-  const updateState = (updater, overwrite = false) => {
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyBudgetMb, setHistoryBudgetMb] = useState(256);
+  const absorbWsUntilRef = useRef(0); // workspace changes before this time belong to the last entry (same user action)
+
+  const updateState = (updater, overwrite = false, label?: string) => {
+    if (readOnlyRef.current && !overwrite) { notify("읽기 전용 스냅샷입니다. '사본으로 편집'을 누르세요", "err"); return; }
+    const ws = captureWorkspace();
+    absorbWsUntilRef.current = Date.now() + HISTORY_ABSORB_MS;
     setHistory(prev => {
       const base = overwrite ? [] : prev.slice(0, historyIndex + 1);
-      const next = updater(base[base.length - 1] || prev[0]);
-      return [...base, next];
+      const before = base[base.length - 1] || prev[0];
+      const next = updater(before);
+      const desc = label ? { label } : overwrite ? { label: "Opened project" } : describeStateChange(before, next);
+      return [...base, { ...next, _ws: ws, _label: desc.label, _key: undefined, _time: Date.now() }];
     });
     setHistoryIndex(i => (overwrite ? 0 : i + 1));
   };
@@ -308,14 +424,69 @@ export default function App() {
   const updateStateInPlace = updater => {
     setHistory(prev => prev.map((entry, i) => i === historyIndex ? updater(entry) : entry));
   };
-  const handleUndo = () => historyIndex > 0 && setHistoryIndex(historyIndex - 1);
-  const handleRedo = () => historyIndex < history.length - 1 && setHistoryIndex(historyIndex + 1);
+
+  const captureWorkspace = (): WorkspaceSnapshot => ({
+    calEnabledByBg, calClipByBg, calPixelsByBg, calValuesByBg, calModeByBg, calTicksByBg, calRefsByBg,
+    guideXs, guideYs, guideXLabels, guideYLabels, minBreakCurrents,
+    lifetimeCycles, currentMultipliers, lifetimeRatios, filtersByBg,
+    bgList, bgRefs: bgRefs.current.slice(), bgUrls: bgUrls.current.slice(),
+  });
+  const applyWorkspace = (ws: WorkspaceSnapshot) => {
+    setCalEnabledByBg(ws.calEnabledByBg); setCalClipByBg(ws.calClipByBg); setCalPixelsByBg(ws.calPixelsByBg); setCalValuesByBg(ws.calValuesByBg);
+    setCalModeByBg(ws.calModeByBg as CalMode[]); setCalTicksByBg(ws.calTicksByBg as CalTicks[]); setCalRefsByBg(ws.calRefsByBg as CalRef[][]);
+    setGuideXs(ws.guideXs); setGuideYs(ws.guideYs); setGuideXLabels(ws.guideXLabels); setGuideYLabels(ws.guideYLabels);
+    setMinBreakCurrents(ws.minBreakCurrents);
+    setLifetimeCycles(ws.lifetimeCycles); setCurrentMultipliers(ws.currentMultipliers); setLifetimeRatios(ws.lifetimeRatios);
+    setFiltersByBg(ws.filtersByBg);
+    bgRefs.current = ws.bgRefs.slice(); bgUrls.current = ws.bgUrls.slice();
+    setBgList(ws.bgList);
+  };
+  /** 기록 i로 이동: AppState와 작업공간 스냅샷을 함께 복원(축 변경 재맞춤은 건너뜀) */
+  const jumpToHistory = (i: number) => {
+    const entry = history[i];
+    if (!entry || i === historyIndex) return;
+    absorbWsUntilRef.current = Date.now() + HISTORY_ABSORB_MS;
+    axesCalRefitKeyRef.current = `${entry.xMin}|${entry.xMax}|${entry.yMin}|${entry.yMax}|${axisScale(entry, "x")}|${axisScale(entry, "y")}`;
+    if (entry._ws) applyWorkspace(entry._ws);
+    setHistoryIndex(i);
+  };
+  const handleUndo = () => historyIndex > 0 && jumpToHistory(historyIndex - 1);
+  const handleRedo = () => historyIndex < history.length - 1 && jumpToHistory(historyIndex + 1);
+
+  /* 작업공간 변경 → 새 기록(같은 필드 연속 입력은 병합, 같은 동작 직후 변경은 마지막 기록에 흡수) */
+  useEffect(() => {
+    if (!currentState) return;
+    const ws = captureWorkspace();
+    if (sameWorkspace(currentState._ws, ws)) return;
+    const now = Date.now(), entry = currentState;
+    if (!entry._ws || now < absorbWsUntilRef.current) {
+      setHistory(prev => prev.map(e => (e === entry ? { ...e, _ws: ws } : e)));
+      return;
+    }
+    const desc = describeWorkspaceChange(entry._ws, ws, entry.series.map(s => s.name));
+    if (historyIndex === history.length - 1 && desc.key && entry._key === desc.key && now - (entry._time ?? 0) < HISTORY_MERGE_MS) {
+      setHistory(prev => prev.map(e => (e === entry ? { ...e, _ws: ws, _label: desc.label, _time: now } : e)));
+      return;
+    }
+    setHistory(prev => [...prev.slice(0, prev.indexOf(entry) + 1), { ...entry, _ws: ws, _label: desc.label, _key: desc.key, _time: now }]);
+    setHistoryIndex(i => i + 1);
+  }, [history, historyIndex, calEnabledByBg, calClipByBg, calPixelsByBg, calValuesByBg, calModeByBg, calTicksByBg, calRefsByBg,
+      guideXs, guideYs, guideXLabels, guideYLabels, minBreakCurrents, lifetimeCycles, currentMultipliers, lifetimeRatios, filtersByBg, bgList]);
+
+  /* 메모리 예산: 오래된 기록부터 버림(현재 위치와 그 이후는 유지) */
+  useEffect(() => {
+    const drop = historyTrimCount(history, historyIndex, historyBudgetMb * 2 ** 20, MAX_HISTORY);
+    if (drop <= 0) return;
+    setHistory(prev => prev.slice(drop));
+    setHistoryIndex(i => Math.max(0, i - drop));
+  }, [history.length, historyBudgetMb]);
 
   /* init */
   useEffect(() => {
     const init = {
       xMin: 10, xMax: 1000000, yMin: 0.0001, yMax: 1000000,
       xLog: true, yLog: true,
+      units: DEFAULT_AXIS_UNITS,
       series: [
         { name: "A", color: SERIES_COLORS[0], points: [], visible: true, crossLines: true },
         { name: "B", color: SERIES_COLORS[1], points: [], visible: true, crossLines: true },
@@ -323,7 +494,7 @@ export default function App() {
       bgXform:       Array(MAX_BG).fill(null).map(() => ({ sx: 1, sy: 1, offX: 0, offY: 0 })),
       customAnchors: Array(MAX_BG).fill(null),
     };
-    setHistory([init]); setHistoryIndex(0);
+    setHistory([{ ...init, _label: "Start" }]); setHistoryIndex(0);
   }, []);
 
   /* utils */
@@ -337,30 +508,83 @@ export default function App() {
   const innerRect = () => ({ x: pad.left, y: pad.top, w: size.w - pad.left - pad.right, h: size.h - pad.top - pad.bottom });
   const clampS = v => Math.max(0.05, Math.min(50, v));
   const EPS = 1e-12;
-  const tVal = (v, log) => log ? Math.log10(Math.max(EPS, v)) : v;
+  /** 축 스케일 id(axisScales 레지스트리). xScale/yScale이 없으면 xLog/yLog로 log10·linear */
+  const axisScale = (st, axis: "x" | "y") => axis === "x" ? resolveAxisScale(st?.xScale, st?.xLog) : resolveAxisScale(st?.yScale, st?.yLog);
+  /** log10·선형 공간에서 계산하는 도구(재표본·합의 곡선·곡선 검사·코드 내보내기)가 다루지 못하는 축, 예: "x: Reciprocal (1/x)" */
+  const linLogScaleIssues = (st = currentState) => (["x","y"] as const).map(a=>[a,axisScale(st,a)]).filter(([,id])=>id!=="linear"&&id!=="log10").map(([a,id])=>`${a}: ${getAxisTransform(id).label}`);
+  const tVal = (v, scale) => getAxisTransform(scale).forward(v);
+  const tInv = (tv, scale) => getAxisTransform(scale).inverse(tv);
+  const inDomain = (v, scale) => getAxisTransform(scale).valid(v);
   const tMinMax = () => ({
-    xmin: tVal(currentState.xMin, currentState.xLog),
-    xmax: tVal(currentState.xMax, currentState.xLog),
-    ymin: tVal(currentState.yMin, currentState.yLog),
-    ymax: tVal(currentState.yMax, currentState.yLog),
+    xmin: tVal(currentState.xMin, axisScale(currentState, "x")),
+    xmax: tVal(currentState.xMax, axisScale(currentState, "x")),
+    ymin: tVal(currentState.yMin, axisScale(currentState, "y")),
+    ymax: tVal(currentState.yMax, axisScale(currentState, "y")),
   });
 
+  /** 원근 캘리브: 유효 기준점 ≥4개로 캔버스 px → (log)데이터 공간 호모그래피. tMin/tMax는 기준점 데이터 범위(클립용) */
+  const perspectiveModel = idx => {
+    const st = currentState;
+    if (!st) return null;
+    const refs = (calRefsByBg[idx] ?? [])
+      .filter(r => String(r.x).trim() !== "" && String(r.y).trim() !== "")
+      .map(r => ({ px: r.px, py: r.py, x: Number(r.x), y: Number(r.y) }))
+      .filter(r => Number.isFinite(r.x) && Number.isFinite(r.y) && inDomain(r.x, axisScale(st, "x")) && inDomain(r.y, axisScale(st, "y")));
+    if (refs.length < 4) return null;
+    const dst = refs.map(r => ({ x: tVal(r.x, axisScale(st, "x")), y: tVal(r.y, axisScale(st, "y")) }));
+    const H = solveHomography(refs.map(r => ({ x: r.px, y: r.py })), dst);
+    const Hinv = H && invertHomography(H);
+    if (!H || !Hinv) return null;
+    return {
+      H, Hinv,
+      tMin: { x: Math.min(...dst.map(d => d.x)), y: Math.min(...dst.map(d => d.y)) },
+      tMax: { x: Math.max(...dst.map(d => d.x)), y: Math.max(...dst.map(d => d.y)) },
+    };
+  };
+  /** 축 캘리브 최소제곱: X1·X2(+X3…)와 Y1·Y2(+Y3…)를 축별로 축 스케일의 변환 공간에서 맞춤. 잔차 라벨은 X1, X3… */
+  const axisCalFits = (idx, pixels: CalPixels = calPixelsByBg[idx], values: CalValues = calValuesByBg[idx]): { x: AxisFit; y: AxisFit } | null => {
+    const st = currentState;
+    if (!st || !pixels?.x1 || !pixels?.x2 || !pixels?.y1 || !pixels?.y2) return null;
+    const tk = calTicksByBg[idx] ?? { x: [], y: [] };
+    const num = v => String(v ?? "").trim() === "" ? NaN : Number(v);
+    const xs = [
+      { pixel: pixels.x1.px, value: num(values.x1), label: "X1" },
+      { pixel: pixels.x2.px, value: num(values.x2), label: "X2" },
+      ...tk.x.map((t, i) => ({ pixel: t.px, value: num(t.value), label: `X${i + 3}` })),
+    ];
+    const ys = [
+      { pixel: pixels.y1.py, value: num(values.y1), label: "Y1" },
+      { pixel: pixels.y2.py, value: num(values.y2), label: "Y2" },
+      ...tk.y.map((t, i) => ({ pixel: t.py, value: num(t.value), label: `Y${i + 3}` })),
+    ];
+    const x = fitAxisTicks(xs, axisScale(st, "x"));
+    const y = fitAxisTicks(ys, axisScale(st, "y"));
+    return x && y ? { x, y } : null;
+  };
+  const fitT = (f: AxisFit, pixel) => f.realOrigin + f.scale * (pixel - f.pixelOrigin);
   const calModel = () => {
     if (!calEnabled) return null;
+    if (calMode === "perspective") {
+      const pm = perspectiveModel(activeBg);
+      return pm && { kind: "perspective" as const, ...pm };
+    }
     const x1 = calPixels.x1, x2 = calPixels.x2, y1 = calPixels.y1, y2 = calPixels.y2;
     if (!x1 || !x2 || !y1 || !y2) return null;
-    const vx1 = Number(calValues.x1), vx2 = Number(calValues.x2), vy1 = Number(calValues.y1), vy2 = Number(calValues.y2);
-    if (![vx1, vx2, vy1, vy2].every(Number.isFinite)) return null;
-    if ((currentState.xLog && (vx1 <= 0 || vx2 <= 0)) || (currentState.yLog && (vy1 <= 0 || vy2 <= 0))) return null;
-    const tx1 = tVal(vx1, currentState.xLog), tx2 = tVal(vx2, currentState.xLog);
-    const ty1 = tVal(vy1, currentState.yLog), ty2 = tVal(vy2, currentState.yLog);
+    const fits = axisCalFits(activeBg);
+    if (!fits) return null;
+    const tx1 = fitT(fits.x, x1.px), tx2 = fitT(fits.x, x2.px);
+    const ty1 = fitT(fits.y, y1.py), ty2 = fitT(fits.y, y2.py);
     if (Math.abs(tx2 - tx1) < EPS || Math.abs(ty2 - ty1) < EPS) return null;
     if (Math.abs(x2.px - x1.px) < EPS || Math.abs(y2.py - y1.py) < EPS) return null;
-    return { tx1, tx2, ty1, ty2, px1: x1.px, px2: x2.px, py1: y1.py, py2: y2.py };
+    return { kind: "axes" as const, tx1, tx2, ty1, ty2, px1: x1.px, px2: x2.px, py1: y1.py, py2: y2.py };
   };
   const dataToPixel = (x, y) => {
-    const tx = tVal(x, currentState.xLog), ty = tVal(y, currentState.yLog);
+    const tx = tVal(x, axisScale(currentState, "x")), ty = tVal(y, axisScale(currentState, "y"));
     const cm = calModel();
+    if (cm?.kind === "perspective") {
+      const p = applyHomography(cm.Hinv, { x: tx, y: ty });
+      return { px: p.x, py: p.y };
+    }
     if (cm) {
       return {
         px: cm.px1 + ((tx - cm.tx1) / (cm.tx2 - cm.tx1)) * (cm.px2 - cm.px1),
@@ -372,17 +596,21 @@ export default function App() {
              py: r.y + r.h - ((ty - mm.ymin) / (mm.ymax - mm.ymin)) * r.h };
   };
   const pixelToData = (px, py) => {
-    const inv = (tv, log) => log ? Math.pow(10, tv) : tv;
+    const xs = axisScale(currentState, "x"), ys = axisScale(currentState, "y");
     const cm = calModel();
+    if (cm?.kind === "perspective") {
+      const t = applyHomography(cm.H, { x: px, y: py });
+      return { x: tInv(t.x, xs), y: tInv(t.y, ys) };
+    }
     if (cm) {
       const tx = cm.tx1 + ((px - cm.px1) / (cm.px2 - cm.px1)) * (cm.tx2 - cm.tx1);
       const ty = cm.ty1 + ((py - cm.py1) / (cm.py2 - cm.py1)) * (cm.ty2 - cm.ty1);
-      return { x: inv(tx, currentState.xLog), y: inv(ty, currentState.yLog) };
+      return { x: tInv(tx, xs), y: tInv(ty, ys) };
     }
     const r = innerRect(), mm = tMinMax();
     const tx = mm.xmin + ((px - r.x) / r.w) * (mm.xmax - mm.xmin);
     const ty = mm.ymin + ((r.y + r.h - py) / r.h) * (mm.ymax - mm.ymin);
-    return { x: inv(tx, currentState.xLog), y: inv(ty, currentState.yLog) };
+    return { x: tInv(tx, xs), y: tInv(ty, ys) };
   };
   const fmtReal = v => {
     if (v == null || !isFinite(v)) return "-";
@@ -394,6 +622,64 @@ export default function App() {
   const setCalClipForBg = (idx, clip) => setCalClipByBg(prev => { const n=[...prev]; n[idx]=clip; return n; });
   const setCalPixelsForBg = (idx, updater) => setCalPixelsByBg(prev => { const n=[...prev]; n[idx]=typeof updater==="function" ? updater(n[idx]) : updater; return n; });
   const setCalValuesForBg = (idx, updater) => setCalValuesByBg(prev => { const n=[...prev]; n[idx]=typeof updater==="function" ? updater(n[idx]) : updater; return n; });
+  const setCalModeForBg = (idx, mode: CalMode) => setCalModeByBg(prev => { const n=[...prev]; n[idx]=mode; return n; });
+  const setCalTicksForBg = (idx, updater) => setCalTicksByBg(prev => { const n=[...prev]; n[idx]=typeof updater==="function" ? updater(n[idx]) : updater; return n; });
+  const setCalRefsForBg = (idx, updater) => setCalRefsByBg(prev => { const n=[...prev]; n[idx]=typeof updater==="function" ? updater(n[idx]) : updater; return n; });
+
+  /** 캘리브 영역(캔버스 px 다각형): 축 모드는 X1·X2·Y1·Y2 사각형, 원근 모드는 기준점 데이터 범위를 화면으로 역투영한 사변형 */
+  const calFramePolygon = idx => {
+    if (!calEnabledByBg[idx]) return null;
+    if (calModeByBg[idx] === "perspective") {
+      const pm = perspectiveModel(idx);
+      if (!pm) return null;
+      const corners = [[pm.tMin.x, pm.tMin.y], [pm.tMax.x, pm.tMin.y], [pm.tMax.x, pm.tMax.y], [pm.tMin.x, pm.tMax.y]];
+      const poly = corners.map(([x, y]) => { const p = applyHomography(pm.Hinv, { x, y }); return { px: p.x, py: p.y }; });
+      return poly.every(p => Number.isFinite(p.px) && Number.isFinite(p.py)) ? poly : null;
+    }
+    const cp = calPixelsByBg[idx];
+    if (!cp?.x1 || !cp?.x2 || !cp?.y1 || !cp?.y2) return null;
+    const left = Math.min(cp.x1.px, cp.x2.px), right = Math.max(cp.x1.px, cp.x2.px);
+    const top = Math.min(cp.y1.py, cp.y2.py), bottom = Math.max(cp.y1.py, cp.y2.py);
+    return [{ px: left, py: top }, { px: right, py: top }, { px: right, py: bottom }, { px: left, py: bottom }];
+  };
+
+  /** 슬롯 이미지의 원본 픽셀(RGBA). 이미지 객체별로 캐시 */
+  const bgSourceRaster = (idx): Raster | null => {
+    const img = bgRefs.current[idx];
+    if (!img) return null;
+    const cached = rasterCacheRef.current.get(img);
+    if (cached) return cached;
+    try {
+      const w = img.naturalWidth || img.width, h = img.naturalHeight || img.height;
+      const c = document.createElement("canvas"); c.width = w; c.height = h;
+      const ctx = c.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return null;
+      ctx.drawImage(img, 0, 0, w, h);
+      const raster = { data: ctx.getImageData(0, 0, w, h).data, width: w, height: h };
+      rasterCacheRef.current.set(img, raster);
+      return raster;
+    } catch { return null; }
+  };
+
+  const setFiltersForBg = (idx, patch: Partial<ImageFilters>) => setFiltersByBg(prev => { const n=[...prev]; n[idx]={ ...n[idx], ...patch }; return n; });
+
+  /** 슬롯 필터 결과(래스터 + 그리기용 캔버스). 필터가 없으면 null, 이미지·필터가 같으면 캐시 재사용 */
+  const filteredBg = idx => {
+    const img = bgRefs.current[idx], key = imageFiltersKey(filtersByBg[idx]);
+    if (!img || !key) return null;
+    const hit = filteredBgRef.current[idx];
+    if (hit && hit.img === img && hit.key === key) return hit;
+    const src = bgSourceRaster(idx);
+    if (!src) return null;
+    const raster = applyImageFilters(src, filtersByBg[idx]);
+    const canvas = document.createElement("canvas"); canvas.width = raster.width; canvas.height = raster.height;
+    const cctx = canvas.getContext("2d");
+    if (cctx) { const out = cctx.createImageData(raster.width, raster.height); out.data.set(raster.data); cctx.putImageData(out, 0, 0); }
+    filteredBgRef.current[idx] = { img, key, raster, canvas };
+    return filteredBgRef.current[idx];
+  };
+  /** 추적·격자 인식용 픽셀: 필터가 켜져 있으면 필터 적용본 */
+  const bgRaster = (idx): Raster | null => filteredBg(idx)?.raster ?? bgSourceRaster(idx);
 
   /* image base/anchor */
   const baseRect = idx => {
@@ -417,11 +703,227 @@ export default function App() {
     return { dx, dy, dw, dh, ax, ay, fx, fy, baseW: base.w, baseH: base.h };
   };
 
+  /** 활성 슬롯 이미지 px ↔ 캔버스 px 변환과 캘리브 클립 범위(이미지 px) */
+  const activeBgFrame = () => {
+    const raster = bgRaster(activeBg);
+    if (!raster) return null;
+    const { dx, dy, dw, dh } = drawRectAndAnchor(activeBg);
+    if (Math.abs(dw) < EPS || Math.abs(dh) < EPS) return null;
+    const toImg = (px, py) => ({ x: (px - dx) / dw * raster.width, y: (py - dy) / dh * raster.height });
+    const toCanvas = (p: { x: number; y: number }) => ({ px: dx + p.x / raster.width * dw, py: dy + p.y / raster.height * dh });
+    let bounds: Bounds | null = null;
+    const frame = calClip ? calFramePolygon(activeBg) : null;
+    if (frame) {
+      const pts = frame.map(p => toImg(p.px, p.py));
+      bounds = { x0: Math.min(...pts.map(p => p.x)), y0: Math.min(...pts.map(p => p.y)), x1: Math.max(...pts.map(p => p.x)), y1: Math.max(...pts.map(p => p.y)) };
+    }
+    return { raster, toImg, toCanvas, bounds, pxPerImg: Math.abs(dw) / raster.width };
+  };
+
+  /**
+   * 활성 슬롯에서 seed 위치의 곡선을 색으로 추적 → 데이터 좌표 미리보기 점.
+   * 간격(traceStep)은 로그 축이면 decade, 그 밖의 축은 변환 공간 축 범위의 1/10 단위의 곡선 길이.
+   */
+  const computeTrace = (seed, colorHex) => {
+    const frame = activeBgFrame(), color = parseHexColor(colorHex);
+    if (!seed || !frame || !color) return [];
+    const line = traceCurve(frame.raster, frame.toImg(seed.px, seed.py), color, { tolerance: traceTolerance, bounds: frame.bounds });
+    const st = currentState;
+    const xs = axisScale(st, "x"), ys = axisScale(st, "y");
+    const unitX = xs === "log10" ? 1 : Math.abs(tVal(st.xMax, xs) - tVal(st.xMin, xs)) / 10 || 1;
+    const unitY = ys === "log10" ? 1 : Math.abs(tVal(st.yMax, ys) - tVal(st.yMin, ys)) / 10 || 1;
+    const tPts = line.map(p => {
+      const c = frame.toCanvas(p);
+      const d = pixelToData(c.px, c.py);
+      return { x: tVal(d.x, xs) / unitX, y: tVal(d.y, ys) / unitY };
+    });
+    return resamplePolyline(tPts, traceStep)
+      .map(p => ({ x: tInv(p.x * unitX, xs), y: tInv(p.y * unitY, ys) }))
+      .filter(p => isFinite(p.x) && isFinite(p.y) && inDomain(p.x, xs) && inDomain(p.y, ys));
+  };
+  /* 데이터 좌표는 축·캘리브·이미지 배치에도 의존 — 미리보기 중 바뀌면 다시 추적 */
+  useEffect(() => {
+    if (!currentState || !traceSeed) { setTracePreview([]); return; }
+    setTracePreview(computeTrace(traceSeed, traceColor));
+  }, [traceSeed, traceColor, traceTolerance, traceStep, activeBg, filtersByBg,
+      currentState?.xMin, currentState?.xMax, currentState?.yMin, currentState?.yMax, currentState?.xLog, currentState?.yLog, currentState?.xScale, currentState?.yScale,
+      currentState?.bgXform, currentState?.customAnchors, bgList, keepAspect,
+      calEnabledByBg, calClipByBg, calPixelsByBg, calValuesByBg, calModeByBg, calRefsByBg, calTicksByBg]);
+
+  /** 스냅 모드: 캔버스 점을 반경 안 가장 가까운 곡선 선(snapColor)의 중심선으로. 없으면 null */
+  const snapPointToCurve = (px, py) => {
+    if (!snapOn || !bgRefs.current[activeBg] || !showBgs[activeBg]) return null;
+    const frame = activeBgFrame(), color = parseHexColor(snapColor);
+    if (!frame || !color) return null;
+    const hit = snapToStroke(frame.raster, frame.toImg(px, py), color, snapTolerance, snapRadius / frame.pxPerImg, frame.bounds);
+    return hit ? frame.toCanvas(hit) : null;
+  };
+
+  const startTraceAt = (px, py) => {
+    const raster = bgRaster(activeBg);
+    if (!raster) { notify("활성 슬롯에 이미지를 먼저 불러오세요", "err"); return; }
+    const { dx, dy, dw, dh } = drawRectAndAnchor(activeBg);
+    const picked = sampleStrokeColor(raster, { x: (px - dx) / dw * raster.width, y: (py - dy) / dh * raster.height });
+    if (!picked) { notify("이미지 밖을 클릭했습니다", "err"); return; }
+    setTraceColor(toHexColor(picked));
+    setTraceSeed({ px, py });
+  };
+  const cancelTrace = () => { setTraceSeed(null); setTracePreview([]); };
+  const applyTrace = () => {
+    /* 미리보기 이후 바뀐 축·캘리브를 반영하도록 적용 시점에 다시 추적 */
+    const pts = traceSeed ? computeTrace(traceSeed, traceColor) : [];
+    if (!pts.length) { notify("추적된 점이 없습니다. 색상·허용오차를 조정하세요", "err"); return; }
+    updateState(prev => ({
+      ...prev,
+      series: prev.series.map((s, i) =>
+        i !== activeSeries ? s : { ...s, points: [...s.points, ...pts].sort((a, b) => a.x - b.x) }
+      ),
+    }));
+    notify(`${pts.length}개 포인트 추적 추가 (시리즈 ${currentState.series[activeSeries]?.name})`);
+    cancelTrace();
+  };
+
+  /** Resample(log x 등간격) / Decimate(Douglas–Peucker, decade 허용오차) 미리보기 */
+  const previewResample = (kind: "resample" | "decimate") => {
+    const s = currentState.series[activeSeries];
+    if (!s || s.points.length < 2) { notify("점이 2개 이상인 시리즈를 선택하세요", "err"); return; }
+    const scaleIssues = linLogScaleIssues();
+    if (scaleIssues.length) { notify(`Resample·Decimate는 선형·log10 축만 지원합니다 (${scaleIssues.join(", ")})`, "err"); return; }
+    const axes = { xLog: currentState.xLog, yLog: currentState.yLog };
+    const before = s.points.map(p => ({ ...p }));
+    const points = kind === "resample" ? resampleEvenX(before, resampleCount, axes) : decimatePolyline(before, decimateTolerance, axes);
+    if (points.length < 2) { notify("결과 점이 부족합니다 (log 축은 양수 좌표만 사용)", "err"); return; }
+    setResamplePreview({ series: activeSeries, source: s.points, kind, points, before, maxDev: maxDeviation(before, points, axes) });
+  };
+  const cancelResample = () => setResamplePreview(null);
+
+  /** 곡선 모델: 점이 바뀐 뒤의 모델은 무효(null) → 보간으로 대체 */
+  const currentModel = (s): CurveModel | null =>
+    s?.model && s.model.signature === curveModelSignature(s.points) ? s.model : null;
+
+  /** 제품 허용오차 밴드 (예전 ±10/15% 값 포함) */
+  const seriesBand = (s): ToleranceBand | null => normalizeToleranceBand(s?.toleranceBand, s?.tolerancePercent);
+  const setActiveSeriesBand = (band: ToleranceBand | null) => {
+    updateState(prev => ({ ...prev, series: prev.series.map((x, i) => i === activeSeries ? { ...x, toleranceBand: band ?? undefined, tolerancePercent: 0 } : x) }));
+  };
+  /** 밴드 가장자리 곡선을 일반 시리즈로 추가 (CSV·라이브러리 내보내기용) */
+  const addBandEdgeSeries = () => {
+    const s = currentState.series[activeSeries], band = seriesBand(s);
+    if (!s || !band || s.points.length < 2) { notify("허용오차 밴드와 점이 2개 이상인 시리즈가 필요합니다", "err"); return; }
+    if (currentState.series.length + 2 > MAX_SERIES) { notify(`최대 ${MAX_SERIES}개 곡선까지 가능합니다`, "err"); return; }
+    const edges = bandEdgeCurves(s.points.slice().sort((a, b) => a.x - b.x), band);
+    const start = currentState.series.length, label = describeToleranceBand(band);
+    const added = (["max", "min"] as const).map((edge, k) => ({
+      name: `${s.name} ${edge} (${label})`,
+      color: seriesColor(start + k),
+      points: edges[edge],
+      visible: true,
+      crossLines: true,
+      specs: { ...EMPTY_PRODUCT_SPECS },
+    }));
+    updateState(prev => ({ ...prev, series: [...prev.series, ...added] }));
+    notify(`${s.name}: 밴드 곡선 2개를 시리즈로 추가 (${label})`);
+  };
+
+  /** 선택한 시리즈들의 log 평균 → 새 시리즈 (min–max 편차 밴드와 반복성 지표 포함) */
+  const createConsensusSeries = () => {
+    const picked = consensusPick.filter(i => currentState.series[i]?.points.length >= 2);
+    if (picked.length < 2) { notify("점이 2개 이상인 시리즈를 2개 이상 선택하세요", "err"); return; }
+    if (currentState.series.length >= MAX_SERIES) { notify(`최대 ${MAX_SERIES}개 곡선까지 가능합니다`, "err"); return; }
+    const scaleIssues = linLogScaleIssues();
+    if (scaleIssues.length) { notify(`합의 곡선은 선형·log10 축만 지원합니다 (${scaleIssues.join(", ")})`, "err"); return; }
+    const result = consensusCurve(picked.map(i => currentState.series[i].points), consensusCount, { xLog: currentState.xLog, yLog: currentState.yLog });
+    if (!result) { notify("선택한 시리즈들의 전류 범위가 겹치지 않습니다", "err"); return; }
+    const sources = picked.map(i => currentState.series[i].name);
+    const idx = currentState.series.length;
+    const points = result.points;
+    updateState(prev => ({
+      ...prev,
+      series: [...prev.series, {
+        name: `Consensus (${sources.join(", ")})`,
+        color: seriesColor(idx),
+        points,
+        basePoints: points.map(p => ({ ...p })),
+        shiftMultiplier: 1,
+        visible: true,
+        crossLines: true,
+        consensus: { ...result.stats, sources },
+        specs: { ...EMPTY_PRODUCT_SPECS },
+      }],
+    }));
+    setActiveSeries(idx);
+    notify(`Consensus: ${picked.length}개 평균 · ${points.length}점 · 편차 RMS ±${result.stats.rmsPct.toFixed(1)}% / max ±${result.stats.maxPct.toFixed(1)}%`);
+  };
+
+  const fitActiveSeriesModel = () => {
+    const s = currentState.series[activeSeries];
+    if (!s) return;
+    const model = fitCurveModel(s.points, modelKind, { segments: modelSegments, knots: modelKnots });
+    if (!model) { notify("양수 좌표 점이 3개 이상 필요합니다", "err"); return; }
+    updateState(prev => ({ ...prev, series: prev.series.map((x, i) => i === activeSeries ? { ...x, model } : x) }));
+    notify(`${s.name}: ${CURVE_MODEL_LABELS[model.kind]} · RMS ${(model.rmsDecades * 1000).toFixed(1)} mdec · max ${model.maxPct.toFixed(1)}%`);
+  };
+  const removeActiveSeriesModel = () => {
+    updateState(prev => ({ ...prev, series: prev.series.map((x, i) => i === activeSeries ? { ...x, model: undefined } : x) }));
+  };
+  const exportActiveSeriesModel = () => {
+    const s = currentState.series[activeSeries], model = currentModel(s);
+    if (!model) { notify("내보낼 최신 모델이 없습니다. 먼저 Fit 하세요", "err"); return; }
+    const body = { series: s.name, model: model.kind, label: CURVE_MODEL_LABELS[model.kind], formula: describeCurveModel(model), ...model };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(body, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a"); a.href = url; a.download = `${(s.name || "series").replace(/[^a-zA-Z0-9가-힣._-]/g, "_")}_model.json`; a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+  /* a preview is only valid for the exact points it was made from */
+  useEffect(() => {
+    setResamplePreview(pv => pv && (pv.series !== activeSeries || currentState?.series[pv.series]?.points !== pv.source) ? null : pv);
+  }, [activeSeries, currentState?.series[activeSeries]?.points]);
+  const applyResample = () => {
+    const pv = resamplePreview;
+    if (!pv) return;
+    if (pv.series !== activeSeries || currentState.series[pv.series]?.points !== pv.source) {
+      notify("시리즈가 바뀌었습니다. 미리보기를 다시 만드세요", "err");
+      setResamplePreview(null);
+      return;
+    }
+    const points = pv.points.map(p => ({ ...p }));
+    updateState(prev => ({
+      ...prev,
+      series: prev.series.map((s, i) => i !== pv.series ? s : { ...s, points, basePoints: points.map(p => ({ ...p })), shiftMultiplier: 1 }),
+    }));
+    notify(`${currentState.series[pv.series]?.name}: ${pv.before.length} → ${points.length}점 (${pv.kind === "resample" ? "resample" : "decimate"})`);
+    setResamplePreview(null);
+  };
+
+  /** 물리적 타당성 검사: 단조성·기울기 급변·decade 간격·축 범위·캘리브 영역 (슬롯 이미지가 있는 시리즈만 영역 검사, 선형·log10 축에서만) */
+  const seriesIssues = (si: number): CurveIssue[] => {
+    const s = currentState?.series[si];
+    if (!s || linLogScaleIssues().length) return [];
+    const frame = si < MAX_BG && bgRefs.current[si] ? calFramePolygon(si) : null;
+    return validateCurve(s.points, {
+      xLog: currentState.xLog, yLog: currentState.yLog,
+      range: {
+        xMin: Math.min(currentState.xMin, currentState.xMax), xMax: Math.max(currentState.xMin, currentState.xMax),
+        yMin: Math.min(currentState.yMin, currentState.yMax), yMax: Math.max(currentState.yMin, currentState.yMax),
+      },
+      slopeLimitDeg: lintSlopeLimit,
+      maxGapDecades: lintMaxGap,
+      insideImage: frame ? p => pointInPolygon(dataToPixel(p.x, p.y), frame) : undefined,
+    });
+  };
+  const jumpToPoint = (si: number, pointIndex: number | null) => {
+    setActiveSeries(si);
+    if (si < MAX_BG) setActiveBg(si);
+    const point = pointIndex == null ? null : { seriesIndex: si, pointIndex };
+    setSelectedPoint(point);
+    setSelectedPoints(point ? [point] : []);
+  };
+
   /**
    * Axes Min/Max 격자에 맞춘 배경 변환 + 캘리브 픽셀. silent=true면 실패 시 null만 반환(축 변경 자동 맞춤용).
    * @returns {{ sx, sy, offX, offY, calPixels: CalPixels } | null}
    */
-  const computeCalibrationFitToAxes = (bgIdx, silent) => {
+  const computeCalibrationFitToAxes = (bgIdx, silent, override?: { pixels: CalPixels; values: CalValues }) => {
     const st = currentState;
     if (!st) return null;
     const img = bgRefs.current[bgIdx];
@@ -429,15 +931,19 @@ export default function App() {
       if (!silent) notify('이 슬롯에 이미지를 먼저 불러오세요', 'err');
       return null;
     }
-    const cp = calPixelsByBg[bgIdx];
-    const cv = calValuesByBg[bgIdx];
+    if (calModeByBg[bgIdx] === "perspective" && !override) {
+      if (!silent) notify('원근 캘리브는 기준점이 직접 좌표를 정하므로 축 맞춤을 쓰지 않습니다', 'err');
+      return null;
+    }
+    const cp = override?.pixels ?? calPixelsByBg[bgIdx];
+    const cv = override?.values ?? calValuesByBg[bgIdx];
     const vx1 = Number(cv.x1), vx2 = Number(cv.x2), vy1 = Number(cv.y1), vy2 = Number(cv.y2);
     if (!cp?.x1 || !cp?.x2 || !cp?.y1 || !cp?.y2 || ![vx1, vx2, vy1, vy2].every(Number.isFinite)) {
       if (!silent) notify('캘리브 4점을 찍고 숫자 값을 모두 입력하세요', 'err');
       return null;
     }
-    if ((st.xLog && (vx1 <= 0 || vx2 <= 0)) || (st.yLog && (vy1 <= 0 || vy2 <= 0))) {
-      if (!silent) notify('로그 축에는 양수 값만 사용할 수 있습니다', 'err');
+    if (![vx1, vx2].every(v => inDomain(v, axisScale(st, "x"))) || ![vy1, vy2].every(v => inDomain(v, axisScale(st, "y")))) {
+      if (!silent) notify(`축 스케일 범위 밖의 값입니다 (X ${getAxisTransform(axisScale(st, "x")).label}, Y ${getAxisTransform(axisScale(st, "y")).label})`, 'err');
       return null;
     }
     const { dx, dy, dw, dh } = drawRectAndAnchor(bgIdx);
@@ -456,10 +962,10 @@ export default function App() {
 
     const r = innerRect();
     const mm = {
-      xmin: tVal(st.xMin, st.xLog),
-      xmax: tVal(st.xMax, st.xLog),
-      ymin: tVal(st.yMin, st.yLog),
-      ymax: tVal(st.yMax, st.yLog),
+      xmin: tVal(st.xMin, axisScale(st, "x")),
+      xmax: tVal(st.xMax, axisScale(st, "x")),
+      ymin: tVal(st.yMin, axisScale(st, "y")),
+      ymax: tVal(st.yMax, axisScale(st, "y")),
     };
     if (!(mm.xmax > mm.xmin && mm.ymax > mm.ymin)) {
       if (!silent) notify('Axes 축 범위(X/Y Min·Max)를 확인하세요', 'err');
@@ -467,8 +973,10 @@ export default function App() {
     }
     const pxAt = tx => r.x + ((tx - mm.xmin) / (mm.xmax - mm.xmin)) * r.w;
     const pyAt = ty => r.y + r.h - ((ty - mm.ymin) / (mm.ymax - mm.ymin)) * r.h;
-    const tx1 = tVal(vx1, st.xLog), tx2 = tVal(vx2, st.xLog);
-    const ty1 = tVal(vy1, st.yLog), ty2 = tVal(vy2, st.yLog);
+    /* 추가 눈금이 있으면 최소제곱 직선에서 X1·X2·Y1·Y2 위치의 값을 사용 */
+    const fits = override ? null : axisCalFits(bgIdx);
+    const tx1 = fits ? fitT(fits.x, cp.x1.px) : tVal(vx1, axisScale(st, "x")), tx2 = fits ? fitT(fits.x, cp.x2.px) : tVal(vx2, axisScale(st, "x"));
+    const ty1 = fits ? fitT(fits.y, cp.y1.py) : tVal(vy1, axisScale(st, "y")), ty2 = fits ? fitT(fits.y, cp.y2.py) : tVal(vy2, axisScale(st, "y"));
     const pxT1 = pxAt(tx1), pxT2 = pxAt(tx2);
     const pyT1 = pyAt(ty1), pyT2 = pyAt(ty2);
 
@@ -523,14 +1031,18 @@ export default function App() {
         y1: remap(cp.y1),
         y2: remap(cp.y2),
       },
+      calTicks: {
+        x: (calTicksByBg[bgIdx]?.x ?? []).map(t => ({ ...t, ...remap(t) })),
+        y: (calTicksByBg[bgIdx]?.y ?? []).map(t => ({ ...t, ...remap(t) })),
+      },
     };
   };
 
   /** 캘리브로 찍은 이미지 위 점을 Axes 패널의 격자(축 한계) 좌표계에 맞게 배경 스케일·이동 + 캘리브 픽셀 동기화 */
-  const fitImageToAxesCalibration = bgIdx => {
-    const res = computeCalibrationFitToAxes(bgIdx, false);
-    if (!res) return;
-    const { sx, sy, offX, offY, calPixels } = res;
+  const fitImageToAxesCalibration = (bgIdx, override?: { pixels: CalPixels; values: CalValues }) => {
+    const res = computeCalibrationFitToAxes(bgIdx, false, override);
+    if (!res) return false;
+    const { sx, sy, offX, offY, calPixels, calTicks } = res;
     updateState(prev => {
       const nxf = [...prev.bgXform];
       const cur = nxf[bgIdx] || { sx: 1, sy: 1, offX: 0, offY: 0 };
@@ -538,15 +1050,79 @@ export default function App() {
       return { ...prev, bgXform: nxf };
     });
     setCalPixelsForBg(bgIdx, calPixels);
+    setCalTicksForBg(bgIdx, calTicks);
     setTick(t => t + 1);
     notify('Axes 격자에 이미지·캘리브 점을 맞췄습니다');
+    return true;
+  };
+
+  /** 자동 캘리브 제안(이미지 px) → 현재 배경 변환 기준 캔버스 캘리브 픽셀 */
+  const autoCalPixels = (ac): CalPixels => {
+    const { dx, dy, dw, dh } = drawRectAndAnchor(ac.bg);
+    const meta = bgList[ac.bg];
+    const cx = ix => dx + (ix / meta.w) * dw, cy = iy => dy + (iy / meta.h) * dh;
+    return {
+      x1: { px: cx(ac.ix[0]), py: cy(ac.iy[0]) },
+      x2: { px: cx(ac.ix[1]), py: cy(ac.iy[0]) },
+      y1: { px: cx(ac.ix[0]), py: cy(ac.iy[0]) },
+      y2: { px: cx(ac.ix[0]), py: cy(ac.iy[1]) },
+    };
+  };
+
+  /** 슬롯 이미지의 격자선을 인식해 X1/X2/Y1/Y2 위치와 decade 값을 제안(적용은 확인 후) */
+  const proposeAutoCalibration = bgIdx => {
+    const st = currentState;
+    const raster = bgRaster(bgIdx);
+    if (!st || !raster || !bgList[bgIdx]) { notify('이 슬롯에 이미지를 먼저 불러오세요', 'err'); return; }
+    const xScale = axisScale(st, "x"), yScale = axisScale(st, "y");
+    const grid = detectGrid(raster, { xLog: xScale === "log10", yLog: yScale === "log10" });
+    if (!grid.x || grid.x.majors.length < 2 || !grid.y || grid.y.majors.length < 2) {
+      setAutoCal(null);
+      notify('격자선을 인식하지 못했습니다. 4점을 직접 찍어주세요', 'err');
+      return;
+    }
+    /* 이미지 px → 표시 크기(bgList) 기준으로 통일 */
+    const kx = bgList[bgIdx].w / raster.width, ky = bgList[bgIdx].h / raster.height;
+    const xm = grid.x.majors.map(v => v * kx), ym = grid.y.majors.map(v => v * ky);
+    /* decade 지수는 Axes Min에서 추정, 그 외 눈금은 양 끝 격자선 = Axes Min/Max — 그림 눈금 숫자와 다르면 사용자가 수정 */
+    const guess = (fit: GridAxisFit, min, max, scale) => {
+      const steps = fit.majors.length - 1;
+      if (scale !== "log10") return [String(min), String(max)];
+      const e = Math.round(Math.log10(min));
+      return [String(10 ** e), String(10 ** (e + steps))];
+    };
+    const [x1, x2] = guess(grid.x, st.xMin, st.xMax, xScale);
+    const [y1, y2] = guess(grid.y, st.yMin, st.yMax, yScale);
+    const describe = (fit: GridAxisFit, scale) =>
+      `${fit.pattern === "log-sublines" ? "log 1–9 보조선" : "등간격"} · ${scale === "log10" ? `${fit.majors.length - 1} decade` : `${fit.majors.length - 1} 칸`} (${scale === "linear" || scale === "log10" ? "" : `${getAxisTransform(scale).label}, `}${Math.round(fit.spacing)} px)`;
+    setAutoCal({
+      bg: bgIdx,
+      ix: [xm[0], xm[xm.length - 1]],
+      iy: [ym[0], ym[ym.length - 1]],
+      values: { x1, x2, y1, y2 },
+      xMajors: xm, yMajors: ym,
+      summary: `X: ${describe(grid.x, xScale)} / Y: ${describe(grid.y, yScale)}`,
+    });
+    setCalPick(null);
+    notify('격자를 인식했습니다. 값 확인 후 적용하세요');
+  };
+
+  const confirmAutoCalibration = () => {
+    if (!autoCal) return;
+    const pixels = autoCalPixels(autoCal), values = autoCal.values;
+    setCalEnabledForBg(autoCal.bg, true);
+    setCalModeForBg(autoCal.bg, "axes");
+    setCalValuesForBg(autoCal.bg, values);
+    setCalPixelsForBg(autoCal.bg, pixels);
+    fitImageToAxesCalibration(autoCal.bg, { pixels, values });
+    setAutoCal(null);
   };
 
   /** Axes 변경 시: 캘리브 켜진 슬롯마다 이미지·기준점을 새 격자에 맞춤(히스토리 추가 없음) */
   const axesCalRefitKeyRef = useRef(null);
   useEffect(() => {
     if (!currentState) return;
-    const key = `${currentState.xMin}|${currentState.xMax}|${currentState.yMin}|${currentState.yMax}|${currentState.xLog}|${currentState.yLog}`;
+    const key = `${currentState.xMin}|${currentState.xMax}|${currentState.yMin}|${currentState.yMax}|${axisScale(currentState, "x")}|${axisScale(currentState, "y")}`;
     if (axesCalRefitKeyRef.current === null) {
       axesCalRefitKeyRef.current = key;
       return;
@@ -561,6 +1137,7 @@ export default function App() {
       y1: p.y1 ? { ...p.y1 } : null,
       y2: p.y2 ? { ...p.y2 } : null,
     }));
+    const nextTicks = [...calTicksByBg];
     let any = false;
     for (let bgIdx = 0; bgIdx < MAX_BG; bgIdx++) {
       if (!calEnabledByBg[bgIdx]) continue;
@@ -569,14 +1146,16 @@ export default function App() {
       const cur = nextXf[bgIdx] || { sx: 1, sy: 1, offX: 0, offY: 0 };
       nextXf[bgIdx] = { ...cur, sx: res.sx, sy: res.sy, offX: res.offX, offY: res.offY };
       nextCal[bgIdx] = res.calPixels;
+      nextTicks[bgIdx] = res.calTicks;
       any = true;
     }
     if (!any) return;
     updateStateInPlace(p => ({ ...p, bgXform: nextXf }));
     setCalPixelsByBg(nextCal);
+    setCalTicksByBg(nextTicks);
     setTick(t => t + 1);
     /* 축 6필드가 바뀐 뒤에만 위 로직이 실행되도록, cal 픽셀 갱신으로 인한 재실행은 key 동일로 상단에서 return */
-  }, [currentState?.xMin, currentState?.xMax, currentState?.yMin, currentState?.yMax, currentState?.xLog, currentState?.yLog, calEnabledByBg, calPixelsByBg, calValuesByBg]);
+  }, [currentState?.xMin, currentState?.xMax, currentState?.yMin, currentState?.yMax, currentState?.xLog, currentState?.yLog, currentState?.xScale, currentState?.yScale, calEnabledByBg, calPixelsByBg, calValuesByBg, calTicksByBg]);
 
   /* image load — 파일·캡처·URL 등 data URL / blob URL 공통 */
   const loadImageFromSrc = (idx, src) => {
@@ -590,7 +1169,7 @@ export default function App() {
           bgXform[idx] = { sx: 1, sy: 1, offX: 0, offY: 0 };
           customAnchors[idx] = null;
           return { ...prev, bgXform, customAnchors };
-        });
+        }, false, `Loaded image (slot ${idx + 1})`);
         setBgList(cur => { const n = [...cur]; n[idx] = { w: img.width, h: img.height }; return n; });
         setShowBgs(cur => { const n = [...cur]; n[idx] = true; return n; });
         setOpacityBgs(cur => { const n = [...cur]; if (!(n[idx] > 0)) n[idx] = BG_DEFAULT_OPACITY[idx] ?? 1; return n; });
@@ -598,6 +1177,9 @@ export default function App() {
         setCalClipForBg(idx, false);
         setCalPixelsForBg(idx, { x1: null, x2: null, y1: null, y2: null });
         setCalValuesForBg(idx, { x1: "", x2: "", y1: "", y2: "" });
+        setCalModeForBg(idx, "axes");
+        setCalRefsForBg(idx, []);
+        setCalTicksForBg(idx, { x: [], y: [] });
         setTick(t => t + 1);
         resolve(true);
       };
@@ -606,14 +1188,201 @@ export default function App() {
     });
   };
 
+  const isPdfFile = file => !!file && (file.type === "application/pdf" || /\.pdf$/i.test(file.name || ""));
+
   const onFile = (file, idx) => {
-    if (!file || !/^image\//.test(file.type)) { notify("Image files only", "err"); return; }
+    if (readOnlyRef.current) { notify("읽기 전용 스냅샷입니다. '사본으로 편집'을 누르세요", "err"); return; }
+    if (isPdfFile(file)) { openPdfImport(file, idx); return; }
+    if (!file || !/^image\//.test(file.type)) { notify("Image or PDF files only", "err"); return; }
     const fr = new FileReader();
     fr.onload = () => loadImageFromSrc(idx, String(fr.result || ""));
     fr.onerror = () => { try { loadImageFromSrc(idx, URL.createObjectURL(file)); } catch { notify("Image load failed", "err"); } };
     fr.readAsDataURL(file);
   };
 
+  /** PDF 데이터시트 → 페이지 선택 대화상자 열기 (썸네일은 순서대로 채움) */
+  const openPdfImport = async (file, idx) => {
+    let doc: PDFDocumentProxy = null;
+    try {
+      doc = await openPdf(await file.arrayBuffer());
+    } catch (err) {
+      notify(`PDF open failed: ${err?.message || err}`, "err");
+      return;
+    }
+    pdfImport?.doc?.destroy();
+    const pageCount = doc.numPages;
+    setPdfImport({ slot: idx, fileName: file.name || "document.pdf", doc, pageCount, thumbs: Array(pageCount).fill(null), page: 1, dpi: 200, crop: null, preview: null, busy: false });
+    for (let page = 1; page <= Math.min(pageCount, PDF_MAX_THUMBS); page++) {
+      try {
+        const { url } = await renderPdfPage(doc, page, { dpi: 72, maxSize: 140 });
+        let open = true;
+        setPdfImport(cur => {
+          if (cur?.doc !== doc) { open = false; return cur; }
+          const thumbs = [...cur.thumbs]; thumbs[page - 1] = url;
+          return { ...cur, thumbs };
+        });
+        if (!open) return;
+      } catch {
+        return; // document destroyed (dialog closed) or page unreadable
+      }
+    }
+  };
+
+  const closePdfImport = () => {
+    pdfImport?.doc?.destroy();
+    pdfCropDragRef.current = null;
+    setPdfImport(null);
+  };
+
+  const confirmPdfImport = async () => {
+    const job = pdfImport;
+    if (!job || job.busy) return;
+    setPdfImport(cur => cur && { ...cur, busy: true });
+    try {
+      const out = await renderPdfPage(job.doc, job.page, { dpi: job.dpi, crop: job.crop });
+      const ok = await loadImageFromSrc(job.slot, out.url);
+      if (!ok) { setPdfImport(cur => cur && { ...cur, busy: false }); return; }
+      const source: PdfSource = { kind: "pdf", fileName: job.fileName, page: job.page, dpi: out.dpi, crop: job.crop };
+      setBgList(cur => { const n = [...cur]; if (n[job.slot]) n[job.slot] = { ...n[job.slot], source }; return n; });
+      notify(`PDF p.${job.page} → ${BG_LABELS[job.slot]} (${out.width}×${out.height}, ${out.dpi} dpi)`);
+      if (out.dpi < job.dpi) notify(`Resolution capped at ${out.dpi} dpi (image too large)`, "err");
+      closePdfImport();
+    } catch (err) {
+      notify(`PDF render failed: ${err?.message || err}`, "err");
+      setPdfImport(cur => cur && { ...cur, busy: false });
+    }
+  };
+
+  /** 크롭 드래그: 미리보기 좌표 → 페이지 비율(0..1) */
+  const pdfPreviewFrac = e => {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: Math.min(1, Math.max(0, (e.clientX - r.left) / r.width)), y: Math.min(1, Math.max(0, (e.clientY - r.top) / r.height)) };
+  };
+  const pdfCropFromDrag = (a, b): PdfCrop | null => {
+    const crop = { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) };
+    return crop.w > 0.01 && crop.h > 0.01 ? crop : null;
+  };
+
+  /* 선택 페이지 미리보기 (크롭 지정용, 저해상도) */
+  useEffect(() => {
+    const doc = pdfImport?.doc, page = pdfImport?.page;
+    if (!doc || !page) return;
+    let cancelled = false;
+    setPdfImport(cur => cur && { ...cur, preview: null });
+    renderPdfPage(doc, page, { dpi: 150, maxSize: 560 })
+      .then(({ url }) => { if (!cancelled) setPdfImport(cur => cur?.doc === doc && cur.page === page ? { ...cur, preview: url } : cur); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [pdfImport?.doc, pdfImport?.page]);
+
+  /** 벡터 추출: PDF 페이지 경로 + 미리보기 이미지 (같은 72dpi 좌표계) */
+  const loadVectorPdfPage = async (doc: PDFDocumentProxy, page: number) => {
+    const [data, shot] = await Promise.all([extractPdfPaths(doc, page), renderPdfPage(doc, page, { dpi: 150, maxSize: 1400 })]);
+    return { data, preview: shot.url };
+  };
+
+  const openVectorImport = async (file: File) => {
+    const st = currentState;
+    const values = { x1: String(st.xMin), x2: String(st.xMax), y1: String(st.yMin), y2: String(st.yMax) };
+    const base = { fileName: file.name || "chart", page: 1, pageCount: 1, doc: null, region: null, roles: {}, tool: "region", values };
+    try {
+      if (isPdfFile(file)) {
+        const doc = await openPdf(await file.arrayBuffer());
+        const { data, preview } = await loadVectorPdfPage(doc, 1);
+        setVectorImport({ ...base, doc, pageCount: doc.numPages, data, preview });
+      } else {
+        const text = await file.text();
+        const data = parseSvgPaths(text);
+        setVectorImport({ ...base, data, preview: "data:image/svg+xml;charset=utf-8," + encodeURIComponent(text) });
+      }
+    } catch (err) {
+      notify(`Vector import failed: ${err?.message || err}`, "err");
+    }
+  };
+
+  /** PDF 불러오기 대화상자에서 같은 문서·페이지로 벡터 추출 열기 (문서는 넘겨받음) */
+  const openVectorFromPdfImport = async () => {
+    const job = pdfImport;
+    if (!job || job.busy) return;
+    setPdfImport(null);
+    const st = currentState;
+    try {
+      const { data, preview } = await loadVectorPdfPage(job.doc, job.page);
+      setVectorImport({
+        fileName: job.fileName, doc: job.doc, page: job.page, pageCount: job.pageCount, data, preview, roles: {}, tool: "region",
+        region: job.crop ? { x0: job.crop.x * data.width, y0: job.crop.y * data.height, x1: (job.crop.x + job.crop.w) * data.width, y1: (job.crop.y + job.crop.h) * data.height } : null,
+        values: { x1: String(st.xMin), x2: String(st.xMax), y1: String(st.yMin), y2: String(st.yMax) },
+      });
+    } catch (err) {
+      job.doc.destroy();
+      notify(`Vector import failed: ${err?.message || err}`, "err");
+    }
+  };
+
+  const setVectorPage = async (page: number) => {
+    const job = vectorImport;
+    if (!job?.doc || page < 1 || page > job.pageCount || page === job.page) return;
+    try {
+      const { data, preview } = await loadVectorPdfPage(job.doc, page);
+      setVectorImport(cur => cur?.doc === job.doc ? { ...cur, page, data, preview, region: null, roles: {} } : cur);
+    } catch (err) {
+      notify(`PDF page ${page}: ${err?.message || err}`, "err");
+    }
+  };
+
+  const closeVectorImport = () => {
+    vectorImport?.doc?.destroy();
+    vectorDragRef.current = null;
+    setVectorImport(null);
+  };
+
+  /** 격자선으로 표시한 경로 → 축 패턴 (log10 축은 decade, 그 외 눈금은 등간격) */
+  const vectorGridFit = () => {
+    const job = vectorImport;
+    if (!job) return { x: null, y: null };
+    const grid = job.data.paths.filter(p => job.roles[p.id] === "grid");
+    return fitVectorGrid(grid, job.region, { xLog: axisScale(currentState, "x") === "log10", yLog: axisScale(currentState, "y") === "log10" });
+  };
+
+  const createSeriesFromVectors = () => {
+    const job = vectorImport;
+    if (!job) return;
+    const grid = vectorGridFit();
+    if (!grid.x || !grid.y || grid.x.majors.length < 2 || grid.y.majors.length < 2) {
+      notify("격자선을 X·Y 각각 2개 이상 표시하세요", "err");
+      return;
+    }
+    const v = job.values;
+    const xTf = getAxisTransform(axisScale(currentState, "x")), yTf = getAxisTransform(axisScale(currentState, "y"));
+    const xMap = axisMap(grid.x.majors[0], Number(v.x1), grid.x.majors[grid.x.majors.length - 1], Number(v.x2), xTf.id);
+    const yMap = axisMap(grid.y.majors[0], Number(v.y1), grid.y.majors[grid.y.majors.length - 1], Number(v.y2), yTf.id);
+    if (!xMap || !yMap) { notify("X1/X2/Y1/Y2 값을 확인하세요 (축 눈금의 정의역 안, 서로 다른 값)", "err"); return; }
+    const curves = job.data.paths.filter(p => job.roles[p.id] === "curve");
+    if (!curves.length) { notify("곡선 경로를 하나 이상 선택하세요", "err"); return; }
+    const room = MAX_SERIES - currentState.series.length;
+    if (room <= 0) { notify(`최대 ${MAX_SERIES}개 곡선까지 가능합니다`, "err"); return; }
+    const start = currentState.series.length;
+    const added = curves.slice(0, room).map((path, k) => ({
+      name: curves.length > 1 ? `${job.fileName} #${k + 1}` : job.fileName,
+      color: seriesColor(start + k),
+      points: pathToDataPoints(path, xMap, yMap, job.region).filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && xTf.valid(p.x) && yTf.valid(p.y)),
+      visible: true,
+      crossLines: true,
+      specs: { ...EMPTY_PRODUCT_SPECS },
+    })).filter(s => s.points.length >= 2);
+    if (!added.length) { notify("선택한 곡선이 영역 안에 점을 갖지 않습니다", "err"); return; }
+    updateState(prev => ({ ...prev, series: [...prev.series, ...added] }));
+    const total = added.reduce((n, s) => n + s.points.length, 0);
+    notify(`벡터 곡선 ${added.length}개 → 시리즈 추가 (${total} pts)${curves.length > room ? ` · ${curves.length - room}개는 한도 초과로 제외` : ""}`);
+    closeVectorImport();
+  };
+
+  /** 미리보기 좌표 → 페이지 단위 */
+  const vectorPagePoint = e => {
+    const r = e.currentTarget.getBoundingClientRect(), d = vectorImport.data;
+    return { x: ((e.clientX - r.left) / r.width) * d.width, y: ((e.clientY - r.top) / r.height) * d.height };
+  };
+
   /** 화면/창/탭 공유(getDisplayMedia)로 한 장 캡처 후 현재 이미지 슬롯에 넣기 */
   const captureScreenToSlot = async idx => {
     if (!navigator.mediaDevices?.getDisplayMedia) {
@@ -743,7 +1512,8 @@ export default function App() {
     const onKey = e => {
       const tag = String(e.target?.tagName ?? "").toLowerCase();
       if (tag === "input" || tag === "textarea" || tag === "select" || e.target?.isContentEditable) return;
-      if (e.key === "Escape") { setPickAnchor(false); setSelectedPoint(null); setSelectedPoints([]); setCalPick(null); setSelectedCalPoint(null); }
+      if (readOnlyRef.current) return;
+      if (e.key === "Escape") { setPickAnchor(false); setSelectedPoint(null); setSelectedPoints([]); setCalPick(null); setSelectedCalPoint(null); setCalRefPick(false); setSelectedCalRef(null); setCalTickPick(null); setSelectedCalTick(null); setTraceMode(false); cancelTrace(); }
       const pointsToEdit = selectedPoints.length ? selectedPoints : (selectedPoint ? [selectedPoint] : []);
       if (e.key === "Delete" && pointsToEdit.length) {
         e.preventDefault();
@@ -771,10 +1541,10 @@ export default function App() {
         updateState(prev => ({ ...prev, series: prev.series.map((s, seriesIndex) => ({ ...s, points: s.points.map((point, pointIndex) => {
           if (!selectedKeys.has(`${seriesIndex}:${pointIndex}`)) return point;
           const pixel = dataToPixel(point.x, point.y);
-          const moved = pixelToData(
-            pixel.px + (e.key==="ArrowLeft"?-step:e.key==="ArrowRight"?step:0),
-            pixel.py + (e.key==="ArrowUp"?-step:e.key==="ArrowDown"?step:0),
-          );
+          const nx = pixel.px + (e.key==="ArrowLeft"?-step:e.key==="ArrowRight"?step:0);
+          const ny = pixel.py + (e.key==="ArrowUp"?-step:e.key==="ArrowDown"?step:0);
+          const snapped = snapPointToCurve(nx, ny);
+          const moved = pixelToData(snapped?.px ?? nx, snapped?.py ?? ny);
           if (selectedPoint?.seriesIndex===seriesIndex && selectedPoint?.pointIndex===pointIndex) magnifierPoint=moved;
           return moved;
         }) })) }));
@@ -782,15 +1552,30 @@ export default function App() {
           const first=pointsToEdit[0], point=currentState.series[first.seriesIndex]?.points[first.pointIndex];
           if(!point) return null;
           const pixel=dataToPixel(point.x,point.y);
-          return pixelToData(
-            pixel.px + (e.key==="ArrowLeft"?-step:e.key==="ArrowRight"?step:0),
-            pixel.py + (e.key==="ArrowUp"?-step:e.key==="ArrowDown"?step:0),
-          );
+          const nx=pixel.px + (e.key==="ArrowLeft"?-step:e.key==="ArrowRight"?step:0);
+          const ny=pixel.py + (e.key==="ArrowUp"?-step:e.key==="ArrowDown"?step:0);
+          const snapped=snapPointToCurve(nx,ny);
+          return pixelToData(snapped?.px ?? nx, snapped?.py ?? ny);
         })();
         if (follow) hoverRef.current={x:follow.x,y:follow.y};
         setTick(t=>t+1);
         return;
       }
+      if (selectedCalRef != null && calMode === "perspective" && calRefs[selectedCalRef]) {
+        const step = e.shiftKey ? 10 : 1;
+        const dx = e.key === "ArrowLeft" ? -step : e.key === "ArrowRight" ? step : 0;
+        const dy = e.key === "ArrowUp" ? -step : e.key === "ArrowDown" ? step : 0;
+        setCalRefsForBg(activeBg, prev => prev.map((r, k) => k === selectedCalRef ? { ...r, px: r.px + dx, py: r.py + dy } : r));
+        return;
+      }
+      if (selectedCalTick && calTicks[selectedCalTick.axis][selectedCalTick.index]) {
+        const step = e.shiftKey ? 10 : 1;
+        const dx = e.key === "ArrowLeft" ? -step : e.key === "ArrowRight" ? step : 0;
+        const dy = e.key === "ArrowUp" ? -step : e.key === "ArrowDown" ? step : 0;
+        const { axis, index } = selectedCalTick;
+        setCalTicksForBg(activeBg, prev => ({ ...prev, [axis]: prev[axis].map((t, k) => k === index ? { ...t, px: t.px + dx, py: t.py + dy } : t) }));
+        return;
+      }
       if (selectedCalPoint) {
         const p = calPixels[selectedCalPoint];
         if (!p) return;
@@ -828,10 +1613,10 @@ export default function App() {
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [selectedPoint, selectedPoints, selectedCalPoint, bgEditMode, activeBg, activeSeries, currentState, calPixels]);
+  }, [selectedPoint, selectedPoints, selectedCalPoint, selectedCalRef, selectedCalTick, bgEditMode, activeBg, activeSeries, currentState, calPixels, calMode, calRefs, calTicks, snapOn, snapColor, snapTolerance, snapRadius, filtersByBg]);
 
-  const cursorForHandle = (handle, bgEdit, picking, calPicking) => {
-    if (calPicking) return "crosshair";
+  const cursorForHandle = (handle, bgEdit, picking, calPicking, tracing = false) => {
+    if (calPicking || tracing) return "crosshair";
     if (picking) return "crosshair"; if (!bgEdit) return "crosshair";
     switch (handle) {
       case "left": case "right": return "ew-resize";
@@ -858,27 +1643,21 @@ export default function App() {
       ctx.save(); ctx.fillStyle="#9CA3AF"; ctx.font="12px ui-sans-serif"; ctx.fillText("Invalid axis range",r.x+r.w/2,r.y+r.h/2); ctx.restore(); return;
     }
     ctx.save(); ctx.strokeStyle="#CBD5E1"; ctx.fillStyle="#4B5563"; ctx.lineWidth=1.15; ctx.font="12px ui-sans-serif";
-    if (currentState.xLog) {
-      const n0=Math.floor(mm.xmin),n1=Math.ceil(mm.xmax);
-      for (let n=n0;n<=n1;n++) {
-        const px=dataToPixel(Math.pow(10,n),1).px;
-        ctx.beginPath(); ctx.moveTo(px,r.y); ctx.lineTo(px,r.y+r.h); ctx.stroke();
-        ctx.textAlign="center"; ctx.fillText(pow10Label(n),px,r.y+r.h+18);
-        for (let m=2;m<10;m++) { const v=Math.pow(10,n)*m,lv=Math.log10(v); if(lv>mm.xmax)break; if(lv<mm.xmin)continue; const xm=dataToPixel(v,1).px; ctx.save(); ctx.strokeStyle="#E2E8F0"; ctx.beginPath(); ctx.moveTo(xm,r.y); ctx.lineTo(xm,r.y+r.h); ctx.stroke(); ctx.restore(); }
-      }
-    } else {
-      for (let i=0;i<=10;i++) { const t=i/10,px=r.x+t*r.w; ctx.beginPath(); ctx.moveTo(px,r.y); ctx.lineTo(px,r.y+r.h); ctx.stroke(); ctx.textAlign="center"; ctx.fillText(numFmt(currentState.xMin+t*(currentState.xMax-currentState.xMin),(currentState.xMax-currentState.xMin)/10),px,r.y+r.h+18); }
-    }
-    if (currentState.yLog) {
-      const n0=Math.floor(mm.ymin),n1=Math.ceil(mm.ymax);
-      for (let n=n0;n<=n1;n++) {
-        const py=dataToPixel(1,Math.pow(10,n)).py;
-        ctx.beginPath(); ctx.moveTo(r.x,py); ctx.lineTo(r.x+r.w,py); ctx.stroke();
-        ctx.textAlign="right"; ctx.fillText(pow10Label(n),r.x-6,py+4);
-        for (let m=2;m<10;m++) { const v=Math.pow(10,n)*m,lv=Math.log10(v); if(lv>mm.ymax)break; if(lv<mm.ymin)continue; const ym=dataToPixel(1,v).py; ctx.save(); ctx.strokeStyle="#E2E8F0"; ctx.beginPath(); ctx.moveTo(r.x,ym); ctx.lineTo(r.x+r.w,ym); ctx.stroke(); ctx.restore(); }
-      }
-    } else {
-      for (let i=0;i<=10;i++) { const t=i/10,py=r.y+(1-t)*r.h,val=currentState.yMin+t*(currentState.yMax-currentState.yMin); ctx.beginPath(); ctx.moveTo(r.x,py); ctx.lineTo(r.x+r.w,py); ctx.stroke(); ctx.textAlign="right"; ctx.fillText(numFmt(val,(currentState.yMax-currentState.yMin)/10),r.x-6,py+4); }
+    const xs=axisScale(currentState,"x"), ys=axisScale(currentState,"y");
+    const label=(k,sc,min,max)=>k.label ?? (sc==="log10" ? pow10Label(Math.round(Math.log10(k.value))) : numFmt(k.value,(max-min)/10));
+    for (const k of scaleTicks(xs,currentState.xMin,currentState.xMax)) {
+      const px=dataToPixel(k.value,currentState.yMin).px;
+      if (!isFinite(px)) continue;
+      ctx.save(); if(!k.major) ctx.strokeStyle="#E2E8F0";
+      ctx.beginPath(); ctx.moveTo(px,r.y); ctx.lineTo(px,r.y+r.h); ctx.stroke(); ctx.restore();
+      if (k.major) { ctx.textAlign="center"; ctx.fillText(label(k,xs,currentState.xMin,currentState.xMax),px,r.y+r.h+18); }
+    }
+    for (const k of scaleTicks(ys,currentState.yMin,currentState.yMax)) {
+      const py=dataToPixel(currentState.xMin,k.value).py;
+      if (!isFinite(py)) continue;
+      ctx.save(); if(!k.major) ctx.strokeStyle="#E2E8F0";
+      ctx.beginPath(); ctx.moveTo(r.x,py); ctx.lineTo(r.x+r.w,py); ctx.stroke(); ctx.restore();
+      if (k.major) { ctx.textAlign="right"; ctx.fillText(label(k,ys,currentState.yMin,currentState.yMax),r.x-6,py+4); }
     }
     ctx.restore();
   }
@@ -896,11 +1675,11 @@ export default function App() {
 
   /* canvas helpers */
   const canvasPoint = e => { const c=canvasRef.current,rc=c.getBoundingClientRect(); const sx=c.width/rc.width,sy=c.height/rc.height; return { px:(e.clientX-rc.left)*sx, py:(e.clientY-rc.top)*sy }; };
-  /* snap a data value to nearest power-of-10 for log axes, else unchanged */
-  const snapLogVal = (v, isLog) => { if (!isLog||v<=0) return v; return Math.pow(10, Math.round(Math.log10(v))); };
+  /* snap a data value to the nearest major grid tick on scales that snap (log decades, probability, dB), else unchanged */
   const snapToGrid = (px, py) => {
     const d = pixelToData(px, py);
-    const sx = snapLogVal(d.x, currentState.xLog), sy = snapLogVal(d.y, currentState.yLog);
+    const sx = snapAxisValue(axisScale(currentState, "x"), d.x, currentState.xMin, currentState.xMax);
+    const sy = snapAxisValue(axisScale(currentState, "y"), d.y, currentState.yMin, currentState.yMax);
     return dataToPixel(sx, sy);
   };
   const inPlot = (px,py) => { const r=innerRect(),T=14; return px>=r.x-T&&px<=r.x+r.w+T&&py>=r.y-T&&py<=r.y+r.h+T; };
@@ -918,20 +1697,13 @@ export default function App() {
 
   /* guide intersections */
   function yAtX(pts, xTarget) {
-    if (!pts||pts.length<2) return null;
-    const tx=x=>tVal(x,currentState.xLog), ty=y=>tVal(y,currentState.yLog);
-    const invY=tv=>currentState.yLog?Math.pow(10,tv):tv;
-    const xT=tx(xTarget);
-    for (let i=0;i<pts.length-1;i++) {
-      const p1=pts[i],p2=pts[i+1],x1=tx(p1.x),x2=tx(p2.x);
-      if ((x1<=xT&&xT<=x2)||(x2<=xT&&xT<=x1)) { const t=(xT-x1)/((x2-x1)||EPS); return invY(ty(p1.y)+t*(ty(p2.y)-ty(p1.y))); }
-    }
-    return null;
+    return interpolateYAtX(pts, xTarget, { xLog: currentState.xLog, yLog: currentState.yLog });
   }
   function xAtY(pts, yTarget) {
     if (!pts||pts.length<2) return null;
-    const tx=x=>tVal(x,currentState.xLog), ty=y=>tVal(y,currentState.yLog);
-    const invX=tv=>currentState.xLog?Math.pow(10,tv):tv;
+    const xs=axisScale(currentState,"x"), ys=axisScale(currentState,"y");
+    const tx=x=>tVal(x,xs), ty=y=>tVal(y,ys);
+    const invX=tv=>tInv(tv,xs);
     const yT=ty(yTarget);
     for (let i=0;i<pts.length-1;i++) {
       const p1=pts[i],p2=pts[i+1],y1=ty(p1.y),y2=ty(p2.y);
@@ -944,8 +1716,9 @@ export default function App() {
   function computeSeriesIntersections() {
     if (!currentState) return [];
     const { series } = currentState, results = [];
-    const txFn=x=>tVal(x,currentState.xLog), tyFn=y=>tVal(y,currentState.yLog);
-    const invX=v=>currentState.xLog?Math.pow(10,v):v, invY=v=>currentState.yLog?Math.pow(10,v):v;
+    const xs=axisScale(currentState,"x"), ys=axisScale(currentState,"y");
+    const txFn=x=>tVal(x,xs), tyFn=y=>tVal(y,ys);
+    const invX=v=>tInv(v,xs), invY=v=>tInv(v,ys);
     for (let si=0;si<series.length;si++) {
       for (let sj=si+1;sj<series.length;sj++) {
         if (series[si].visible === false || series[sj].visible === false || series[si].crossLines === false || series[sj].crossLines === false) continue;
@@ -986,23 +1759,17 @@ export default function App() {
     for (let i=0;i<MAX_BG;i++) {
       const img=bgRefs.current[i]; if(!img||!showBgs[i]||opacityBgs[i]<=0) continue;
       const {dx,dy,dw,dh,ax,ay}=drawRectAndAnchor(i);
-      const cOn = calEnabledByBg[i];
-      const cClip = calClipByBg[i];
-      const cPx = calPixelsByBg[i];
-      const hasCalRect = cOn && cPx?.x1 && cPx?.x2 && cPx?.y1 && cPx?.y2;
-      if (hasCalRect && cClip) {
-        const left = Math.min(cPx.x1.px, cPx.x2.px);
-        const right = Math.max(cPx.x1.px, cPx.x2.px);
-        const top = Math.min(cPx.y1.py, cPx.y2.py);
-        const bottom = Math.max(cPx.y1.py, cPx.y2.py);
+      const clipPoly = calClipByBg[i] ? calFramePolygon(i) : null;
+      if (clipPoly) {
         ctx.save();
         ctx.beginPath();
-        ctx.rect(left, top, Math.max(1, right-left), Math.max(1, bottom-top));
+        clipPoly.forEach((p, k) => k ? ctx.lineTo(p.px, p.py) : ctx.moveTo(p.px, p.py));
+        ctx.closePath();
         ctx.clip();
-        ctx.globalAlpha=opacityBgs[i]; ctx.drawImage(img,dx,dy,dw,dh); ctx.globalAlpha=1;
+        ctx.globalAlpha=opacityBgs[i]; ctx.drawImage(filteredBg(i)?.canvas ?? img,dx,dy,dw,dh); ctx.globalAlpha=1;
         ctx.restore();
       } else {
-        ctx.globalAlpha=opacityBgs[i]; ctx.drawImage(img,dx,dy,dw,dh); ctx.globalAlpha=1;
+        ctx.globalAlpha=opacityBgs[i]; ctx.drawImage(filteredBg(i)?.canvas ?? img,dx,dy,dw,dh); ctx.globalAlpha=1;
       }
       if (i===activeBg) lastRectRef.current={x:dx,y:dy,w:dw,h:dh};
       if (i===activeBg&&pickAnchor) {
@@ -1070,16 +1837,40 @@ export default function App() {
         ctx.strokeStyle = s.color;
         const minBreak = minBreakCurrents[si] ?? null;
 
-        /* product tolerance envelope: shift the complete curve on the X axis */
-        const tolerance = Number(s.tolerancePercent ?? 0);
-        if (tolerance === 10 || tolerance === 15) {
+        /* consensus spread: member min–max around the averaged curve */
+        if (s.consensus?.lower?.length >= 2 && s.consensus.upper?.length >= 2) {
+          const hi = s.consensus.upper.map(p => dataToPixel(p.x, p.y)), lo = s.consensus.lower.map(p => dataToPixel(p.x, p.y));
+          ctx.save();
+          ctx.fillStyle = s.color;
+          ctx.globalAlpha = 0.22;
+          ctx.beginPath();
+          ctx.moveTo(hi[0].px, hi[0].py);
+          for (const q of hi.slice(1)) ctx.lineTo(q.px, q.py);
+          for (const q of lo.slice().reverse()) ctx.lineTo(q.px, q.py);
+          ctx.closePath();
+          ctx.fill();
+          ctx.restore();
+        }
+
+        /* product tolerance band: shaded between the slow (max) and fast (min) edge curves */
+        const band = seriesBand(s);
+        if (band) {
+          const edges = bandEdgeCurves(s.points.slice().sort((a, b) => a.x - b.x), band);
+          const maxPts = edges.max.map(p => dataToPixel(p.x, p.y)), minPts = edges.min.map(p => dataToPixel(p.x, p.y));
           ctx.save();
+          ctx.fillStyle = s.color;
+          ctx.globalAlpha = 0.12;
+          ctx.beginPath();
+          ctx.moveTo(maxPts[0].px, maxPts[0].py);
+          for (const q of maxPts.slice(1)) ctx.lineTo(q.px, q.py);
+          for (const q of minPts.slice().reverse()) ctx.lineTo(q.px, q.py);
+          ctx.closePath();
+          ctx.fill();
           ctx.strokeStyle = s.color;
           ctx.globalAlpha = Math.min(0.72, lineAlpha);
           ctx.lineWidth = Math.max(1, lineWidth * 0.85);
           ctx.setLineDash([7, 5]);
-          for (const factor of [1 - tolerance / 100, 1 + tolerance / 100]) {
-            const tolerancePts = s.points.map(p => dataToPixel(p.x * factor, p.y));
+          for (const tolerancePts of [maxPts, minPts]) {
             ctx.beginPath();
             if (smoothLines) catmullRomPath(ctx, tolerancePts, smoothAlpha);
             else {
@@ -1110,8 +1901,8 @@ export default function App() {
           let markerPy = rr.y + rr.h * 0.5;
           if (ci > 0) {
             const p1=spts[ci-1], p2=spts[ci];
-            const txL=v=>tVal(v,currentState.xLog), tyL=v=>tVal(v,currentState.yLog);
-            const invY=tv=>currentState.yLog?Math.pow(10,tv):tv;
+            const txL=v=>tVal(v,axisScale(currentState,"x")), tyL=v=>tVal(v,axisScale(currentState,"y"));
+            const invY=tv=>tInv(tv,axisScale(currentState,"y"));
             const ratio=(txL(minBreak)-txL(p1.x))/((txL(p2.x)-txL(p1.x))||EPS);
             markerPy = dataToPixel(minBreak, invY(tyL(p1.y)+ratio*(tyL(p2.y)-tyL(p1.y)))).py;
           } else if (ci===0) {
@@ -1162,6 +1953,52 @@ export default function App() {
       });
     }
 
+    /* auto-trace preview (not committed to history yet) */
+    if (tracePreview.length) {
+      const rr=innerRect(), col=currentState.series[activeSeries]?.color ?? "#111827";
+      const tp=tracePreview.map(p=>dataToPixel(p.x,p.y));
+      ctx.save(); ctx.beginPath(); ctx.rect(rr.x,rr.y,rr.w,rr.h); ctx.clip();
+      ctx.strokeStyle=col; ctx.lineWidth=2; ctx.setLineDash([5,3]);
+      ctx.beginPath(); ctx.moveTo(tp[0].px,tp[0].py); for (let k=1;k<tp.length;k++) ctx.lineTo(tp[k].px,tp[k].py); ctx.stroke();
+      ctx.setLineDash([]); ctx.fillStyle="#fff"; ctx.lineWidth=1.5;
+      for (const P of tp) { ctx.beginPath(); ctx.arc(P.px,P.py,3,0,Math.PI*2); ctx.fill(); ctx.stroke(); }
+      ctx.restore();
+    }
+    /* fitted curve models (dotted, series color) */
+    if (modelOverlay) {
+      const rr=innerRect();
+      ctx.save(); ctx.beginPath(); ctx.rect(rr.x,rr.y,rr.w,rr.h); ctx.clip();
+      ctx.lineWidth=2; ctx.setLineDash([2,4]); ctx.lineCap="round";
+      currentState.series.forEach(s=>{
+        const model=currentModel(s);
+        if (!model||s.visible===false) return;
+        const [lo,hi]=model.domain, l0=Math.log10(lo), l1=Math.log10(hi);
+        ctx.strokeStyle=s.color; ctx.beginPath(); let pen=false;
+        for (let k=0;k<=160;k++) {
+          const x=Math.pow(10,l0+(l1-l0)*k/160), y=evaluateCurveModel(model,x);
+          if (y==null||!(y>0)) { pen=false; continue; }
+          const P=dataToPixel(x,y);
+          if (pen) ctx.lineTo(P.px,P.py); else { ctx.moveTo(P.px,P.py); pen=true; }
+        }
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
+    /* resample / decimate preview: after = dashed line with squares over the original series */
+    if (resamplePreview && currentState.series[resamplePreview.series]) {
+      const rr=innerRect(), rp=resamplePreview.points.map(p=>dataToPixel(p.x,p.y));
+      ctx.save(); ctx.beginPath(); ctx.rect(rr.x,rr.y,rr.w,rr.h); ctx.clip();
+      ctx.strokeStyle="#0F172A"; ctx.lineWidth=1.5; ctx.setLineDash([6,3]);
+      ctx.beginPath(); ctx.moveTo(rp[0].px,rp[0].py); for (let k=1;k<rp.length;k++) ctx.lineTo(rp[k].px,rp[k].py); ctx.stroke();
+      ctx.setLineDash([]); ctx.fillStyle="#FDE68A";
+      for (const P of rp) { ctx.fillRect(P.px-3,P.py-3,6,6); ctx.strokeRect(P.px-3,P.py-3,6,6); }
+      ctx.restore();
+    }
+    if (traceSeed) {
+      ctx.save(); ctx.strokeStyle="#F59E0B"; ctx.lineWidth=2;
+      ctx.beginPath(); ctx.arc(traceSeed.px,traceSeed.py,7,0,Math.PI*2); ctx.stroke(); ctx.restore();
+    }
+
     /* series intersections */
     const intersections = showIntersectionMarkers ? computeSeriesIntersections() : [];
     if (intersections.length>0) {
@@ -1184,13 +2021,14 @@ export default function App() {
     /* axes border + titles */
     ctx.strokeStyle="#374151"; ctx.lineWidth=1.2; ctx.strokeRect(r.x,r.y,r.w,r.h);
     ctx.fillStyle="#111827"; ctx.font="14px ui-sans-serif, system-ui"; ctx.textAlign="center";
-    ctx.fillText(currentState.xLog?"X (10^n)":"X", r.x+r.w/2, r.y+r.h+34);
-    ctx.save(); ctx.translate(r.x-45,r.y+r.h/2); ctx.rotate(-Math.PI/2); ctx.fillText(currentState.yLog?"Y (10^n)":"Y",0,0); ctx.restore();
+    const units = currentState.units ?? DEFAULT_AXIS_UNITS;
+    ctx.fillText(axisTitle(units.x, getAxisTransform(axisScale(currentState,"x")).short ?? ""), r.x+r.w/2, r.y+r.h+34);
+    ctx.save(); ctx.translate(r.x-45,r.y+r.h/2); ctx.rotate(-Math.PI/2); ctx.fillText(axisTitle(units.y, getAxisTransform(axisScale(currentState,"y")).short ?? ""),0,0); ctx.restore();
 
     /* snap preview for pivot and calibration point picking */
-    if ((pickAnchor || calPick) && snapPreviewRef.current) {
+    if ((pickAnchor || calPick || calRefPick || calTickPick) && snapPreviewRef.current) {
       const {px:spx,py:spy}=snapPreviewRef.current; const rr=innerRect();
-      const previewColor = calPick ? "#0EA5E9" : "#f59e0b";
+      const previewColor = calPick || calTickPick ? "#0EA5E9" : calRefPick ? "#7C3AED" : "#f59e0b";
       ctx.save(); ctx.strokeStyle=previewColor; ctx.lineWidth=1.5; ctx.setLineDash([4,3]);
       ctx.beginPath(); ctx.moveTo(rr.x,spy); ctx.lineTo(rr.x+rr.w,spy); ctx.stroke();
       ctx.beginPath(); ctx.moveTo(spx,rr.y); ctx.lineTo(spx,rr.y+rr.h); ctx.stroke();
@@ -1222,22 +2060,67 @@ export default function App() {
       ctx.restore();
     };
     if (calEnabled && bgEditMode) {
-      if (calPixels.x1 && calPixels.x2 && calPixels.y1 && calPixels.y2) {
-        const left = Math.min(calPixels.x1.px, calPixels.x2.px);
-        const right = Math.max(calPixels.x1.px, calPixels.x2.px);
-        const top = Math.min(calPixels.y1.py, calPixels.y2.py);
-        const bottom = Math.max(calPixels.y1.py, calPixels.y2.py);
+      const frame = calFramePolygon(activeBg);
+      if (frame) {
         ctx.save();
         ctx.strokeStyle = "#0EA5E9";
         ctx.lineWidth = 2;
         ctx.setLineDash([7,4]);
-        ctx.strokeRect(left, top, right - left, bottom - top);
+        ctx.beginPath();
+        frame.forEach((p, k) => k ? ctx.lineTo(p.px, p.py) : ctx.moveTo(p.px, p.py));
+        ctx.closePath();
+        ctx.stroke();
         ctx.restore();
       }
+    }
+    if (calEnabled && bgEditMode && calMode === "perspective") {
+      calRefs.forEach((r, k) => {
+        drawCal(r, `P${k + 1}`, "#7C3AED");
+        if (selectedCalRef === k) {
+          ctx.save(); ctx.strokeStyle = "#7C3AED"; ctx.lineWidth = 1.5;
+          ctx.beginPath(); ctx.arc(r.px, r.py, 8, 0, Math.PI * 2); ctx.stroke(); ctx.restore();
+        }
+      });
+    } else if (calEnabled && bgEditMode) {
       drawCal(calPixels.x1, "X1", "#2563EB");
       drawCal(calPixels.x2, "X2", "#2563EB");
       drawCal(calPixels.y1, "Y1", "#DC2626");
       drawCal(calPixels.y2, "Y2", "#DC2626");
+      calTicks.x.forEach((t, i) => drawCal(t, `X${i + 3}`, "#2563EB"));
+      calTicks.y.forEach((t, i) => drawCal(t, `Y${i + 3}`, "#DC2626"));
+      const sel = selectedCalTick && calTicks[selectedCalTick.axis][selectedCalTick.index];
+      if (sel) {
+        ctx.save(); ctx.strokeStyle = selectedCalTick.axis === "x" ? "#2563EB" : "#DC2626"; ctx.lineWidth = 1.5;
+        ctx.beginPath(); ctx.arc(sel.px, sel.py, 8, 0, Math.PI * 2); ctx.stroke(); ctx.restore();
+      }
+      /* 최소제곱 잔차 이상점 강조 */
+      const fits = axisCalFits(activeBg);
+      if (fits) {
+        const at = {
+          X1: calPixels.x1, X2: calPixels.x2, Y1: calPixels.y1, Y2: calPixels.y2,
+          ...Object.fromEntries(calTicks.x.map((t, i) => [`X${i + 3}`, t])),
+          ...Object.fromEntries(calTicks.y.map((t, i) => [`Y${i + 3}`, t])),
+        };
+        ctx.save(); ctx.strokeStyle = "#F97316"; ctx.lineWidth = 2.5;
+        [...fits.x.residuals, ...fits.y.residuals].filter(r => r.outlier && at[r.label]).forEach(r => {
+          ctx.beginPath(); ctx.arc(at[r.label].px, at[r.label].py, 12, 0, Math.PI * 2); ctx.stroke();
+        });
+        ctx.restore();
+      }
+    }
+    if (autoCal && autoCal.bg === activeBg && bgList[activeBg]) {
+      const { dx, dy, dw, dh } = drawRectAndAnchor(activeBg);
+      const meta = bgList[activeBg];
+      const cx = ix => dx + (ix / meta.w) * dw, cy = iy => dy + (iy / meta.h) * dh;
+      ctx.save();
+      ctx.strokeStyle = "rgba(234,88,12,0.55)"; ctx.lineWidth = 1; ctx.setLineDash([4,3]);
+      autoCal.xMajors.forEach(v => { ctx.beginPath(); ctx.moveTo(cx(v), dy); ctx.lineTo(cx(v), dy + dh); ctx.stroke(); });
+      autoCal.yMajors.forEach(v => { ctx.beginPath(); ctx.moveTo(dx, cy(v)); ctx.lineTo(dx + dw, cy(v)); ctx.stroke(); });
+      ctx.restore();
+      const ap = autoCalPixels(autoCal);
+      drawCal(ap.x2, `X2=${autoCal.values.x2}`, "#EA580C");
+      drawCal(ap.y2, `Y2=${autoCal.values.y2}`, "#EA580C");
+      drawCal(ap.x1, `X1=${autoCal.values.x1} · Y1=${autoCal.values.y1}`, "#EA580C");
     }
 
     /* legend */
@@ -1253,6 +2136,15 @@ export default function App() {
     });
     ctx.restore();
 
+    /* snap target preview (also visible in the magnifier) */
+    if (snapTargetRef.current) {
+      const t=snapTargetRef.current;
+      ctx.save(); ctx.strokeStyle="#0D9488"; ctx.lineWidth=1.5;
+      ctx.beginPath(); ctx.arc(t.px,t.py,ptRadius+3,0,Math.PI*2); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(t.px-3,t.py); ctx.lineTo(t.px+3,t.py); ctx.moveTo(t.px,t.py-3); ctx.lineTo(t.px,t.py+3); ctx.stroke();
+      ctx.restore();
+    }
+
     /* magnifier */
     if (magnifyOn&&hoverRef.current.x!==null) {
       const hp=dataToPixel(hoverRef.current.x,hoverRef.current.y);
@@ -1265,10 +2157,10 @@ export default function App() {
       ctx.beginPath(); ctx.moveTo(size.w-sz-16+sz/2,16); ctx.lineTo(size.w-sz-16+sz/2,16+sz);
       ctx.moveTo(size.w-sz-16,16+sz/2); ctx.lineTo(size.w-16,16+sz/2); ctx.stroke(); ctx.restore();
     }
-  }, [currentState,activeBg,bgList,showBgs,opacityBgs,keepAspect,anchorMode,pickAnchor,bgEditMode,hoverHandle,
+  }, [currentState,activeBg,bgList,showBgs,opacityBgs,filtersByBg,keepAspect,anchorMode,pickAnchor,bgEditMode,hoverHandle,
       showPoints,connectLines,lineAlpha,lineWidth,smoothLines,smoothAlpha,ptRadius,
       guideXs,guideYs,showCrossFromX,showCrossFromY,magnifyOn,selectedPoint,selectedPoints,tick,minBreakCurrents,
-      calEnabledByBg,calClipByBg,calPixelsByBg,calValuesByBg,calPick,selectedCalPoint,showIntersectionMarkers]);
+      calEnabledByBg,calClipByBg,calPixelsByBg,calValuesByBg,calPick,selectedCalPoint,showIntersectionMarkers,tracePreview,traceSeed,autoCal,calModeByBg,calRefsByBg,calRefPick,selectedCalRef,calTicksByBg,calTickPick,selectedCalTick,resamplePreview,modelOverlay]);
 
   /* I2t graph render */
   useEffect(() => {
@@ -1352,6 +2244,9 @@ export default function App() {
     const {px,py}=canvasPoint(e); const rr=innerRect();
     if (px>=rr.x&&px<=rr.x+rr.w&&py>=rr.y&&py<=rr.y+rr.h) hoverRef.current=pixelToData(px,py);
     else hoverRef.current={x:null,y:null};
+    snapTargetRef.current = snapOn && hoverRef.current.x!==null && !bgEditMode && !traceMode && !calPick && !calRefPick && !calTickPick && !pickAnchor
+      ? snapPointToCurve(px,py) : null;
+    if (snapTargetRef.current) hoverRef.current=pixelToData(snapTargetRef.current.px,snapTargetRef.current.py);
     if ((resizeRef.current.active||dragRef.current.active)&&bgEditMode) {
       if (!moveRafRef.current) {
         moveRafRef.current = requestAnimationFrame(() => {
@@ -1378,12 +2273,14 @@ export default function App() {
     }
     setHoverHandle(bgEditMode?pickHandle(px,py):"none");
     if (pickAnchor) snapPreviewRef.current = overImage(px,py) ? snapToGrid(px,py) : null;
-    else if (calPick) snapPreviewRef.current = inPlot(px,py) ? snapToGrid(px,py) : null;
+    else if (calPick || calTickPick) snapPreviewRef.current = inPlot(px,py) ? snapToGrid(px,py) : null;
+    else if (calRefPick) snapPreviewRef.current = inPlot(px,py) ? { px, py } : null; // 원근 기준점은 격자 스냅 없이 그대로
     else snapPreviewRef.current = null;
     setTick(t=>t+1);
   };
   const onMouseDown = e => {
-    const {px,py}=canvasPoint(e); if(e.button===2){setPickAnchor(false);setCalPick(null);snapPreviewRef.current=null;return;}
+    if (readOnlyRef.current) return;
+    const {px,py}=canvasPoint(e); if(e.button===2){setPickAnchor(false);setCalPick(null);setCalRefPick(false);setCalTickPick(null);setTraceMode(false);cancelTrace();snapPreviewRef.current=null;return;}
     if (calPick && inPlot(px, py)) {
       const pickedKey = calPick;
       const snapped = snapToGrid(px, py);
@@ -1398,16 +2295,62 @@ export default function App() {
       notify(`${pickedKey.toUpperCase()} = ${autoValue}`);
       return;
     }
-    if (calEnabled && bgEditMode) {
+    if (calTickPick && inPlot(px, py)) {
+      const axis = calTickPick;
+      const snapped = snapToGrid(px, py);
+      const d = pixelToData(snapped.px, snapped.py);
+      const value = Number((axis === "x" ? d.x : d.y).toPrecision(12)).toString();
+      const index = calTicks[axis].length;
+      setCalTicksForBg(activeBg, prev => ({ ...prev, [axis]: [...prev[axis], { ...snapped, value }] }));
+      setSelectedCalPoint(null);
+      setSelectedCalTick({ axis, index });
+      setCalTickPick(null);
+      snapPreviewRef.current = null;
+      notify(`${axis.toUpperCase()}${index + 3} = ${value}`);
+      return;
+    }
+    if (calRefPick && inPlot(px, py)) {
+      const d = pixelToData(px, py);
+      const ref = { px, py, x: Number(d.x.toPrecision(12)).toString(), y: Number(d.y.toPrecision(12)).toString() };
+      setCalRefsForBg(activeBg, prev => [...prev, ref]);
+      setSelectedCalRef(calRefs.length);
+      setCalRefPick(false);
+      snapPreviewRef.current = null;
+      notify(`P${calRefs.length + 1} 추가 — X·Y 값을 그림 눈금에 맞게 입력하세요`);
+      return;
+    }
+    if (calEnabled && bgEditMode && calMode === "perspective") {
+      const hit = calRefs.findIndex(r => Math.hypot(px - r.px, py - r.py) <= 10);
+      if (hit >= 0) {
+        setSelectedCalRef(hit);
+        notify(`P${hit + 1} selected (arrow keys move)`);
+        return;
+      }
+    }
+    if (calEnabled && bgEditMode && calMode !== "perspective") {
       const keys = ["x1","x2","y1","y2"];
       for (const k of keys) {
         const p = calPixels[k];
         if (p && Math.hypot(px - p.px, py - p.py) <= 10) {
+          setSelectedCalTick(null);
           setSelectedCalPoint(k as CalPickKey);
           notify(`${k.toUpperCase()} selected (arrow keys move)`);
           return;
         }
       }
+      for (const axis of ["x", "y"] as const) {
+        const index = calTicks[axis].findIndex(t => Math.hypot(px - t.px, py - t.py) <= 10);
+        if (index >= 0) {
+          setSelectedCalPoint(null);
+          setSelectedCalTick({ axis, index });
+          notify(`${axis.toUpperCase()}${index + 3} selected (arrow keys move)`);
+          return;
+        }
+      }
+    }
+    if (traceMode && inPlot(px, py)) {
+      startTraceAt(px, py);
+      return;
     }
     if (pickAnchor&&overImage(px,py)) {
       const xf=currentState.bgXform[activeBg];
@@ -1457,7 +2400,8 @@ export default function App() {
           }
         }
       }
-      const d=pixelToData(px,py);
+      const target=snapPointToCurve(px,py)??{px,py};
+      const d=pixelToData(target.px,target.py);
       updateState(prev=>({...prev,series:prev.series.map((s,i)=>i===activeSeries?{...s,points:[...s.points,d].sort((a,b)=>a.x-b.x)}:s)}));
       setSelectedPoint(null);
       setSelectedPoints([]);
@@ -1466,6 +2410,7 @@ export default function App() {
   const onMouseUp    = () => { dragRef.current.active=false; resizeRef.current.active=false; };
   const onMouseLeave = () => {
     hoverRef.current={x:null,y:null};
+    snapTargetRef.current=null;
     /* do NOT cancel active resize/drag ? window listeners keep tracking */
     if (!resizeRef.current.active && !dragRef.current.active) setHoverHandle("none");
     setTick(t=>t+1);
@@ -1567,6 +2512,9 @@ export default function App() {
     setCalClipByBg(prev => { const n = [...prev]; n[idx] = !!prev[activeBg]; return n; });
     setCalPixelsByBg(prev => { const n = [...prev]; n[idx] = JSON.parse(JSON.stringify(prev[activeBg] ?? {x1:null,x2:null,y1:null,y2:null})); return n; });
     setCalValuesByBg(prev => { const n = [...prev]; n[idx] = { ...(prev[activeBg] ?? {x1:"",x2:"",y1:"",y2:""}) }; return n; });
+    setCalModeByBg(prev => { const n = [...prev]; n[idx] = prev[activeBg] ?? "axes"; return n; });
+    setCalRefsByBg(prev => { const n = [...prev]; n[idx] = JSON.parse(JSON.stringify(prev[activeBg] ?? [])); return n; });
+    setCalTicksByBg(prev => { const n = [...prev]; n[idx] = JSON.parse(JSON.stringify(prev[activeBg] ?? {x:[],y:[]})); return n; });
     setMinBreakCurrents(prev => [...prev, (prev[activeSeries] ?? null) != null ? Number(prev[activeSeries]) * lastCurveShift : null]);
     selectSlot(idx);
     notify(`${shifted.name} 곡선을 같은 간격으로 추가`);
@@ -1589,6 +2537,44 @@ export default function App() {
     };
   };
 
+  /** 원근 기준점: 캔버스 px와 함께 이미지 상대 좌표(u,v)를 저장해 불러올 때 배치가 달라도 복원 */
+  const calibrationRefsForSlot = slot => {
+    const refs = calRefsByBg[slot] ?? [];
+    if (!refs.length) return [];
+    const placed = bgRefs.current[slot] ? drawRectAndAnchor(slot) : null;
+    return refs.map(r => ({
+      ...r,
+      ...(placed && placed.dw > 0 && placed.dh > 0 ? { u: (r.px - placed.dx) / placed.dw, v: (r.py - placed.dy) / placed.dh } : {}),
+    }));
+  };
+
+  /** 추가 눈금도 이미지 상대 좌표(u,v)와 함께 저장 */
+  const calibrationTicksForSlot = slot => {
+    const tk = calTicksByBg[slot] ?? { x: [], y: [] };
+    const placed = bgRefs.current[slot] ? drawRectAndAnchor(slot) : null;
+    const withUv = t => ({
+      ...t,
+      ...(placed && placed.dw > 0 && placed.dh > 0 ? { u: (t.px - placed.dx) / placed.dw, v: (t.py - placed.dy) / placed.dh } : {}),
+    });
+    return { x: tk.x.map(withUv), y: tk.y.map(withUv) };
+  };
+
+  /** 검토용 캘리브 잔차 요약(축 모드). 맞춤 불가면 null */
+  const calibrationResidualSummary = slot => {
+    if (calModeByBg[slot] === "perspective") return null;
+    const fits = axisCalFits(slot);
+    if (!fits) return null;
+    const axisSummary = (f: AxisFit) => ({
+      points: f.residuals.length,
+      rmsPx: Number(f.rmsPx.toFixed(3)),
+      maxPx: Number(f.maxPx.toFixed(3)),
+      maxPct: Number(f.maxPct.toFixed(3)),
+      outliers: f.residuals.filter(r => r.outlier).map(r => r.label),
+      residuals: f.residuals.map(r => ({ label: r.label, value: r.value, px: Number(r.residualPx.toFixed(3)), pct: Number.isFinite(r.residualPct) ? Number(r.residualPct.toFixed(3)) : null })),
+    });
+    return { x: axisSummary(fits.x), y: axisSummary(fits.y) };
+  };
+
   const setActiveProductSpec = (key: keyof ProductSpecs, value: string) => {
     updateState(prev => ({
       ...prev,
@@ -1613,10 +2599,19 @@ export default function App() {
     const company = saveFormCompany.trim();
     const productName = s.name || BG_LABELS[slot] || `Product ${slot + 1}`;
     const specs = { ...EMPTY_PRODUCT_SPECS, ...(s.specs ?? {}) };
+    const band = seriesBand(s);
     if (!specs.ratedCurrent.trim() || !specs.ratedVoltage.trim()) {
       notify("정격 전류와 정격 전압은 필수입니다.", "err");
       return;
     }
+    const issues = seriesIssues(slot);
+    const errors = issues.filter(i => i.severity === "error");
+    if (errors.length) {
+      notify(`곡선 오류 ${errors.length}개 — Curve check에서 수정하세요 (${errors[0].message})`, "err");
+      if (errors[0].pointIndex != null) jumpToPoint(slot, errors[0].pointIndex);
+      return;
+    }
+    if (issues.length && !window.confirm(`곡선 경고 ${issues.length}개:\n${issues.slice(0, 5).map(i => "· " + i.message).join("\n")}${issues.length > 5 ? "\n…" : ""}\n\n그래도 저장할까요?`)) return;
     const overwritesExisting = libraryItems.some(item =>
       item.company === company && item.name === productName
     );
@@ -1636,6 +2631,10 @@ export default function App() {
         customAnchor: currentState.customAnchors[slot] ?? null,
         placement: bgRefs.current[slot] ? drawRectAndAnchor(slot) : null,
         opacity: opacityBgs[slot] ?? BG_DEFAULT_OPACITY[slot],
+        filters: filtersByBg[slot],
+        source: bgList[slot]?.source ?? null,
+        plotName: plots[activePlot]?.name ?? null,
+        units: currentState.units ?? DEFAULT_AXIS_UNITS,
         keepAspect,
         calibration: {
           enabled: !!calEnabledByBg[slot],
@@ -1643,12 +2642,19 @@ export default function App() {
           pixels: calPixelsByBg[slot],
           values: calValuesByBg[slot],
           reference: calibrationReferenceForSlot(slot),
+          mode: calModeByBg[slot],
+          refs: calibrationRefsForSlot(slot),
+          ticks: calibrationTicksForSlot(slot),
+          residuals: calibrationResidualSummary(slot),
         },
-        tolerancePercent: s.tolerancePercent ?? 0,
+        tolerancePercent: band?.axis === "current" && band.plus === band.minus ? band.plus : 0,
+        toleranceBand: band,
+        consensus: s.consensus ?? null,
       },
       seriesName: s?.name ?? SERIES_NAMES[slot] ?? 'S',
       seriesColor: s?.color ?? SERIES_COLORS[slot] ?? '#64748B',
       points: s?.points ?? [],
+      model: currentModel(s),
       minBreakCurrent: minBreakCurrents[slot] ?? null,
       specs,
     };
@@ -1661,6 +2667,35 @@ export default function App() {
     } catch { notify('Server error', 'err'); }
   };
 
+  /** 라이브러리 제품의 단위 (예전 제품은 A / s) */
+  const productUnits = (product): AxisUnits => normalizeAxisUnits(product?.imageSettings?.units);
+  /** 제품 데이터(곡선·최소차단전류·캘리브 값)를 현재 플롯 단위로 변환. 물리량이 다르면 그대로 둠 */
+  const convertProductToPlotUnits = product => {
+    const from = productUnits(product), to = currentState.units ?? DEFAULT_AXIS_UNITS;
+    const fx = unitFactor(from.x, to.x), fy = unitFactor(from.y, to.y);
+    if (!sameQuantities(from, to) || (fx === 1 && fy === 1)) return product;
+    const scale = (v, f) => String(v ?? "").trim() === "" || !isFinite(Number(v)) ? v : String(Number((Number(v) * f).toPrecision(12)));
+    const cal = product.imageSettings?.calibration;
+    const tick = (list, f) => Array.isArray(list) ? list.map(t => ({ ...t, value: scale(t.value, f) })) : list;
+    const consensus = product.imageSettings?.consensus;
+    return {
+      ...product,
+      points: convertPoints(product.points ?? [], from, to),
+      model: null,
+      minBreakCurrent: product.minBreakCurrent != null ? Number(product.minBreakCurrent) * fx : null,
+      imageSettings: {
+        ...product.imageSettings,
+        consensus: consensus ? { ...consensus, lower: convertPoints(consensus.lower ?? [], from, to), upper: convertPoints(consensus.upper ?? [], from, to) } : consensus,
+        calibration: cal && {
+          ...cal,
+          values: cal.values && { x1: scale(cal.values.x1, fx), x2: scale(cal.values.x2, fx), y1: scale(cal.values.y1, fy), y2: scale(cal.values.y2, fy) },
+          refs: Array.isArray(cal.refs) ? cal.refs.map(r => ({ ...r, x: scale(r.x, fx), y: scale(r.y, fy) })) : cal.refs,
+          ticks: cal.ticks && { x: tick(cal.ticks.x, fx), y: tick(cal.ticks.y, fy) },
+        },
+      },
+    };
+  };
+
   const loadFromLibrary = async (itemId, targetSlot) => {
     const existingSeries = currentState.series[targetSlot];
     if (existingSeries?.points?.length > 0) {
@@ -1676,12 +2711,18 @@ export default function App() {
     try {
       const res = await fetch('/api/products/' + itemId);
       if (!res.ok) { notify('Load failed', 'err'); return; }
-      const product = await res.json();
+      const stored = await res.json();
+      const product = convertProductToPlotUnits(stored);
+      const sourceUnits = productUnits(stored);
+      if (!sameQuantities(sourceUnits, currentState.units ?? DEFAULT_AXIS_UNITS)) notify(`제품 단위(${describeUnits(sourceUnits)})가 현재 축과 다른 물리량입니다 — 변환 없이 불러옵니다`, "err");
+      else if (product !== stored) notify(`단위 변환: ${describeUnits(sourceUnits)} → ${describeUnits(currentState.units)}`);
       setSaveFormCompany(product.company ?? "");
       const imageSettings = product.imageSettings ?? {};
       let restoredXform = imageSettings.bgXform ?? product.bgXform ?? null;
       let restoredAnchor = imageSettings.customAnchor ?? product.customAnchor ?? null;
       let restoredCalibrationPixels = null;
+      let restoredCalRefs = null;
+      let restoredCalTicks = null;
       if (product.imageData && targetSlot < MAX_BG) {
         const img = new Image(); img.crossOrigin = "anonymous";
         await new Promise((resolve, reject) => {
@@ -1691,7 +2732,8 @@ export default function App() {
         });
         bgRefs.current[targetSlot] = img;
         bgUrls.current[targetSlot] = product.imageData;
-        setBgList(cur => { const n = [...cur]; n[targetSlot] = { w: img.width, h: img.height }; return n; });
+        const source = imageSettings.source?.kind === "pdf" ? imageSettings.source : null;
+        setBgList(cur => { const n = [...cur]; n[targetSlot] = source ? { w: img.width, h: img.height, source } : { w: img.width, h: img.height }; return n; });
         setShowBgs(cur => { const n = [...cur]; n[targetSlot] = true; return n; });
 
         /* New saves keep the exact rendered rectangle and pivot. Rebuild the
@@ -1729,16 +2771,28 @@ export default function App() {
             y1: relative(calibration.pixels.y1), y2: relative(calibration.pixels.y2),
           };
         }
+        if (Array.isArray(calibration?.refs)) {
+          const placedOk = placement && [placement.dx, placement.dy, placement.dw, placement.dh].every(Number.isFinite);
+          restoredCalRefs = calibration.refs.map(r => placedOk && Number.isFinite(r.u) && Number.isFinite(r.v)
+            ? { px: placement.dx + r.u * placement.dw, py: placement.dy + r.v * placement.dh, x: String(r.x ?? ""), y: String(r.y ?? "") }
+            : { px: r.px, py: r.py, x: String(r.x ?? ""), y: String(r.y ?? "") });
+        }
+        const savedTicks = calibration?.ticks;
+        const restoreTicks = (place: { dx: number; dy: number; dw: number; dh: number } | null) => savedTicks && ({
+          x: (savedTicks.x ?? []).map(t => place && Number.isFinite(t.u) && Number.isFinite(t.v) ? { px: place.dx + t.u * place.dw, py: place.dy + t.v * place.dh, value: String(t.value ?? "") } : { px: t.px, py: t.py, value: String(t.value ?? "") }),
+          y: (savedTicks.y ?? []).map(t => place && Number.isFinite(t.u) && Number.isFinite(t.v) ? { px: place.dx + t.u * place.dw, py: place.dy + t.v * place.dh, value: String(t.value ?? "") } : { px: t.px, py: t.py, value: String(t.value ?? "") }),
+        });
+        restoredCalTicks = restoreTicks(placement && [placement.dx, placement.dy, placement.dw, placement.dh].every(Number.isFinite) ? placement : null);
         const cv = calibration?.values;
         const refs = reference ? [reference.x1, reference.x2, reference.y1, reference.y2] : [];
         const vals = cv ? [Number(cv.x1), Number(cv.x2), Number(cv.y1), Number(cv.y2)] : [];
-        if (calibration?.enabled && refs.length === 4 && refs.every(p => p && Number.isFinite(p.u) && Number.isFinite(p.v)) &&
+        if (calibration?.enabled && calibration.mode !== "perspective" && refs.length === 4 && refs.every(p => p && Number.isFinite(p.u) && Number.isFinite(p.v)) &&
             vals.length === 4 && vals.every(Number.isFinite) &&
-            (!currentState.xLog || (vals[0] > 0 && vals[1] > 0)) &&
-            (!currentState.yLog || (vals[2] > 0 && vals[3] > 0))) {
+            inDomain(vals[0], axisScale(currentState, "x")) && inDomain(vals[1], axisScale(currentState, "x")) &&
+            inDomain(vals[2], axisScale(currentState, "y")) && inDomain(vals[3], axisScale(currentState, "y"))) {
           const plot = innerRect(), mm = tMinMax();
-          const pxAt = value => plot.x + ((tVal(value, currentState.xLog) - mm.xmin) / (mm.xmax - mm.xmin)) * plot.w;
-          const pyAt = value => plot.y + plot.h - ((tVal(value, currentState.yLog) - mm.ymin) / (mm.ymax - mm.ymin)) * plot.h;
+          const pxAt = value => plot.x + ((tVal(value, axisScale(currentState, "x")) - mm.xmin) / (mm.xmax - mm.xmin)) * plot.w;
+          const pyAt = value => plot.y + plot.h - ((tVal(value, axisScale(currentState, "y")) - mm.ymin) / (mm.ymax - mm.ymin)) * plot.h;
           const px1 = pxAt(vals[0]), px2 = pxAt(vals[1]);
           const py1 = pyAt(vals[2]), py2 = pyAt(vals[3]);
           const dw = (px2 - px1) / (reference.x2.u - reference.x1.u);
@@ -1761,6 +2815,7 @@ export default function App() {
               x1: remap(reference.x1), x2: remap(reference.x2),
               y1: remap(reference.y1), y2: remap(reference.y2),
             };
+            restoredCalTicks = restoreTicks({ dx, dy, dw, dh }) ?? restoredCalTicks;
           }
         }
       }
@@ -1771,12 +2826,13 @@ export default function App() {
         if (targetSlot < MAX_BG) newAnchors[targetSlot] = restoredAnchor;
         const newSeries = [...prev.series];
         while (newSeries.length <= targetSlot) newSeries.push({ name: SERIES_NAMES[newSeries.length] ?? `S${newSeries.length+1}`, color: seriesColor(newSeries.length), points: [], visible: true, crossLines: true });
-        newSeries[targetSlot] = { name: product.seriesName ?? SERIES_NAMES[targetSlot], color: product.seriesColor ?? seriesColor(targetSlot), points: product.points ?? [], visible: true, crossLines: true, tolerancePercent: [10,15].includes(Number(imageSettings.tolerancePercent)) ? Number(imageSettings.tolerancePercent) : 0, specs: { ...EMPTY_PRODUCT_SPECS, ...(product.specs ?? {}) } };
+        newSeries[targetSlot] = { name: product.seriesName ?? SERIES_NAMES[targetSlot], color: product.seriesColor ?? seriesColor(targetSlot), points: product.points ?? [], model: product.model ?? undefined, visible: true, crossLines: true, toleranceBand: normalizeToleranceBand(imageSettings.toleranceBand, imageSettings.tolerancePercent) ?? undefined, consensus: imageSettings.consensus ?? undefined, units: sourceUnits, specs: { ...EMPTY_PRODUCT_SPECS, ...(product.specs ?? {}) } };
         return { ...prev, bgXform: newBgXform, customAnchors: newAnchors, series: newSeries };
       });
       setMinBreakCurrents(prev => { const n = [...prev]; while (n.length <= targetSlot) n.push(null); n[targetSlot] = product.minBreakCurrent ?? null; return n; });
       if (targetSlot < MAX_BG) {
         setOpacityBgs(prev => { const n=[...prev]; n[targetSlot]=Number(imageSettings.opacity ?? BG_DEFAULT_OPACITY[targetSlot]); return n; });
+        setFiltersByBg(prev => { const n=[...prev]; n[targetSlot]=normalizeImageFilters(imageSettings.filters); return n; });
         if (typeof imageSettings.keepAspect === "boolean") setKeepAspect(imageSettings.keepAspect);
         const calibration = imageSettings.calibration;
         if (calibration) {
@@ -1784,6 +2840,9 @@ export default function App() {
           setCalClipForBg(targetSlot, !!calibration.clip);
           setCalPixelsForBg(targetSlot, restoredCalibrationPixels ?? calibration.pixels ?? {x1:null,x2:null,y1:null,y2:null});
           setCalValuesForBg(targetSlot, calibration.values ?? {x1:"",x2:"",y1:"",y2:""});
+          setCalModeForBg(targetSlot, calibration.mode === "perspective" ? "perspective" : "axes");
+          setCalTicksForBg(targetSlot, restoredCalTicks ?? { x: [], y: [] });
+          setCalRefsForBg(targetSlot, restoredCalRefs ?? (Array.isArray(calibration.refs) ? calibration.refs.map(r => ({ px: r.px, py: r.py, x: String(r.x ?? ""), y: String(r.y ?? "") })) : []));
         }
       }
       if (product.minBreakCurrent != null) setMinBreakInputs(prev => ({ ...prev, [targetSlot]: String(product.minBreakCurrent) }));
@@ -1871,84 +2930,493 @@ export default function App() {
   };
 
   /* preset */
-  const serialize = () => ({
-    v:2,
-    axes:{xMin:currentState.xMin,xMax:currentState.xMax,yMin:currentState.yMin,yMax:currentState.yMax,xLog:currentState.xLog,yLog:currentState.yLog},
-    series:currentState.series,
-    bg:{xform:currentState.bgXform,customAnchors:currentState.customAnchors,activeBg,keepAspect,showBgs,opacityBgs},
+  const serializePlot = () => ({
+    v:PROJECT_VERSION,
+    axes:{xMin:currentState.xMin,xMax:currentState.xMax,yMin:currentState.yMin,yMax:currentState.yMax,xLog:currentState.xLog,yLog:currentState.yLog,xScale:axisScale(currentState,"x"),yScale:axisScale(currentState,"y"),units:currentState.units},
+    series:currentState.series.map(({tolerancePercent,...s})=>({...s,toleranceBand:seriesBand({...s,tolerancePercent})??undefined})),
+    bg:{xform:currentState.bgXform,customAnchors:currentState.customAnchors,activeBg,keepAspect,showBgs,opacityBgs,filtersByBg},
     guidesX:guideXs,guidesY:guideYs,
     cross:{fromX:showCrossFromX,fromY:showCrossFromY},
     i2t:{show:showI2tGraph,mode:lifetimeMode,cycles:lifetimeCycles,multipliers:currentMultipliers,ratios:lifetimeRatios},
     minBreakCurrents,
-    calibrationByBg:{enabled:calEnabledByBg,clip:calClipByBg,pixels:calPixelsByBg,values:calValuesByBg},
+    calibrationByBg:{enabled:calEnabledByBg,clip:calClipByBg,pixels:calPixelsByBg,values:calValuesByBg,mode:calModeByBg,refs:calRefsByBg,ticks:calTicksByBg},
     ui:{ showRealCoords, showIntersectionMarkers, magnifyOn },
   });
-  const applyPreset = p => {
-    try {
-      const rawSeries=(p.series??currentState.series).slice(0,MAX_SERIES);
-      const nextSeries=rawSeries.map((s,i)=>({name:s.name??SERIES_NAMES[i]??`S${i+1}`,color:s.color??seriesColor(i),points:(s.points??[]).map(pt=>({x:Number(pt.x),y:Number(pt.y)})),basePoints:Array.isArray(s.basePoints)?s.basePoints.map(pt=>({x:Number(pt.x),y:Number(pt.y)})):undefined,shiftMultiplier:isFinite(Number(s.shiftMultiplier))?Number(s.shiftMultiplier):undefined,visible:s.visible!==false,crossLines:s.crossLines!==false,tolerancePercent:[10,15].includes(Number(s.tolerancePercent))?Number(s.tolerancePercent):0,specs:{...EMPTY_PRODUCT_SPECS,...(s.specs??{})}}));
-      const rawXform=Array.isArray(p.bg?.xform)?p.bg.xform:[];
-      const rawAnchors=Array.isArray(p.bg?.customAnchors)?p.bg.customAnchors:[];
-      const bgXform=Array(MAX_BG).fill(null).map((_,i)=>rawXform[i]??currentState.bgXform[i]??{sx:1,sy:1,offX:0,offY:0});
-      const customAnchors=Array(MAX_BG).fill(null).map((_,i)=>rawAnchors[i]??null);
-      const next={xMin:p.axes?.xMin??10,xMax:p.axes?.xMax??1000000,yMin:p.axes?.yMin??0.0001,yMax:p.axes?.yMax??1000000,xLog:!!p.axes?.xLog,yLog:!!p.axes?.yLog,series:nextSeries,bgXform,customAnchors};
-      setGuideXs(Array.isArray(p.guidesX)?p.guidesX:[]);
-      setGuideYs(Array.isArray(p.guidesY)?p.guidesY:[]);
-      setShowCrossFromX(p.cross?.fromX??true); setShowCrossFromY(p.cross?.fromY??true);
-      setKeepAspect(!!p.bg?.keepAspect);
-      const rawShow=p.bg?.showBgs??p.bg?.showAB??null;
-      const rawOpac=p.bg?.opacityBgs??p.bg?.opacityAB??null;
-      setShowBgs(Array(MAX_BG).fill(null).map((_,i)=>rawShow?.[i]??true));
-      setOpacityBgs(Array(MAX_BG).fill(null).map((_,i)=>rawOpac?.[i]??BG_DEFAULT_OPACITY[i]));
-      setActiveBg(p.bg?.activeBg??0);
-      if (p.i2t) {
-        setShowI2tGraph(false);
-        if (p.i2t.mode==="I_mode"||p.i2t.mode==="I2t_mode") setLifetimeMode(p.i2t.mode);
-        if (Array.isArray(p.i2t.cycles)) setLifetimeCycles(p.i2t.cycles.map(Number).filter(v=>isFinite(v)&&v>0));
-        if (Array.isArray(p.i2t.multipliers)) {
-          const loaded = p.i2t.multipliers.map(Number).filter(v=>isFinite(v)&&v>0);
-          /* 1회(index 0) 기본값은 항상 3.15로 고정 */
-          if (loaded.length > 0) loaded[0] = 3.15;
-          setCurrentMultipliers(loaded);
-        }
-        if (Array.isArray(p.i2t.ratios)) setLifetimeRatios(p.i2t.ratios.map(Number).filter(v=>isFinite(v)&&v>0));
-      }
-      if (Array.isArray(p.minBreakCurrents)) {
-        setMinBreakCurrents(p.minBreakCurrents.slice(0,MAX_SERIES).map(v=>(v!=null&&isFinite(Number(v))&&Number(v)>0)?Number(v):null));
-        setMinBreakInputs({});
-      }
-      if (p.calibrationByBg) {
-        const en = Array(MAX_BG).fill(false).map((_,i)=>!!p.calibrationByBg?.enabled?.[i]);
-        const cp = Array(MAX_BG).fill(false).map((_,i)=>!!p.calibrationByBg?.clip?.[i]);
-        const px = Array(MAX_BG).fill(null).map((_,i)=>p.calibrationByBg?.pixels?.[i] ?? {x1:null,x2:null,y1:null,y2:null});
-        const vv = Array(MAX_BG).fill(null).map((_,i)=>p.calibrationByBg?.values?.[i] ?? {x1:"",x2:"",y1:"",y2:""});
-        setCalEnabledByBg(en); setCalClipByBg(cp); setCalPixelsByBg(px); setCalValuesByBg(vv);
-      } else if (p.calibration) {
-        const en = Array(MAX_BG).fill(false); en[0] = !!p.calibration.enabled;
-        const cp = Array(MAX_BG).fill(false);
-        const px = Array(MAX_BG).fill(null).map((_,i)=>i===0?(p.calibration.pixels ?? {x1:null,x2:null,y1:null,y2:null}):{x1:null,x2:null,y1:null,y2:null});
-        const vv = Array(MAX_BG).fill(null).map((_,i)=>i===0?(p.calibration.values ?? {x1:"",x2:"",y1:"",y2:""}):{x1:"",x2:"",y1:"",y2:""});
-        setCalEnabledByBg(en); setCalClipByBg(cp); setCalPixelsByBg(px); setCalValuesByBg(vv);
+  /** 전체 작업공간: 현재 플롯은 최상위, 나머지 플롯은 workspace.plots[].project */
+  const serialize = () => ({
+    ...serializePlot(),
+    workspace: plots.length > 1
+      ? { active: activePlot, plots: plots.map((pl, i) => ({ name: pl.name, project: i === activePlot ? null : plotStoreRef.current.get(pl.id)?.project ?? null })) }
+      : undefined,
+  });
+  /** 프로젝트 JSON 적용: lib/project에서 마이그레이션·검증을 통과한 값만 반영 (실패 시 아무것도 바꾸지 않음). images(플롯별 슬롯 data URL)가 있으면 배경 슬롯도 그것으로 교체 */
+  const applyPreset = (raw, source = "Preset", images?: (string | null)[][]) => {
+    let parsed;
+    try { parsed = parseProject(raw); }
+    catch (e) { notify(`${source} 불러오기 실패: ${e?.message ?? e}`, "err"); return false; }
+    const { project: p, dropped, migratedFrom } = parsed;
+    /* a workspace replaces every plot; a single-plot file only replaces the active one */
+    if (p.workspace) {
+      plotStoreRef.current = new Map();
+      const list = p.workspace.plots.map((pl, k) => {
+        const id = ++plotIdRef.current;
+        if (pl.project || images?.[k]) plotStoreRef.current.set(id, { project: pl.project, imageUrls: images?.[k] });
+        return { id, name: pl.name };
+      });
+      setPlots(list);
+      setActivePlot(p.workspace.active);
+    }
+    applyPlotProject(p);
+    if (images) restoreSlotImages(images[p.workspace?.active ?? 0] ?? []);
+    if (dropped.length) {
+      notify(`${source} loaded${migratedFrom<PROJECT_VERSION?` (v${migratedFrom} → v${PROJECT_VERSION})`:""} · ${dropped.length}개 항목 제외: ${dropped.slice(0,3).join("; ")}${dropped.length>3?" …":""}`, "err");
+    } else {
+      notify(`${source} loaded${migratedFrom<PROJECT_VERSION?` (v${migratedFrom} → v${PROJECT_VERSION})`:""}`);
+    }
+    return true;
+  };
+  /** 검증된 한 플롯의 프로젝트를 편집 상태에 반영 (Undo 기록은 새로 시작) */
+  const applyPlotProject = (p: Project) => {
+    const nextSeries=p.series?p.series.map((s,i)=>({name:s.name??SERIES_NAMES[i]??`S${i+1}`,color:s.color??seriesColor(i),points:s.points,basePoints:s.basePoints,shiftMultiplier:s.shiftMultiplier,model:s.model,visible:s.visible,crossLines:s.crossLines,toleranceBand:s.toleranceBand,consensus:s.consensus,units:s.units,specs:{...EMPTY_PRODUCT_SPECS,...s.specs}})):currentState.series;
+    const bgXform=Array(MAX_BG).fill(null).map((_,i)=>p.bg?.xform[i]??currentState.bgXform[i]??{sx:1,sy:1,offX:0,offY:0});
+    const customAnchors=Array(MAX_BG).fill(null).map((_,i)=>p.bg?.customAnchors[i]??null);
+    const next={xMin:p.axes?.xMin??10,xMax:p.axes?.xMax??1000000,yMin:p.axes?.yMin??0.0001,yMax:p.axes?.yMax??1000000,xLog:!!p.axes?.xLog,yLog:!!p.axes?.yLog,xScale:p.axes?.xScale,yScale:p.axes?.yScale,units:p.axes?.units??currentState.units??DEFAULT_AXIS_UNITS,series:nextSeries,bgXform,customAnchors};
+    setGuideXs(p.guidesX??[]);
+    setGuideYs(p.guidesY??[]);
+    setShowCrossFromX(p.cross?.fromX??true); setShowCrossFromY(p.cross?.fromY??true);
+    setKeepAspect(!!p.bg?.keepAspect);
+    setShowBgs(Array(MAX_BG).fill(null).map((_,i)=>p.bg?.showBgs[i]??true));
+    setOpacityBgs(Array(MAX_BG).fill(null).map((_,i)=>p.bg?.opacityBgs[i]??BG_DEFAULT_OPACITY[i]));
+    setFiltersByBg(Array(MAX_BG).fill(null).map((_,i)=>p.bg?.filtersByBg[i]??normalizeImageFilters(null)));
+    setActiveBg(p.bg?.activeBg??0);
+    if (p.i2t) {
+      setShowI2tGraph(false);
+      if (p.i2t.mode) setLifetimeMode(p.i2t.mode);
+      if (p.i2t.cycles) setLifetimeCycles(p.i2t.cycles);
+      if (p.i2t.multipliers) {
+        const loaded = [...p.i2t.multipliers];
+        /* 1회(index 0) 기본값은 항상 3.15로 고정 */
+        if (loaded.length > 0) loaded[0] = 3.15;
+        setCurrentMultipliers(loaded);
       }
-      setShowRealCoords(true);
-      setShowIntersectionMarkers(p.ui?.showIntersectionMarkers !== false);
-      setMagnifyOn(true);
-      axesCalRefitKeyRef.current = `${next.xMin}|${next.xMax}|${next.yMin}|${next.yMax}|${!!next.xLog}|${!!next.yLog}`;
-      updateState(()=>next,true); notify("Preset loaded");
-    } catch { notify("Invalid preset","err"); }
+      if (p.i2t.ratios) setLifetimeRatios(p.i2t.ratios);
+    }
+    if (p.minBreakCurrents) {
+      setMinBreakCurrents(p.minBreakCurrents);
+      setMinBreakInputs({});
+    }
+    if (p.calibrationByBg) {
+      const c = p.calibrationByBg;
+      setCalEnabledByBg(c.enabled); setCalClipByBg(c.clip); setCalPixelsByBg(c.pixels); setCalValuesByBg(c.values);
+      setCalModeByBg(c.mode); setCalTicksByBg(c.ticks); setCalRefsByBg(c.refs);
+    }
+    setShowRealCoords(true);
+    setShowIntersectionMarkers(p.ui?.showIntersectionMarkers !== false);
+    setMagnifyOn(true);
+    axesCalRefitKeyRef.current = `${next.xMin}|${next.xMax}|${next.yMin}|${next.yMax}|${axisScale(next, "x")}|${axisScale(next, "y")}`;
+    updateState(()=>next,true);
   };
-  const savePresetFile = () => { const blob=new Blob([JSON.stringify(serialize(),null,2)],{type:"application/json"}); const a=document.createElement("a"); a.href=URL.createObjectURL(blob); a.download="digitizer_preset_"+Date.now()+".json"; a.click(); setTimeout(()=>URL.revokeObjectURL(a.href),0); };
-  const loadPresetFromFile = file => { if(!file) return; const fr=new FileReader(); fr.onload=()=>{try{applyPreset(JSON.parse(String(fr.result||"{}")));}catch{notify("Cannot parse preset","err");}}; fr.readAsText(file); };
-  const copyShareURL = () => { const payload=btoa(unescape(encodeURIComponent(JSON.stringify(serialize())))); navigator.clipboard.writeText(location.origin+location.pathname+"#s="+payload).then(()=>notify("URL copied")); };
-  const exportCSV = () => { let out="series,x,y\n"; currentState.series.forEach(s=>s.points.forEach(p=>(out+=s.name+","+p.x+","+p.y+"\n"))); const url=URL.createObjectURL(new Blob([out],{type:"text/csv"})); const a=document.createElement("a"); a.href=url; a.download="points_"+Date.now()+".csv"; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0); };
-  const exportPNG  = () => { const c=canvasRef.current; if(!c) return; const a=document.createElement("a"); a.href=c.toDataURL("image/png"); a.download="digitizer_"+Date.now()+".png"; a.click(); };
 
-  /* Datasheet Automation runs on a different origin.  The explicit import
-     query flag and opener check keep ordinary browsing sessions isolated,
-     while postMessage lets us receive large image data without URL limits. */
-  useEffect(() => {
-    if (!currentState || new URLSearchParams(location.search).get("import") !== "datasheet" || !window.opener) return;
-    const params = new URLSearchParams(location.search);
+  /** 축 스케일 변경: 범위가 새 스케일 정의역 밖이면 기본 범위로(확률 축 0.1–99.9 %). 캘리브 슬롯은 자동 재맞춤 */
+  const setAxisScale = (axis: "x" | "y", id: string) => {
+    updateState(p => {
+      const [min, max] = rangeForScale(id, axis === "x" ? p.xMin : p.yMin, axis === "x" ? p.xMax : p.yMax);
+      return axis === "x" ? { ...p, xScale: id, xLog: id === "log10", xMin: min, xMax: max } : { ...p, yScale: id, yLog: id === "log10", yMin: min, yMax: max };
+    });
+  };
+
+  /** 축 단위 변경: 같은 물리량의 다른 단위면 기존 값(곡선·축 범위·캘리브·가이드)을 변환할지 묻고, 취소하면 이름만 바꿈 */
+  const changeAxisUnit = (axis: "x" | "y", next: AxisUnit) => {
+    const units = currentState.units ?? DEFAULT_AXIS_UNITS, f = unitFactor(units[axis], next);
+    const hasData = currentState.series.some(s => s.points.length > 0);
+    const convert = f !== 1 && hasData && window.confirm(`기존 데이터를 ${units[axis].unit} → ${next.unit}로 변환할까요?\n(취소 = 값은 그대로 두고 단위 이름만 변경)`);
+    const nextUnits = { ...units, [axis]: next };
+    if (!convert) { updateState(p => ({ ...p, units: nextUnits })); return; }
+    const scalePt = pt => axis === "x" ? { ...pt, x: pt.x * f } : { ...pt, y: pt.y * f };
+    const scaleNum = v => Number((v * f).toPrecision(12));
+    const scaleStr = v => String(v ?? "").trim() === "" || !isFinite(Number(v)) ? v : String(scaleNum(Number(v)));
+    updateState(p => {
+      const n = {
+        ...p,
+        units: nextUnits,
+        series: p.series.map(s => ({
+          ...s,
+          points: s.points.map(scalePt),
+          basePoints: s.basePoints?.map(scalePt),
+          model: undefined,
+          consensus: s.consensus ? { ...s.consensus, lower: s.consensus.lower.map(scalePt), upper: s.consensus.upper.map(scalePt) } : undefined,
+        })),
+        ...(axis === "x" ? { xMin: scaleNum(p.xMin), xMax: scaleNum(p.xMax) } : { yMin: scaleNum(p.yMin), yMax: scaleNum(p.yMax) }),
+      };
+      axesCalRefitKeyRef.current = `${n.xMin}|${n.xMax}|${n.yMin}|${n.yMax}|${axisScale(n, "x")}|${axisScale(n, "y")}`;
+      return n;
+    });
+    setCalValuesByBg(prev => prev.map(v => ({ ...v, [`${axis}1`]: scaleStr(v[`${axis}1`]), [`${axis}2`]: scaleStr(v[`${axis}2`]) })));
+    setCalRefsByBg(prev => prev.map(list => list.map(r => ({ ...r, [axis]: scaleStr(r[axis]) }))));
+    setCalTicksByBg(prev => prev.map(t => ({ ...t, [axis]: t[axis].map(q => ({ ...q, value: scaleStr(q.value) })) })));
+    if (axis === "x") {
+      setGuideXs(g => g.map(scaleNum)); setGuideXLabels({});
+      setMinBreakCurrents(prev => prev.map(v => v == null ? v : scaleNum(v))); setMinBreakInputs({});
+    } else {
+      setGuideYs(g => g.map(scaleNum));
+    }
+    notify(`${axis.toUpperCase()} 축: ${units[axis].unit} → ${next.unit} 변환 (곡선 모델은 다시 Fit 필요)`);
+  };
+
+  /* workspace plots */
+  const blankPlotProject = () => ({
+    v: PROJECT_VERSION,
+    axes: { xMin: 10, xMax: 1000000, yMin: 0.0001, yMax: 1000000, xLog: true, yLog: true },
+    series: [{ name: "A", points: [] }, { name: "B", points: [] }],
+    bg: { xform: Array(MAX_BG).fill(null).map(() => ({ sx: 1, sy: 1, offX: 0, offY: 0 })), activeBg: 0 },
+    guidesX: [], guidesY: [], minBreakCurrents: [], calibrationByBg: {},
+  });
+  /** 현재 플롯을 보관: 프로젝트 JSON + 배경 이미지 + Undo 기록 */
+  const stashActivePlot = () => {
+    plotStoreRef.current.set(plots[activePlot].id, {
+      project: serializePlot(),
+      images: { list: bgList, refs: bgRefs.current.slice(), urls: bgUrls.current.slice() },
+      history, historyIndex,
+    });
+  };
+  const restorePlot = entry => {
+    applyPlotProject(parseProject(entry?.project ?? blankPlotProject(), true).project);
+    bgRefs.current = entry?.images ? entry.images.refs.slice() : Array(MAX_BG).fill(null);
+    bgUrls.current = entry?.images ? entry.images.urls.slice() : Array(MAX_BG).fill(null);
+    setBgList(entry?.images?.list ?? Array(MAX_BG).fill(null));
+    if (!entry?.images && entry?.imageUrls) restoreSlotImages(entry.imageUrls);
+    if (entry?.history?.length) { setHistory(entry.history); setHistoryIndex(entry.historyIndex); }
+    setActiveSeries(0);
+    setSelectedPoint(null);
+    setSelectedPoints([]);
+    setResamplePreview(null);
+    setConsensusPick([]);
+  };
+  const switchPlot = (i: number) => {
+    if (i === activePlot || !plots[i]) return;
+    stashActivePlot();
+    restorePlot(plotStoreRef.current.get(plots[i].id));
+    setActivePlot(i);
+  };
+  const addPlot = () => {
+    if (plots.length >= MAX_PLOTS) { notify(`플롯은 최대 ${MAX_PLOTS}개까지 가능합니다`, "err"); return; }
+    stashActivePlot();
+    const id = ++plotIdRef.current;
+    setPlots(prev => [...prev, { id, name: `Plot ${prev.length + 1}` }]);
+    restorePlot(null);
+    setActivePlot(plots.length);
+  };
+  const renamePlot = (i: number, name: string) => setPlots(prev => prev.map((pl, k) => k === i ? { ...pl, name: name.slice(0, 60) } : pl));
+  const removePlot = (i: number) => {
+    if (plots.length <= 1) return;
+    if (!window.confirm(`"${plots[i].name}" 플롯을 삭제할까요? (이미지·곡선·캘리브 모두 삭제)`)) return;
+    const id = plots[i].id;
+    const entry = plotStoreRef.current.get(id);
+    const urls: (string | null)[] = i === activePlot ? bgUrls.current.slice() : (entry?.images?.urls ?? entry?.imageUrls ?? []);
+    if (i === activePlot) {
+      const to = i > 0 ? i - 1 : 1;
+      restorePlot(plotStoreRef.current.get(plots[to].id));
+      setActivePlot(to > i ? to - 1 : to);
+    } else if (i < activePlot) {
+      setActivePlot(activePlot - 1);
+    }
+    plotStoreRef.current.delete(id);
+    setPlots(prev => prev.filter((_, k) => k !== i));
+    /* 삭제한 플롯의 blob URL 해제 — 다른 플롯·현재 슬롯이 같은 URL을 쓰면 유지 */
+    const inUse = new Set<string>(bgUrls.current);
+    plotStoreRef.current.forEach(e => (e?.images?.urls ?? e?.imageUrls ?? []).forEach(u => inUse.add(u)));
+    urls.forEach(u => { if (typeof u === "string" && u.startsWith("blob:") && !inUse.has(u)) URL.revokeObjectURL(u); });
+  };
+  /* local projects (IndexedDB) */
+  /** 슬롯 이미지를 통째로 교체(배치·Undo 기록은 그대로, 로드 완료 시 현재 기록에 흡수) · data:image/·blob: URL만 로드 (원격 URL은 캔버스를 오염시키므로 빈 슬롯) */
+  const restoreSlotImages = (urls: (string | null)[]) => {
+    bgRefs.current = Array(MAX_BG).fill(null);
+    bgUrls.current = Array(MAX_BG).fill(null);
+    setBgList(Array(MAX_BG).fill(null));
+    return Promise.all(urls.slice(0, MAX_BG).map((src, idx) => !src || !/^(data:image\/|blob:)/.test(src) ? Promise.resolve(!src) : new Promise<boolean>(resolve => {
+      const img = new Image();
+      img.onload = () => {
+        bgRefs.current[idx] = img; bgUrls.current[idx] = src;
+        absorbWsUntilRef.current = Date.now() + HISTORY_ABSORB_MS;
+        setBgList(cur => { const n = [...cur]; n[idx] = { w: img.width, h: img.height }; return n; });
+        resolve(true);
+      };
+      img.onerror = () => resolve(false);
+      img.src = src;
+    })));
+  };
+  /** 플롯별 슬롯 이미지(data URL): 활성 플롯은 편집 중인 슬롯, 나머지는 보관본 */
+  const workspaceImageUrls = () => plots.map((pl, i) => {
+    if (i === activePlot) return bgUrls.current.slice();
+    const entry = plotStoreRef.current.get(pl.id);
+    return (entry?.images?.urls ?? entry?.imageUrls ?? []).slice();
+  });
+  const refreshLocalProjects = () => {
+    listLocalProjects().then(setLocalProjects).catch(e => notify(`로컬 프로젝트 목록 실패: ${e?.message ?? e}`, "err"));
+    localStorageUsage().then(setStorageUsage);
+  };
+  const saveProjectLocally = async (asNew = false) => {
+    const name = asNew || !localProject ? window.prompt("프로젝트 이름", localProject?.name ?? plots[activePlot]?.name ?? "Untitled") : localProject.name;
+    if (name == null) return;
+    try {
+      const saved = await saveLocalProject({ id: asNew ? undefined : localProject?.id, name, project: serialize(), images: workspaceImageUrls() });
+      setLocalProject({ id: saved.id, name: saved.name });
+      notify(`"${saved.name}" 저장됨 · 이미지 ${saved.imageCount}개`);
+      refreshLocalProjects();
+    } catch (e) {
+      notify(`로컬 저장 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  const openLocalProject = async (id: string) => {
+    if (currentState.series.some(s => s.points.length) && !window.confirm("현재 작업을 닫고 프로젝트를 열까요? (저장하지 않은 변경은 세션 복구본에만 남습니다)")) return;
+    try {
+      const rec = await loadLocalProject(id);
+      if (!rec) { notify("프로젝트를 찾을 수 없습니다", "err"); refreshLocalProjects(); return; }
+      if (!applyPreset(rec.project, rec.meta.name, rec.images)) return;
+      leaveSnapshotView();
+      setLocalProject({ id: rec.meta.id, name: rec.meta.name });
+      setShowProjects(false);
+    } catch (e) {
+      notify(`프로젝트 열기 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  /** WebPlotDigitizer(.json·.tar)·Engauge(.dig) 프로젝트 → 현재 플롯 (시리즈 i = 슬롯 i, 이미지·캘리브 포함). 옮기지 못한 항목은 목록으로 보고 */
+  const importDigitizerProject = async (file: File) => {
+    if (currentState.series.some(s => s.points.length) && !window.confirm("현재 플롯을 가져온 프로젝트로 바꿀까요? (저장하지 않은 변경은 세션 복구본에만 남습니다)")) return;
+    try {
+      const imp = await readDigitizerFile(file);
+      const { project, images, issues } = importedProject(imp, { frame: innerRect(), slots: MAX_BG, series: MAX_SERIES, units: currentState.units ?? DEFAULT_AXIS_UNITS });
+      if (!applyPreset(project, imp.source, [images])) return;
+      leaveSnapshotView();
+      setImportReport({ source: imp.source, name: imp.name, series: project.series.length, issues });
+    } catch (e) {
+      notify(`가져오기 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  const renameLocal = async (id: string, name: string) => {
+    setRenamingLocal(null);
+    if (!name.trim()) return;
+    try {
+      await renameLocalProject(id, name);
+      if (localProject?.id === id) setLocalProject({ id, name: name.trim() });
+      refreshLocalProjects();
+    } catch (e) {
+      notify(`이름 변경 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  const duplicateLocal = async (meta: LocalProjectMeta) => {
+    try {
+      const copy = await duplicateLocalProject(meta.id, `${meta.name} (copy)`);
+      if (copy) notify(`"${copy.name}" 생성됨`);
+      refreshLocalProjects();
+    } catch (e) {
+      notify(`복제 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  const deleteLocal = async (meta: LocalProjectMeta) => {
+    if (!window.confirm(`"${meta.name}" 프로젝트를 삭제할까요? 되돌릴 수 없습니다.`)) return;
+    try {
+      await deleteLocalProject(meta.id);
+      if (localProject?.id === meta.id) setLocalProject(null);
+      refreshLocalProjects();
+    } catch (e) {
+      notify(`삭제 실패: ${e?.message ?? e}`, "err");
+    }
+  };
+  const fmtBytes = (n: number) => n >= 2 ** 30 ? `${(n / 2 ** 30).toFixed(2)} GB` : n >= 2 ** 20 ? `${(n / 2 ** 20).toFixed(1)} MB` : `${Math.max(1, Math.round(n / 1024))} KB`;
+
+  const savePresetFile = () => { const blob=new Blob([JSON.stringify(serialize(),null,2)],{type:"application/json"}); const a=document.createElement("a"); a.href=URL.createObjectURL(blob); a.download="digitizer_preset_"+Date.now()+".json"; a.click(); setTimeout(()=>URL.revokeObjectURL(a.href),0); };
+  const loadPresetFromFile = file => { if(!file) return; const fr=new FileReader(); fr.onload=()=>{let raw;try{raw=JSON.parse(String(fr.result||"{}"));}catch{notify("Cannot parse preset","err");return;}if(applyPreset(raw,"Preset"))leaveSnapshotView();}; fr.readAsText(file); };
+  /** 작은 프로젝트는 압축 해시 링크, 이미지가 있거나 큰 프로젝트는 서버 스냅샷 링크 (view: 읽기 전용, copy: 사본) */
+  const copyShareURL = async (mode: "auto" | "view" | "copy" = "auto") => {
+    setShareOpen(false);
+    setSharing(true);
+    try {
+      const project = serialize(), images = workspaceImageUrls();
+      const base = location.origin + location.pathname + "#";
+      if (mode === "auto") {
+        const hash = await encodeShareHash(project);
+        const hasImages = images.some(slots => slots.some(Boolean));
+        if (hash.length <= SHARE_HASH_MAX && !hasImages) {
+          await navigator.clipboard.writeText(base + hash);
+          notify(`URL copied (${(hash.length / 1024).toFixed(1)} KB)`);
+          return;
+        }
+        mode = "view";
+      }
+      let id;
+      try { id = await createSnapshot({ project, images }); }
+      catch (e) {
+        const hash = await encodeShareHash(project);
+        if (hash.length > SHARE_HASH_MAX) { notify(`스냅샷 서버에 저장하지 못했습니다: ${e?.message ?? e}`, "err"); return; }
+        await navigator.clipboard.writeText(base + hash);
+        notify(`스냅샷 서버를 사용할 수 없어 이미지 없이 URL을 복사했습니다 (${e?.message ?? e})`, "err");
+        return;
+      }
+      await navigator.clipboard.writeText(base + snapshotHash(id, mode));
+      notify(mode === "copy" ? "Snapshot URL copied (opens as copy)" : "Snapshot URL copied (read-only)");
+    } catch (e) {
+      notify(`URL 복사 실패: ${e?.message ?? e}`, "err");
+    } finally {
+      setSharing(false);
+    }
+  };
+  /** 읽기 전용 스냅샷 해제 (편집·세션 저장 재개, 링크 해시 제거) */
+  const leaveSnapshotView = () => {
+    if (!readOnlyRef.current) return;
+    readOnlyRef.current = false;
+    setSnapshotView(null);
+    window.history.replaceState(null, "", location.pathname + location.search);
+  };
+  const editSnapshotCopy = () => { leaveSnapshotView(); notify("스냅샷 사본을 편집합니다"); };
+  const exportCSV = () => { const u=currentState.units??DEFAULT_AXIS_UNITS; let out=`series,x [${u.x.unit}],y [${u.y.unit}]\n`; currentState.series.forEach(s=>s.points.forEach(p=>(out+=s.name+","+p.x+","+p.y+"\n"))); const url=URL.createObjectURL(new Blob([out],{type:"text/csv"})); const a=document.createElement("a"); a.href=url; a.download="points_"+Date.now()+".csv"; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0); };
+  /** Excel 통합 문서: 시리즈별 시트, 제품 사양, 공통 로그 전류 격자 보간표, 수명표·Selection Check 결과(있을 때) */
+  const exportXLSX = () => {
+    const u=currentState.units??DEFAULT_AXIS_UNITS;
+    const head=(a:AxisUnit)=>`${QUANTITY_LABELS[a.quantity]}${a.unit?` [${a.unit}]`:""}`;
+    const withPts=currentState.series.filter(s=>s.points.length);
+    if(!withPts.length){notify("내보낼 좌표가 없습니다","err");return;}
+    const sheets:XlsxSheet[]=withPts.map(s=>({name:s.name,rows:[[head(u.x),head(u.y)],...s.points.map(p=>[p.x,p.y])]}));
+
+    const specRows:[keyof ProductSpecs,string][]=[["ratedCurrent","Rated current"],["ratedVoltage","Rated voltage"],["breakingCapacity","Breaking capacity"],["minBreaking","Min breaking"],["maxBreaking","Max breaking"],["timeConstant","Time constant"],["protectionType","Protection type"],["preArcing","Pre-arcing I²t"],["clearing","Clearing I²t"],["dimensions","Dimensions"],["weight","Weight"]];
+    const parsed:[keyof ProductSpecs,string][]=[["ratedCurrent","Rated current [A]"],["ratedVoltage","Rated voltage [V]"],["minBreaking","Min breaking [A]"],["maxBreaking","Max breaking [A]"],["preArcing","Pre-arcing [A²s]"],["clearing","Clearing [A²s]"]];
+    sheets.push({name:"Specs",rows:[
+      ["Series",...specRows.map(([,l])=>l),...parsed.map(([,l])=>l)],
+      ...withPts.map(s=>{const sp={...EMPTY_PRODUCT_SPECS,...s.specs};return [s.name,...specRows.map(([k])=>sp[k]),...parsed.map(([k])=>parseEngineeringValue(sp[k]))];}),
+    ]});
+
+    /* 공통 격자: 모든 시리즈 X 범위의 합집합, 양수면 로그 간격 (decade당 20점) */
+    const xs=withPts.flatMap(s=>s.points.map(p=>p.x)).filter(Number.isFinite);
+    const lo=Math.min(...xs),hi=Math.max(...xs),logGrid=lo>0;
+    const n=logGrid?Math.min(400,Math.max(20,Math.ceil(Math.log10(hi/lo)*20)+1)):50;
+    const grid=hi>lo?Array.from({length:n},(_,i)=>logGrid?Math.pow(10,Math.log10(lo)+(Math.log10(hi)-Math.log10(lo))*i/(n-1)):lo+(hi-lo)*i/(n-1)):[lo];
+    const scales={xLog:logGrid,yLog:axisScale(currentState,"y")==="log10"};
+    const sorted=withPts.map(s=>[...s.points].sort((a,b)=>a.x-b.x));
+    sheets.push({name:"Common grid",rows:[
+      [head(u.x),...withPts.map(s=>`${s.name} ${head(u.y)}`)],
+      ...grid.map(x=>[Number(x.toPrecision(6)),...sorted.map(pts=>interpolateYAtX(pts,x,scales))]),
+    ]});
+
+    if(showI2tGraph){
+      sheets.push({name:"Lifetime",rows:[
+        ["N (cycles)","Selected","Current multiplier","Current [A]","I²t factor"],
+        ...lifetimeCycles.map((cy,idx)=>{const m=currentMultipliers[idx]??1;return [cy,selectedLifetimeCycles.has(cy),m,m*LIFE_CURRENT_BASE,lifetimeMode==="I_mode"?m*m:(lifetimeRatios[idx]??1)];}),
+      ]});
+    }
+
+    const coord=evaluateCoordination();
+    if(coord.upper&&coord.lower){
+      const verdict=v=>v===true?"PASS":v===false?"FAIL":"DATA";
+      const rows:XlsxCell[][]=[
+        ["Item","Upper","Lower","Result"],
+        ["Product",`${coord.upper.company??""} ${coord.upper.name??""}`.trim(),`${coord.lower.company??""} ${coord.lower.name??""}`.trim(),coord.status.toUpperCase()],
+        ...coord.upperFit.checks.map((c,k)=>[c.label,c.value,coord.lowerFit.checks[k]?.value,`${verdict(c.pass)} / ${verdict(coord.lowerFit.checks[k]?.pass)}`]),
+        ["Pre-arcing I²t [A²s]",coord.upperPre,coord.lowerPre,""],
+        ["Clearing I²t [A²s]",coord.upperClearing,null,verdict(coord.scalarPass)],
+        ["Curve samples",coord.curveSamples,null,""],
+        ["Curve pass rate [%]",coord.curvePassRate,null,verdict(coord.curvePass)],
+        ["Margin [%]",coord.margin*100,null,""],
+        ["Tolerance band",describeToleranceBand(coord.upperBand),describeToleranceBand(coord.lowerBand),""],
+        ["Message",coord.message,null,""],
+      ];
+      sheets.push({name:"Selection Check",rows});
+    }
+
+    const url=URL.createObjectURL(buildXlsx(sheets)); const a=document.createElement("a"); a.href=url; a.download="digitizer_"+Date.now()+".xlsx"; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0);
+  };
+  /** 보고서용 차트 내보내기 대화상자 (축 제목·시리즈 스타일 기본값은 현재 화면 설정에서) */
+  const openChartExport = () => {
+    const u=currentState.units??DEFAULT_AXIS_UNITS;
+    const seriesDefault=(s,i):SeriesStyle=>({color:s.color??seriesColor(i),width:connectLines?lineWidth:0,dash:"solid",marker:showPoints?"circle":"none",markerSize:3});
+    setChartExport(cur=>cur
+      ? {...cur,series:currentState.series.map((s,i)=>cur.series[i]??seriesDefault(s,i))}
+      : {format:"svg",dpi:300,
+         style:{...DEFAULT_CHART_STYLE,xLabel:axisTitle(u.x,""),yLabel:axisTitle(u.y,""),smooth:smoothLines?smoothAlpha:null},
+         series:currentState.series.map(seriesDefault)});
+    setChartExportOpen(true);
+  };
+  /** 배경 이미지를 SVG에 넣을 data URL (필터 적용본 우선, 원본은 가능한 한 그대로) */
+  const bgExportHref = (i: number) => {
+    const src=filteredBg(i)?.canvas ?? bgRefs.current[i];
+    if(!src) return null;
+    const hit=exportHrefRef.current.get(src); if(hit) return hit;
+    let href=src===bgRefs.current[i]&&String(bgUrls.current[i]??"").startsWith("data:")?bgUrls.current[i]:null;
+    if(!href){const c=document.createElement("canvas");c.width=src.width;c.height=src.height;c.getContext("2d").drawImage(src,0,0);href=c.toDataURL("image/png");}
+    exportHrefRef.current.set(src,href);
+    return href;
+  };
+  const chartExportData = (opts): ChartData => {
+    const backgrounds=[];
+    if(opts.style.background&&calModel()?.kind!=="perspective"){
+      for(let i=0;i<MAX_BG;i++){
+        if(!bgRefs.current[i]||!showBgs[i]||opacityBgs[i]<=0) continue;
+        const {dx,dy,dw,dh}=drawRectAndAnchor(i), href=bgExportHref(i);
+        if(!href) continue;
+        const clip=calClipByBg[i]?calFramePolygon(i):null;
+        backgrounds.push({href,opacity:opacityBgs[i],topLeft:pixelToData(dx,dy),bottomRight:pixelToData(dx+dw,dy+dh),clip:clip?.map(p=>pixelToData(p.px,p.py))});
+      }
+    }
+    return {
+      xScale:axisScale(currentState,"x"),yScale:axisScale(currentState,"y"),
+      xMin:currentState.xMin,xMax:currentState.xMax,yMin:currentState.yMin,yMax:currentState.yMax,
+      series:currentState.series.map((s,i)=>({s,style:opts.series[i]})).filter(({s,style})=>s.visible!==false&&style)
+        .map(({s,style})=>({name:s.name,points:[...s.points].sort((a,b)=>a.x-b.x),style})),
+      backgrounds,
+    };
+  };
+  /** 미리보기 SVG data URL — 대화상자 옵션이나 그려지는 상태가 바뀔 때만 다시 렌더 */
+  const chartExportPreview = useMemo(
+    () => chartExportOpen&&chartExport&&currentState ? "data:image/svg+xml;charset=utf-8,"+encodeURIComponent(renderChartSvg(chartExportData(chartExport),chartExport.style)) : "",
+    [chartExportOpen,chartExport,currentState,showBgs,opacityBgs,filtersByBg,calClipByBg,calEnabledByBg,calPixelsByBg,calValuesByBg,calModeByBg]);
+  const downloadChartExport = async () => {
+    if(!chartExport) return;
+    setChartExportBusy(true);
+    try {
+      const svg=renderChartSvg(chartExportData(chartExport),chartExport.style);
+      const blob=chartExport.format==="svg"?new Blob([svg],{type:"image/svg+xml"}):await svgToPng(svg,chartExport.style,chartExport.dpi);
+      const url=URL.createObjectURL(blob); const a=document.createElement("a"); a.href=url; a.download=`chart_${Date.now()}.${chartExport.format}`; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0);
+      setChartExportOpen(false);
+    } catch (e) {
+      notify(`차트 내보내기 실패: ${e?.message ?? e}`, "err");
+    } finally {
+      setChartExportBusy(false);
+    }
+  };
+  /** 시리즈 → MATLAB·Python·C·SPICE 코드 (점 그대로 또는 x 등간격 재표본, 축 단위 또는 기준 단위 A·s·A²s) */
+  const codeExportText = opts => {
+    const s=currentState.series[opts.series];
+    if(!s) return "";
+    const issues=linLogScaleIssues();
+    if(issues.length) return `Code export supports linear and log10 axes only (${issues.join(", ")}).\nSwitch the axis scale, or export the points as CSV/XLSX instead.\n`;
+    const axes={xLog:axisScale(currentState,"x")==="log10",yLog:axisScale(currentState,"y")==="log10"};
+    const units=currentState.units??DEFAULT_AXIS_UNITS;
+    const sampled=opts.sampling==="resample"?resampleEvenX(s.points,opts.count,axes):s.points;
+    const outUnits=opts.baseUnits?{x:{...units.x,unit:baseUnit(units.x.quantity)},y:{...units.y,unit:baseUnit(units.y.quantity)}}:units;
+    return generateCode(opts.format,{
+      name:s.name,points:convertPoints(sampled,units,outUnits),units:outUnits,...axes,
+      note:opts.sampling==="resample"?`resampled: ${opts.count} points, even in ${axes.xLog?"log10(x)":"x"}`:"points as digitized",
+    });
+  };
+  const openCodeExport = (series:number) => {
+    setCodeExport(cur=>({format:"python",sampling:"points",count:resampleCount,baseUnits:false,...cur,series}));
+    setCodeExportOpen(true);
+  };
+  const copyCodeExport = () => {
+    if(linLogScaleIssues().length) return notify("이 축 눈금은 코드로 내보낼 수 없습니다","err");
+    navigator.clipboard.writeText(codeExportText(codeExport)).then(()=>notify("코드를 복사했습니다")).catch(()=>notify("클립보드에 복사할 수 없습니다","err"));
+  };
+  const downloadCodeExport = () => {
+    if(linLogScaleIssues().length) return notify("이 축 눈금은 코드로 내보낼 수 없습니다","err");
+    const name=codeIdentifier(currentState.series[codeExport.series]?.name);
+    const url=URL.createObjectURL(new Blob([codeExportText(codeExport)],{type:"text/plain;charset=utf-8"})); const a=document.createElement("a"); a.href=url; a.download=`${name}.${CODE_FORMATS[codeExport.format].ext}`; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0);
+  };
+
+  /* Datasheet Automation runs on a different origin.  The explicit import
+     query flag and opener check keep ordinary browsing sessions isolated,
+     while postMessage lets us receive large image data without URL limits. */
+  useEffect(() => {
+    if (!currentState || new URLSearchParams(location.search).get("import") !== "datasheet" || !window.opener) return;
+    const params = new URLSearchParams(location.search);
     const requestedSourceOrigin = params.get("sourceOrigin");
     let sourceOrigin = "";
     try { sourceOrigin = requestedSourceOrigin ? new URL(requestedSourceOrigin).origin : ""; } catch {}
@@ -1982,6 +3450,7 @@ export default function App() {
           }))
         : [{ name: String(payload.document?.filename || "Imported datasheet"), color: seriesColor(0), points: [], visible: true, crossLines: true, specs: { ...EMPTY_PRODUCT_SPECS } }];
       applyPreset({
+        v: PROJECT_VERSION,
         axes: {
           xMin: Number(axes.xMin) || 100,
           xMax: Number(axes.xMax) || 100000,
@@ -2012,10 +3481,60 @@ export default function App() {
   useEffect(() => {
     if (!currentState) return;
     const h=location.hash||"";
-    if (h.startsWith("#s=")) { try{applyPreset(JSON.parse(decodeURIComponent(escape(atob(h.slice(3))))));return;}catch{} }
-    try{const raw=localStorage.getItem("digitizer:auto");if(raw)applyPreset(JSON.parse(raw));}catch{}
+    /* crash recovery: last session from IndexedDB (with images), else the old localStorage autosave */
+    const legacyAutosave = () => {
+      let saved = null;
+      try { const text = localStorage.getItem("digitizer:auto"); if (text) saved = JSON.parse(text); } catch {}
+      if (saved) applyPreset(saved, "Autosave");
+    };
+    const recoverSession = () => loadLocalProject(SESSION_ID)
+      .then(rec => {
+        if (!rec) { legacyAutosave(); return; }
+        if (applyPreset(rec.project, "Recovered session", rec.images) && rec.meta.sourceId) {
+          listLocalProjects().then(list => { const src = list.find(m => m.id === rec.meta.sourceId); if (src) setLocalProject({ id: src.id, name: src.name }); }).catch(() => {});
+        }
+      })
+      .catch(legacyAutosave)
+      .finally(() => { sessionReadyRef.current = true; });
+    /* snapshot link: read-only view (no session writes) or an editable copy */
+    const snap = parseSnapshotHash(h);
+    if (snap) {
+      readOnlyRef.current = snap.mode === "view";
+      fetchSnapshot(snap.id)
+        .then(s => {
+          if (snap.mode === "view") setSnapshotView({ id: s.id, createdAt: s.createdAt });
+          else window.history.replaceState(null, "", location.pathname + location.search);
+          if (!applyPreset(s.project, snap.mode === "view" ? "Snapshot (read-only)" : "Snapshot copy", s.images)) throw new Error("프로젝트가 올바르지 않습니다");
+          sessionReadyRef.current = true;
+        })
+        .catch(e => {
+          readOnlyRef.current = false;
+          setSnapshotView(null);
+          notify(`스냅샷을 열 수 없습니다: ${e?.message ?? e}`, "err");
+          recoverSession();
+        });
+      return;
+    }
+    if (h.startsWith("#s=") || h.startsWith("#z=")) {
+      decodeShareHash(h)
+        .then(raw => { if (applyPreset(raw, "Share URL")) sessionReadyRef.current = true; else recoverSession(); })
+        .catch(() => { notify("Share URL을 해석할 수 없습니다", "err"); recoverSession(); });
+      return;
+    }
+    recoverSession();
   }, [Boolean(currentState)]);
-  useEffect(() => { try{localStorage.setItem("digitizer:auto",JSON.stringify(serialize()));}catch{} }, [currentState,guideXs,guideYs,showCrossFromX,showCrossFromY,keepAspect,showBgs,opacityBgs,activeBg,calEnabledByBg,calClipByBg,calPixelsByBg,calValuesByBg,showRealCoords,showIntersectionMarkers,magnifyOn]);
+  useEffect(() => {
+    if (!sessionReadyRef.current || readOnlyRef.current) return;
+    if (sessionTimerRef.current) window.clearTimeout(sessionTimerRef.current);
+    sessionTimerRef.current = window.setTimeout(() => {
+      saveLocalProject({ id: SESSION_ID, name: "Last session", project: serialize(), images: workspaceImageUrls(), sourceId: localProject?.id })
+        .then(() => { sessionErrorRef.current = false; })
+        .catch(e => {
+          if (!sessionErrorRef.current) notify(`세션 자동 저장 실패: ${e?.message ?? e}`, "err");
+          sessionErrorRef.current = true;
+        });
+    }, SESSION_SAVE_DELAY_MS);
+  }, [currentState,guideXs,guideYs,showCrossFromX,showCrossFromY,keepAspect,showBgs,opacityBgs,filtersByBg,activeBg,calEnabledByBg,calClipByBg,calPixelsByBg,calValuesByBg,calModeByBg,calRefsByBg,calTicksByBg,showRealCoords,showIntersectionMarkers,magnifyOn,plots,activePlot,bgList,localProject,snapshotView]);
 
   if (!currentState) return <div className="flex h-screen items-center justify-center">Loading...</div>;
 
@@ -2023,8 +3542,14 @@ export default function App() {
   const ptEditKey = (row: number, col: number) => `${activeSeries},${row},${col}`;
 
   const fmtCell = (p: Pt, col: number): string => {
-    if (col === 0) return showRealCoords ? fmtReal(p.x) : fmtReal(currentState.xLog ? Math.log10(Math.max(EPS, p.x)) : p.x);
-    return showRealCoords ? fmtReal(p.y) : fmtReal(currentState.yLog ? Math.log10(Math.max(EPS, p.y)) : p.y);
+    if (col === 0) return showRealCoords ? fmtReal(p.x) : fmtReal(tVal(p.x, axisScale(currentState, "x")));
+    return showRealCoords ? fmtReal(p.y) : fmtReal(tVal(p.y, axisScale(currentState, "y")));
+  };
+
+  /** 변환 좌표 열 제목: log₁₀ X, X (prob) … */
+  const transformedHeader = (axis: "x" | "y") => {
+    const sc = axisScale(currentState, axis), A = axis.toUpperCase();
+    return sc === "log10" ? `log₁₀ ${A}` : sc === "linear" ? A : `${A} (${getAxisTransform(sc).short || sc})`;
   };
 
   const cellDisplayVal = (p: Pt, row: number, col: number): string => {
@@ -2034,11 +3559,10 @@ export default function App() {
 
   const realVal = (raw: string, col: number): number | null => {
     const n = Number(raw.replace(/,/g, ""));
-    if (!isFinite(n) || n <= 0) return null;
-    if (showRealCoords) return n;
-    return col === 0
-      ? (currentState.xLog ? Math.pow(10, n) : n)
-      : (currentState.yLog ? Math.pow(10, n) : n);
+    if (!isFinite(n)) return null;
+    const sc = axisScale(currentState, col === 0 ? "x" : "y");
+    const v = showRealCoords ? n : tInv(n, sc);
+    return isFinite(v) && v > 0 && inDomain(v, sc) ? v : null;
   };
 
   const commitCell = (row: number, col: number) => {
@@ -2217,36 +3741,60 @@ export default function App() {
     return null;
   };
 
+  /** 제품 곡선의 시간(s): 최신 모델이 있으면 모델, 없으면 점 보간. current는 A, currentScale은 곡선의 전류축 배율. 제품 단위는 자동 변환 */
+  const productTimeAtCurrent = (product, current, currentScale = 1) => {
+    const units = productUnits(product);
+    const I = current * unitFactor(DEFAULT_AXIS_UNITS.x, units.x), toSeconds = unitFactor(units.y, DEFAULT_AXIS_UNITS.y);
+    const model = currentModel(product);
+    const t = model
+      ? evaluateCurveModel(model, I / currentScale)
+      : interpolateLogTimeAtCurrent((product.points ?? []).map(p => ({ x: p.x * currentScale, y: p.y })), I);
+    return t == null ? null : t * toSeconds;
+  };
+  /** 제품 곡선 점을 A / s 기준으로 */
+  const productPointsInBaseUnits = product => convertPoints(product.points ?? [], productUnits(product), DEFAULT_AXIS_UNITS);
+
   const evaluateCoordination = () => {
     const upper=libraryItems.find(p=>String(p.id)===String(coordUpperId));
     const lower=libraryItems.find(p=>String(p.id)===String(coordLowerId));
     if(!upper||!lower) return {status:"waiting",message:"상위 제품과 하위 제품을 선택하세요."};
     if(upper.id===lower.id) return {status:"fail",message:"서로 다른 두 제품을 선택하세요."};
+    const wrongQuantity=[upper,lower].find(p=>!sameQuantities(productUnits(p),DEFAULT_AXIS_UNITS));
+    if(wrongQuantity) return {status:"insufficient",message:`${wrongQuantity.name}: 전류-시간(TC) 곡선이 아닙니다 (${describeUnits(productUnits(wrongQuantity))}).`};
     const upperFit=evaluateProductFit(upper),lowerFit=evaluateProductFit(lower);
     const upperPre=parseEngineeringValue(upper.specs?.preArcing);
     const lowerPre=parseEngineeringValue(lower.specs?.preArcing);
     const upperClearing=parseEngineeringValue(upper.specs?.clearing);
     const scalarPass=upperClearing!=null&&lowerPre!=null ? upperClearing<lowerPre : null;
 
-    let curvePassRate=null,curvePass=null,curveSamples=0,upperClearingPoints=[];
+    /* tolerance bands: upper clearing uses its slow edge, lower pre-arcing its fast edge; the flat margin only applies without bands */
+    const upperBand=normalizeToleranceBand(upper.imageSettings?.toleranceBand,upper.imageSettings?.tolerancePercent);
+    const lowerBand=normalizeToleranceBand(lower.imageSettings?.toleranceBand,lower.imageSettings?.tolerancePercent);
+    const margin=upperBand||lowerBand?0:Math.max(0,Math.min(90,Number(coordInputs.curveTolerance)||10))/100;
+    let curvePassRate=null,curvePass=null,curveSamples=0,upperClearingPoints=[],lowerEdgePoints=null;
+    const sampleRows=[];
     if(upperPre!=null&&lowerPre!=null&&upperClearing!=null&&upperPre>0&&upperClearing>0){
       const clearingCurrentFactor=Math.sqrt(upperClearing/upperPre);
-      upperClearingPoints=(upper.points??[]).map(p=>({x:p.x*clearingCurrentFactor,y:p.y}));
+      upperClearingPoints=productPointsInBaseUnits(upper).map(p=>({x:p.x*clearingCurrentFactor,y:p.y}));
+      if(upperBand) upperClearingPoints=bandEdgeCurves(upperClearingPoints,upperBand).max;
+      lowerEdgePoints=lowerBand?bandEdgeCurves(productPointsInBaseUnits(lower),lowerBand).min:productPointsInBaseUnits(lower);
       const upperPts=upperClearingPoints.filter(p=>p.x>0&&p.y>0);
-      const lowerPts=(lower.points??[]).filter(p=>p.x>0&&p.y>0);
+      const lowerPts=lowerEdgePoints.filter(p=>p.x>0&&p.y>0);
       if(upperPts.length>=2&&lowerPts.length>=2){
         const minI=Math.max(Math.min(...upperPts.map(p=>p.x)),Math.min(...lowerPts.map(p=>p.x)));
         const maxI=Math.min(Math.max(...upperPts.map(p=>p.x)),Math.max(...lowerPts.map(p=>p.x)));
         if(maxI>minI){
-          const margin=Math.max(0,Math.min(90,Number(coordInputs.curveTolerance)||10))/100;
           let passed=0;
           for(let i=0;i<40;i++){
             const current=Math.pow(10,Math.log10(minI)+(i/39)*(Math.log10(maxI)-Math.log10(minI)));
-            const upperTime=interpolateLogTimeAtCurrent(upperPts,current);
-            const lowerTime=interpolateLogTimeAtCurrent(lowerPts,current);
-            if(upperTime==null||lowerTime==null) continue;
+            const upperTime=bandEdgeTime(c=>productTimeAtCurrent(upper,c,clearingCurrentFactor),current,upperBand,"max");
+            const lowerTime=bandEdgeTime(c=>productTimeAtCurrent(lower,c),current,lowerBand,"min");
+            const limit=lowerTime==null?null:lowerTime*(1-margin);
+            const ok=upperTime==null||lowerTime==null?null:upperTime<=limit;
+            sampleRows.push({current,upper:upperTime,lower:lowerTime,limit,pass:ok});
+            if(ok==null) continue;
             curveSamples++;
-            if(upperTime<=lowerTime*(1-margin)) passed++;
+            if(ok) passed++;
           }
           if(curveSamples>0){
             curvePassRate=passed/curveSamples*100;
@@ -2260,11 +3808,87 @@ export default function App() {
     return {
       status:dataComplete?(pass?"pass":"fail"):"insufficient",
       message:dataComplete?(pass?"두 제품의 선택차단 조건을 만족합니다.":"선택차단 조건 중 만족하지 않는 항목이 있습니다."):"판정에 필요한 사양 또는 곡선 데이터가 부족합니다.",
-      upper,lower,upperFit,lowerFit,upperPre,lowerPre,upperClearing,upperClearingPoints,scalarPass,curvePassRate,curvePass,curveSamples,
+      upper,lower,upperFit,lowerFit,upperPre,lowerPre,upperClearing,upperClearingPoints,lowerEdgePoints,upperBand,lowerBand,margin,scalarPass,curvePassRate,curvePass,curveSamples,sampleRows,
+      upperModel:currentModel(upper)?.kind??null,lowerModel:currentModel(lower)?.kind??null,
+      upperUnits:productUnits(upper),lowerUnits:productUnits(lower),
     };
   };
   const coordinationResult=evaluateCoordination();
 
+  /** 선택차단 보고서 내용: 현재 입력값, 경감계수 산출 근거, 두 제품 사양, 곡선 샘플 */
+  const coordinationReportData = (): CoordinationReport => {
+    const r=coordinationResult;
+    const num=(v,unit="",digits=4)=>v==null||!Number.isFinite(v)?"—":`${Number(v).toLocaleString(undefined,{maximumFractionDigits:digits})}${unit?" "+unit:""}`;
+    const input=(v,unit)=>String(v??"").trim()===""?"미입력":`${v} ${unit}`;
+    const verdict=v=>v===true?true:v===false?false:null;
+    const productName=p=>`${p?.company??""} ${p?.name??""}`.trim()||"—";
+    const comprehensive=Number.isFinite(comprehensiveFactor)&&comprehensiveFactor>0?comprehensiveFactor:0.8;
+    const specLabels:[keyof ProductSpecs,string][]=[["ratedCurrent","정격 전류"],["ratedVoltage","정격 전압"],["breakingCapacity","Breaking Capacity"],["minBreaking","최소 Breaking"],["maxBreaking","최대 Breaking"],["timeConstant","시간상수"],["protectionType","보호 유형"],["preArcing","Pre-arcing I²t"],["clearing","Clearing I²t"]];
+    const productSection=(role,product,fit,model,units,band):CoordinationReport["products"][number]=>({
+      role,name:productName(product),
+      specs:[
+        ...specLabels.map(([key,label]):[string,string]=>[label,String(product.specs?.[key]??"").trim()||"—"]),
+        ["곡선 계산",model?CURVE_MODEL_LABELS[model]:"점 보간"],
+        ["원본 단위",describeUnits(units)],
+        ["허용오차 밴드",band?describeToleranceBand(band):"없음"],
+      ] as [string,string][],
+      checks:(fit?.checks??[]).map(c=>({label:c.label,value:num(c.value),result:verdict(c.pass)})),
+    });
+    return {
+      title:"Selection Check Report",
+      generatedAt:new Date(),
+      verdict:r.status as CoordinationReport["verdict"],
+      message:r.message,
+      conditions:[
+        ["시스템 전압",input(coordInputs.systemVoltage,"V")],
+        ["부하 전류",input(coordInputs.loadCurrent,"A")],
+        ["예상 단락전류",input(coordInputs.faultCurrent,"A")],
+        ["주위 온도",`${coordInputs.temperatureC} °C`],
+        ["사용 고도",`${Number(coordInputs.altitudeM).toLocaleString()} m 이하`],
+        ["선택 버스바 면적",input(coordInputs.busbarArea,"mm²")],
+        ["곡선 안전여유",`${coordInputs.curveTolerance} % (허용오차 밴드가 없을 때)`],
+        ["필요 통과율",`${coordInputs.requiredPassRate} %`],
+      ],
+      derating:[
+        {label:"온도",value:temperatureFactor.toFixed(3),basis:`온도 경감표 ${coordInputs.temperatureC}°C 항목`},
+        {label:"고도",value:altitudeFactor.toFixed(3),basis:`고도 경감표 ${Number(coordInputs.altitudeM).toLocaleString()} m 이하 항목`},
+        {label:"버스바",value:busbarFactor.toFixed(3),basis:requiredBusbarArea==null
+          ?"부하전류 미입력 — 1.000 적용"
+          :busbarRatio==null
+            ?`기준 ${requiredBusbarArea} mm² (부하 ${num(loadCurrentForCheck,"A")}), 선택 면적 미입력 — 1.000 적용`
+            :`기준 ${requiredBusbarArea} mm² (부하 ${num(loadCurrentForCheck,"A")}) 대비 선택 ${selectedBusbarArea} mm² = ${busbarRatio.toFixed(1)}%; 80~120%는 1.000, 그 밖은 40%→0.900 ~ 140%→1.050 선형 보간`},
+        {label:"종합",value:comprehensive.toFixed(3),basis:Number.isFinite(comprehensiveFactor)&&comprehensiveFactor>0?"사용자 입력":"입력값이 없어 기본값 0.8 적용"},
+      ],
+      deratingTotal:`${temperatureFactor.toFixed(3)} × ${altitudeFactor.toFixed(3)} × ${busbarFactor.toFixed(3)} × ${comprehensive.toFixed(3)} = ${totalDeratingFactor.toFixed(4)}`,
+      requiredCurrent:requiredRatedCurrent==null?"부하전류 미입력":`${loadCurrentForCheck.toLocaleString()} ÷ ${totalDeratingFactor.toFixed(4)} = ${num(requiredRatedCurrent,"A",2)} 이상`,
+      products:r.upper&&r.lower?[
+        productSection("상위 보호기기 · Clearing",r.upper,r.upperFit,r.upperModel,r.upperUnits,r.upperBand),
+        productSection("하위 보호기기 · Pre-arcing",r.lower,r.lowerFit,r.lowerModel,r.lowerUnits,r.lowerBand),
+      ]:[],
+      i2t:[
+        ["상위 Pre-arcing I²t",num(r.upperPre,"A²s")],
+        ["상위 Clearing I²t",num(r.upperClearing,"A²s")],
+        ["하위 Pre-arcing I²t",num(r.lowerPre,"A²s")],
+      ],
+      i2tResult:verdict(r.scalarPass),
+      curve:[
+        ["비교 기준",r.upperBand||r.lowerBand?`허용오차 밴드: 상위 ${describeToleranceBand(r.upperBand)} (max 가장자리) · 하위 ${describeToleranceBand(r.lowerBand)} (min 가장자리)`:`안전여유 ${((r.margin??0)*100).toFixed(0)}% (밴드 없음)`],
+        ["판정 조건","상위 Clearing 시간 ≤ 하위 Pre-arcing 시간 × (1 − 안전여유)"],
+        ["공통 구간 샘플",`${r.curveSamples??0} / ${(r.sampleRows??[]).length} (로그 등간격)`],
+        ["통과율",r.curvePassRate!=null?`${r.curvePassRate.toFixed(1)}% (필요 ${coordInputs.requiredPassRate}%)`:"데이터 없음"],
+      ],
+      curveResult:verdict(r.curvePass),
+      samples:r.sampleRows??[],
+      chartSvg:r.upper&&r.lower?coordinationChartSvg(r.upperClearingPoints??[],r.lowerEdgePoints??r.lower.points??[]):null,
+      disclaimer:"설계 보조 판정입니다. 실제 적용 전 제조사 선택성 표와 시험 조건을 반드시 확인하세요.",
+    };
+  };
+  const downloadCoordinationReport = () => {
+    const blob=new Blob([buildCoordinationReportHtml(coordinationReportData())],{type:"text/html;charset=utf-8"});
+    const url=URL.createObjectURL(blob); const a=document.createElement("a"); a.href=url; a.download="selection_check_"+Date.now()+".html"; a.click(); setTimeout(()=>URL.revokeObjectURL(url),0);
+  };
+  const printCoordinationReport = () => printHtml(buildCoordinationReportHtml(coordinationReportData()));
+
   return (
     <div className="min-h-screen bg-gray-100 text-gray-800 font-sans antialiased">
       <header className="sticky top-0 z-20 flex items-center justify-between gap-4 border-b border-slate-200 bg-white/90 px-4 py-2.5 shadow-sm backdrop-blur">
@@ -2274,10 +3898,65 @@ export default function App() {
           <div className="h-6 w-px bg-gray-300"/>
           <button onClick={handleUndo} title="Undo" aria-label="Undo" disabled={historyIndex<=0} className="flex h-9 w-9 items-center justify-center rounded-lg bg-slate-100 text-xl font-bold hover:bg-slate-200 disabled:opacity-40">↶</button>
           <button onClick={handleRedo} title="Redo" aria-label="Redo" disabled={historyIndex>=history.length-1} className="flex h-9 w-9 items-center justify-center rounded-lg bg-slate-100 text-xl font-bold hover:bg-slate-200 disabled:opacity-40">↷</button>
+          <div className="relative">
+            <button onClick={()=>setHistoryOpen(v=>!v)} title="History" className={`rounded-lg px-3 py-2 ${historyOpen?"bg-slate-800 text-white":"bg-slate-100 hover:bg-slate-200"}`}>History</button>
+            {historyOpen&&(()=>{
+              const bytes=historyEntryBytes(history), total=bytes.reduce((a,b)=>a+b,0);
+              return (
+                <div className="absolute right-0 top-11 z-30 w-72 rounded-lg border border-slate-200 bg-white p-2 text-xs shadow-lg space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-slate-800">History · {history.length}단계</span>
+                    <button onClick={()=>setHistoryOpen(false)} className="rounded px-1 text-slate-500 hover:bg-slate-100">✕</button>
+                  </div>
+                  <ol className="max-h-72 overflow-auto rounded border border-slate-100">
+                    {history.map((e,i)=>(
+                      <li key={i}>
+                        <button onClick={()=>jumpToHistory(i)} title={e._time?new Date(e._time).toLocaleTimeString():""}
+                          className={`flex w-full items-center gap-2 px-2 py-1 text-left ${i===historyIndex?"bg-slate-800 text-white":i>historyIndex?"text-slate-400 hover:bg-slate-50":"hover:bg-slate-50"}`}>
+                          <span className="w-6 shrink-0 text-right font-mono text-[10px] opacity-70">{i+1}</span>
+                          <span className="truncate">{e._label??"Edit"}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                  <div className="flex items-center justify-between text-[10px] text-slate-600">
+                    <span>메모리 ≈ {(total/2**20).toFixed(1)} MB</span>
+                    <label className="flex items-center gap-1">예산
+                      <select className="rounded border px-1 py-0.5 text-[10px]" value={historyBudgetMb} onChange={e=>setHistoryBudgetMb(Number(e.target.value))}>
+                        {HISTORY_BUDGET_OPTIONS.map(mb=><option key={mb} value={mb}>{mb} MB</option>)}
+                      </select>
+                    </label>
+                  </div>
+                  <p className="text-[10px] leading-snug text-slate-500">예산을 넘으면 가장 오래된 단계부터 지웁니다. 회색 단계는 Redo로 되돌릴 수 있는 기록입니다.</p>
+                </div>
+              );
+            })()}
+          </div>
           <div className="h-6 w-px bg-gray-300"/>
           <button onClick={exportCSV} className="rounded-lg bg-slate-100 px-3 py-2 hover:bg-slate-200">CSV</button>
-          <button onClick={exportPNG} className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-white hover:bg-blue-700">PNG</button>
+          <button onClick={exportXLSX} title="Excel: 시리즈·사양·공통 격자·수명·Selection Check" className="rounded-lg bg-emerald-50 px-3 py-2 font-semibold text-emerald-800 hover:bg-emerald-100">XLSX</button>
+          <button onClick={openChartExport} title="보고서용 SVG / 고해상도 PNG" className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-white hover:bg-blue-700">Chart…</button>
+          <div className="relative">
+            <button onClick={()=>setShareOpen(v=>!v)} disabled={sharing} title="Share URL" className={`rounded-lg px-3 py-2 disabled:opacity-50 ${shareOpen?"bg-slate-800 text-white":"bg-slate-100 hover:bg-slate-200"}`}>{sharing?"Sharing…":"Share"}</button>
+            {shareOpen&&(
+              <div className="absolute right-0 top-11 z-30 w-72 rounded-lg border border-slate-200 bg-white p-1 text-xs shadow-lg">
+                <button onClick={()=>copyShareURL("auto")} className="block w-full rounded px-2 py-1.5 text-left hover:bg-slate-100">
+                  <span className="font-semibold">Copy link</span>
+                  <span className="block text-[10px] text-slate-500">작은 프로젝트는 압축 URL, 이미지가 있거나 크면 스냅샷(읽기 전용)</span>
+                </button>
+                <button onClick={()=>copyShareURL("view")} className="block w-full rounded px-2 py-1.5 text-left hover:bg-slate-100">
+                  <span className="font-semibold">Snapshot link · read-only</span>
+                  <span className="block text-[10px] text-slate-500">이미지 포함 전체 작업을 서버에 저장, 짧은 링크로 보기 전용 열기</span>
+                </button>
+                <button onClick={()=>copyShareURL("copy")} className="block w-full rounded px-2 py-1.5 text-left hover:bg-slate-100">
+                  <span className="font-semibold">Snapshot link · open as copy</span>
+                  <span className="block text-[10px] text-slate-500">받는 사람이 바로 편집 가능한 사본으로 열기</span>
+                </button>
+              </div>
+            )}
+          </div>
           <div className="h-6 w-px bg-gray-300"/>
+          <button onClick={()=>{setShowProjects(true);refreshLocalProjects();}} title={localProject?`열린 프로젝트: ${localProject.name}`:"로컬 프로젝트"} className="rounded-lg bg-slate-100 px-3 py-2 hover:bg-slate-200">Projects{localProject?` · ${localProject.name}`:""}</button>
           <button onClick={()=>{setShowLibrary(true);fetchLibrary();}} className="rounded-lg bg-indigo-600 px-3 py-2 font-semibold text-white hover:bg-indigo-700">Product Library</button>
           <button onClick={()=>{setShowCoordination(true);fetchLibrary();}} className="rounded-lg bg-emerald-600 px-3 py-2 font-semibold text-white hover:bg-emerald-700">Selection Check</button>
           <div className="h-6 w-px bg-gray-300"/>
@@ -2293,9 +3972,15 @@ export default function App() {
         </div>
       </header>
 
+      {snapshotView&&(
+        <div className="flex items-center justify-between gap-3 border-b border-amber-200 bg-amber-50 px-4 py-2 text-xs text-amber-900">
+          <span>읽기 전용 스냅샷 <span className="font-mono">{snapshotView.id}</span>{snapshotView.createdAt?` · ${new Date(snapshotView.createdAt).toLocaleString()}`:""} — 편집과 세션 자동 저장이 꺼져 있습니다.</span>
+          <button onClick={editSnapshotCopy} className="rounded-lg bg-amber-600 px-3 py-1.5 font-semibold text-white hover:bg-amber-700">사본으로 편집</button>
+        </div>
+      )}
       <main className={`grid grid-cols-1 gap-4 p-4 ${sidebarCollapsed?"lg:grid-cols-[64px,minmax(0,1fr)]":(loggedInUser&&showI2tGraph)?"lg:grid-cols-[370px,minmax(0,1fr),minmax(0,1fr)]":"lg:grid-cols-[370px,minmax(0,1fr)]"}`}>
         {/* Sidebar */}
-        <aside className={`flex flex-col gap-3 ${sidebarCollapsed?"items-center":"lg:sticky lg:top-[68px] lg:max-h-[calc(100vh-84px)] lg:overflow-y-auto lg:pr-1"}`}>
+        <aside className={`flex flex-col gap-3 ${snapshotView?"pointer-events-none opacity-60":""} ${sidebarCollapsed?"items-center":"lg:sticky lg:top-[68px] lg:max-h-[calc(100vh-84px)] lg:overflow-y-auto lg:pr-1"}`}>
           {sidebarCollapsed?(
             <div className="flex flex-col gap-2">
               <button onClick={()=>setSidebarCollapsed(false)} className="rounded-lg border px-2 py-2 text-xl">{">"}</button>
@@ -2308,10 +3993,38 @@ export default function App() {
 
               <AccordionSection title="Axes" isOpen={axesOpen} onToggle={()=>setAxesOpen(v=>!v)}>
                 <div className="grid grid-cols-2 gap-2 text-xs">
-                  <label className="col-span-2 flex items-center gap-2"><input type="checkbox" className="h-3 w-3" checked={currentState.xLog} onChange={e=>updateState(p=>({...p,xLog:e.target.checked}))} /> X Log Scale</label>
+                  <label className="col-span-2 flex items-center gap-1">X Scale
+                    <select className="min-w-0 flex-1 rounded border px-1 py-0.5 text-xs" value={axisScale(currentState,"x")} onChange={e=>setAxisScale("x",e.target.value)}>
+                      {listAxisTransforms().map(t=><option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="col-span-2 flex items-center gap-1">X Unit
+                    <select className="min-w-0 flex-1 rounded border px-1 py-0.5 text-xs" value={(currentState.units??DEFAULT_AXIS_UNITS).x.quantity}
+                      onChange={e=>{const q=e.target.value as AxisQuantity;changeAxisUnit("x",{quantity:q,unit:baseUnit(q)});}}>
+                      {(Object.keys(UNITS) as AxisQuantity[]).map(q=><option key={q} value={q}>{QUANTITY_LABELS[q]}</option>)}
+                    </select>
+                    <select className="w-20 rounded border px-1 py-0.5 text-xs" value={(currentState.units??DEFAULT_AXIS_UNITS).x.unit}
+                      onChange={e=>changeAxisUnit("x",{quantity:(currentState.units??DEFAULT_AXIS_UNITS).x.quantity,unit:e.target.value})}>
+                      {Object.keys(UNITS[(currentState.units??DEFAULT_AXIS_UNITS).x.quantity]).map(u=><option key={u} value={u}>{u||"-"}</option>)}
+                    </select>
+                  </label>
                   <label className="flex items-center gap-2">X Min <input type="number" className="w-full rounded border px-1.5 py-1 text-xs" value={currentState.xMin} onChange={e=>updateState(p=>({...p,xMin:Number(e.target.value)}))} /></label>
                   <label className="flex items-center gap-2">X Max <input type="number" className="w-full rounded border px-1.5 py-1 text-xs" value={currentState.xMax} onChange={e=>updateState(p=>({...p,xMax:Number(e.target.value)}))} /></label>
-                  <label className="col-span-2 flex items-center gap-2"><input type="checkbox" className="h-3 w-3" checked={currentState.yLog} onChange={e=>updateState(p=>({...p,yLog:e.target.checked}))} /> Y Log Scale</label>
+                  <label className="col-span-2 flex items-center gap-1">Y Scale
+                    <select className="min-w-0 flex-1 rounded border px-1 py-0.5 text-xs" value={axisScale(currentState,"y")} onChange={e=>setAxisScale("y",e.target.value)}>
+                      {listAxisTransforms().map(t=><option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="col-span-2 flex items-center gap-1">Y Unit
+                    <select className="min-w-0 flex-1 rounded border px-1 py-0.5 text-xs" value={(currentState.units??DEFAULT_AXIS_UNITS).y.quantity}
+                      onChange={e=>{const q=e.target.value as AxisQuantity;changeAxisUnit("y",{quantity:q,unit:baseUnit(q)});}}>
+                      {(Object.keys(UNITS) as AxisQuantity[]).map(q=><option key={q} value={q}>{QUANTITY_LABELS[q]}</option>)}
+                    </select>
+                    <select className="w-20 rounded border px-1 py-0.5 text-xs" value={(currentState.units??DEFAULT_AXIS_UNITS).y.unit}
+                      onChange={e=>changeAxisUnit("y",{quantity:(currentState.units??DEFAULT_AXIS_UNITS).y.quantity,unit:e.target.value})}>
+                      {Object.keys(UNITS[(currentState.units??DEFAULT_AXIS_UNITS).y.quantity]).map(u=><option key={u} value={u}>{u||"-"}</option>)}
+                    </select>
+                  </label>
                   <label className="flex items-center gap-2">Y Min <input type="number" className="w-full rounded border px-1.5 py-1 text-xs" value={currentState.yMin} onChange={e=>updateState(p=>({...p,yMin:Number(e.target.value)}))} /></label>
                   <label className="flex items-center gap-2">Y Max <input type="number" className="w-full rounded border px-1.5 py-1 text-xs" value={currentState.yMax} onChange={e=>updateState(p=>({...p,yMax:Number(e.target.value)}))} /></label>
                 </div>
@@ -2327,7 +4040,9 @@ export default function App() {
                   <div className="space-y-2 p-2 pt-0 text-xs">
                     <div className="flex border-b border-gray-200 overflow-x-auto">
                       {BG_LABELS.slice(0, Math.min(MAX_BG, currentState.series.length)).map((label,i)=>(
-                        <button key={i} onClick={()=>selectSlot(i)} className={`-mb-px flex-shrink-0 border-b-2 px-2 py-1 text-xs font-semibold ${activeBg===i?"border-blue-500 text-blue-600":"border-transparent text-gray-500 hover:border-gray-300"}`}>
+                        <button key={i} onClick={()=>selectSlot(i)} title={bgList[i]?.source?.kind==="pdf"?`${bgList[i].source.fileName} p.${bgList[i].source.page}`:undefined}
+                          onDragOver={e=>e.preventDefault()} onDrop={e=>{e.preventDefault();const f=e.dataTransfer?.files?.[0];if(f){selectSlot(i);onFile(f,i);}}}
+                          className={`-mb-px flex-shrink-0 border-b-2 px-2 py-1 text-xs font-semibold ${activeBg===i?"border-blue-500 text-blue-600":"border-transparent text-gray-500 hover:border-gray-300"}`}>
                           {label}{bgList[i]?" *":""}
                         </button>
                       ))}
@@ -2339,16 +4054,79 @@ export default function App() {
                       <button type="button" onClick={()=>captureScreenToSlot(activeBg)} className="rounded border border-emerald-700 bg-emerald-600 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700">
                         화면·창 캡처
                       </button>
+                      <button type="button" onClick={()=>vectorFileRef.current?.click()} title="벡터 PDF/SVG의 경로 객체에서 곡선 좌표를 그대로 추출" className="rounded border border-fuchsia-700 bg-fuchsia-600 py-1.5 text-xs font-semibold text-white hover:bg-fuchsia-700 sm:col-span-2">
+                        벡터 곡선 추출 (PDF/SVG)
+                      </button>
+                      <input ref={vectorFileRef} type="file" accept=".pdf,.svg,application/pdf,image/svg+xml" hidden onChange={e=>{const f=e.target.files?.[0];if(f)openVectorImport(f);e.target.value="";}}/>
                     </div>
+                    {bgList[activeBg]?.source?.kind==="pdf"&&(()=>{
+                      const src = bgList[activeBg].source;
+                      return (
+                        <p className="truncate rounded bg-red-50 px-2 py-1 text-[10px] text-red-900" title={src.fileName}>
+                          PDF: <strong>{src.fileName}</strong> · p.{src.page} · {src.dpi} dpi{src.crop?" · crop":""}
+                        </p>
+                      );
+                    })()}
+                    <p className="text-[9px] leading-snug text-gray-500">
+                      PDF 데이터시트는 슬롯 탭이나 캔버스에 끌어다 놓거나 파일로 고르면 페이지·영역·DPI를 선택해 불러옵니다.
+                    </p>
                     <p className="text-[9px] leading-snug text-gray-500">
                       캡처: 브라우저가 화면/창/탭 선택 창을 띄운 뒤, <strong>그 순간</strong> 한 장을 PNG로 슬롯에 넣습니다. 다른 창의 그래프를 골라 캡처하면 됩니다(HTTPS 또는 localhost).
                     </p>
                     {BG_LABELS.map((_,i)=>(
-                      <input key={i} ref={el=>{fileRefs.current[i]=el;}} type="file" accept="image/*" hidden onChange={e=>{const f=e.target.files?.[0];if(f)onFile(f,i);e.target.value="";}}/>
+                      <input key={i} ref={el=>{fileRefs.current[i]=el;}} type="file" accept="image/*,application/pdf" hidden onChange={e=>{const f=e.target.files?.[0];if(f)onFile(f,i);e.target.value="";}}/>
                     ))}
                     <div className="grid grid-cols-2 gap-2">
                       <label className="col-span-2 flex items-center gap-2">Opacity <input className="w-full" type="range" min={0} max={1} step={0.05} value={opacityBgs[activeBg]} onChange={e=>setOpacityBgs(cur=>{const n=[...cur];n[activeBg]=Number(e.target.value);return n;})}/></label>
                       <label className="col-span-2 flex items-center gap-2"><input type="checkbox" className="h-3 w-3" checked={keepAspect} onChange={e=>setKeepAspect(e.target.checked)}/> Keep Ratio</label>
+                      {(()=>{
+                        const f = filtersByBg[activeBg];
+                        const hueHex = toHexColor(hueColor(f.hue));
+                        return (
+                          <div className="col-span-2 space-y-1 rounded border border-gray-200 bg-gray-50 p-2 text-[10px]">
+                            <div className="flex items-center justify-between">
+                              <span className="text-[11px] font-semibold text-gray-800">Image filters ({BG_LABELS[activeBg]})</span>
+                              <button disabled={isIdentityFilters(f)} className="rounded bg-gray-200 px-2 py-0.5 hover:bg-gray-300 disabled:opacity-40"
+                                onClick={()=>setFiltersForBg(activeBg, { ...DEFAULT_IMAGE_FILTERS })}>Reset</button>
+                            </div>
+                            {([["brightness","Brightness"],["contrast","Contrast"]] as const).map(([k,label]) => (
+                              <label key={k} className="flex items-center gap-2">
+                                <span className="w-16">{label}</span>
+                                <input className="w-full" type="range" min={-100} max={100} step={5} value={f[k]} onChange={e=>setFiltersForBg(activeBg, { [k]: Number(e.target.value) })}/>
+                                <span className="w-8 text-right font-mono">{f[k]}</span>
+                              </label>
+                            ))}
+                            <div className="flex flex-wrap gap-x-3 gap-y-1">
+                              <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={f.grayscale} onChange={e=>setFiltersForBg(activeBg, { grayscale: e.target.checked })}/> Grayscale</label>
+                              <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={f.invert} onChange={e=>setFiltersForBg(activeBg, { invert: e.target.checked })}/> Invert</label>
+                              <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={f.threshold != null} onChange={e=>setFiltersForBg(activeBg, { threshold: e.target.checked ? 160 : null })}/> Threshold</label>
+                              <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={f.hueKeep} onChange={e=>setFiltersForBg(activeBg, { hueKeep: e.target.checked })}/> Keep hue only</label>
+                            </div>
+                            {f.threshold != null && (
+                              <label className="flex items-center gap-2">
+                                <span className="w-16">Cut</span>
+                                <input className="w-full" type="range" min={0} max={255} step={1} value={f.threshold} onChange={e=>setFiltersForBg(activeBg, { threshold: Number(e.target.value) })}/>
+                                <span className="w-8 text-right font-mono">{f.threshold}</span>
+                              </label>
+                            )}
+                            {f.hueKeep && (<>
+                              <label className="flex items-center gap-2">
+                                <span className="w-16">Hue</span>
+                                <span className="h-3 w-3 shrink-0 rounded-sm border" style={{ background: hueHex }}/>
+                                <input className="w-full" type="range" min={0} max={360} step={1} value={f.hue} onChange={e=>setFiltersForBg(activeBg, { hue: Number(e.target.value) })}/>
+                                <input type="color" className="h-4 w-6 shrink-0 cursor-pointer" title="Pick a color to take its hue"
+                                  value={hueHex}
+                                  onChange={e=>{ const c = parseHexColor(e.target.value); if (c) setFiltersForBg(activeBg, { hue: Math.round(hueSat(c.r, c.g, c.b).h) }); }}/>
+                              </label>
+                              <label className="flex items-center gap-2">
+                                <span className="w-16">± Range</span>
+                                <input className="w-full" type="range" min={5} max={90} step={1} value={f.hueWidth} onChange={e=>setFiltersForBg(activeBg, { hueWidth: Number(e.target.value) })}/>
+                                <span className="w-8 text-right font-mono">{f.hueWidth}°</span>
+                              </label>
+                            </>)}
+                          </div>
+                        );
+                      })()}
                       <div className="col-span-2 grid grid-cols-2 gap-2">
                         <button onClick={()=>{setCalPick(null);snapPreviewRef.current=null;setPickAnchor(v=>!v);}} className={`rounded bg-gray-200 px-2 py-1 text-xs ${pickAnchor?"bg-orange-100 text-orange-800":""}`}>{pickAnchor?"Click pivot point...":"Set Pivot"}</button>
                         <button onClick={()=>updateState(prev=>{const n=[...prev.customAnchors];n[activeBg]=null;return{...prev,customAnchors:n};})} className="rounded bg-gray-200 px-2 py-1 text-xs">Clear</button>
@@ -2366,48 +4144,163 @@ export default function App() {
                         <input type="checkbox" className="h-3 w-3" checked={calClip} onChange={e=>setCalClipForBg(activeBg, e.target.checked)} />
                         Clip outside calibration rectangle (이미지가 작아보이면 OFF)
                       </label>
-                      <p className="mb-1 text-[10px] text-blue-700">X/Y 점 선택 후 값 입력. 점 클릭 재선택 가능, 화살표로 미세 이동.</p>
-                      <div className="grid grid-cols-[auto,1fr,auto] gap-1">
-                        {["x1","x2","y1","y2"].map((k) => (
-                          <Fragment key={k}>
-                            <button
-                              onClick={()=>{ setPickAnchor(false); setCalEnabledForBg(activeBg,true); snapPreviewRef.current=null; setCalPick(k as CalPickKey); setSelectedCalPoint(k as CalPickKey); notify(`Click ${k.toUpperCase()} point on graph`); }}
-                              className={`rounded px-1.5 py-1 text-[10px] font-semibold ${calPick===k||selectedCalPoint===k?"bg-amber-200 text-amber-900":"bg-white border border-blue-200 text-blue-800"}`}>
-                              Pick {k.toUpperCase()}
-                            </button>
-                            <input
-                              type="number"
-                              className="rounded border px-1.5 py-1 text-[10px]"
-                              placeholder={`${k.toUpperCase()} value`}
-                              value={calValues[k]}
-                              onChange={e=>setCalValuesForBg(activeBg, v=>({ ...v, [k]: e.target.value }))}
-                            />
-                            <span className={`self-center text-[10px] ${calPixels[k] ? "text-green-700" : "text-gray-400"}`}>
-                              {calPixels[k] ? "●" : "○"}
-                            </span>
-                          </Fragment>
+                      <div className="mb-1 grid grid-cols-2 gap-1">
+                        {([["axes","Axes 2+2점"],["perspective","원근 4+점 (사진)"]] as const).map(([m,label]) => (
+                          <button key={m}
+                            onClick={()=>{ setCalModeForBg(activeBg, m); setCalPick(null); setCalRefPick(false); setSelectedCalPoint(null); setSelectedCalRef(null); }}
+                            className={`rounded px-1.5 py-1 text-[10px] font-semibold ${calMode===m?"bg-blue-600 text-white":"bg-white border border-blue-200 text-blue-800"}`}>
+                            {label}
+                          </button>
                         ))}
                       </div>
-                      {selectedCalPoint && calPixels[selectedCalPoint] && (()=>{
-                        const pt=calPixels[selectedCalPoint];
-                        const data=pixelToData(pt.px,pt.py);
-                        return <div className="mt-1 rounded bg-white px-2 py-1 text-[10px] font-mono text-blue-800">
-                          {selectedCalPoint.toUpperCase()} · canvas ({Math.round(pt.px)}, {Math.round(pt.py)}) · graph ({fmtReal(data.x)}, {fmtReal(data.y)})
-                        </div>;
-                      })()}
-                      <button
-                        type="button"
-                        className="w-full rounded bg-blue-600 py-1.5 text-[11px] font-semibold text-white hover:bg-blue-700"
-                        onClick={() => fitImageToAxesCalibration(activeBg)}>
-                        축(Axes) 격자에 이미지 맞춤 (자동)
-                      </button>
-                      <p className="text-[9px] leading-snug text-blue-800/90">
-                        4점·값 기준으로 배경을 스케일·이동해, 해당 데이터 좌표가 Axes에 설정한 Min/Max 격자 위에 오도록 합니다. 캘리브 점은 같은 그래프 위치를 유지하도록 같이 이동합니다.
-                      </p>
+                      {calMode === "perspective" ? (
+                        <div className="space-y-1">
+                          <p className="text-[10px] text-violet-700">기울어진 스캔·사진용. 격자 교차점 등 4개 이상(한 직선 위가 아닌) 점을 찍고 각 점의 X·Y 값을 입력하세요.</p>
+                          {calRefs.map((r, k) => (
+                            <div key={k} className="grid grid-cols-[auto,1fr,1fr,auto] items-center gap-1">
+                              <button
+                                onClick={()=>setSelectedCalRef(k)}
+                                className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${selectedCalRef===k?"bg-violet-200 text-violet-900":"bg-white border border-violet-200 text-violet-800"}`}>
+                                P{k + 1}
+                              </button>
+                              <input type="number" className="min-w-0 rounded border px-1.5 py-0.5 text-[10px]" placeholder="X value" value={r.x}
+                                onChange={e=>{ const v=e.target.value; setCalRefsForBg(activeBg, prev=>prev.map((q,i)=>i===k?{...q,x:v}:q)); }}/>
+                              <input type="number" className="min-w-0 rounded border px-1.5 py-0.5 text-[10px]" placeholder="Y value" value={r.y}
+                                onChange={e=>{ const v=e.target.value; setCalRefsForBg(activeBg, prev=>prev.map((q,i)=>i===k?{...q,y:v}:q)); }}/>
+                              <button className="px-1 text-[10px] text-red-500 hover:text-red-700" title="Remove"
+                                onClick={()=>{ setCalRefsForBg(activeBg, prev=>prev.filter((_,i)=>i!==k)); setSelectedCalRef(null); }}>✕</button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={()=>{ setPickAnchor(false); setCalPick(null); setCalEnabledForBg(activeBg,true); snapPreviewRef.current=null; setCalRefPick(true); notify("Click a reference point on the image"); }}
+                            className={`w-full rounded border py-1 text-[10px] font-semibold ${calRefPick?"border-amber-300 bg-amber-100 text-amber-900":"border-violet-300 bg-white text-violet-700"}`}>
+                            {calRefPick ? "Click point on image..." : "+ Add reference point"}
+                          </button>
+                          {(()=>{
+                            const ok = !!perspectiveModel(activeBg);
+                            return <p className={`text-[10px] ${ok?"text-green-700":"text-gray-500"}`}>
+                              {ok ? `원근 변환 적용 중 (${calRefs.length}점)` : `기준점 ${calRefs.length}개 — 값이 입력된 4점 이상 필요`}
+                            </p>;
+                          })()}
+                        </div>
+                      ) : (
+                        <>
+                        <p className="mb-1 text-[10px] text-blue-700">X/Y 점 선택 후 값 입력. 점 클릭 재선택 가능, 화살표로 미세 이동.</p>
+                        <div className="grid grid-cols-[auto,1fr,auto] gap-1">
+                          {["x1","x2","y1","y2"].map((k) => (
+                            <Fragment key={k}>
+                              <button
+                                onClick={()=>{ setPickAnchor(false); setCalEnabledForBg(activeBg,true); snapPreviewRef.current=null; setCalPick(k as CalPickKey); setSelectedCalPoint(k as CalPickKey); notify(`Click ${k.toUpperCase()} point on graph`); }}
+                                className={`rounded px-1.5 py-1 text-[10px] font-semibold ${calPick===k||selectedCalPoint===k?"bg-amber-200 text-amber-900":"bg-white border border-blue-200 text-blue-800"}`}>
+                                Pick {k.toUpperCase()}
+                              </button>
+                              <input
+                                type="number"
+                                className="rounded border px-1.5 py-1 text-[10px]"
+                                placeholder={`${k.toUpperCase()} value`}
+                                value={calValues[k]}
+                                onChange={e=>setCalValuesForBg(activeBg, v=>({ ...v, [k]: e.target.value }))}
+                              />
+                              <span className={`self-center text-[10px] ${calPixels[k] ? "text-green-700" : "text-gray-400"}`}>
+                                {calPixels[k] ? "●" : "○"}
+                              </span>
+                            </Fragment>
+                          ))}
+                        </div>
+                        {selectedCalPoint && calPixels[selectedCalPoint] && (()=>{
+                          const pt=calPixels[selectedCalPoint];
+                          const data=pixelToData(pt.px,pt.py);
+                          return <div className="mt-1 rounded bg-white px-2 py-1 text-[10px] font-mono text-blue-800">
+                            {selectedCalPoint.toUpperCase()} · canvas ({Math.round(pt.px)}, {Math.round(pt.py)}) · graph ({fmtReal(data.x)}, {fmtReal(data.y)})
+                          </div>;
+                        })()}
+                        <div className="mt-1 space-y-1 rounded border border-blue-100 bg-white p-1.5">
+                          <div className="flex items-center gap-1">
+                            <span className="text-[10px] font-semibold text-blue-900">추가 눈금 (최소제곱)</span>
+                            {(["x","y"] as const).map(axis => (
+                              <button key={axis}
+                                onClick={()=>{ setPickAnchor(false); setCalPick(null); setCalEnabledForBg(activeBg,true); snapPreviewRef.current=null; setCalTickPick(axis); notify(`Click ${axis.toUpperCase()} tick on graph`); }}
+                                className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${calTickPick===axis?"bg-amber-200 text-amber-900":"border border-blue-200 text-blue-800"}`}>
+                                + {axis.toUpperCase()}
+                              </button>
+                            ))}
+                          </div>
+                          {(["x","y"] as const).flatMap(axis => calTicks[axis].map((t, i) => (
+                            <div key={`${axis}${i}`} className="grid grid-cols-[auto,1fr,auto] items-center gap-1">
+                              <button
+                                onClick={()=>{ setSelectedCalPoint(null); setSelectedCalTick({ axis, index: i }); }}
+                                className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${selectedCalTick?.axis===axis&&selectedCalTick.index===i?"bg-amber-200 text-amber-900":"border border-blue-200 text-blue-800"}`}>
+                                {axis.toUpperCase()}{i + 3}
+                              </button>
+                              <input type="number" className="min-w-0 rounded border px-1.5 py-0.5 text-[10px]" value={t.value}
+                                onChange={e=>{ const v=e.target.value; setCalTicksForBg(activeBg, prev=>({ ...prev, [axis]: prev[axis].map((q,k)=>k===i?{...q,value:v}:q) })); }}/>
+                              <button className="px-1 text-[10px] text-red-500 hover:text-red-700" title="Remove"
+                                onClick={()=>{ setCalTicksForBg(activeBg, prev=>({ ...prev, [axis]: prev[axis].filter((_,k)=>k!==i) })); setSelectedCalTick(null); }}>✕</button>
+                            </div>
+                          )))}
+                          {(()=>{
+                            const fits = axisCalFits(activeBg);
+                            if (!fits) return <p className="text-[10px] text-gray-400">X1·X2·Y1·Y2를 찍으면 잔차가 표시됩니다.</p>;
+                            const fmtRes = v => Number.isFinite(v) ? (v >= 0 ? "+" : "") + v.toFixed(Math.abs(v) < 10 ? 2 : 1) : "-";
+                            return <>
+                              <table className="w-full text-[10px]">
+                                <thead><tr className="text-left text-gray-500"><th>Pt</th><th>Value</th><th className="text-right">Δpx</th><th className="text-right">Δ%</th></tr></thead>
+                                <tbody>
+                                  {[...fits.x.residuals, ...fits.y.residuals].map(r => (
+                                    <tr key={r.label} className={r.outlier ? "bg-red-50 font-semibold text-red-700" : "text-gray-700"}>
+                                      <td>{r.label}{r.outlier ? " ⚠" : ""}</td>
+                                      <td className="font-mono">{fmtReal(r.value)}</td>
+                                      <td className="text-right font-mono">{fmtRes(r.residualPx)}</td>
+                                      <td className="text-right font-mono">{fmtRes(r.residualPct)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                              <p className="text-[10px] text-blue-800">
+                                X RMS {fits.x.rmsPx.toFixed(2)} px · max {fits.x.maxPct.toFixed(2)}% / Y RMS {fits.y.rmsPx.toFixed(2)} px · max {fits.y.maxPct.toFixed(2)}%
+                              </p>
+                            </>;
+                          })()}
+                        </div>
+                        <button
+                          type="button"
+                          className="mb-1 mt-1 w-full rounded border border-orange-300 bg-white py-1 text-[11px] font-semibold text-orange-700 hover:bg-orange-50"
+                          onClick={() => proposeAutoCalibration(activeBg)}>
+                          격자 자동 인식 (Auto-calibrate)
+                        </button>
+                        {autoCal && autoCal.bg === activeBg && (
+                          <div className="mb-1 space-y-1 rounded border border-orange-200 bg-orange-50 p-1.5">
+                            <p className="text-[10px] text-orange-800">{autoCal.summary}</p>
+                            <p className="text-[9px] leading-snug text-orange-700">제안 값은 Axes Min 기준 추정입니다. 그림의 눈금 숫자와 맞는지 확인하세요.</p>
+                            <div className="grid grid-cols-4 gap-1">
+                              {(["x1","x2","y1","y2"] as const).map(k => (
+                                <label key={k} className="text-[10px] font-semibold text-orange-900">{k.toUpperCase()}
+                                  <input type="number" className="w-full rounded border px-1 py-0.5 text-[10px] font-normal" value={autoCal.values[k]}
+                                    onChange={e=>{ const v=e.target.value; setAutoCal(ac=>ac && { ...ac, values: { ...ac.values, [k]: v } }); }}/>
+                                </label>
+                              ))}
+                            </div>
+                            <div className="flex gap-1">
+                              <button className="flex-1 rounded bg-orange-600 py-1 text-[10px] font-bold text-white hover:bg-orange-700" onClick={confirmAutoCalibration}>확인 · 적용</button>
+                              <button className="rounded bg-gray-200 px-2 py-1 text-[10px] hover:bg-gray-300" onClick={()=>setAutoCal(null)}>취소</button>
+                            </div>
+                          </div>
+                        )}
+                        <button
+                          type="button"
+                          className="w-full rounded bg-blue-600 py-1.5 text-[11px] font-semibold text-white hover:bg-blue-700"
+                          onClick={() => fitImageToAxesCalibration(activeBg)}>
+                          축(Axes) 격자에 이미지 맞춤 (자동)
+                        </button>
+                        <p className="text-[9px] leading-snug text-blue-800/90">
+                          4점·값 기준으로 배경을 스케일·이동해, 해당 데이터 좌표가 Axes에 설정한 Min/Max 격자 위에 오도록 합니다. 캘리브 점은 같은 그래프 위치를 유지하도록 같이 이동합니다.
+                        </p>
+                        </>
+                      )}
                       <div className="mt-1 flex gap-1">
                         <button
                           className="rounded bg-gray-200 px-2 py-1 text-[10px] hover:bg-gray-300"
-                          onClick={()=>{setCalPick(null); setSelectedCalPoint(null); setCalPixelsForBg(activeBg,{x1:null,x2:null,y1:null,y2:null}); setCalValuesForBg(activeBg,{x1:"",x2:"",y1:"",y2:""}); setCalEnabledForBg(activeBg,false); setCalClipForBg(activeBg,false);}}>
+                          onClick={()=>{setCalPick(null); setSelectedCalPoint(null); setCalPixelsForBg(activeBg,{x1:null,x2:null,y1:null,y2:null}); setCalValuesForBg(activeBg,{x1:"",x2:"",y1:"",y2:""}); setCalEnabledForBg(activeBg,false); setCalClipForBg(activeBg,false); setAutoCal(null); setCalRefsForBg(activeBg,[]); setSelectedCalRef(null); setCalRefPick(false); setCalTicksForBg(activeBg,{x:[],y:[]}); setSelectedCalTick(null); setCalTickPick(null);}}>
                           Clear Calibration
                         </button>
                         {selectedCalPoint && <span className="self-center text-[10px] text-blue-700">Selected: {selectedCalPoint.toUpperCase()}</span>}
@@ -2434,12 +4327,14 @@ export default function App() {
                           <span className="flex h-6 w-6 flex-none items-center justify-center rounded-md text-[10px] font-black text-white" style={{background:s.color}}>{BG_LABELS[i]}</span>
                           <input type="color" className="h-6 w-6 cursor-pointer rounded border-0 p-0" value={s.color} onChange={e=>updateState(p=>({...p,series:p.series.map((ss,si)=>si===i?{...ss,color:e.target.value}:ss)}))}/>
                           <input className="min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-xs font-semibold" value={s.name} onChange={e=>updateState(p=>({...p,series:p.series.map((ss,si)=>si===i?{...ss,name:e.target.value}:ss)}))} placeholder={"Series "+(i+1)}/>
+                          {s.units&&describeUnits(s.units)!==describeUnits(currentState.units??DEFAULT_AXIS_UNITS)&&<span className="flex-none rounded bg-slate-200 px-1 text-[9px] text-slate-600" title="원본 단위 (현재 축 단위로 변환되어 있음)">{describeUnits(s.units)}</span>}
                           {currentState.series.length>1&&(
                             <button className="flex h-6 w-6 flex-none items-center justify-center rounded-md bg-red-50 text-xs font-bold text-red-500 hover:bg-red-100"
                               onClick={()=>{
                                 updateState(p=>({...p,series:p.series.filter((_,si)=>si!==i)}));
                                 setMinBreakCurrents(prev=>prev.filter((_,mi)=>mi!==i));
                                 setMinBreakInputs(prev=>{const next={};Object.entries(prev).forEach(([k,v])=>{const ki=Number(k);if(ki!==i)next[ki>i?ki-1:ki]=v;});return next;});
+                                setConsensusPick(prev=>prev.filter(ci=>ci!==i).map(ci=>ci>i?ci-1:ci));
                                 if(activeSeries>=i&&activeSeries>0)setActiveSeries(activeSeries-1);
                               }}>x</button>
                           )}
@@ -2449,6 +4344,7 @@ export default function App() {
                           <label className="flex items-center gap-1.5 text-[10px] font-medium" title="곡선 표시/숨김"><input type="checkbox" checked={s.visible!==false} onChange={e=>updateState(p=>({...p,series:p.series.map((ss,si)=>si===i?{...ss,visible:e.target.checked}:ss)}))}/>곡선</label>
                           {i<MAX_BG&&<label className={`flex items-center gap-1.5 text-[10px] font-medium ${bgList[i]?"":"text-gray-300"}`} title="배경 이미지 표시/숨김"><input type="checkbox" disabled={!bgList[i]} checked={!!bgList[i]&&showBgs[i]} onChange={e=>setShowBgs(cur=>{const n=[...cur];n[i]=e.target.checked;return n;})}/>이미지</label>}
                           <label className="flex items-center gap-1.5 text-[10px] font-medium" title="이 제품의 교차선 표시"><input type="checkbox" checked={s.crossLines!==false} onChange={e=>updateState(p=>({...p,series:p.series.map((ss,si)=>si===i?{...ss,crossLines:e.target.checked}:ss)}))}/>교차선</label>
+                          <button className="rounded-md border border-slate-300 bg-white px-1.5 py-0.5 text-[10px] font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-40" disabled={s.points.length<2} title="MATLAB·Python·C·SPICE 코드로 내보내기" onClick={()=>openCodeExport(i)}>Code</button>
                           <span className="ml-auto text-[10px] text-gray-500">Min I</span>
                           <input
                             type="text"
@@ -2501,28 +4397,302 @@ export default function App() {
                   </div>
 
 
-                  <div className="rounded border border-amber-200 bg-amber-50 p-2 space-y-1.5">
+                  <div className="rounded border border-violet-200 bg-violet-50 p-2 space-y-1.5">
                     <div className="flex items-center justify-between gap-2">
                       <div>
-                        <div className="text-[11px] font-bold text-amber-900">Product tolerance</div>
-                        <div className="text-[9px] text-amber-700">{currentState.series[activeSeries]?.name ?? "-"} curve · dashed limits on both sides</div>
+                        <div className="text-[11px] font-bold text-violet-900">Auto trace (color)</div>
+                        <div className="text-[9px] text-violet-700">이미지 {BG_LABELS[activeBg]} 곡선 클릭 → 미리보기 → 적용</div>
                       </div>
-                      <span className="rounded bg-white px-1.5 py-0.5 text-[10px] font-bold text-amber-800">
-                        {currentState.series[activeSeries]?.tolerancePercent ? `±${currentState.series[activeSeries].tolerancePercent}%` : "OFF"}
-                      </span>
+                      <button
+                        className={`rounded px-2 py-1 text-[11px] font-bold ${traceMode?"bg-violet-600 text-white":"border border-violet-300 bg-white text-violet-800 hover:bg-violet-100"}`}
+                        onClick={()=>{ if(traceMode) cancelTrace(); setPickAnchor(false); setCalPick(null); snapPreviewRef.current=null; setTraceMode(v=>!v); }}>
+                        {traceMode?"Tracing...":"Trace"}
+                      </button>
                     </div>
-                    <div className="grid grid-cols-3 gap-1">
-                      {[0,10,15].map(percent => {
-                        const selected = Number(currentState.series[activeSeries]?.tolerancePercent ?? 0) === percent;
-                        return <button key={percent}
-                          className={`rounded border py-1 text-[11px] font-bold ${selected ? "border-amber-600 bg-amber-600 text-white" : "border-amber-300 bg-white text-amber-800 hover:bg-amber-100"}`}
-                          onClick={()=>updateState(prev=>({...prev,series:prev.series.map((s,i)=>i===activeSeries?{...s,tolerancePercent:percent}:s)}))}>
-                          {percent === 0 ? "Off" : `±${percent}%`}
-                        </button>;
-                      })}
+                    {traceMode&&(
+                      <div className="space-y-1.5">
+                        <div className="grid grid-cols-2 gap-1.5">
+                          <label className="flex items-center gap-1 text-[10px]">Color
+                            <input type="color" className="h-5 w-8 cursor-pointer rounded border-0 p-0" value={traceColor} onChange={e=>setTraceColor(e.target.value)}/>
+                            <span className="font-mono text-[9px] text-violet-700">{traceColor}</span>
+                          </label>
+                          <label className="flex items-center gap-1 text-[10px]">Step
+                            <input type="number" min={0.005} step={0.01} className="w-full rounded border px-1 py-0.5 text-[10px]" value={traceStep} onChange={e=>{const n=Number(e.target.value);if(isFinite(n)&&n>0)setTraceStep(n);}}/>
+                          </label>
+                          <label className="col-span-2 flex items-center gap-1 text-[10px]">Tolerance
+                            <input type="range" min={5} max={200} step={5} className="w-full" value={traceTolerance} onChange={e=>setTraceTolerance(Number(e.target.value))}/>
+                            <span className="w-6 text-right font-mono">{traceTolerance}</span>
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <span className="text-[10px] text-violet-800">{traceSeed?`미리보기 ${tracePreview.length}점`:"곡선 위를 클릭하세요"}</span>
+                          <button disabled={!tracePreview.length} className="ml-auto rounded bg-violet-600 px-2 py-0.5 text-[10px] font-bold text-white disabled:opacity-40" onClick={applyTrace}>적용 ({currentState.series[activeSeries]?.name ?? "-"})</button>
+                          <button disabled={!traceSeed} className="rounded bg-gray-200 px-2 py-0.5 text-[10px] disabled:opacity-40" onClick={cancelTrace}>취소</button>
+                        </div>
+                        <div className="text-[9px] text-violet-700">Step: 로그 축은 decade 단위(0.05 ≈ decade당 20점). 캘리브 Clip이 켜져 있으면 사각형 안만 추적합니다.</div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="rounded border border-teal-200 bg-teal-50 p-2 space-y-1.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="text-[11px] font-bold text-teal-900">Snap to curve</div>
+                        <div className="text-[9px] text-teal-700">클릭·화살표 이동 점을 가까운 곡선 중심선으로 (돋보기에 미리보기)</div>
+                      </div>
+                      <label className="flex items-center gap-1 text-[11px] font-semibold text-teal-900">
+                        <input type="checkbox" className="h-3 w-3" checked={snapOn} onChange={e=>{ setSnapOn(e.target.checked); snapTargetRef.current=null; setTick(t=>t+1); }}/> On
+                      </label>
                     </div>
+                    {snapOn&&(
+                      <div className="grid grid-cols-2 gap-1.5">
+                        <label className="flex items-center gap-1 text-[10px]">Color
+                          <input type="color" className="h-5 w-8 cursor-pointer rounded border-0 p-0" value={snapColor} onChange={e=>setSnapColor(e.target.value)}/>
+                          <button className="rounded bg-white px-1 text-[9px] text-teal-800 border border-teal-200" title="Use the auto trace color" onClick={()=>setSnapColor(traceColor)}>= trace</button>
+                        </label>
+                        <label className="flex items-center gap-1 text-[10px]">Radius
+                          <input type="range" min={3} max={30} step={1} className="w-full" value={snapRadius} onChange={e=>setSnapRadius(Number(e.target.value))}/>
+                          <span className="w-6 text-right font-mono">{snapRadius}</span>
+                        </label>
+                        <label className="col-span-2 flex items-center gap-1 text-[10px]">Tolerance
+                          <input type="range" min={5} max={200} step={5} className="w-full" value={snapTolerance} onChange={e=>setSnapTolerance(Number(e.target.value))}/>
+                          <span className="w-6 text-right font-mono">{snapTolerance}</span>
+                        </label>
+                      </div>
+                    )}
                   </div>
 
+                  <div className="rounded border border-sky-200 bg-sky-50 p-2 space-y-1.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="text-[11px] font-bold text-sky-900">Resample</div>
+                        <div className="text-[9px] text-sky-700">{currentState.series[activeSeries]?.name ?? "-"} · {currentState.series[activeSeries]?.points.length ?? 0}점 → 등간격 재표본 / 중복 점 정리</div>
+                      </div>
+                      <button
+                        className={`rounded px-2 py-1 text-[11px] font-bold ${resampleOpen?"bg-sky-600 text-white":"border border-sky-300 bg-white text-sky-800 hover:bg-sky-100"}`}
+                        onClick={()=>{ if(resampleOpen) cancelResample(); setResampleOpen(v=>!v); }}>
+                        {resampleOpen?"Close":"Open"}
+                      </button>
+                    </div>
+                    {resampleOpen&&(
+                      <div className="space-y-1.5">
+                        <div className="flex items-center gap-1">
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">N
+                            <input type="number" min={2} max={500} step={1} className="w-full rounded border px-1 py-0.5 text-[10px]" value={resampleCount}
+                              onChange={e=>{const n=Math.round(Number(e.target.value));if(n>=2&&n<=500)setResampleCount(n);}}/>
+                          </label>
+                          <button className="rounded border border-sky-300 bg-white px-2 py-0.5 text-[10px] font-semibold text-sky-800 hover:bg-sky-100" onClick={()=>previewResample("resample")}>
+                            {currentState.xLog?"log x 등간격":"x 등간격"}
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">Tol
+                            <input type="number" min={0.0005} step={0.001} className="w-full rounded border px-1 py-0.5 text-[10px]" value={decimateTolerance}
+                              onChange={e=>{const n=Number(e.target.value);if(isFinite(n)&&n>0)setDecimateTolerance(n);}}/>
+                            <span className="text-[9px] text-sky-700">{currentState.xLog||currentState.yLog?"dec":""}</span>
+                          </label>
+                          <button className="rounded border border-sky-300 bg-white px-2 py-0.5 text-[10px] font-semibold text-sky-800 hover:bg-sky-100" onClick={()=>previewResample("decimate")}>Decimate</button>
+                        </div>
+                        {resamplePreview&&(
+                          <div className="flex items-center gap-1">
+                            <span className="text-[10px] text-sky-900">
+                              {resamplePreview.before.length} → <strong>{resamplePreview.points.length}</strong>점 · max Δ {resamplePreview.maxDev.toPrecision(2)}{currentState.yLog?" dec":""}
+                            </span>
+                            <button className="ml-auto rounded bg-sky-600 px-2 py-0.5 text-[10px] font-bold text-white" onClick={applyResample}>적용</button>
+                            <button className="rounded bg-gray-200 px-2 py-0.5 text-[10px]" onClick={cancelResample}>취소</button>
+                          </div>
+                        )}
+                        <div className="text-[9px] text-sky-700">점선·사각형 = 적용 후 모양(원래 곡선 위에 겹쳐 표시). 적용은 Undo로 되돌릴 수 있습니다. Tol은 로그 축에서 decade 단위(0.01 ≈ 2.3%).</div>
+                      </div>
+                    )}
+                  </div>
+                  {(()=>{
+                    const act = currentState.series[activeSeries]?.consensus;
+                    return (
+                      <div className="rounded border border-teal-200 bg-teal-50 p-2 space-y-1.5">
+                        <div>
+                          <div className="text-[11px] font-bold text-teal-900">Consensus</div>
+                          <div className="text-[9px] text-teal-700">같은 곡선을 여러 번 디지타이즈한 시리즈 → log 평균 + 편차 밴드</div>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {currentState.series.map((s, si) => {
+                            const on = consensusPick.includes(si);
+                            return (
+                              <button key={si} disabled={s.points.length < 2}
+                                className={`flex items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] disabled:opacity-40 ${on ? "border-teal-600 bg-teal-600 text-white" : "border-teal-300 bg-white text-teal-900 hover:bg-teal-100"}`}
+                                onClick={()=>setConsensusPick(prev=>prev.includes(si)?prev.filter(i=>i!==si):[...prev,si])}>
+                                <span className="inline-block h-2 w-2 rounded-full" style={{ background: s.color }}/>{s.name}
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">N
+                            <input type="number" min={2} max={500} step={1} className="w-full rounded border px-1 py-0.5 text-[10px]" value={consensusCount}
+                              onChange={e=>{const n=Math.round(Number(e.target.value));if(n>=2&&n<=500)setConsensusCount(n);}}/>
+                          </label>
+                          <button className="rounded bg-teal-600 px-2 py-0.5 text-[10px] font-bold text-white hover:bg-teal-700 disabled:opacity-40" disabled={consensusPick.length<2} onClick={createConsensusSeries}>
+                            평균 시리즈 ({consensusPick.length})
+                          </button>
+                        </div>
+                        {act&&(
+                          <div className="rounded bg-white px-2 py-1 text-[10px] text-teal-900">
+                            <strong>{currentState.series[activeSeries].name}</strong>: {act.members}개 평균 · 편차 RMS ±{act.rmsPct.toFixed(1)}% · max ±{act.maxPct.toFixed(1)}%
+                            {act.sources?.length ? <div className="truncate text-[9px] text-teal-700" title={act.sources.join(", ")}>원본: {act.sources.join(", ")}</div> : null}
+                          </div>
+                        )}
+                        <div className="text-[9px] text-teal-700">공통 전류 구간만 사용합니다. 음영 = 원본들의 min–max 범위(디지타이즈 반복성).</div>
+                      </div>
+                    );
+                  })()}
+                  {(()=>{
+                    const lint = currentState.series.map((s, si) => ({ s, si, issues: seriesIssues(si) })).filter(r => r.issues.length);
+                    const nErr = lint.reduce((n, r) => n + r.issues.filter(i => i.severity === "error").length, 0);
+                    const nWarn = lint.reduce((n, r) => n + r.issues.length, 0) - nErr;
+                    return (
+                      <div className="rounded border border-rose-200 bg-rose-50 p-2 space-y-1.5">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <div className="text-[11px] font-bold text-rose-900">Curve check</div>
+                            <div className="text-[9px] text-rose-700">{linLogScaleIssues().length ? `선형·log10 축에서만 검사합니다 (${linLogScaleIssues().join(", ")})` : "전 시리즈 타당성 검사 · 오류가 있으면 라이브러리 저장 불가"}</div>
+                          </div>
+                          <span className={`rounded px-1.5 py-0.5 text-[10px] font-bold ${nErr ? "bg-red-600 text-white" : nWarn ? "bg-amber-200 text-amber-900" : "bg-white text-emerald-700"}`}>
+                            {nErr || nWarn ? `${nErr} err · ${nWarn} warn` : "OK"}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">Slope
+                            <input type="number" min={5} max={175} step={5} className="w-full rounded border px-1 py-0.5 text-[10px]" value={lintSlopeLimit}
+                              onChange={e=>{const n=Number(e.target.value);if(n>=5&&n<=175)setLintSlopeLimit(n);}}/>
+                            <span className="text-[9px] text-rose-700">°</span>
+                          </label>
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">Gap
+                            <input type="number" min={0.1} step={0.1} className="w-full rounded border px-1 py-0.5 text-[10px]" value={lintMaxGap}
+                              onChange={e=>{const n=Number(e.target.value);if(isFinite(n)&&n>0)setLintMaxGap(n);}}/>
+                            <span className="text-[9px] text-rose-700">dec</span>
+                          </label>
+                        </div>
+                        {lint.length>0&&(
+                          <div className="max-h-48 space-y-1 overflow-y-auto">
+                            {lint.map(({ s, si, issues })=>(
+                              <div key={si} className="rounded bg-white px-1.5 py-1">
+                                <div className="flex items-center gap-1 text-[10px] font-semibold">
+                                  <span className="inline-block h-2 w-2 rounded-full" style={{ background: s.color }}/>{s.name}
+                                  <span className="ml-auto text-[9px] font-normal text-gray-500">{issues.length}</span>
+                                </div>
+                                {issues.slice(0, 8).map((it, k)=>(
+                                  <button key={k} className={`block w-full truncate text-left text-[10px] hover:underline ${it.severity==="error"?"text-red-700":"text-amber-800"}`}
+                                    title={it.message} onClick={()=>jumpToPoint(si, it.pointIndex)}>
+                                    {it.severity==="error"?"✖":"⚠"} {it.message}
+                                  </button>
+                                ))}
+                                {issues.length>8&&<div className="text-[9px] text-gray-500">+{issues.length-8}개 더</div>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        <div className="text-[9px] text-rose-700">항목을 누르면 해당 점이 선택됩니다. 오류 = 0 이하 값·중복 전류·전류 증가 시 시간 증가(1% 초과).</div>
+                      </div>
+                    );
+                  })()}
+                  {(()=>{
+                    const s = currentState.series[activeSeries];
+                    const model = currentModel(s), stale = !!s?.model && !model;
+                    return (
+                      <div className="rounded border border-indigo-200 bg-indigo-50 p-2 space-y-1.5">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <div className="text-[11px] font-bold text-indigo-900">Curve model</div>
+                            <div className="text-[9px] text-indigo-700">{s?.name ?? "-"} · 해석 모델 적합 (Selection Check에 사용)</div>
+                          </div>
+                          <label className="flex items-center gap-1 text-[10px] text-indigo-900">
+                            <input type="checkbox" className="h-3 w-3" checked={modelOverlay} onChange={e=>setModelOverlay(e.target.checked)}/> Overlay
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <select className="min-w-0 flex-1 rounded border border-indigo-200 bg-white px-1 py-0.5 text-[10px]" value={modelKind} onChange={e=>setModelKind(e.target.value as CurveModelKind)}>
+                            {(Object.keys(CURVE_MODEL_LABELS) as CurveModelKind[]).map(k=><option key={k} value={k}>{CURVE_MODEL_LABELS[k]}</option>)}
+                          </select>
+                          {modelKind==="powerlaw"&&(
+                            <label className="flex items-center gap-1 text-[10px]">Seg
+                              <input type="number" min={1} max={6} className="w-10 rounded border px-1 py-0.5 text-[10px]" value={modelSegments} onChange={e=>{const n=Math.round(Number(e.target.value));if(n>=1&&n<=6)setModelSegments(n);}}/>
+                            </label>
+                          )}
+                          {modelKind==="spline"&&(
+                            <label className="flex items-center gap-1 text-[10px]">Knots
+                              <input type="number" min={3} max={20} className="w-10 rounded border px-1 py-0.5 text-[10px]" value={modelKnots} onChange={e=>{const n=Math.round(Number(e.target.value));if(n>=3&&n<=20)setModelKnots(n);}}/>
+                            </label>
+                          )}
+                          <button className="rounded bg-indigo-600 px-2 py-0.5 text-[10px] font-bold text-white hover:bg-indigo-700" onClick={fitActiveSeriesModel}>Fit</button>
+                        </div>
+                        {stale&&<div className="rounded bg-amber-100 px-2 py-1 text-[10px] text-amber-900">점이 바뀌어 저장된 모델이 무효입니다 — 다시 Fit 하세요 (그동안 점 보간 사용).</div>}
+                        {model&&(
+                          <div className="space-y-1">
+                            <div className="break-words rounded bg-white px-2 py-1 font-mono text-[9px] text-indigo-900">{describeCurveModel(model)}</div>
+                            <table className="w-full text-[10px]">
+                              <thead><tr className="text-indigo-700"><th className="text-left font-semibold">Decade (A)</th><th className="text-right font-semibold">n</th><th className="text-right font-semibold">RMS %</th><th className="text-right font-semibold">max %</th></tr></thead>
+                              <tbody>
+                                {model.perDecade.map(d=>(
+                                  <tr key={d.decade} className={d.maxPct>10?"text-red-700":""}>
+                                    <td>{fmtReal(Math.pow(10,d.decade))}–{fmtReal(Math.pow(10,d.decade+1))}</td>
+                                    <td className="text-right">{d.n}</td>
+                                    <td className="text-right font-mono">{((Math.pow(10,d.rmsDecades)-1)*100).toFixed(1)}</td>
+                                    <td className="text-right font-mono">{d.maxPct.toFixed(1)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            <div className="flex items-center gap-1">
+                              <span className="text-[10px] text-indigo-900">전체 RMS {((Math.pow(10,model.rmsDecades)-1)*100).toFixed(1)}% · max {model.maxPct.toFixed(1)}%</span>
+                              <button className="ml-auto rounded border border-indigo-300 bg-white px-2 py-0.5 text-[10px] text-indigo-800 hover:bg-indigo-100" onClick={exportActiveSeriesModel}>Export</button>
+                              <button className="rounded bg-gray-200 px-2 py-0.5 text-[10px]" onClick={removeActiveSeriesModel}>Remove</button>
+                            </div>
+                          </div>
+                        )}
+                        {stale&&<button className="rounded bg-gray-200 px-2 py-0.5 text-[10px]" onClick={removeActiveSeriesModel}>Remove</button>}
+                      </div>
+                    );
+                  })()}
+                  {(()=>{
+                    const s = currentState.series[activeSeries], band = seriesBand(s);
+                    const draft: ToleranceBand = s?.toleranceBand ?? band ?? { axis: "current", plus: 0, minus: 0 }; // kept while both values are 0 so the axis choice survives
+                    const edit = (patch: Partial<ToleranceBand>) => setActiveSeriesBand({ ...draft, ...patch });
+                    return (
+                      <div className="rounded border border-amber-200 bg-amber-50 p-2 space-y-1.5">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <div className="text-[11px] font-bold text-amber-900">Product tolerance</div>
+                            <div className="text-[9px] text-amber-700">{s?.name ?? "-"} curve · shaded band between max/min edges</div>
+                          </div>
+                          <span className="rounded bg-white px-1.5 py-0.5 text-[10px] font-bold text-amber-800">{describeToleranceBand(band)}</span>
+                        </div>
+                        <div className="grid grid-cols-5 gap-1">
+                          {TOLERANCE_PRESETS.map(preset => {
+                            const selected = describeToleranceBand(preset.band) === describeToleranceBand(band);
+                            return <button key={preset.label}
+                              className={`rounded border py-1 text-[10px] font-bold ${selected ? "border-amber-600 bg-amber-600 text-white" : "border-amber-300 bg-white text-amber-800 hover:bg-amber-100"}`}
+                              onClick={()=>setActiveSeriesBand(preset.band)}>
+                              {preset.label}
+                            </button>;
+                          })}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <select className="rounded border border-amber-200 bg-white px-1 py-0.5 text-[10px]" value={draft.axis} onChange={e=>edit({ axis: e.target.value as ToleranceBand["axis"] })}>
+                            <option value="current">전류(I)</option>
+                            <option value="time">시간(t)</option>
+                          </select>
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">+
+                            <input type="number" min={0} max={500} step={1} className="w-full rounded border px-1 py-0.5 text-[10px]" value={draft.plus} onChange={e=>edit({ plus: Number(e.target.value) })}/>%
+                          </label>
+                          <label className="flex flex-1 items-center gap-1 text-[10px]">−
+                            <input type="number" min={0} max={99} step={1} className="w-full rounded border px-1 py-0.5 text-[10px]" value={draft.minus} onChange={e=>edit({ minus: Number(e.target.value) })}/>%
+                          </label>
+                        </div>
+                        {band&&<button className="w-full rounded border border-amber-300 bg-white py-0.5 text-[10px] font-semibold text-amber-800 hover:bg-amber-100" onClick={addBandEdgeSeries}>밴드 곡선 → 시리즈 2개 추가</button>}
+                        <div className="text-[9px] text-amber-700">+ = 느린 쪽(max: 더 큰 전류/더 긴 시간), − = 빠른 쪽(min). 라이브러리 저장 시 함께 저장되며 Selection Check는 밴드 가장자리로 판정합니다.</div>
+                      </div>
+                    );
+                  })()}
+
                   <div className="!mt-2 grid grid-cols-2 gap-x-2 gap-y-2 border-t border-gray-200 pt-2">
                     <label className="col-span-2 flex items-center gap-2"><input type="checkbox" className="h-3 w-3" checked={connectLines} onChange={e=>setConnectLines(e.target.checked)}/> Connect points</label>
                     <label className="flex items-center gap-1">Width <input className="w-full rounded border px-1 py-0.5 text-xs" value={lineWidth} onChange={e=>setLineWidth(Number(e.target.value)||1)}/></label>
@@ -2541,6 +4711,20 @@ export default function App() {
         <div className={`grid grid-cols-1 gap-3 ${(loggedInUser&&showI2tGraph)?"lg:grid-cols-2":"lg:grid-cols-1"} col-span-1`}>
           {/* Main graph */}
           <div className="min-w-0 rounded-xl border border-slate-200 bg-white p-3 shadow-sm">
+            {/* Plot tabs - each plot has its own axes, images, calibration and series */}
+            <div className="mb-2 flex flex-wrap items-center gap-1 border-b border-slate-200 pb-1.5">
+              {plots.map((pl, i) => (
+                <div key={pl.id} className={`flex items-center rounded-t-md border px-2 py-1 text-xs font-semibold ${i===activePlot?"border-indigo-500 bg-indigo-50 text-indigo-900":"border-slate-200 bg-white text-slate-600 hover:bg-slate-50"}`}>
+                  {renamingPlot===i
+                    ? <input autoFocus className="w-28 rounded border border-indigo-300 px-1 text-xs" value={pl.name}
+                        onChange={e=>renamePlot(i,e.target.value)} onBlur={()=>setRenamingPlot(null)}
+                        onKeyDown={e=>{if(e.key==="Enter"||e.key==="Escape")setRenamingPlot(null);}}/>
+                    : <button title="더블클릭하여 이름 변경" onClick={()=>switchPlot(i)} onDoubleClick={()=>{switchPlot(i);setRenamingPlot(i);}}>{pl.name || `Plot ${i+1}`}</button>}
+                  {plots.length>1&&<button className="ml-1.5 text-[10px] text-slate-400 hover:text-red-600" title="플롯 삭제" onClick={()=>removePlot(i)}>✕</button>}
+                </div>
+              ))}
+              {plots.length<MAX_PLOTS&&<button className="rounded-md px-2 py-1 text-xs font-bold text-indigo-700 hover:bg-indigo-50" title="새 플롯 (예: I²t, derating)" onClick={addPlot}>+ Plot</button>}
+            </div>
             {loggedInUser&&<div className="mb-2 flex items-center gap-2">
               <label className="flex items-center gap-2 text-xs font-semibold">
                 <input type="checkbox" className="h-4 w-4" checked={showI2tGraph} onChange={e=>setShowI2tGraph(e.target.checked)}/>
@@ -2549,15 +4733,15 @@ export default function App() {
             </div>}
             <div className="mb-2 h-4 text-xs text-gray-600">
               {hoverRef.current.x!==null
-                ?<span className="font-mono">Cursor: X={fmtReal(hoverRef.current.x)} , Y={fmtReal(hoverRef.current.y)}</span>
+                ?<span className="font-mono">Cursor: X={fmtReal(hoverRef.current.x)} {currentState.units?.x.unit} , Y={fmtReal(hoverRef.current.y)} {currentState.units?.y.unit}</span>
                 :<span>Hover over graph to see coordinates.</span>}
             </div>
             <div className="overflow-hidden rounded-xl border border-slate-300 bg-slate-50">
               <canvas ref={canvasRef} width={size.w} height={size.h} className="block h-auto w-full touch-none select-none"
-                style={{cursor:cursorForHandle(hoverHandle,bgEditMode,pickAnchor,calPick)}}
+                style={{cursor:cursorForHandle(hoverHandle,bgEditMode,pickAnchor,calPick||calRefPick||calTickPick,traceMode)}}
                 onMouseMove={onMouseMove} onMouseDown={onMouseDown} onMouseUp={onMouseUp} onMouseLeave={onMouseLeave}
                 onDragOver={e=>e.preventDefault()}
-                onDrop={e=>{e.preventDefault();const f=e.dataTransfer?.files?.[0];if(f&&/^image\//.test(f.type))onFile(f,activeBg);}}
+                onDrop={e=>{e.preventDefault();const f=e.dataTransfer?.files?.[0];if(f&&(/^image\//.test(f.type)||isPdfFile(f)))onFile(f,activeBg);}}
                 onContextMenu={e=>{e.preventDefault();if(pickAnchor)setPickAnchor(false);}}
               />
             </div>
@@ -2589,10 +4773,10 @@ export default function App() {
                       <tr>
                         <th className="border-b border-gray-300 px-1 py-1 text-center text-[10px] font-semibold text-gray-500 w-5 select-none">#</th>
                         <th className="border-b border-gray-300 px-1 py-1 text-center text-[10px] font-semibold text-gray-600">
-                          {showRealCoords ? "X" : (currentState.xLog ? "log₁₀ X" : "X")}
+                          {showRealCoords ? "X" : transformedHeader("x")}
                         </th>
                         <th className="border-b border-gray-300 px-1 py-1 text-center text-[10px] font-semibold text-gray-600">
-                          {showRealCoords ? "Y" : (currentState.yLog ? "log₁₀ Y" : "Y")}
+                          {showRealCoords ? "Y" : transformedHeader("y")}
                         </th>
                         <th className="border-b border-gray-300 w-5"/>
                       </tr>
@@ -2838,6 +5022,407 @@ export default function App() {
         </div>
       </main>
 
+      {/* PDF Import Modal */}
+      {pdfImport&&(
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={e=>{if(e.target===e.currentTarget&&!pdfImport.busy)closePdfImport();}}>
+          <div className="relative flex flex-col bg-white rounded-xl shadow-2xl w-[900px] max-w-[96vw] max-h-[90vh]">
+            <div className="flex flex-none items-center justify-between border-b border-gray-200 px-4 py-3">
+              <div className="min-w-0">
+                <h2 className="text-base font-bold text-gray-900">PDF 불러오기 → {BG_LABELS[pdfImport.slot]}</h2>
+                <p className="mt-0.5 truncate text-[10px] text-gray-500">{pdfImport.fileName} · {pdfImport.pageCount} page(s) · 페이지를 고르고 미리보기에서 드래그해 영역을 자르세요.</p>
+              </div>
+              <button type="button" aria-label="PDF 불러오기 닫기" disabled={pdfImport.busy} onClick={closePdfImport} className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-100 text-2xl font-bold leading-none text-gray-600 hover:bg-red-100 hover:text-red-700 disabled:opacity-40">×</button>
+            </div>
+            <div className="flex flex-1 min-h-0 overflow-hidden">
+              <div className="w-[200px] flex-shrink-0 overflow-y-auto border-r border-gray-200 p-2">
+                <div className="grid grid-cols-2 gap-1.5">
+                  {pdfImport.thumbs.map((url,i)=>(
+                    <button key={i} type="button" onClick={()=>setPdfImport(cur=>cur&&{...cur,page:i+1,crop:null})}
+                      className={`flex flex-col items-center rounded border p-0.5 text-[10px] ${pdfImport.page===i+1?"border-blue-500 bg-blue-50 text-blue-700":"border-gray-200 text-gray-500 hover:border-gray-400"}`}>
+                      {url?<img src={url} alt={`p.${i+1}`} className="max-h-24 w-full object-contain"/>:<div className="flex h-24 w-full items-center justify-center bg-gray-100">…</div>}
+                      <span>{i+1}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-1 min-w-0 flex-col gap-2 p-3 text-xs">
+                <div className="flex flex-1 min-h-0 items-center justify-center overflow-auto rounded bg-gray-100 p-2">
+                  {pdfImport.preview?(
+                    <div className="relative inline-block cursor-crosshair select-none"
+                      onMouseDown={e=>{const p=pdfPreviewFrac(e);pdfCropDragRef.current=p;setPdfImport(cur=>cur&&{...cur,crop:null});}}
+                      onMouseMove={e=>{const a=pdfCropDragRef.current;if(!a)return;const crop=pdfCropFromDrag(a,pdfPreviewFrac(e));setPdfImport(cur=>cur&&{...cur,crop});}}
+                      onMouseUp={()=>{pdfCropDragRef.current=null;}}
+                      onMouseLeave={()=>{pdfCropDragRef.current=null;}}>
+                      <img src={pdfImport.preview} alt={`page ${pdfImport.page}`} draggable={false} className="block max-h-[60vh] max-w-full bg-white shadow"/>
+                      {pdfImport.crop&&(
+                        <div className="pointer-events-none absolute border-2 border-dashed border-blue-600 bg-blue-500/10"
+                          style={{left:`${pdfImport.crop.x*100}%`,top:`${pdfImport.crop.y*100}%`,width:`${pdfImport.crop.w*100}%`,height:`${pdfImport.crop.h*100}%`}}/>
+                      )}
+                    </div>
+                  ):(
+                    <span className="text-gray-500">Rendering page {pdfImport.page}…</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center gap-1">Page
+                    <input type="number" min={1} max={pdfImport.pageCount} value={pdfImport.page} className="w-16 rounded border px-1 py-0.5"
+                      onChange={e=>{const page=Math.round(Number(e.target.value));if(page>=1&&page<=pdfImport.pageCount)setPdfImport(cur=>cur&&{...cur,page,crop:null});}}/>
+                  </label>
+                  <label className="flex items-center gap-1">DPI
+                    <select value={pdfImport.dpi} className="rounded border px-1 py-0.5" onChange={e=>setPdfImport(cur=>cur&&{...cur,dpi:Number(e.target.value)})}>
+                      {PDF_DPI_OPTIONS.map(d=><option key={d} value={d}>{d}</option>)}
+                    </select>
+                  </label>
+                  <span className="text-[10px] text-gray-500">
+                    {pdfImport.crop?`Crop ${Math.round(pdfImport.crop.w*100)}% × ${Math.round(pdfImport.crop.h*100)}%`:"Full page"}
+                  </span>
+                  {pdfImport.crop&&<button type="button" className="rounded bg-gray-200 px-2 py-0.5 text-[10px] hover:bg-gray-300" onClick={()=>setPdfImport(cur=>cur&&{...cur,crop:null})}>Clear crop</button>}
+                  <div className="ml-auto flex gap-2">
+                    <button type="button" disabled={pdfImport.busy} onClick={openVectorFromPdfImport} title="이미지 대신 이 페이지의 벡터 경로에서 곡선을 추출" className="rounded border border-fuchsia-300 bg-fuchsia-50 px-3 py-1.5 font-semibold text-fuchsia-800 hover:bg-fuchsia-100 disabled:opacity-40">Vector curves…</button>
+                    <button type="button" disabled={pdfImport.busy} onClick={closePdfImport} className="rounded bg-gray-100 px-3 py-1.5 font-semibold text-gray-600 hover:bg-gray-200 disabled:opacity-40">Cancel</button>
+                    <button type="button" disabled={pdfImport.busy} onClick={confirmPdfImport} className="rounded bg-blue-600 px-3 py-1.5 font-semibold text-white hover:bg-blue-700 disabled:opacity-40">
+                      {pdfImport.busy?"Rendering…":`Import p.${pdfImport.page} → ${BG_LABELS[pdfImport.slot]}`}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Vector Curve Import Modal */}
+      {vectorImport&&(()=>{
+        const job = vectorImport, d = job.data;
+        const shown = d.paths.filter(p => pathInRegion(p, job.region)).slice(0, 4000);
+        const grid = vectorGridFit();
+        const curveIds = d.paths.filter(p => job.roles[p.id] === "curve").map(p => p.id);
+        const gridCount = d.paths.filter(p => job.roles[p.id] === "grid").length;
+        const box = job.region ?? { x0: 0, y0: 0, x1: d.width, y1: d.height };
+        const unit = Math.max(d.width, d.height) / 600; // ~1 screen px in page units
+        const pathD = p => p.subpaths.map(sp => "M" + sp.map(q => `${q.x.toFixed(2)} ${q.y.toFixed(2)}`).join("L")).join("");
+        const setRole = id => setVectorImport(cur => {
+          if (!cur || cur.tool === "region") return cur;
+          const roles = { ...cur.roles };
+          if (roles[id] === cur.tool) delete roles[id]; else roles[id] = cur.tool;
+          return { ...cur, roles };
+        });
+        const axisSummary = (f, label) => f ? `${label}: ${f.pattern === "log-sublines" ? "log decades" : "even"} · ${f.majors.length} majors · ${f.lines.length} lines` : `${label}: —`;
+        return (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+            <div className="relative flex flex-col bg-white rounded-xl shadow-2xl w-[1200px] max-w-[96vw] max-h-[92vh]">
+              <div className="flex flex-none items-center justify-between border-b border-gray-200 px-4 py-3">
+                <div className="min-w-0">
+                  <h2 className="text-base font-bold text-gray-900">벡터 곡선 추출</h2>
+                  <p className="mt-0.5 truncate text-[10px] text-gray-500">{job.fileName}{job.doc?` · p.${job.page}/${job.pageCount}`:""} · {d.paths.length} paths · 영역 지정 → 격자선·곡선 클릭 → 축 값 확인 → 시리즈 생성</p>
+                </div>
+                <button type="button" aria-label="벡터 곡선 추출 닫기" onClick={closeVectorImport} className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-100 text-2xl font-bold leading-none text-gray-600 hover:bg-red-100 hover:text-red-700">×</button>
+              </div>
+              <div className="flex flex-1 min-h-0 overflow-hidden">
+                <div className="flex flex-1 min-w-0 items-start justify-center overflow-auto bg-gray-100 p-2">
+                  <div className="relative inline-block select-none">
+                    <img src={job.preview} alt={job.fileName} draggable={false} className="block max-h-[76vh] max-w-full bg-white shadow"/>
+                    <svg viewBox={`0 0 ${d.width} ${d.height}`} preserveAspectRatio="none" className={`absolute inset-0 h-full w-full ${job.tool==="region"?"cursor-crosshair":""}`}
+                      onMouseDown={e=>{if(job.tool!=="region")return;const p=vectorPagePoint(e);vectorDragRef.current=p;setVectorImport(cur=>cur&&{...cur,region:null});}}
+                      onMouseMove={e=>{const a=vectorDragRef.current;if(!a)return;const p=vectorPagePoint(e);
+                        const region: VecBox={x0:Math.min(a.x,p.x),y0:Math.min(a.y,p.y),x1:Math.max(a.x,p.x),y1:Math.max(a.y,p.y)};
+                        setVectorImport(cur=>cur&&{...cur,region:region.x1-region.x0>4*unit&&region.y1-region.y0>4*unit?region:null});}}
+                      onMouseUp={()=>{vectorDragRef.current=null;}}
+                      onMouseLeave={()=>{vectorDragRef.current=null;}}>
+                      {job.region&&<rect x={box.x0} y={box.y0} width={box.x1-box.x0} height={box.y1-box.y0} fill="none" stroke="#2563eb" strokeWidth={1.5} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"/>}
+                      {grid.x?.majors.map((x,k)=><line key={"gx"+k} x1={x} x2={x} y1={box.y0} y2={box.y1} stroke="#f97316" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"/>)}
+                      {grid.y?.majors.map((y,k)=><line key={"gy"+k} y1={y} y2={y} x1={box.x0} x2={box.x1} stroke="#f97316" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"/>)}
+                      {shown.map(p=>{
+                        const role = job.roles[p.id];
+                        const color = role==="curve" ? seriesColor(currentState.series.length + curveIds.indexOf(p.id)) : role==="grid" ? "#f97316" : null;
+                        const dd = pathD(p);
+                        return (
+                          <g key={p.id}>
+                            {color&&<path d={dd} fill="none" stroke={color} strokeOpacity={0.85} strokeWidth={role==="curve"?3:2} vectorEffect="non-scaling-stroke" pointerEvents="none"/>}
+                            {job.tool!=="region"&&<path d={dd} fill="none" stroke="transparent" strokeWidth={8} vectorEffect="non-scaling-stroke" pointerEvents="stroke"
+                              className="cursor-pointer hover:stroke-sky-400/60" onClick={()=>setRole(p.id)}/>}
+                          </g>
+                        );
+                      })}
+                    </svg>
+                  </div>
+                </div>
+                <div className="w-[270px] flex-shrink-0 space-y-2 overflow-y-auto border-l border-gray-200 p-3 text-xs">
+                  {job.doc&&job.pageCount>1&&(
+                    <label className="flex items-center gap-2">Page
+                      <input type="number" min={1} max={job.pageCount} defaultValue={job.page} key={job.page} className="w-16 rounded border px-1 py-0.5"
+                        onKeyDown={e=>{if(e.key==="Enter")setVectorPage(Math.round(Number((e.target as HTMLInputElement).value)));}}
+                        onBlur={e=>setVectorPage(Math.round(Number(e.target.value)))}/>
+                      <span className="text-[10px] text-gray-400">/ {job.pageCount}</span>
+                    </label>
+                  )}
+                  <div className="space-y-1 rounded border border-fuchsia-200 bg-fuchsia-50 p-2">
+                    <p className="text-[11px] font-semibold text-fuchsia-900">클릭 도구</p>
+                    <div className="grid grid-cols-3 gap-1">
+                      {([["region","영역"],["grid","격자선"],["curve","곡선"]] as const).map(([k,label])=>(
+                        <button key={k} type="button" onClick={()=>setVectorImport(cur=>cur&&{...cur,tool:k})}
+                          className={`rounded px-1 py-1 text-[11px] font-semibold ${job.tool===k?"bg-fuchsia-600 text-white":"bg-white text-fuchsia-800 border border-fuchsia-200 hover:bg-fuchsia-100"}`}>{label}</button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] leading-snug text-fuchsia-900/80">
+                      {job.tool==="region"?"차트 영역을 드래그하세요 (밖의 경로는 무시).":job.tool==="grid"?"격자선 경로를 클릭해 표시/해제.":"곡선 경로를 클릭해 표시/해제 (각각 새 시리즈)."}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <button type="button" className="rounded bg-white px-2 py-0.5 text-[10px] border border-fuchsia-200 hover:bg-fuchsia-100"
+                        onClick={()=>setVectorImport(cur=>{if(!cur)return cur;const roles={...cur.roles};for(const id of guessGridPaths(cur.data.paths,cur.region,cur.data))if(!roles[id])roles[id]="grid";return {...cur,roles};})}>격자선 자동 표시</button>
+                      <button type="button" className="rounded bg-white px-2 py-0.5 text-[10px] border border-fuchsia-200 hover:bg-fuchsia-100" onClick={()=>setVectorImport(cur=>cur&&{...cur,roles:{}})}>표시 지우기</button>
+                      {job.region&&<button type="button" className="rounded bg-white px-2 py-0.5 text-[10px] border border-fuchsia-200 hover:bg-fuchsia-100" onClick={()=>setVectorImport(cur=>cur&&{...cur,region:null})}>영역 해제</button>}
+                    </div>
+                    <p className="text-[10px] text-gray-600">곡선 {curveIds.length} · 격자선 경로 {gridCount}{shown.length<d.paths.filter(p=>pathInRegion(p,job.region)).length?` · ${shown.length}개만 표시`:""}</p>
+                  </div>
+                  <div className="space-y-1 rounded border border-orange-200 bg-orange-50 p-2">
+                    <p className="text-[11px] font-semibold text-orange-900">축 매핑 (격자선 → 값)</p>
+                    <p className="text-[10px] text-orange-900/80">{axisSummary(grid.x,"X")}<br/>{axisSummary(grid.y,"Y")}</p>
+                    <p className="text-[10px] leading-snug text-gray-600">X1/X2 = 맨 왼쪽/오른쪽 주격자선, Y1/Y2 = 맨 아래/위 주격자선의 값 ({getAxisTransform(axisScale(currentState,"x")).short||"lin"} × {getAxisTransform(axisScale(currentState,"y")).short||"lin"}, Axes 설정 기준)</p>
+                    <div className="grid grid-cols-2 gap-1">
+                      {(["x1","x2","y1","y2"] as const).map(k=>(
+                        <label key={k} className="flex items-center gap-1 text-[10px]">{k.toUpperCase()}
+                          <input className="w-full rounded border border-orange-200 px-1 py-0.5 font-mono" value={job.values[k]}
+                            onChange={e=>setVectorImport(cur=>cur&&{...cur,values:{...cur.values,[k]:e.target.value}})}/>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <button type="button" onClick={createSeriesFromVectors} disabled={!curveIds.length}
+                    className="w-full rounded bg-fuchsia-600 py-2 text-xs font-semibold text-white hover:bg-fuchsia-700 disabled:opacity-40">
+                    시리즈 생성 ({curveIds.length})
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Code Export Modal */}
+      {codeExportOpen&&codeExport&&currentState.series[codeExport.series]&&(()=>{
+        const text=codeExportText(codeExport), scaleIssues=linLogScaleIssues(), set=patch=>setCodeExport(cur=>({...cur,...patch}));
+        const units=currentState.units??DEFAULT_AXIS_UNITS, field="rounded border border-gray-300 px-1.5 py-1 text-xs";
+        return (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={e=>{if(e.target===e.currentTarget)setCodeExportOpen(false);}}>
+            <div className="flex max-h-[90vh] w-[760px] max-w-[96vw] flex-col rounded-xl bg-white shadow-2xl">
+              <div className="flex flex-none items-center justify-between border-b border-gray-200 px-4 py-3">
+                <div>
+                  <h2 className="text-base font-bold text-gray-900">Code export</h2>
+                  <p className="mt-0.5 text-[10px] text-gray-500">붙여넣기용 배열과 보간 함수 · 로그 축은 log10 공간에서 선형 보간 (가이드 판독과 같은 규칙)</p>
+                </div>
+                <button type="button" aria-label="Code export 닫기" onClick={()=>setCodeExportOpen(false)} className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-100 text-2xl font-bold leading-none text-gray-600 hover:bg-red-100 hover:text-red-700">×</button>
+              </div>
+              <div className="flex min-h-0 flex-1 flex-col gap-2 p-4 text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-16 font-semibold text-gray-600">Series</span>
+                  <select className={field} value={codeExport.series} onChange={e=>set({series:Number(e.target.value)})}>
+                    {currentState.series.map((s,i)=><option key={i} value={i}>{s.name} ({s.points.length})</option>)}
+                  </select>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="w-16 font-semibold text-gray-600">Format</span>
+                  {(Object.keys(CODE_FORMATS) as CodeFormat[]).map(f=>(
+                    <button key={f} className={`rounded px-2 py-1 text-[11px] font-semibold ${codeExport.format===f?"bg-slate-800 text-white":"border border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`} onClick={()=>set({format:f})}>{CODE_FORMATS[f].label}</button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="w-16 font-semibold text-gray-600">Points</span>
+                  <label className="flex items-center gap-1"><input type="radio" className="h-3 w-3" checked={codeExport.sampling==="points"} onChange={()=>set({sampling:"points"})}/>디지타이즈한 점</label>
+                  <label className="flex items-center gap-1"><input type="radio" className="h-3 w-3" checked={codeExport.sampling==="resample"} onChange={()=>set({sampling:"resample"})}/>{axisScale(currentState,"x")==="log10"?"log x 등간격":"x 등간격"}</label>
+                  <input type="number" min={2} max={500} step={1} disabled={codeExport.sampling!=="resample"} className={`${field} w-16 disabled:opacity-40`} value={codeExport.count}
+                    onChange={e=>{const n=Math.round(Number(e.target.value));if(n>=2&&n<=500)set({count:n});}}/>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="w-16 font-semibold text-gray-600">Units</span>
+                  <label className="flex items-center gap-1"><input type="radio" className="h-3 w-3" checked={!codeExport.baseUnits} onChange={()=>set({baseUnits:false})}/>축 단위 ({describeUnits(units)})</label>
+                  <label className="flex items-center gap-1"><input type="radio" className="h-3 w-3" checked={codeExport.baseUnits} onChange={()=>set({baseUnits:true})}/>기준 단위 ({baseUnit(units.x.quantity)||"-"} / {baseUnit(units.y.quantity)||"-"})</label>
+                </div>
+                {scaleIssues.length>0&&<div className="rounded border border-amber-300 bg-amber-50 px-2 py-1 text-[11px] text-amber-800">보간 코드는 선형·log10 축만 지원합니다 ({scaleIssues.join(", ")}). 축 눈금을 바꾸거나 CSV/XLSX로 내보내세요.</div>}
+                <textarea readOnly spellCheck={false} className="min-h-[300px] flex-1 resize-none rounded border border-gray-300 bg-slate-50 p-2 font-mono text-[11px] leading-snug text-slate-800" value={text} onFocus={e=>e.target.select()}/>
+              </div>
+              <div className="flex flex-none items-center justify-end gap-2 border-t border-gray-200 px-4 py-3">
+                <button disabled={scaleIssues.length>0} className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40" onClick={copyCodeExport}>Copy</button>
+                <button disabled={scaleIssues.length>0} className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-40" onClick={downloadCodeExport}>Download .{CODE_FORMATS[codeExport.format].ext}</button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Chart Export Modal */}
+      {chartExportOpen&&chartExport&&(()=>{
+        const st=chartExport.style, setStyle=(patch:Partial<ChartStyle>)=>setChartExport(cur=>({...cur,style:{...cur.style,...patch}}));
+        const setSeriesStyle=(i:number,patch:Partial<SeriesStyle>)=>setChartExport(cur=>({...cur,series:cur.series.map((x,k)=>k===i?{...x,...patch}:x)}));
+        const perspective=calModel()?.kind==="perspective", hasBg=bgRefs.current.some((img,i)=>img&&showBgs[i]);
+        const pxW=Math.round(st.widthMm/25.4*chartExport.dpi), pxH=Math.round(st.heightMm/25.4*chartExport.dpi);
+        const field="rounded border border-gray-300 px-1.5 py-1 text-xs";
+        return (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+            <div className="relative flex flex-col bg-white rounded-xl shadow-2xl w-[1080px] max-w-[96vw] max-h-[94vh]">
+              <div className="relative z-10 flex flex-none items-center justify-between border-b border-gray-200 bg-white px-4 py-3">
+                <div>
+                  <h2 className="text-base font-bold text-gray-900">Chart export</h2>
+                  <p className="mt-0.5 text-[10px] text-gray-500">편집 화면과 별도로 그립니다 (선택 핸들·돋보기·보정점 제외).</p>
+                </div>
+                <button type="button" aria-label="Chart export 닫기" onClick={()=>setChartExportOpen(false)} className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-100 text-2xl font-bold leading-none text-gray-600 hover:bg-red-100 hover:text-red-700">×</button>
+              </div>
+              <div className="flex min-h-0 flex-1 gap-4 overflow-hidden p-4">
+                <div className="w-[380px] flex-none space-y-3 overflow-y-auto pr-1 text-xs">
+                  <section className="space-y-1.5">
+                    <div className="flex items-center gap-3">
+                      <span className="w-14 font-semibold text-gray-600">Format</span>
+                      {(["svg","png"] as const).map(f=><label key={f} className="flex items-center gap-1"><input type="radio" className="h-3 w-3" checked={chartExport.format===f} onChange={()=>setChartExport(cur=>({...cur,format:f}))}/>{f.toUpperCase()}</label>)}
+                      {chartExport.format==="png"&&(
+                        <select className={field} value={chartExport.dpi} onChange={e=>setChartExport(cur=>({...cur,dpi:Number(e.target.value)}))}>
+                          {[150,300,600].map(d=><option key={d} value={d}>{d} DPI</option>)}
+                        </select>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="w-14 font-semibold text-gray-600">Size</span>
+                      <input type="number" min={30} max={600} className={`${field} w-16`} value={st.widthMm} onChange={e=>setStyle({widthMm:Math.max(30,Number(e.target.value)||0)})}/>×
+                      <input type="number" min={30} max={600} className={`${field} w-16`} value={st.heightMm} onChange={e=>setStyle({heightMm:Math.max(30,Number(e.target.value)||0)})}/>mm
+                      {chartExport.format==="png"&&<span className="text-[10px] text-gray-500">{pxW}×{pxH} px</span>}
+                    </div>
+                    <div className="flex gap-1 pl-16">
+                      {[["Report",160,110],["Half",80,60],["Slide 16:9",254,143]].map(([l,w,h])=>(
+                        <button key={l} onClick={()=>setStyle({widthMm:w as number,heightMm:h as number})} className="rounded border px-1.5 py-0.5 text-[10px] hover:bg-gray-50">{l}</button>
+                      ))}
+                    </div>
+                  </section>
+                  <section className="space-y-1.5 border-t border-gray-100 pt-2">
+                    {([["title","Title"],["xLabel","X axis"],["yLabel","Y axis"]] as const).map(([k,l])=>(
+                      <label key={k} className="flex items-center gap-2"><span className="w-14 font-semibold text-gray-600">{l}</span>
+                        <input className={`${field} flex-1`} value={st[k]} onChange={e=>setStyle({[k]:e.target.value})}/></label>
+                    ))}
+                    <div className="flex items-center gap-2">
+                      <span className="w-14 font-semibold text-gray-600">Font</span>
+                      <select className={`${field} flex-1`} value={st.fontFamily} onChange={e=>setStyle({fontFamily:e.target.value})}>
+                        {CHART_FONTS.map(([v,l])=><option key={v} value={v}>{l}</option>)}
+                      </select>
+                      <input type="number" min={5} max={24} step={0.5} className={`${field} w-14`} value={st.fontPt} onChange={e=>setStyle({fontPt:Math.min(24,Math.max(5,Number(e.target.value)||9))})}/>pt
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="w-14 font-semibold text-gray-600">Legend</span>
+                      <select className={`${field} flex-1`} value={st.legend} onChange={e=>setStyle({legend:e.target.value as LegendPosition})}>
+                        {([["top-right","Top right"],["top-left","Top left"],["bottom-right","Bottom right"],["bottom-left","Bottom left"],["right","Outside right"],["none","None"]] as const).map(([v,l])=><option key={v} value={v}>{l}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 pl-16">
+                      <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={st.minorGrid} onChange={e=>setStyle({minorGrid:e.target.checked})}/> Minor grid</label>
+                      <label className="flex items-center gap-1"><input type="checkbox" className="h-3 w-3" checked={st.smooth!=null} onChange={e=>setStyle({smooth:e.target.checked?smoothAlpha:null})}/> Smooth lines</label>
+                      <label className={`flex items-center gap-1 ${!hasBg||perspective?"text-gray-400":""}`} title={perspective?"원근 보정 이미지는 포함할 수 없습니다":!hasBg?"표시 중인 배경 이미지가 없습니다":""}>
+                        <input type="checkbox" className="h-3 w-3" disabled={!hasBg||perspective} checked={st.background&&hasBg&&!perspective} onChange={e=>setStyle({background:e.target.checked})}/> Background image
+                      </label>
+                    </div>
+                  </section>
+                  <section className="space-y-1 border-t border-gray-100 pt-2">
+                    <div className="font-semibold text-gray-600">Series</div>
+                    {currentState.series.map((s,i)=>{
+                      const ss=chartExport.series[i]; if(!ss||s.visible===false||!s.points.length) return null;
+                      return (
+                        <div key={i} className="flex items-center gap-1">
+                          <span className="w-16 truncate" title={s.name}>{s.name}</span>
+                          <input type="color" className="h-6 w-7 cursor-pointer rounded border" value={ss.color} onChange={e=>setSeriesStyle(i,{color:e.target.value})}/>
+                          <input type="number" min={0} max={8} step={0.25} title="Line width (px)" className={`${field} w-12`} value={ss.width} onChange={e=>setSeriesStyle(i,{width:Math.max(0,Number(e.target.value)||0)})}/>
+                          <select className={field} value={ss.dash} onChange={e=>setSeriesStyle(i,{dash:e.target.value as LineDash})}>
+                            {(["solid","dashed","dotted","dashdot"] as const).map(d=><option key={d} value={d}>{d}</option>)}
+                          </select>
+                          <select className={field} value={ss.marker} onChange={e=>setSeriesStyle(i,{marker:e.target.value as MarkerShape})}>
+                            {(["none","circle","square","triangle"] as const).map(m=><option key={m} value={m}>{m}</option>)}
+                          </select>
+                          {ss.marker!=="none"&&<input type="number" min={1} max={12} step={0.5} title="Marker size (px)" className={`${field} w-11`} value={ss.markerSize} onChange={e=>setSeriesStyle(i,{markerSize:Math.max(1,Number(e.target.value)||3)})}/>}
+                        </div>
+                      );
+                    })}
+                  </section>
+                </div>
+                <div className="flex min-w-0 flex-1 flex-col gap-2">
+                  <div className="flex flex-1 items-center justify-center overflow-auto rounded-lg border border-gray-200 bg-gray-100 p-3">
+                    <img alt="Chart preview" src={chartExportPreview} className="max-h-full max-w-full bg-white shadow" style={{aspectRatio:`${st.widthMm}/${st.heightMm}`}}/>
+                  </div>
+                  <div className="flex items-center justify-end gap-2">
+                    <button onClick={()=>setChartExportOpen(false)} className="rounded-lg border px-3 py-1.5 text-xs hover:bg-gray-50">Cancel</button>
+                    <button onClick={downloadChartExport} disabled={chartExportBusy} className="rounded-lg bg-blue-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-50">{chartExportBusy?"Rendering…":`Download ${chartExport.format.toUpperCase()}`}</button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+      {/* Projects Modal */}
+      {showProjects&&(
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+          <div className="relative flex flex-col bg-white rounded-xl shadow-2xl w-[720px] max-w-[96vw] max-h-[90vh]">
+            <div className="relative z-10 flex flex-none items-center justify-between border-b border-gray-200 bg-white px-4 py-3">
+              <div>
+                <h2 className="text-base font-bold text-gray-900">Recent projects</h2>
+                <p className="mt-0.5 text-[10px] text-gray-500">브라우저(IndexedDB)에 배경 이미지와 함께 저장됩니다. 마지막 세션은 자동으로 복구됩니다.</p>
+              </div>
+              <button type="button" aria-label="Recent projects 닫기" onClick={()=>{setShowProjects(false);setRenamingLocal(null);}} className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-100 text-2xl font-bold leading-none text-gray-600 hover:bg-red-100 hover:text-red-700">×</button>
+            </div>
+            <div className="flex flex-none flex-wrap items-center gap-2 border-b border-gray-100 px-4 py-2 text-xs">
+              <button onClick={()=>saveProjectLocally(false)} className="rounded-lg bg-indigo-600 px-3 py-1.5 font-semibold text-white hover:bg-indigo-700">{localProject?`Save "${localProject.name}"`:"Save"}</button>
+              <button onClick={()=>saveProjectLocally(true)} className="rounded-lg border px-3 py-1.5 hover:bg-gray-50">Save as new…</button>
+              <button onClick={()=>digitizerFileRef.current?.click()} title="WebPlotDigitizer(.json·.tar)·Engauge 6+(.dig) 프로젝트를 현재 플롯으로 가져오기" className="rounded-lg border px-3 py-1.5 hover:bg-gray-50">Import WPD / Engauge…</button>
+              <input ref={digitizerFileRef} type="file" accept=".json,.tar,.dig" hidden onChange={e=>{const f=e.target.files?.[0];if(f)importDigitizerProject(f);e.target.value="";}}/>
+              <span className="ml-auto text-[10px] text-gray-500">
+                {storageUsage?`저장 공간 ${fmtBytes(storageUsage.usage)} / ${fmtBytes(storageUsage.quota)} (${(storageUsage.usage/Math.max(1,storageUsage.quota)*100).toFixed(1)}%)`:"저장 공간 정보 없음"}
+                {` · 프로젝트 합계 ${fmtBytes(localProjects.reduce((a,m)=>a+m.bytes,0))}`}
+              </span>
+            </div>
+            {importReport&&(
+              <div className={`flex-none border-b px-4 py-2 text-[11px] ${importReport.issues.length?"border-amber-200 bg-amber-50 text-amber-900":"border-emerald-200 bg-emerald-50 text-emerald-900"}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{importReport.source} · {importReport.name}: 시리즈 {importReport.series}개를 가져왔습니다{importReport.issues.length?` · 옮기지 못한 항목 ${importReport.issues.length}개`:""}</span>
+                  <button onClick={()=>setImportReport(null)} className="ml-auto rounded px-1 hover:bg-black/5">✕</button>
+                </div>
+                {importReport.issues.length>0&&<ul className="mt-1 max-h-28 list-disc overflow-y-auto pl-4">{importReport.issues.map((m,k)=><li key={k}>{m}</li>)}</ul>}
+                <p className="mt-1 text-[10px] opacity-80">Save로 프로젝트를 저장하고, 곡선은 Product Library에서 제품으로 저장할 수 있습니다.</p>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto p-3">
+              {!localProjects.length?(
+                <p className="py-8 text-center text-xs text-gray-500">저장된 프로젝트가 없습니다. Save로 현재 작업을 저장하세요.</p>
+              ):(
+                <table className="w-full text-xs">
+                  <thead className="text-left text-[10px] uppercase tracking-wide text-gray-500">
+                    <tr><th className="py-1">Name</th><th>Updated</th><th className="text-right">Plots</th><th className="text-right">Images</th><th className="text-right">Size</th><th/></tr>
+                  </thead>
+                  <tbody>
+                    {localProjects.map(m=>(
+                      <tr key={m.id} className={`border-t border-gray-100 ${localProject?.id===m.id?"bg-indigo-50":""}`}>
+                        <td className="py-1.5 pr-2">
+                          {renamingLocal?.id===m.id?(
+                            <input autoFocus className="w-full rounded border px-1 py-0.5 text-xs" value={renamingLocal.name}
+                              onChange={e=>setRenamingLocal({id:m.id,name:e.target.value})}
+                              onBlur={()=>renameLocal(m.id,renamingLocal.name)}
+                              onKeyDown={e=>{if(e.key==="Enter")renameLocal(m.id,renamingLocal.name);if(e.key==="Escape")setRenamingLocal(null);}}/>
+                          ):(
+                            <button onClick={()=>openLocalProject(m.id)} className="text-left font-semibold text-indigo-700 hover:underline">{m.name}</button>
+                          )}
+                        </td>
+                        <td className="whitespace-nowrap text-gray-600">{new Date(m.updated).toLocaleString()}</td>
+                        <td className="text-right font-mono">{m.plotCount}</td>
+                        <td className="text-right font-mono">{m.imageCount}</td>
+                        <td className="text-right font-mono">{fmtBytes(m.bytes)}</td>
+                        <td className="whitespace-nowrap pl-2 text-right">
+                          <button onClick={()=>openLocalProject(m.id)} className="rounded px-1.5 py-0.5 hover:bg-gray-100">Open</button>
+                          <button onClick={()=>setRenamingLocal({id:m.id,name:m.name})} className="rounded px-1.5 py-0.5 hover:bg-gray-100">Rename</button>
+                          <button onClick={()=>duplicateLocal(m)} className="rounded px-1.5 py-0.5 hover:bg-gray-100">Duplicate</button>
+                          <button onClick={()=>deleteLocal(m)} className="rounded px-1.5 py-0.5 text-red-600 hover:bg-red-50">Delete</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
       {/* Product Library Modal */}
       {showLibrary&&(
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
@@ -2906,6 +5491,17 @@ export default function App() {
                     </div>
                   )}
                   <div className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                    {plots.length>1&&(
+                      <div className="mb-1.5 flex flex-wrap items-center gap-1 border-b border-gray-200 pb-1.5">
+                        <span className="mr-1 text-[10px] font-bold text-gray-700">플롯</span>
+                        {plots.map((pl,i)=>(
+                          <button key={pl.id} type="button" onClick={()=>switchPlot(i)}
+                            className={`rounded border px-1.5 py-0.5 text-[10px] font-semibold ${i===activePlot?"border-indigo-600 bg-indigo-600 text-white":"border-gray-200 bg-white text-gray-700 hover:bg-indigo-50"}`}>
+                            {pl.name||`Plot ${i+1}`}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <div className="mb-1.5 flex items-center justify-between">
                       <span className="text-[10px] font-bold text-gray-700">저장할 슬롯 선택</span>
                       <span className="text-[9px] text-gray-400">저장 후 다음 슬롯을 바로 선택할 수 있습니다.</span>
@@ -3056,7 +5652,11 @@ export default function App() {
                 <h2 className="text-base font-bold text-gray-900">Derating & Selection Coordination</h2>
                 <p className="text-[10px] text-gray-500">저장 곡선은 Pre-arcing 곡선으로 계산합니다.</p>
               </div>
-              <button onClick={()=>setShowCoordination(false)} className="text-xl font-bold text-gray-400 hover:text-gray-700">×</button>
+              <div className="flex items-center gap-2">
+                <button onClick={downloadCoordinationReport} disabled={!coordinationResult.upper||!coordinationResult.lower} title="운전 조건·경감계수·제품 사양·곡선 비교를 담은 HTML 보고서" className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40">Report HTML</button>
+                <button onClick={printCoordinationReport} disabled={!coordinationResult.upper||!coordinationResult.lower} title="인쇄 대화상자에서 PDF로 저장" className="rounded-lg bg-slate-800 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-900 disabled:opacity-40">Print / PDF</button>
+                <button onClick={()=>setShowCoordination(false)} className="text-xl font-bold text-gray-400 hover:text-gray-700">×</button>
+              </div>
             </div>
             <div className="grid min-h-0 flex-1 grid-cols-1 gap-3 overflow-y-auto p-4 lg:grid-cols-[360px,1fr]">
               <div className="space-y-3">
@@ -3113,7 +5713,7 @@ export default function App() {
                 <section className="rounded-lg border border-amber-200 bg-amber-50 p-3">
                   <h3 className="mb-2 text-xs font-bold text-amber-900">3. 선택차단 기준</h3>
                   <div className="grid grid-cols-2 gap-2 text-[11px]">
-                    <label>곡선 안전여유 (%)<input type="number" min="0" max="90" className="mt-0.5 w-full rounded border border-amber-200 bg-white px-2 py-1" value={coordInputs.curveTolerance} onChange={e=>setCoordInputs(p=>({...p,curveTolerance:e.target.value}))}/></label>
+                    <label title="두 제품 모두 허용오차 밴드가 없을 때만 사용">곡선 안전여유 (%)<input type="number" min="0" max="90" className="mt-0.5 w-full rounded border border-amber-200 bg-white px-2 py-1" value={coordInputs.curveTolerance} onChange={e=>setCoordInputs(p=>({...p,curveTolerance:e.target.value}))}/></label>
                     <label>필요 통과율 (%)<input type="number" min="1" max="100" className="mt-0.5 w-full rounded border border-amber-200 bg-white px-2 py-1" value={coordInputs.requiredPassRate} onChange={e=>setCoordInputs(p=>({...p,requiredPassRate:e.target.value}))}/></label>
                   </div>
                 </section>
@@ -3184,10 +5784,13 @@ export default function App() {
                           <div className="font-bold">곡선 선택성</div>
                           <div>공통 구간 샘플: {coordinationResult.curveSamples??0}</div>
                           <div>통과율: {coordinationResult.curvePassRate!=null?coordinationResult.curvePassRate.toFixed(1)+"%":"데이터 없음"}</div>
+                          <div className="text-[10px] text-gray-500">곡선 계산: 상위 {coordinationResult.upperModel?CURVE_MODEL_LABELS[coordinationResult.upperModel]:"점 보간"} · 하위 {coordinationResult.lowerModel?CURVE_MODEL_LABELS[coordinationResult.lowerModel]:"점 보간"}</div>
+                          <div className="text-[10px] text-gray-500">단위: A / s 기준 비교 · 상위 원본 {describeUnits(coordinationResult.upperUnits)} · 하위 원본 {describeUnits(coordinationResult.lowerUnits)}</div>
+                          <div className="text-[10px] text-gray-500">{coordinationResult.upperBand||coordinationResult.lowerBand?`허용오차 밴드: 상위 ${describeToleranceBand(coordinationResult.upperBand)} (max 가장자리) · 하위 ${describeToleranceBand(coordinationResult.lowerBand)} (min 가장자리)`:`안전여유 ${(coordinationResult.margin*100).toFixed(0)}% (밴드 없음)`}</div>
                           <div className={coordinationResult.curvePass===true?"font-bold text-green-700":coordinationResult.curvePass===false?"font-bold text-red-700":"text-gray-500"}>{coordinationResult.curvePass===true?"PASS":coordinationResult.curvePass===false?"FAIL":"DATA · 두 곡선과 I²t 값 필요"}</div>
                         </div>
                       </div>
-                      <CoordinationCurveChart upper={coordinationResult.upper} lower={coordinationResult.lower} upperClearingPoints={coordinationResult.upperClearingPoints}/>
+                      <CoordinationCurveChart upper={coordinationResult.upper} lower={coordinationResult.lower} upperClearingPoints={coordinationResult.upperClearingPoints} lowerEdgePoints={coordinationResult.lowerEdgePoints}/>
                     </div>
                   )}
                   <p className="mt-3 text-[9px] leading-relaxed text-gray-500">설계 보조 판정입니다. 실제 적용 전 제조사 선택성 표와 시험 조건을 반드시 확인하세요.</p>
@@ -0,0 +1,253 @@
+/**
+ * Axis transform registry
+ * Every axis scale maps a real value to a transformed value in which the
+ * chart axis is linear (log10 → decades, probability paper → probits, …).
+ * Coordinate maps, calibration fits, the drawn grid and grid snapping all go
+ * through the registry, so a new scale only needs one entry here.
+ * Probability and Weibull axes take values in percent (0–100).
+ *
+ * Usage example:
+ * ```ts
+ * const tf = getAxisTransform("normal");
+ * const t = tf.forward(84.13);               // ≈ 1 (one sigma)
+ * scaleTicks("log10", 10, 1e5).filter(k => k.major);
+ * registerAxisTransform({ id: "ln", label: "ln", forward: Math.log, inverse: Math.exp, valid: v => v > 0 });
+ * ```
+ */
+
+export type ScaleTick = {
+  value: number; // real value
+  major: boolean; // labelled grid line
+  label?: string; // preformatted label (otherwise the caller formats `value`)
+};
+
+export type AxisTransform = {
+  id: string;
+  label: string;
+  /** Tag for axis titles, e.g. "log" (empty for linear) */
+  short?: string;
+  /** Axis range used when the current one lies outside the domain */
+  defaultRange?: [number, number];
+  /** Real → transformed (clamps values outside the domain) */
+  forward: (v: number) => number;
+  /** Transformed → real */
+  inverse: (t: number) => number;
+  /** Whether a real value lies in the domain */
+  valid: (v: number) => boolean;
+  /** Grid ticks for a real range; defaults to rounded values evenly spaced in transformed space */
+  ticks?: (min: number, max: number) => ScaleTick[];
+  /** Grid snapping moves to the nearest major tick (otherwise no snapping) */
+  snapToTicks?: boolean;
+};
+
+export type BuiltinAxisScale = "linear" | "log10" | "reciprocal" | "sqrt" | "normal" | "weibull" | "db";
+
+const EPS = 1e-12;
+const P_EPS = 1e-9; // probability clamp, in percent
+
+/** Round to `digits` significant digits */
+const roundSig = (v: number, digits = 2) => {
+  if (!Number.isFinite(v) || v === 0) return v;
+  const k = Math.pow(10, digits - 1 - Math.floor(Math.log10(Math.abs(v))));
+  return Math.round(v * k) / k;
+};
+
+/** Transformed range of a real range, ascending */
+const tRange = (tf: AxisTransform, min: number, max: number) => {
+  const a = tf.forward(min), b = tf.forward(max);
+  return a <= b ? [a, b] : [b, a];
+};
+
+/** Keep ticks whose transformed value lies inside the range (small tolerance) */
+const inRange = (tf: AxisTransform, min: number, max: number, ticks: ScaleTick[]) => {
+  const [t0, t1] = tRange(tf, min, max), tol = (t1 - t0) * 1e-6;
+  return ticks.filter(k => tf.valid(k.value) && tf.forward(k.value) >= t0 - tol && tf.forward(k.value) <= t1 + tol);
+};
+
+/** Default ticks: 10 steps in transformed space, values rounded to 2 significant digits */
+const roundedTicks = (tf: AxisTransform, min: number, max: number): ScaleTick[] => {
+  const [t0, t1] = tRange(tf, min, max);
+  if (!(t1 > t0)) return [];
+  const seen = new Set<number>(), out: ScaleTick[] = [];
+  for (let i = 0; i <= 10; i++) {
+    const v = roundSig(tf.inverse(t0 + ((t1 - t0) * i) / 10));
+    if (Number.isFinite(v) && !seen.has(v)) { seen.add(v); out.push({ value: v, major: true }); }
+  }
+  return inRange(tf, min, max, out);
+};
+
+const listTicks = (values: number[]) => values.map(v => ({ value: v, major: true, label: String(v) }));
+
+/* standard normal CDF (Abramowitz–Stegun 7.1.26 erf) and its inverse (Acklam) */
+const normCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2, t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+const normInv = (p: number) => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const lo = 0.02425;
+  if (p < lo) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - lo) return -normInv(1 - p);
+  const q = p - 0.5, r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+const clampPct = (v: number) => Math.min(100 - P_EPS, Math.max(P_EPS, v));
+
+const REGISTRY = new Map<string, AxisTransform>();
+
+/**
+ * Add (or replace) an axis transform.
+ *
+ * @param tf - Transform; `id` is the key stored in projects
+ */
+export function registerAxisTransform(tf: AxisTransform): void {
+  REGISTRY.set(tf.id, tf);
+}
+
+registerAxisTransform({
+  id: "linear", label: "Linear", short: "",
+  forward: v => v, inverse: t => t, valid: Number.isFinite,
+  ticks: (min, max) => Array.from({ length: 11 }, (_, i) => ({ value: min + ((max - min) * i) / 10, major: true })),
+});
+registerAxisTransform({
+  id: "log10", label: "Log10", short: "log",
+  forward: v => Math.log10(Math.max(EPS, v)), inverse: t => Math.pow(10, t), valid: v => v > 0,
+  snapToTicks: true,
+  ticks: (min, max) => {
+    const lo = Math.log10(Math.max(EPS, Math.min(min, max))), hi = Math.log10(Math.max(EPS, Math.max(min, max)));
+    const out: ScaleTick[] = [];
+    for (let n = Math.floor(lo); n <= Math.ceil(hi); n++) {
+      out.push({ value: Math.pow(10, n), major: true });
+      for (let m = 2; m < 10; m++) {
+        const lv = Math.log10(Math.pow(10, n) * m);
+        if (lv > hi) break;
+        if (lv >= lo) out.push({ value: Math.pow(10, n) * m, major: false });
+      }
+    }
+    return out;
+  },
+});
+/* −1/x keeps the transform increasing, so min < max still maps left→right / bottom→top */
+registerAxisTransform({
+  id: "reciprocal", label: "Reciprocal (1/x)", short: "1/x",
+  forward: v => -1 / Math.max(EPS, v), inverse: t => -1 / Math.min(-EPS, t), valid: v => v > 0,
+});
+registerAxisTransform({
+  id: "sqrt", label: "Square root", short: "√x",
+  forward: v => Math.sqrt(Math.max(0, v)), inverse: t => (t > 0 ? t * t : 0), valid: v => v >= 0,
+});
+registerAxisTransform({
+  id: "normal", label: "Probability (normal, %)", short: "prob", defaultRange: [0.1, 99.9],
+  forward: v => normInv(clampPct(v) / 100), inverse: t => normCdf(t) * 100, valid: v => v > 0 && v < 100,
+  snapToTicks: true,
+  ticks: (min, max) => inRange(getAxisTransform("normal"), min, max,
+    listTicks([0.01, 0.1, 0.5, 1, 2, 5, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 98, 99, 99.5, 99.9, 99.99])),
+});
+registerAxisTransform({
+  id: "weibull", label: "Weibull (%)", short: "Weibull", defaultRange: [0.1, 99.9],
+  forward: v => Math.log(-Math.log(1 - clampPct(v) / 100)), inverse: t => (1 - Math.exp(-Math.exp(t))) * 100, valid: v => v > 0 && v < 100,
+  snapToTicks: true,
+  ticks: (min, max) => inRange(getAxisTransform("weibull"), min, max,
+    listTicks([0.01, 0.1, 0.5, 1, 2, 3, 5, 10, 20, 30, 50, 63.2, 80, 90, 95, 99, 99.9])),
+});
+registerAxisTransform({
+  id: "db", label: "dB (20·log10)", short: "dB",
+  forward: v => 20 * Math.log10(Math.max(EPS, v)), inverse: t => Math.pow(10, t / 20), valid: v => v > 0,
+  snapToTicks: true,
+  ticks: (min, max) => {
+    const tf = getAxisTransform("db"), [t0, t1] = tRange(tf, min, max);
+    if (!(t1 > t0)) return [];
+    const step = [1, 2, 3, 5, 10, 20, 50, 100].find(s => (t1 - t0) / s <= 12) ?? 200;
+    const out: ScaleTick[] = [];
+    for (let k = Math.ceil(t0 / step); k * step <= t1 + EPS; k++) out.push({ value: tf.inverse(k * step), major: true, label: `${k * step} dB` });
+    return out;
+  },
+});
+
+/**
+ * Look up a transform.
+ *
+ * @param id - Transform id
+ * @returns The transform ("linear" for unknown ids)
+ */
+export function getAxisTransform(id: string | null | undefined): AxisTransform {
+  return REGISTRY.get(id ?? "") ?? REGISTRY.get("linear")!;
+}
+
+/**
+ * Registered transforms in registration order (for scale pickers).
+ *
+ * @returns Transforms
+ */
+export function listAxisTransforms(): AxisTransform[] {
+  return [...REGISTRY.values()];
+}
+
+/**
+ * Effective scale id of an axis: a registered `scale`, else the legacy log flag.
+ *
+ * @param scale - Stored scale id (optional)
+ * @param log - Legacy `xLog`/`yLog` flag
+ * @returns Transform id
+ */
+export function resolveAxisScale(scale: unknown, log: unknown): string {
+  return typeof scale === "string" && REGISTRY.has(scale) ? scale : log ? "log10" : "linear";
+}
+
+/**
+ * Grid ticks of a scale over a real range.
+ *
+ * @param id - Transform id
+ * @param min - Range start (real)
+ * @param max - Range end (real)
+ * @returns Ticks (major ones labelled on the grid)
+ */
+export function scaleTicks(id: string, min: number, max: number): ScaleTick[] {
+  const tf = getAxisTransform(id);
+  return tf.ticks ? tf.ticks(min, max) : roundedTicks(tf, min, max);
+}
+
+/**
+ * Snap a value to the nearest major tick (in transformed space) on scales
+ * that snap; other scales return the value unchanged.
+ *
+ * @param id - Transform id
+ * @param v - Real value
+ * @param min - Axis range start
+ * @param max - Axis range end
+ * @returns Snapped value
+ */
+export function snapAxisValue(id: string, v: number, min: number, max: number): number {
+  const tf = getAxisTransform(id);
+  if (!tf.snapToTicks || !tf.valid(v)) return v;
+  const t = tf.forward(v);
+  let best = v, bestD = Infinity;
+  for (const k of scaleTicks(id, min, max)) {
+    if (!k.major) continue;
+    const d = Math.abs(tf.forward(k.value) - t);
+    if (d < bestD) { bestD = d; best = k.value; }
+  }
+  return best;
+}
+
+/**
+ * Axis range for switching to a scale: the current one when both ends lie in
+ * the scale's domain, else its default range (1–10 when it has none).
+ *
+ * @param id - Transform id
+ * @param min - Current range start
+ * @param max - Current range end
+ * @returns Range [min, max]
+ */
+export function rangeForScale(id: string, min: number, max: number): [number, number] {
+  const tf = getAxisTransform(id);
+  if (tf.valid(min) && tf.valid(max) && tf.forward(max) > tf.forward(min)) return [min, max];
+  return tf.defaultRange ? [...tf.defaultRange] : [1, 10];
+}
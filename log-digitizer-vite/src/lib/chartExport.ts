@@ -0,0 +1,273 @@
+/**
+ * Publication chart export
+ * Renders the plot off-screen as a standalone SVG (grid, ticks, axis titles,
+ * legend, styled series, optional background images) independent of the
+ * working canvas, so no selection handles, magnifier or calibration markers
+ * end up in a report. PNG export rasterises the same SVG at the chosen DPI
+ * and records the DPI in the file, so word processors place it at its
+ * physical size.
+ *
+ * Usage example:
+ * ```ts
+ * const svg = renderChartSvg({ xScale: "log10", yScale: "log10", xMin: 10, xMax: 1e5, yMin: 1e-3, yMax: 1e3,
+ *   series: [{ name: "A", points, style: { color: "#2563EB", width: 1.5, dash: "solid", marker: "none", markerSize: 4 } }] },
+ *   { ...DEFAULT_CHART_STYLE, title: "Time-current" });
+ * const png = await svgToPng(svg, DEFAULT_CHART_STYLE, 300);
+ * ```
+ */
+
+import { getAxisTransform, scaleTicks } from "./axisScales";
+import { crc32 } from "./xlsx";
+
+export type LineDash = "solid" | "dashed" | "dotted" | "dashdot";
+export type MarkerShape = "none" | "circle" | "square" | "triangle";
+export type LegendPosition = "none" | "top-right" | "top-left" | "bottom-right" | "bottom-left" | "right";
+
+export type SeriesStyle = { color: string; width: number; dash: LineDash; marker: MarkerShape; markerSize: number };
+
+export type ChartSeries = { name: string; points: { x: number; y: number }[]; style: SeriesStyle };
+
+/** Background image placed by the real data values at its top-left and bottom-right corners */
+export type ChartBackground = {
+  href: string;
+  opacity: number;
+  topLeft: { x: number; y: number };
+  bottomRight: { x: number; y: number };
+  /** Clip polygon in real data values */
+  clip?: { x: number; y: number }[];
+};
+
+export type ChartData = {
+  xScale: string; yScale: string;
+  xMin: number; xMax: number; yMin: number; yMax: number;
+  series: ChartSeries[];
+  backgrounds?: ChartBackground[];
+};
+
+export type ChartStyle = {
+  widthMm: number; heightMm: number;
+  title: string; xLabel: string; yLabel: string;
+  fontFamily: string;
+  fontPt: number; // tick labels and legend; titles are scaled from it
+  legend: LegendPosition;
+  minorGrid: boolean;
+  smooth: number | null; // Catmull-Rom strength (as on the canvas), null = straight segments
+  background: boolean;
+};
+
+export const DEFAULT_CHART_STYLE: ChartStyle = {
+  widthMm: 160, heightMm: 110,
+  title: "", xLabel: "", yLabel: "",
+  fontFamily: "Arial, Helvetica, sans-serif",
+  fontPt: 9,
+  legend: "top-right",
+  minorGrid: true,
+  smooth: null,
+  background: false,
+};
+
+export const CHART_FONTS: [string, string][] = [
+  ["Arial, Helvetica, sans-serif", "Arial"],
+  ["'Times New Roman', Times, serif", "Times New Roman"],
+  ["Calibri, 'Segoe UI', sans-serif", "Calibri"],
+  ["'Malgun Gothic', 'Apple SD Gothic Neo', sans-serif", "맑은 고딕"],
+  ["'Courier New', monospace", "Courier New"],
+];
+
+const PX_PER_MM = 96 / 25.4;
+const PX_PER_PT = 96 / 72;
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const n2 = (v: number) => (Math.round(v * 100) / 100).toString();
+
+const dashArray = (dash: LineDash, w: number) =>
+  dash === "dashed" ? `${n2(5 * w)} ${n2(3 * w)}`
+  : dash === "dotted" ? `0 ${n2(2.5 * w)}`
+  : dash === "dashdot" ? `${n2(6 * w)} ${n2(3 * w)} 0 ${n2(3 * w)}`
+  : "";
+
+const tickText = (value: number, step: number) => {
+  if (!Number.isFinite(value)) return "";
+  const a = Math.abs(value);
+  if (a === 0) return "0";
+  if (a >= 1e5 || a < 1e-3) return value.toExponential(1);
+  return value.toFixed(Math.max(0, Math.min(6, -Math.floor(Math.log10(Math.max(1e-12, step))))));
+};
+
+/** SVG path through pixel points: straight segments, or Catmull-Rom cubics like the working canvas */
+const pathData = (pts: { px: number; py: number }[], smooth: number | null) => {
+  if (!pts.length) return "";
+  let d = `M${n2(pts[0].px)} ${n2(pts[0].py)}`;
+  for (let i = 0; i < pts.length - 1; i++) {
+    const p1 = pts[i], p2 = pts[i + 1];
+    if (smooth == null) { d += `L${n2(p2.px)} ${n2(p2.py)}`; continue; }
+    const p0 = i === 0 ? pts[0] : pts[i - 1], p3 = i + 2 < pts.length ? pts[i + 2] : pts[pts.length - 1];
+    const k = (1 - smooth) / 6;
+    d += `C${n2(p1.px + (p2.px - p0.px) * k)} ${n2(p1.py + (p2.py - p0.py) * k)} ${n2(p2.px - (p3.px - p1.px) * k)} ${n2(p2.py - (p3.py - p1.py) * k)} ${n2(p2.px)} ${n2(p2.py)}`;
+  }
+  return d;
+};
+
+const markerSvg = (shape: MarkerShape, x: number, y: number, size: number, color: string) => {
+  const r = size / 2;
+  if (shape === "circle") return `<circle cx="${n2(x)}" cy="${n2(y)}" r="${n2(r)}" fill="${color}"/>`;
+  if (shape === "square") return `<rect x="${n2(x - r)}" y="${n2(y - r)}" width="${n2(size)}" height="${n2(size)}" fill="${color}"/>`;
+  if (shape === "triangle") return `<path d="M${n2(x)} ${n2(y - r * 1.15)}L${n2(x + r)} ${n2(y + r * 0.6)}L${n2(x - r)} ${n2(y + r * 0.6)}Z" fill="${color}"/>`;
+  return "";
+};
+
+/**
+ * Render the chart as a standalone SVG document.
+ *
+ * @param data - Axis ranges and scales, series with styles, background images
+ * @param style - Size, texts, font, legend and grid options
+ * @returns SVG markup (width/height in mm, viewBox in CSS px)
+ */
+export function renderChartSvg(data: ChartData, style: ChartStyle): string {
+  const W = style.widthMm * PX_PER_MM, H = style.heightMm * PX_PER_MM;
+  const fs = style.fontPt * PX_PER_PT, titleFs = fs * 1.35, labelFs = fs * 1.1;
+  const xt = getAxisTransform(data.xScale), yt = getAxisTransform(data.yScale);
+  const shown = data.series.filter(s => s.points.length);
+  const legendW = style.legend === "none" || !shown.length ? 0
+    : Math.max(...shown.map(s => s.name.length)) * fs * 0.6 + fs * 3.6;
+
+  const m = {
+    top: style.title ? titleFs * 2.2 : fs * 1.2,
+    right: style.legend === "right" && legendW ? legendW + fs * 1.2 : fs * 1.6,
+    bottom: fs * 2.4 + (style.xLabel ? labelFs * 1.6 : 0),
+    left: fs * 4.4 + (style.yLabel ? labelFs * 1.6 : 0),
+  };
+  const R = { x: m.left, y: m.top, w: Math.max(10, W - m.left - m.right), h: Math.max(10, H - m.top - m.bottom) };
+  const tx0 = xt.forward(data.xMin), tx1 = xt.forward(data.xMax), ty0 = yt.forward(data.yMin), ty1 = yt.forward(data.yMax);
+  const px = (x: number) => R.x + ((xt.forward(x) - tx0) / (tx1 - tx0)) * R.w;
+  const py = (y: number) => R.y + R.h - ((yt.forward(y) - ty0) / (ty1 - ty0)) * R.h;
+
+  const out: string[] = [];
+  out.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+  out.push(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${n2(style.widthMm)}mm" height="${n2(style.heightMm)}mm" viewBox="0 0 ${n2(W)} ${n2(H)}" font-family="${esc(style.fontFamily)}" font-size="${n2(fs)}">`);
+  out.push(`<defs><clipPath id="plot-area"><rect x="${n2(R.x)}" y="${n2(R.y)}" width="${n2(R.w)}" height="${n2(R.h)}"/></clipPath>`);
+  const bgs = style.background ? data.backgrounds ?? [] : [];
+  bgs.forEach((b, i) => {
+    if (b.clip?.length) out.push(`<clipPath id="bg-clip-${i}"><path d="${pathData(b.clip.map(p => ({ px: px(p.x), py: py(p.y) })), null)}Z"/></clipPath>`);
+  });
+  out.push(`</defs>`);
+  out.push(`<rect width="${n2(W)}" height="${n2(H)}" fill="#ffffff"/>`);
+
+  /* background images under the grid */
+  if (bgs.length) {
+    out.push(`<g clip-path="url(#plot-area)">`);
+    bgs.forEach((b, i) => {
+      const x0 = px(b.topLeft.x), y0 = py(b.topLeft.y), x1 = px(b.bottomRight.x), y1 = py(b.bottomRight.y);
+      const img = `<image x="${n2(Math.min(x0, x1))}" y="${n2(Math.min(y0, y1))}" width="${n2(Math.abs(x1 - x0))}" height="${n2(Math.abs(y1 - y0))}" preserveAspectRatio="none" opacity="${n2(b.opacity)}" href="${esc(b.href)}" xlink:href="${esc(b.href)}"/>`;
+      out.push(b.clip?.length ? `<g clip-path="url(#bg-clip-${i})">${img}</g>` : img);
+    });
+    out.push(`</g>`);
+  }
+
+  /* grid and tick labels */
+  const grid: string[] = [], labels: string[] = [];
+  const tickLabel = (k: { value: number; label?: string }, scale: string, min: number, max: number) =>
+    k.label != null ? esc(k.label)
+    : scale === "log10" ? `10<tspan dy="${n2(-fs * 0.4)}" font-size="${n2(fs * 0.75)}">${Math.round(Math.log10(k.value))}</tspan>`
+    : esc(tickText(k.value, (max - min) / 10));
+  for (const k of scaleTicks(data.xScale, data.xMin, data.xMax)) {
+    if (!k.major && !style.minorGrid) continue;
+    const x = px(k.value);
+    if (!Number.isFinite(x) || x < R.x - 0.5 || x > R.x + R.w + 0.5) continue;
+    grid.push(`<line x1="${n2(x)}" y1="${n2(R.y)}" x2="${n2(x)}" y2="${n2(R.y + R.h)}" stroke="${k.major ? "#B8C0CC" : "#E3E7ED"}" stroke-width="${k.major ? 0.75 : 0.5}"/>`);
+    if (k.major) labels.push(`<text x="${n2(x)}" y="${n2(R.y + R.h + fs * 1.5)}" text-anchor="middle">${tickLabel(k, data.xScale, data.xMin, data.xMax)}</text>`);
+  }
+  for (const k of scaleTicks(data.yScale, data.yMin, data.yMax)) {
+    if (!k.major && !style.minorGrid) continue;
+    const y = py(k.value);
+    if (!Number.isFinite(y) || y < R.y - 0.5 || y > R.y + R.h + 0.5) continue;
+    grid.push(`<line x1="${n2(R.x)}" y1="${n2(y)}" x2="${n2(R.x + R.w)}" y2="${n2(y)}" stroke="${k.major ? "#B8C0CC" : "#E3E7ED"}" stroke-width="${k.major ? 0.75 : 0.5}"/>`);
+    if (k.major) labels.push(`<text x="${n2(R.x - fs * 0.5)}" y="${n2(y + fs * 0.35)}" text-anchor="end">${tickLabel(k, data.yScale, data.yMin, data.yMax)}</text>`);
+  }
+  out.push(`<g>${grid.join("")}</g>`);
+  out.push(`<rect x="${n2(R.x)}" y="${n2(R.y)}" width="${n2(R.w)}" height="${n2(R.h)}" fill="none" stroke="#334155" stroke-width="1"/>`);
+  out.push(`<g fill="#1F2937">${labels.join("")}</g>`);
+
+  /* series */
+  out.push(`<g clip-path="url(#plot-area)" fill="none" stroke-linejoin="round">`);
+  for (const s of shown) {
+    const pts = s.points.filter(p => xt.valid(p.x) && yt.valid(p.y)).map(p => ({ px: px(p.x), py: py(p.y) }));
+    const st = s.style, dash = dashArray(st.dash, st.width);
+    if (pts.length >= 2 && st.width > 0) {
+      out.push(`<path d="${pathData(pts, style.smooth)}" stroke="${esc(st.color)}" stroke-width="${n2(st.width)}"${dash ? ` stroke-dasharray="${dash}"` : ""} stroke-linecap="${st.dash === "dotted" ? "round" : "butt"}"/>`);
+    }
+    if (st.marker !== "none") out.push(pts.map(p => markerSvg(st.marker, p.px, p.py, st.markerSize, esc(st.color))).join(""));
+  }
+  out.push(`</g>`);
+
+  /* titles */
+  if (style.title) out.push(`<text x="${n2(R.x + R.w / 2)}" y="${n2(titleFs * 1.3)}" text-anchor="middle" font-size="${n2(titleFs)}" font-weight="bold" fill="#111827">${esc(style.title)}</text>`);
+  if (style.xLabel) out.push(`<text x="${n2(R.x + R.w / 2)}" y="${n2(H - labelFs * 0.6)}" text-anchor="middle" font-size="${n2(labelFs)}" fill="#111827">${esc(style.xLabel)}</text>`);
+  if (style.yLabel) {
+    const x = labelFs * 1.1, y = R.y + R.h / 2;
+    out.push(`<text x="${n2(x)}" y="${n2(y)}" text-anchor="middle" font-size="${n2(labelFs)}" fill="#111827" transform="rotate(-90 ${n2(x)} ${n2(y)})">${esc(style.yLabel)}</text>`);
+  }
+
+  /* legend */
+  if (legendW) {
+    const rowH = fs * 1.5, boxH = rowH * shown.length + fs * 0.6, pad = fs * 0.6;
+    const lx = style.legend === "right" ? R.x + R.w + fs * 0.8
+      : style.legend.endsWith("left") ? R.x + pad : R.x + R.w - legendW - pad;
+    const ly = style.legend === "right" ? R.y
+      : style.legend.startsWith("bottom") ? R.y + R.h - boxH - pad : R.y + pad;
+    out.push(`<g><rect x="${n2(lx)}" y="${n2(ly)}" width="${n2(legendW)}" height="${n2(boxH)}" fill="#ffffff" fill-opacity="0.9" stroke="#94A3B8" stroke-width="0.6"/>`);
+    shown.forEach((s, i) => {
+      const y = ly + fs * 0.3 + rowH * (i + 0.5), x0 = lx + fs * 0.6, x1 = x0 + fs * 1.8, st = s.style, dash = dashArray(st.dash, st.width);
+      if (st.width > 0) out.push(`<line x1="${n2(x0)}" y1="${n2(y)}" x2="${n2(x1)}" y2="${n2(y)}" stroke="${esc(st.color)}" stroke-width="${n2(st.width)}"${dash ? ` stroke-dasharray="${dash}"` : ""} stroke-linecap="${st.dash === "dotted" ? "round" : "butt"}"/>`);
+      if (st.marker !== "none") out.push(markerSvg(st.marker, (x0 + x1) / 2, y, st.markerSize, esc(st.color)));
+      out.push(`<text x="${n2(x1 + fs * 0.6)}" y="${n2(y + fs * 0.35)}" fill="#1F2937">${esc(s.name)}</text>`);
+    });
+    out.push(`</g>`);
+  }
+
+  out.push(`</svg>`);
+  return out.join("\n");
+}
+
+/** Insert a pHYs chunk (pixels per metre) after IHDR so the PNG carries its DPI */
+const withPngDpi = async (blob: Blob, dpi: number) => {
+  const src = new Uint8Array(await blob.arrayBuffer());
+  const ppm = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21), v = new DataView(chunk.buffer);
+  v.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  v.setUint32(8, ppm); v.setUint32(12, ppm); chunk[16] = 1; // unit: metre
+  v.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const ihdrEnd = 8 + 25; // signature + IHDR (length, type, 13 data bytes, crc)
+  const out = new Uint8Array(src.length + chunk.length);
+  out.set(src.subarray(0, ihdrEnd)); out.set(chunk, ihdrEnd); out.set(src.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return new Blob([out as BlobPart], { type: "image/png" });
+};
+
+/**
+ * Rasterise an SVG from `renderChartSvg` to PNG.
+ *
+ * @param svg - SVG markup
+ * @param style - Style it was rendered with (for the physical size)
+ * @param dpi - Output resolution
+ * @returns PNG file with the DPI recorded
+ * @throws Error when the browser cannot draw the SVG or the canvas is too large
+ */
+export async function svgToPng(svg: string, style: ChartStyle, dpi: number): Promise<Blob> {
+  const w = Math.round((style.widthMm / 25.4) * dpi), h = Math.round((style.heightMm / 25.4) * dpi);
+  if (w * h > 16384 * 16384 / 2) throw new Error(`${w}×${h} px 이미지는 너무 큽니다`);
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("SVG를 그릴 수 없습니다"));
+    img.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg);
+  });
+  const canvas = document.createElement("canvas");
+  canvas.width = w; canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas를 사용할 수 없습니다");
+  ctx.drawImage(img, 0, 0, w, h);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("PNG 생성 실패");
+  return withPngDpi(blob, dpi);
+}
@@ -0,0 +1,193 @@
+/**
+ * Code snippets from a digitized series
+ * Ready-to-paste arrays plus an interpolation helper for MATLAB/Octave,
+ * Python/NumPy and C (static lookup table), and SPICE sources (PWL and a
+ * behavioural table). Interpolation follows the plot: linear in log10 on log
+ * axes, as in the guide readout. Points are sorted by x and repeated x values
+ * dropped, since every target expects a monotonic table. Only linear and log10
+ * axes can be expressed this way; other scales are refused by the caller.
+ *
+ * Usage example:
+ * ```ts
+ * const text = generateCode("python", {
+ *   name: "Fuse 10A", points: series.points, xLog: true, yLog: true,
+ *   units: { x: { quantity: "current", unit: "A" }, y: { quantity: "time", unit: "s" } },
+ * });
+ * navigator.clipboard.writeText(text);
+ * ```
+ */
+
+import { type AxisUnit, type AxisUnits, QUANTITY_LABELS } from "./units";
+
+export type XY = { x: number; y: number };
+
+export type CodeFormat = "matlab" | "python" | "c" | "spice";
+
+export const CODE_FORMATS: Record<CodeFormat, { label: string; ext: string }> = {
+  matlab: { label: "MATLAB / Octave", ext: "m" },
+  python: { label: "Python / NumPy", ext: "py" },
+  c: { label: "C lookup table", ext: "h" },
+  spice: { label: "SPICE PWL / table", ext: "cir" },
+};
+
+export type CodeExportInput = {
+  name: string;
+  points: XY[];
+  units: AxisUnits;
+  xLog: boolean;
+  yLog: boolean;
+  /** Extra comment line, e.g. how the points were sampled */
+  note?: string;
+};
+
+/**
+ * Identifier for generated code: lower-case ASCII, digits and "_".
+ *
+ * @param name - Series name
+ * @returns Identifier ("curve" when nothing usable is left)
+ */
+export function codeIdentifier(name: string): string {
+  const id = String(name ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return !id ? "curve" : /^[0-9]/.test(id) ? "curve_" + id : id;
+}
+
+const num = (v: number) => String(Number(v.toPrecision(7)));
+const cFloat = (v: number) => {
+  const s = num(v);
+  return (/[.e]/.test(s) ? s : s + ".0") + "f";
+};
+const axisText = (a: AxisUnit) => (a.unit ? `${QUANTITY_LABELS[a.quantity]} [${a.unit}]` : QUANTITY_LABELS[a.quantity]);
+
+/** Values `per` to a line, each line prefixed by `indent` */
+const wrap = (values: string[], indent: string, sep = ", ", per = 8) => {
+  const lines: string[] = [];
+  for (let i = 0; i < values.length; i += per) lines.push(indent + values.slice(i, i + per).join(sep));
+  return lines;
+};
+
+const tablePoints = (pts: XY[], input: CodeExportInput) => {
+  const out: XY[] = [];
+  pts
+    .filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && (!input.xLog || p.x > 0) && (!input.yLog || p.y > 0))
+    .slice()
+    .sort((a, b) => a.x - b.x)
+    .forEach(p => { if (!out.length || p.x > out[out.length - 1].x) out.push({ x: p.x, y: p.y }); });
+  return out;
+};
+
+/** Name for a comment line: one line, and no `*\/` that would end a C comment early */
+const commentText = (s: string) => String(s ?? "").replace(/[\r\n\u2028\u2029]+/g, " ").replace(/\*\//g, "* /");
+
+const scaleText = (input: CodeExportInput) =>
+  input.xLog && input.yLog ? "log-log" : input.xLog ? "log x / linear y" : input.yLog ? "linear x / log y" : "linear";
+
+/**
+ * Generate a code snippet.
+ *
+ * @param format - Target language
+ * @param input - Series name, points in axis units, units and axis scales
+ * @returns Source text (a comment only, when fewer than 2 usable points remain)
+ */
+export function generateCode(format: CodeFormat, input: CodeExportInput): string {
+  const pts = tablePoints(input.points, input);
+  const id = codeIdentifier(input.name);
+  const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+  const xT = commentText(axisText(input.units.x)), yT = commentText(axisText(input.units.y));
+  const name = commentText(input.name);
+  const head = [
+    `${name} — digitized curve, ${pts.length} points`,
+    `x: ${xT}, y: ${yT}; ${scaleText(input)} interpolation`,
+    ...(input.note ? [commentText(input.note)] : []),
+  ];
+  const comment = (prefix: string) => head.map(l => prefix + l).join("\n");
+  if (pts.length < 2) {
+    const c = format === "matlab" ? "% " : format === "python" ? "# " : format === "spice" ? "* " : "// ";
+    return `${c}${name}: not enough points to export (need 2 with ${scaleText(input)} axes)\n`;
+  }
+
+  if (format === "matlab") {
+    // a line break inside [ ] starts a new matrix row, so every wrapped line continues with "..."
+    const matlabRows = (values: number[]) => wrap(values.map(num), "  ", " ").map(l => l + " ...");
+    const fx = (v: string) => (input.xLog ? `log10(${v})` : v);
+    const body = `interp1(${fx(`${id}_x`)}, ${input.yLog ? `log10(${id}_y)` : `${id}_y`}, ${fx("xq")}, 'linear', NaN)`;
+    return [
+      comment("% "),
+      `${id}_x = [ ...`, ...matlabRows(xs), `];  % ${xT}`,
+      `${id}_y = [ ...`, ...matlabRows(ys), `];  % ${yT}`,
+      `% ${yT} at xq (NaN outside the curve)`,
+      `${id}_at = @(xq) ${input.yLog ? `10.^${body}` : body};`,
+      "",
+    ].join("\n");
+  }
+
+  if (format === "python") {
+    const X = id.toUpperCase() + "_X", Y = id.toUpperCase() + "_Y";
+    const fx = (v: string) => (input.xLog ? `np.log10(${v})` : v);
+    const body = `np.interp(${fx("x")}, ${fx(X)}, ${input.yLog ? `np.log10(${Y})` : Y}, left=np.nan, right=np.nan)`;
+    return [
+      comment("# "),
+      "import numpy as np",
+      "",
+      `${X} = np.array([  # ${xT}`, ...wrap(xs.map(num), "    ").map(l => l + ","), "])",
+      `${Y} = np.array([  # ${yT}`, ...wrap(ys.map(num), "    ").map(l => l + ","), "])",
+      "",
+      "",
+      `def ${id}_at(x):`,
+      `    """${yT} at x (${xT}); NaN outside the curve."""`,
+      "    x = np.asarray(x, dtype=float)",
+      `    return ${input.yLog ? `10 ** ${body}` : body}`,
+      "",
+    ].join("\n");
+  }
+
+  if (format === "c") {
+    const N = id.toUpperCase() + "_N";
+    const fx = (v: string) => (input.xLog ? `log10f(${v})` : v);
+    const fy = (v: string) => (input.yLog ? `log10f(${v})` : v);
+    const y = `${fy(`${id}_y[lo]`)} + t * (${fy(`${id}_y[hi]`)} - ${fy(`${id}_y[lo]`)})`;
+    return [
+      comment("/* ").split("\n").map(l => l + " */").join("\n"),
+      "#include <math.h>",
+      "",
+      `#define ${N} ${pts.length}`,
+      "",
+      `/* ${xT}, ascending */`,
+      `static const float ${id}_x[${N}] = {`, ...wrap(xs.map(cFloat), "    ").map(l => l + ","), "};",
+      `/* ${yT} */`,
+      `static const float ${id}_y[${N}] = {`, ...wrap(ys.map(cFloat), "    ").map(l => l + ","), "};",
+      "",
+      `/* ${yT} at x; clamps to the end points outside the table */`,
+      `static float ${id}_at(float x)`,
+      "{",
+      `    int lo = 0, hi = ${N} - 1;`,
+      `    if (x <= ${id}_x[0]) return ${id}_y[0];`,
+      `    if (x >= ${id}_x[hi]) return ${id}_y[hi];`,
+      "    while (hi - lo > 1) {",
+      "        int mid = (lo + hi) / 2;",
+      `        if (${id}_x[mid] <= x) lo = mid; else hi = mid;`,
+      "    }",
+      `    float t = (${fx("x")} - ${fx(`${id}_x[lo]`)}) / (${fx(`${id}_x[hi]`)} - ${fx(`${id}_x[lo]`)});`,
+      `    return ${input.yLog ? `powf(10.0f, ${y})` : y};`,
+      "}",
+      "",
+    ].join("\n");
+  }
+
+  const pairs = pts.map(p => `${num(p.x)} ${num(p.y)}`);
+  const csv = pts.map(p => `${num(p.x)},${num(p.y)}`);
+  return [
+    comment("* "),
+    "* SPICE interpolates these tables linearly; resample densely for log axes.",
+    "*",
+    `* PWL source: x (${xT}) as the time axis, y (${yT}) as the voltage`,
+    `V${id} ${id}_pwl 0 PWL(`,
+    ...wrap(pairs, "+ ", "  ", 4),
+    "+ )",
+    "*",
+    `* Behavioural table: V(${id}_out) = y at x = V(${id}_in)`,
+    `B${id} ${id}_out 0 V=table(V(${id}_in),`,
+    ...wrap(csv, "+ ", ", ", 4).map((l, i, all) => (i < all.length - 1 ? l + "," : l)),
+    "+ )",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,78 @@
+/**
+ * Consensus of several digitizations of the same curve
+ * The series are interpolated on a common x grid (even in log10(x) on log
+ * axes) over the range they all cover, averaged in axis space (log10(y) on
+ * log axes) and their min–max spread kept as an uncertainty band.
+ *
+ * Usage example:
+ * ```ts
+ * const c = consensusCurve([a.points, b.points], 40, { xLog: true, yLog: true });
+ * if (c) addSeries({ points: c.points, consensus: c.stats });
+ * console.log(`repeatability ±${c.stats.rmsPct.toFixed(1)} %`);
+ * ```
+ */
+
+import { type AxisScales, interpolateYAtX } from "./resample";
+
+export type XY = { x: number; y: number };
+
+export type ConsensusStats = {
+  members: number; // number of series averaged
+  samples: number; // grid points
+  rmsPct: number; // RMS half-spread over the grid, as % of y
+  maxPct: number; // largest half-spread, as % of y
+  lower: XY[]; // spread band (member minimum per grid x)
+  upper: XY[]; // spread band (member maximum per grid x)
+};
+
+const EPS = 1e-12;
+
+const fwd = (v: number, log: boolean) => (log ? Math.log10(Math.max(EPS, v)) : v);
+const inv = (v: number, log: boolean) => (log ? Math.pow(10, v) : v);
+
+/** Half-spread in axis units → % of y (log: multiplicative, linear: relative to the mean) */
+const spreadPct = (half: number, mean: number, log: boolean) =>
+  log ? (Math.pow(10, half) - 1) * 100 : (Math.abs(mean) > EPS ? (half / Math.abs(mean)) * 100 : 0);
+
+/**
+ * Average several point sets on a common grid.
+ *
+ * @param sets - Point sets of the same curve (≥ 2, each with ≥ 2 usable points)
+ * @param n - Grid size (≥ 2)
+ * @param axes - Axis scales
+ * @returns Consensus points and spread statistics, or null when the sets do not overlap in x
+ */
+export function consensusCurve(sets: XY[][], n: number, axes: AxisScales): { points: XY[]; stats: ConsensusStats } | null {
+  const clean = sets
+    .map(pts => (pts ?? [])
+      .filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && (!axes.xLog || p.x > 0) && (!axes.yLog || p.y > 0))
+      .slice()
+      .sort((a, b) => a.x - b.x))
+    .filter(pts => pts.length >= 2);
+  if (clean.length < 2 || !(n >= 2)) return null;
+  const x0 = Math.max(...clean.map(pts => fwd(pts[0].x, axes.xLog)));
+  const x1 = Math.min(...clean.map(pts => fwd(pts[pts.length - 1].x, axes.xLog)));
+  if (!(x1 > x0)) return null;
+
+  const count = Math.round(n);
+  const points: XY[] = [], lower: XY[] = [], upper: XY[] = [];
+  let sumSq = 0, maxPct = 0;
+  for (let k = 0; k < count; k++) {
+    const x = inv(x0 + ((x1 - x0) * k) / (count - 1), axes.xLog);
+    const ys = clean.map(pts => interpolateYAtX(pts, x, axes)).filter((y): y is number => y != null && Number.isFinite(y)).map(y => fwd(y, axes.yLog));
+    if (ys.length < 2) continue;
+    const mean = ys.reduce((s, v) => s + v, 0) / ys.length;
+    const lo = Math.min(...ys), hi = Math.max(...ys);
+    const pct = spreadPct((hi - lo) / 2, inv(mean, axes.yLog), axes.yLog);
+    points.push({ x, y: inv(mean, axes.yLog) });
+    lower.push({ x, y: inv(lo, axes.yLog) });
+    upper.push({ x, y: inv(hi, axes.yLog) });
+    sumSq += pct * pct;
+    maxPct = Math.max(maxPct, pct);
+  }
+  if (points.length < 2) return null;
+  return {
+    points,
+    stats: { members: clean.length, samples: points.length, rmsPct: Math.sqrt(sumSq / points.length), maxPct, lower, upper },
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Selection Check report
+ * Turns a prepared coordination result (operating conditions, derating
+ * factors with their derivation, both products, I²t and curve checks with
+ * every sample) into a self-contained, print-ready HTML document: inline CSS,
+ * inline SVG chart, no external assets. The same markup is downloaded as
+ * .html or printed from a hidden frame so the browser can save it as PDF.
+ * `coordinationChartSvg` is also what the Selection Check modal shows, so the
+ * report chart matches the screen.
+ *
+ * Usage example:
+ * ```ts
+ * const html = buildCoordinationReportHtml({ title: "Selection Check", verdict: "pass", ... });
+ * printHtml(html);                                   // browser print dialog → "Save as PDF"
+ * ```
+ */
+
+export type ReportRow = [label: string, value: string];
+
+export type ReportVerdict = "pass" | "fail" | "insufficient" | "waiting";
+
+export type ReportSample = {
+  current: number; // A
+  upper: number | null; // upper clearing time at the slow edge (s)
+  lower: number | null; // lower pre-arcing time at the fast edge (s)
+  limit: number | null; // largest passing upper time (lower × (1 − margin))
+  pass: boolean | null; // null: outside one of the curves
+};
+
+export type CoordinationReport = {
+  title: string;
+  generatedAt: Date;
+  verdict: ReportVerdict;
+  message: string;
+  conditions: ReportRow[];
+  derating: { label: string; value: string; basis: string }[];
+  deratingTotal: string;
+  requiredCurrent: string;
+  products: { role: string; name: string; specs: ReportRow[]; checks: { label: string; value: string; result: boolean | null }[] }[];
+  i2t: ReportRow[];
+  i2tResult: boolean | null;
+  curve: ReportRow[];
+  curveResult: boolean | null;
+  samples: ReportSample[];
+  chartSvg: string | null;
+  disclaimer: string;
+};
+
+const esc = (s: unknown) => String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const verdictText = (v: boolean | null) => (v === true ? "PASS" : v === false ? "FAIL" : "DATA");
+const verdictClass = (v: boolean | null) => (v === true ? "pass" : v === false ? "fail" : "data");
+const fmtNum = (v: number | null) => (v == null || !Number.isFinite(v) ? "—" : Math.abs(v) >= 1e5 || Math.abs(v) < 1e-3 ? v.toExponential(3) : v.toPrecision(4));
+
+type XY = { x: number; y: number };
+
+/**
+ * Log-log chart of the upper clearing curve against the lower pre-arcing curve.
+ *
+ * @param upperPoints - Upper clearing curve (A, s)
+ * @param lowerPoints - Lower pre-arcing curve (A, s)
+ * @returns SVG markup, or null when a curve has fewer than two points
+ */
+export function coordinationChartSvg(upperPoints: XY[], lowerPoints: XY[]): string | null {
+  const up = upperPoints.filter(p => p.x > 0 && p.y > 0), lo = lowerPoints.filter(p => p.x > 0 && p.y > 0);
+  if (up.length < 2 || lo.length < 2) return null;
+  const all = [...up, ...lo];
+  const xs = all.map(p => Math.log10(p.x)), ys = all.map(p => Math.log10(p.y));
+  let xMin = Math.floor(Math.min(...xs)), xMax = Math.ceil(Math.max(...xs));
+  let yMin = Math.floor(Math.min(...ys)), yMax = Math.ceil(Math.max(...ys));
+  if (xMax === xMin) xMax = xMin + 1;
+  if (yMax === yMin) yMax = yMin + 1;
+  const W = 680, H = 280, pad = { l: 58, r: 18, t: 22, b: 42 };
+  const px = (x: number) => pad.l + ((Math.log10(x) - xMin) / (xMax - xMin)) * (W - pad.l - pad.r);
+  const py = (y: number) => pad.t + ((yMax - Math.log10(y)) / (yMax - yMin)) * (H - pad.t - pad.b);
+  const poly = (pts: XY[]) => pts.slice().sort((a, b) => a.x - b.x).map(p => `${px(p.x).toFixed(1)},${py(p.y).toFixed(1)}`).join(" ");
+  const out: string[] = [];
+  out.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" style="display:block;width:100%;height:auto" role="img" aria-label="선택차단 곡선 비교" font-family="sans-serif">`);
+  out.push(`<rect x="${pad.l}" y="${pad.t}" width="${W - pad.l - pad.r}" height="${H - pad.t - pad.b}" fill="#fff" stroke="#94A3B8"/>`);
+  for (let e = xMin; e <= xMax; e++) {
+    out.push(`<line x1="${px(10 ** e)}" x2="${px(10 ** e)}" y1="${pad.t}" y2="${H - pad.b}" stroke="#CBD5E1"/><text x="${px(10 ** e)}" y="${H - pad.b + 17}" text-anchor="middle" font-size="10" fill="#64748B">10<tspan dy="-4" font-size="8">${e}</tspan></text>`);
+  }
+  for (let e = yMin; e <= yMax; e++) {
+    out.push(`<line x1="${pad.l}" x2="${W - pad.r}" y1="${py(10 ** e)}" y2="${py(10 ** e)}" stroke="#CBD5E1"/><text x="${pad.l - 7}" y="${py(10 ** e) + 3}" text-anchor="end" font-size="10" fill="#64748B">10<tspan dy="-4" font-size="8">${e}</tspan></text>`);
+  }
+  out.push(`<polyline points="${poly(lo)}" fill="none" stroke="#2563EB" stroke-width="3"/>`);
+  out.push(`<polyline points="${poly(up)}" fill="none" stroke="#DC2626" stroke-width="3" stroke-dasharray="8 4"/>`);
+  out.push(`<text x="${(pad.l + W - pad.r) / 2}" y="${H - 7}" text-anchor="middle" font-size="11" fill="#475569">Current (A, log)</text>`);
+  out.push(`<text x="13" y="${(pad.t + H - pad.b) / 2}" text-anchor="middle" font-size="11" fill="#475569" transform="rotate(-90 13 ${(pad.t + H - pad.b) / 2})">Time (s, log)</text>`);
+  out.push(`</svg>`);
+  return out.join("");
+}
+
+const rowsTable = (rows: ReportRow[]) =>
+  `<table class="kv">${rows.map(([k, v]) => `<tr><th>${esc(k)}</th><td>${esc(v)}</td></tr>`).join("")}</table>`;
+
+const CSS = `
+@page { size: A4; margin: 14mm 12mm; }
+* { box-sizing: border-box; }
+body { font-family: "Malgun Gothic", "Apple SD Gothic Neo", Arial, sans-serif; font-size: 10.5pt; color: #1f2937; margin: 0 auto; max-width: 190mm; padding: 8mm 0; }
+h1 { font-size: 17pt; margin: 0 0 2mm; }
+h2 { font-size: 12pt; margin: 7mm 0 2mm; padding-bottom: 1mm; border-bottom: 1.5px solid #334155; break-after: avoid; }
+.meta { color: #64748b; font-size: 9pt; }
+.verdict { display: flex; align-items: center; gap: 4mm; margin: 4mm 0; padding: 3mm 4mm; border: 2px solid; border-radius: 2mm; }
+.verdict b { font-size: 15pt; padding: 1mm 4mm; border-radius: 1mm; color: #fff; }
+.verdict.pass { border-color: #16a34a; background: #f0fdf4; } .verdict.pass b { background: #16a34a; }
+.verdict.fail { border-color: #dc2626; background: #fef2f2; } .verdict.fail b { background: #dc2626; }
+.verdict.insufficient, .verdict.waiting { border-color: #9ca3af; background: #f9fafb; } .verdict.insufficient b, .verdict.waiting b { background: #6b7280; }
+table { border-collapse: collapse; width: 100%; font-size: 9.5pt; }
+th, td { border: 1px solid #cbd5e1; padding: 1.2mm 2mm; text-align: left; vertical-align: top; }
+thead th { background: #f1f5f9; }
+table.kv th { width: 42%; background: #f8fafc; font-weight: 600; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.pass { color: #15803d; font-weight: 700; } .fail { color: #b91c1c; font-weight: 700; } .data { color: #6b7280; }
+.cols { display: grid; grid-template-columns: 1fr 1fr; gap: 4mm; }
+.total { margin-top: 2mm; padding: 2mm; background: #ecfdf5; border: 1px solid #6ee7b7; font-weight: 700; text-align: center; }
+.chart { border: 1px solid #e2e8f0; padding: 2mm; break-inside: avoid; }
+.legend { font-size: 9pt; font-weight: 600; margin-bottom: 1mm; } .legend .u { color: #dc2626; } .legend .l { color: #2563eb; margin-left: 5mm; }
+.disclaimer { margin-top: 8mm; padding: 3mm; border: 1px solid #e5e7eb; background: #f9fafb; font-size: 8.5pt; color: #4b5563; line-height: 1.5; }
+tr, .cols > div { break-inside: avoid; }
+@media print { body { padding: 0; } }
+`;
+
+/**
+ * Build the report as a standalone HTML document.
+ *
+ * @param r - Prepared report contents (display strings and raw samples)
+ * @returns HTML document text
+ */
+export function buildCoordinationReportHtml(r: CoordinationReport): string {
+  const verdictLabel = r.verdict === "pass" ? "PASS" : r.verdict === "fail" ? "FAIL" : "DATA";
+  const [upper, lower] = r.products;
+  const checkRows = (upper?.checks ?? []).map((c, k) => {
+    const l = lower?.checks[k];
+    return `<tr><th>${esc(c.label)}</th><td class="num">${esc(c.value)}</td><td class="${verdictClass(c.result)}">${verdictText(c.result)}</td><td class="num">${esc(l?.value)}</td><td class="${verdictClass(l?.result ?? null)}">${verdictText(l?.result ?? null)}</td></tr>`;
+  }).join("");
+  const evaluated = r.samples.filter(s => s.pass != null);
+  const sampleRows = r.samples.map((s, i) =>
+    `<tr><td class="num">${i + 1}</td><td class="num">${fmtNum(s.current)}</td><td class="num">${fmtNum(s.upper)}</td><td class="num">${fmtNum(s.lower)}</td><td class="num">${fmtNum(s.limit)}</td><td class="${verdictClass(s.pass)}">${s.pass == null ? "—" : verdictText(s.pass)}</td></tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${esc(r.title)}</title>
+<style>${CSS}</style>
+</head>
+<body>
+<h1>${esc(r.title)}</h1>
+<div class="meta">${esc(r.generatedAt.toLocaleString())} · ${esc(upper?.name ?? "—")} ↔ ${esc(lower?.name ?? "—")}</div>
+<div class="verdict ${r.verdict}"><b>${verdictLabel}</b><span>${esc(r.message)}</span></div>
+
+<h2>1. 운전 조건</h2>
+${rowsTable(r.conditions)}
+
+<h2>2. 경감계수</h2>
+<table><thead><tr><th>항목</th><th>계수</th><th>산출 근거</th></tr></thead><tbody>
+${r.derating.map(d => `<tr><th>${esc(d.label)}</th><td class="num">${esc(d.value)}</td><td>${esc(d.basis)}</td></tr>`).join("")}
+</tbody></table>
+<div class="total">최종 경감계수 = ${esc(r.deratingTotal)}<br>필요 제품 정격전류 = ${esc(r.requiredCurrent)}</div>
+
+<h2>3. 제품 사양</h2>
+<div class="cols">
+${r.products.map(p => `<div><div class="legend">${esc(p.role)} · ${esc(p.name)}</div>${rowsTable(p.specs)}</div>`).join("")}
+</div>
+<h2>4. 적용 조건 검토</h2>
+<table><thead><tr><th>항목</th><th>${esc(upper?.role)}</th><th></th><th>${esc(lower?.role)}</th><th></th></tr></thead><tbody>${checkRows}</tbody></table>
+
+<h2>5. I²t 선택성</h2>
+${rowsTable(r.i2t)}
+<p class="${verdictClass(r.i2tResult)}">${verdictText(r.i2tResult)}${r.i2tResult === true ? " · 상위 Clearing < 하위 Pre-arcing" : r.i2tResult === false ? " · 상위 Clearing ≥ 하위 Pre-arcing" : " · I²t 값 필요"}</p>
+
+<h2>6. 곡선 선택성</h2>
+${rowsTable(r.curve)}
+<p class="${verdictClass(r.curveResult)}">${verdictText(r.curveResult)}</p>
+<div class="chart">
+<div class="legend"><span class="u">━ ━ 상위 Clearing (추정) · ${esc(upper?.name)}</span><span class="l">━━ 하위 Pre-arcing · ${esc(lower?.name)}</span></div>
+${r.chartSvg ?? `<p class="data">곡선을 표시하려면 두 제품의 곡선과 I²t 데이터가 필요합니다.</p>`}
+</div>
+${r.samples.length ? `
+<h2>7. 곡선 비교 샘플 (${evaluated.length} / ${r.samples.length} 평가, 통과 ${evaluated.filter(s => s.pass).length})</h2>
+<table><thead><tr><th>#</th><th>전류 (A)</th><th>상위 Clearing (s)</th><th>하위 Pre-arcing (s)</th><th>허용 한계 (s)</th><th>판정</th></tr></thead><tbody>${sampleRows}</tbody></table>` : ""}
+
+<div class="disclaimer">${esc(r.disclaimer)}</div>
+</body>
+</html>`;
+}
+
+/**
+ * Print an HTML document from a hidden frame (the print dialog offers "Save as PDF").
+ *
+ * @param html - Complete HTML document
+ */
+export function printHtml(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0;";
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener("afterprint", () => setTimeout(() => frame.remove(), 0));
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
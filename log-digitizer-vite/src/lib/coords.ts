@@ -1,5 +1,6 @@
 /**
- * Coordinate mapping utilities for real↔screen transforms with log10 support
+ * Coordinate mapping utilities for real↔screen transforms on any registered
+ * axis scale (linear, log10, reciprocal, probability, … — see axisScales.ts).
  * Includes digitizer calibration helpers.
  * 
  * Usage example:
@@ -11,22 +12,22 @@
  * ```
  */
 
-export type AxisMode = "linear" | "log10";
+import { type BuiltinAxisScale, getAxisTransform } from "./axisScales";
+
+/** Axis scale id: a built-in scale or any id added with registerAxisTransform */
+export type AxisMode = BuiltinAxisScale | (string & {});
 export type Rect = { x: number; y: number; width: number; height: number };
 
 const EPS = 1e-12; // Epsilon for log clamping
 
 /**
- * Continuous scaler: linear or log10 (clamps <=0 to epsilon in log mode).
+ * Continuous scaler from the axis transform registry (log10 clamps <=0 to epsilon).
  * 
- * @param mode - "linear" or "log10"
+ * @param mode - Axis scale id ("linear", "log10", "normal", …)
  * @returns Function that maps real value to transformed value
  */
 export function makeScaler(mode: AxisMode): (v: number) => number {
-  if (mode === "log10") {
-    return (v: number) => Math.log10(Math.max(EPS, v));
-  }
-  return (v: number) => v;
+  return getAxisTransform(mode).forward;
 }
 
 /**
@@ -84,21 +85,13 @@ export function makeCoordMap(
   const invX = (px: number): number => {
     const t = (px - rect.x) / rect.width;
     const xScaled = xMinScaled + t * xRange;
-    
-    if (modeX === "log10") {
-      return Math.pow(10, xScaled);
-    }
-    return xScaled;
+    return getAxisTransform(modeX).inverse(xScaled);
   };
   
   const invY = (py: number): number => {
     const t = 1 - (py - rect.y) / rect.height; // Invert Y axis
     const yScaled = yMinScaled + t * yRange;
-    
-    if (modeY === "log10") {
-      return Math.pow(10, yScaled);
-    }
-    return yScaled;
+    return getAxisTransform(modeY).inverse(yScaled);
   };
   
   return { X, Y, invX, invY };
@@ -107,16 +100,18 @@ export function makeCoordMap(
 /**
  * Simple digitizer calibration:
  * real = origin + scale * (pixel - pixelOrigin)
- * Provide separate X/Y scales and origins; log mapping can be applied outside.
+ * Provide separate X/Y scales and origins; log mapping can be applied outside,
+ * or set `mode` so origin/scale are in log10 units and the helpers convert.
  */
 export type Calibration = {
   pixelOrigin: { x: number; y: number };
   realOrigin: { x: number; y: number };
   scale: { x: number; y: number }; // real units per pixel
+  mode?: { x: AxisMode; y: AxisMode };
 };
 
 /**
- * Pixel→real with calibration (no log here; log is handled by chart scaling).
+ * Pixel→real with calibration (origin/scale in transformed units of `mode`).
  * 
  * @param p - Pixel coordinates {x, y}
  * @param c - Calibration parameters
@@ -126,9 +121,10 @@ export function pixelToReal(
   p: { x: number; y: number },
   c: Calibration
 ): { x: number; y: number } {
+  const inv = (v: number, mode?: AxisMode) => getAxisTransform(mode ?? "linear").inverse(v);
   return {
-    x: c.realOrigin.x + c.scale.x * (p.x - c.pixelOrigin.x),
-    y: c.realOrigin.y + c.scale.y * (p.y - c.pixelOrigin.y),
+    x: inv(c.realOrigin.x + c.scale.x * (p.x - c.pixelOrigin.x), c.mode?.x),
+    y: inv(c.realOrigin.y + c.scale.y * (p.y - c.pixelOrigin.y), c.mode?.y),
   };
 }
 
@@ -143,9 +139,241 @@ export function realToPixel(
   p: { x: number; y: number },
   c: Calibration
 ): { x: number; y: number } {
+  const sx = makeScaler(c.mode?.x ?? "linear"), sy = makeScaler(c.mode?.y ?? "linear");
+  return {
+    x: c.pixelOrigin.x + (sx(p.x) - c.realOrigin.x) / c.scale.x,
+    y: c.pixelOrigin.y + (sy(p.y) - c.realOrigin.y) / c.scale.y,
+  };
+}
+
+/**
+ * One calibration tick on a single axis: pixel position and its real value.
+ * `label` is carried through to the residuals for display.
+ */
+export type AxisTick = { pixel: number; value: number; label?: string };
+
+export type AxisTickResidual = AxisTick & {
+  fittedPixel: number; // where the fitted map places `value`
+  residualPx: number; // pixel − fittedPixel
+  residualPct: number; // (value read at pixel − value) / |value| · 100
+  outlier: boolean;
+};
+
+/**
+ * Least-squares axis map in transformed space:
+ * scaled(real) = realOrigin + scale · (pixel − pixelOrigin)
+ */
+export type AxisFit = {
+  mode: AxisMode;
+  pixelOrigin: number;
+  realOrigin: number;
+  scale: number;
+  residuals: AxisTickResidual[];
+  rmsPx: number;
+  maxPx: number;
+  maxPct: number;
+};
+
+const lineFit = (pts: { p: number; t: number }[]) => {
+  const n = pts.length;
+  const mp = pts.reduce((s, q) => s + q.p, 0) / n, mt = pts.reduce((s, q) => s + q.t, 0) / n;
+  let spp = 0, spt = 0;
+  for (const q of pts) { spp += (q.p - mp) ** 2; spt += (q.p - mp) * (q.t - mt); }
+  if (spp < EPS) return null;
+  const scale = spt / spp;
+  return Math.abs(scale) < EPS ? null : { pixelOrigin: mp, realOrigin: mt, scale };
+};
+
+/**
+ * Fit one axis from any number (≥2) of ticks by least squares in the
+ * transformed space of the axis scale. Ticks with non-finite values or values
+ * outside the scale's domain (≤0 on log axes) are ignored.
+ * With ≥4 ticks, the tick whose removal leaves the tightest fit is flagged
+ * as outlier when its error against that fit exceeds max(2 px, 3 × RMS of
+ * the rest); the check repeats on the remaining ticks. The returned map is
+ * refitted on the ticks that are not flagged, and RMS/max figures cover those
+ * ticks only; outliers keep their residuals against that map for display.
+ *
+ * @param ticks - Pixel/value pairs along the axis
+ * @param mode - Axis scaling
+ * @returns Fitted map with per-tick residuals, or null when under-determined
+ */
+export function fitAxisTicks(ticks: AxisTick[], mode: AxisMode): AxisFit | null {
+  const tf = getAxisTransform(mode), scale = tf.forward;
+  const valid = ticks.filter(t => Number.isFinite(t.pixel) && Number.isFinite(t.value) && tf.valid(t.value));
+  const pts = valid.map(t => ({ p: t.pixel, t: scale(t.value) }));
+  if (pts.length < 2) return null;
+  if (!lineFit(pts)) return null;
+  const pixelOf = (f: { pixelOrigin: number; realOrigin: number; scale: number }, tv: number) => f.pixelOrigin + (tv - f.realOrigin) / f.scale;
+  /* drop the tick whose removal leaves the most consistent fit, while its
+     leave-one-out error stands out; repeat on the remaining ticks */
+  const flagged = new Set<number>();
+  for (;;) {
+    const keep = pts.map((_, i) => i).filter(i => !flagged.has(i));
+    if (keep.length < 4) break;
+    const trials = keep.map(i => {
+      const rest = keep.filter(k => k !== i).map(k => pts[k]);
+      const f = lineFit(rest);
+      if (!f) return { i, err: 0, rms: Infinity };
+      const rms = Math.sqrt(rest.reduce((s, q) => s + (q.p - pixelOf(f, q.t)) ** 2, 0) / rest.length);
+      return { i, err: Math.abs(pts[i].p - pixelOf(f, pts[i].t)), rms };
+    });
+    const best = trials.reduce((a, b) => (b.rms < a.rms ? b : a));
+    if (!(best.err > Math.max(2, 3 * best.rms))) break;
+    flagged.add(best.i);
+  }
+  const fit = lineFit(pts.filter((_, i) => !flagged.has(i)));
+  if (!fit) return null;
+  const residuals = valid.map((t, i) => {
+    const fittedPixel = pixelOf(fit, pts[i].t);
+    const tv = fit.realOrigin + fit.scale * (t.pixel - fit.pixelOrigin);
+    const read = tf.inverse(tv);
+    return {
+      ...t,
+      fittedPixel,
+      residualPx: t.pixel - fittedPixel,
+      residualPct: t.value !== 0 ? ((read - t.value) / Math.abs(t.value)) * 100 : NaN,
+      outlier: flagged.has(i),
+    };
+  });
+  const inliers = residuals.filter(r => !r.outlier);
+  const abs = inliers.map(r => Math.abs(r.residualPx));
+  return {
+    mode,
+    ...fit,
+    residuals,
+    rmsPx: Math.sqrt(abs.reduce((s, v) => s + v * v, 0) / abs.length),
+    maxPx: Math.max(...abs),
+    maxPct: Math.max(...inliers.map(r => (Number.isFinite(r.residualPct) ? Math.abs(r.residualPct) : 0))),
+  };
+}
+
+/**
+ * Combine two per-axis fits into a Calibration (origin/scale in transformed units).
+ *
+ * @param x - X axis fit (pixel = screen x)
+ * @param y - Y axis fit (pixel = screen y)
+ * @returns Calibration usable with pixelToReal / realToPixel
+ */
+export function calibrationFromFits(x: AxisFit, y: AxisFit): Calibration {
   return {
-    x: c.pixelOrigin.x + (p.x - c.realOrigin.x) / c.scale.x,
-    y: c.pixelOrigin.y + (p.y - c.realOrigin.y) / c.scale.y,
+    pixelOrigin: { x: x.pixelOrigin, y: y.pixelOrigin },
+    realOrigin: { x: x.realOrigin, y: y.realOrigin },
+    scale: { x: x.scale, y: y.scale },
+    mode: { x: x.mode, y: y.mode },
   };
 }
 
+
+/**
+ * Projective (perspective) calibration: 3×3 homography, row-major
+ * [h11,h12,h13, h21,h22,h23, h31,h32,h33]. Maps pixel → transformed data
+ * (log10 is applied outside, as with Calibration).
+ */
+export type Homography = number[];
+
+type XY = { x: number; y: number };
+
+/** Hartley normalization: centroid to origin, mean distance √2. Returns T as a homography. */
+function normalizer(pts: XY[]): Homography {
+  const cx = pts.reduce((s, p) => s + p.x, 0) / pts.length;
+  const cy = pts.reduce((s, p) => s + p.y, 0) / pts.length;
+  const d = pts.reduce((s, p) => s + Math.hypot(p.x - cx, p.y - cy), 0) / pts.length;
+  const k = d > EPS ? Math.SQRT2 / d : 1;
+  return [k, 0, -k * cx, 0, k, -k * cy, 0, 0, 1];
+}
+
+function multiply(a: Homography, b: Homography): Homography {
+  const m: number[] = [];
+  for (let r = 0; r < 3; r++)
+    for (let c = 0; c < 3; c++)
+      m.push(a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c]);
+  return m;
+}
+
+/** Solve A·x = b in place (Gaussian elimination, partial pivoting). Null when singular. */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  for (let i = 0; i < n; i++) {
+    let piv = i;
+    for (let r = i + 1; r < n; r++) if (Math.abs(A[r][i]) > Math.abs(A[piv][i])) piv = r;
+    if (Math.abs(A[piv][i]) < 1e-12) return null;
+    [A[i], A[piv]] = [A[piv], A[i]];
+    [b[i], b[piv]] = [b[piv], b[i]];
+    for (let r = i + 1; r < n; r++) {
+      const f = A[r][i] / A[i][i];
+      for (let c = i; c < n; c++) A[r][c] -= f * A[i][c];
+      b[r] -= f * b[i];
+    }
+  }
+  const x = Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let s = b[i];
+    for (let c = i + 1; c < n; c++) s -= A[i][c] * x[c];
+    x[i] = s / A[i][i];
+  }
+  return x;
+}
+
+/**
+ * Invert a homography (adjugate / determinant).
+ *
+ * @param h - Homography
+ * @returns Inverse homography, or null when singular
+ */
+export function invertHomography(h: Homography): Homography | null {
+  const [a, b, c, d, e, f, g, k, i] = h;
+  const A = e * i - f * k, B = -(d * i - f * g), C = d * k - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-18) return null;
+  return [
+    A / det, -(b * i - c * k) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * k - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+/**
+ * Apply a homography to a point.
+ *
+ * @param h - Homography
+ * @param p - Point {x, y}
+ * @returns Mapped point (NaN when the point maps to infinity)
+ */
+export function applyHomography(h: Homography, p: XY): XY {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  if (Math.abs(w) < EPS) return { x: NaN, y: NaN };
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+}
+
+/**
+ * Least-squares homography from ≥4 correspondences (normalized DLT with h33 = 1).
+ *
+ * @param src - Source points (e.g. canvas pixels)
+ * @param dst - Destination points (e.g. log10 data)
+ * @returns Homography src → dst, or null for degenerate input (collinear points)
+ */
+export function solveHomography(src: XY[], dst: XY[]): Homography | null {
+  if (src.length < 4 || src.length !== dst.length) return null;
+  const Ts = normalizer(src), Td = normalizer(dst);
+  const s = src.map(p => applyHomography(Ts, p)), d = dst.map(p => applyHomography(Td, p));
+  const AtA = Array.from({ length: 8 }, () => Array(8).fill(0));
+  const Atb = Array(8).fill(0);
+  const addRow = (row: number[], rhs: number) => {
+    for (let r = 0; r < 8; r++) {
+      Atb[r] += row[r] * rhs;
+      for (let c = 0; c < 8; c++) AtA[r][c] += row[r] * row[c];
+    }
+  };
+  s.forEach((p, i) => {
+    const q = d[i];
+    addRow([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x], q.x);
+    addRow([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y], q.y);
+  });
+  const sol = solveLinear(AtA, Atb);
+  if (!sol || !sol.every(Number.isFinite)) return null;
+  const TdInv = invertHomography(Td);
+  if (!TdInv) return null;
+  const h = multiply(TdInv, multiply([...sol, 1], Ts));
+  return h.every(Number.isFinite) ? h : null;
+}
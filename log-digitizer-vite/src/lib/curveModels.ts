@@ -0,0 +1,326 @@
+/**
+ * Analytic fuse time–current (TC) curve models
+ * Fits digitized points (x = current, y = time, both > 0) in log-log space
+ * and evaluates the model in place of point-to-point interpolation.
+ *
+ * Models:
+ * - "thermal": t = −τ·ln(1 − A/(τ·I²)) — constant I²t = A at high current,
+ *   thermal time constant τ, minimum melting current √(A/τ)
+ * - "powerlaw": continuous piecewise t = a·I^b segments
+ * - "spline": monotone cubic Hermite spline through log-log knots
+ *
+ * Usage example:
+ * ```ts
+ * const model = fitCurveModel(series.points, "thermal");
+ * if (model) {
+ *   const t = evaluateCurveModel(model, 250);   // seconds at 250 A (null outside the fitted range)
+ *   console.log(model.rmsDecades, model.perDecade);
+ *   const fresh = model.signature === curveModelSignature(series.points); // false after the points change
+ * }
+ * ```
+ */
+
+export type XY = { x: number; y: number };
+
+export type CurveModelKind = "thermal" | "powerlaw" | "spline";
+
+export type PowerLawSegment = { from: number; to: number; a: number; b: number }; // t = a·I^b for from ≤ I ≤ to
+export type SplineKnot = { lx: number; ly: number; m: number }; // log10 I, log10 t, d(log t)/d(log I)
+
+export type DecadeError = {
+  decade: number; // floor(log10 I)
+  n: number;
+  rmsDecades: number; // RMS of log10(t_model / t_point)
+  maxPct: number; // max |t_model / t_point − 1| in %
+};
+
+type ModelFit = {
+  domain: [number, number]; // fitted current range
+  rmsDecades: number;
+  maxPct: number;
+  perDecade: DecadeError[];
+  signature: string; // curveModelSignature of the fitted points
+};
+
+export type CurveModel = ModelFit & (
+  | { kind: "thermal"; i2t: number; tau: number }
+  | { kind: "powerlaw"; segments: PowerLawSegment[] }
+  | { kind: "spline"; knots: SplineKnot[] }
+);
+
+export type FitOptions = { segments?: number; knots?: number };
+
+export const CURVE_MODEL_LABELS: Record<CurveModelKind, string> = {
+  thermal: "I²t + thermal τ",
+  powerlaw: "Piecewise power law",
+  spline: "Monotone log-log spline",
+};
+
+const usable = (pts: XY[]) =>
+  pts.filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && p.x > 0 && p.y > 0).slice().sort((a, b) => a.x - b.x);
+
+/**
+ * Cheap fingerprint of a point list, used to detect models fitted to points
+ * that have since been edited.
+ *
+ * @param points - Series points
+ * @returns Signature string
+ */
+export function curveModelSignature(points: XY[]): string {
+  let h = 0;
+  for (const p of points ?? []) h = (h * 31 + Math.round(p.x * 1e6) * 7 + Math.round(p.y * 1e9)) % 2147483647;
+  return `${(points ?? []).length}:${h}`;
+}
+
+/**
+ * Model time at a current.
+ *
+ * @param model - Fitted model
+ * @param current - Current (x)
+ * @param extrapolate - Allow evaluation outside the fitted range
+ * @returns Time (y), or null outside the range / below the minimum melting current
+ */
+export function evaluateCurveModel(model: CurveModel, current: number, extrapolate = false): number | null {
+  if (!model || !(current > 0)) return null;
+  const [lo, hi] = model.domain;
+  if (!extrapolate && (current < lo * (1 - 1e-9) || current > hi * (1 + 1e-9))) return null;
+  if (model.kind === "thermal") {
+    const u = model.i2t / (model.tau * current * current);
+    return u < 1 ? -model.tau * Math.log1p(-u) : null;
+  }
+  if (model.kind === "powerlaw") {
+    const segs = model.segments;
+    const s = segs.find(g => current <= g.to) ?? segs[segs.length - 1];
+    return s.a * Math.pow(current, s.b);
+  }
+  const k = model.knots, lx = Math.log10(current);
+  if (k.length < 2) return null;
+  let i = 0;
+  while (i < k.length - 2 && lx > k[i + 1].lx) i++;
+  const h = k[i + 1].lx - k[i].lx, t = (lx - k[i].lx) / h;
+  const h00 = 2 * t ** 3 - 3 * t ** 2 + 1, h10 = t ** 3 - 2 * t ** 2 + t, h01 = -2 * t ** 3 + 3 * t ** 2, h11 = t ** 3 - t ** 2;
+  return Math.pow(10, h00 * k[i].ly + h10 * h * k[i].m + h01 * k[i + 1].ly + h11 * h * k[i + 1].m);
+}
+
+/**
+ * Error of a model against points, overall and per current decade.
+ *
+ * @param model - Model (domain is ignored; points outside it are evaluated by extrapolation)
+ * @param points - Reference points
+ * @returns RMS in decades, max % error and per-decade breakdown
+ */
+export function curveModelError(model: CurveModel, points: XY[]): { rmsDecades: number; maxPct: number; perDecade: DecadeError[] } {
+  const byDecade = new Map<number, { n: number; ss: number; maxPct: number }>();
+  let ss = 0, n = 0, maxPct = 0;
+  for (const p of usable(points)) {
+    const t = evaluateCurveModel(model, p.x, true);
+    const r = t != null && t > 0 ? Math.log10(t / p.y) : 3; // unusable prediction counts as a 3-decade miss
+    const pct = (Math.pow(10, Math.abs(r)) - 1) * 100;
+    const d = Math.floor(Math.log10(p.x) + 1e-12);
+    const e = byDecade.get(d) ?? { n: 0, ss: 0, maxPct: 0 };
+    e.n++; e.ss += r * r; e.maxPct = Math.max(e.maxPct, pct);
+    byDecade.set(d, e);
+    ss += r * r; n++; maxPct = Math.max(maxPct, pct);
+  }
+  const perDecade = [...byDecade.entries()].sort((a, b) => a[0] - b[0])
+    .map(([decade, e]) => ({ decade, n: e.n, rmsDecades: Math.sqrt(e.ss / e.n), maxPct: e.maxPct }));
+  return { rmsDecades: n ? Math.sqrt(ss / n) : 0, maxPct, perDecade };
+}
+
+/**
+ * Fit a model to series points (x = current, y = time).
+ *
+ * @param points - Series points (non-positive values are ignored)
+ * @param kind - Model family
+ * @param options - Segment count (powerlaw, 1..6) or knot count (spline, 3..20)
+ * @returns Fitted model, or null with too few usable points
+ */
+export function fitCurveModel(points: XY[], kind: CurveModelKind, options: FitOptions = {}): CurveModel | null {
+  const pts = usable(points);
+  if (pts.length < 3 || !(pts[pts.length - 1].x > pts[0].x)) return null;
+  const lx = pts.map(p => Math.log10(p.x)), ly = pts.map(p => Math.log10(p.y));
+  const base = { domain: [pts[0].x, pts[pts.length - 1].x] as [number, number], signature: curveModelSignature(points), rmsDecades: 0, maxPct: 0, perDecade: [] };
+  let model: CurveModel | null = null;
+  if (kind === "thermal") {
+    const p = fitThermal(pts);
+    if (p) model = { ...base, kind, ...p };
+  } else if (kind === "powerlaw") {
+    const segments = Math.max(1, Math.min(6, Math.round(options.segments ?? 3), Math.floor(pts.length / 2)));
+    const knots = optimizeKnots(lx, ly, segments);
+    const v = linearSplineValues(lx, ly, knots);
+    if (v) {
+      model = {
+        ...base, kind,
+        segments: knots.slice(0, -1).map((k0, j) => {
+          const b = (v[j + 1] - v[j]) / (knots[j + 1] - k0);
+          return { from: Math.pow(10, k0), to: Math.pow(10, knots[j + 1]), a: Math.pow(10, v[j] - b * k0), b };
+        }),
+      };
+    }
+  } else {
+    const count = Math.max(3, Math.min(20, Math.round(options.knots ?? 8), pts.length));
+    /* knots at point quantiles: dense where the user digitized densely (the knee) */
+    const knots = [...new Set(Array.from({ length: count }, (_, j) => lx[Math.round((j * (lx.length - 1)) / (count - 1))]))];
+    if (knots.length < 3) return null;
+    const v = linearSplineValues(lx, ly, knots);
+    if (v) model = { ...base, kind, knots: monotoneHermite(knots, isotonic(v, ly[ly.length - 1] <= ly[0] ? -1 : 1)) };
+  }
+  if (!model) return null;
+  return { ...model, ...curveModelError(model, pts) };
+}
+
+/* ---------- thermal model ---------- */
+
+const fitThermal = (pts: XY[]): { i2t: number; tau: number } | null => {
+  const i2tMin = Math.min(...pts.map(p => p.x * p.x * p.y));
+  const xMin = pts[0].x;
+  const cost = (v: number[]) => {
+    const A = Math.pow(10, v[0]), tau = Math.pow(10, v[1]);
+    let s = 0;
+    for (const p of pts) {
+      const u = A / (tau * p.x * p.x);
+      s += u < 1 ? Math.log10(-tau * Math.log1p(-u) / p.y) ** 2 : 100 + 100 * (u - 1);
+    }
+    return s;
+  };
+  const A0 = i2tMin * 0.95, tau0 = A0 / (0.81 * xMin * xMin); // start with I_min = 0.9·smallest current
+  const best = nelderMead(cost, [Math.log10(A0), Math.log10(tau0)], [0.3, 0.5]);
+  const i2t = Math.pow(10, best[0]), tau = Math.pow(10, best[1]);
+  return Number.isFinite(i2t) && Number.isFinite(tau) ? { i2t, tau } : null;
+};
+
+const nelderMead = (f: (v: number[]) => number, start: number[], step: number[], iterations = 400): number[] => {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step[i] : v)))].map(v => ({ v, f: f(v) }));
+  for (let it = 0; it < iterations; it++) {
+    simplex.sort((a, b) => a.f - b.f);
+    const worst = simplex[n];
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((s, p) => s + p.v[j], 0) / n);
+    const at = (t: number) => { const v = centroid.map((c, j) => c + t * (worst.v[j] - c)); return { v, f: f(v) }; };
+    const r = at(-1);
+    if (r.f < simplex[0].f) { const e = at(-2); simplex[n] = e.f < r.f ? e : r; }
+    else if (r.f < simplex[n - 1].f) simplex[n] = r;
+    else {
+      const c = at(r.f < worst.f ? -0.5 : 0.5);
+      if (c.f < Math.min(r.f, worst.f)) simplex[n] = c;
+      else simplex = simplex.map((p, i) => (i === 0 ? p : (v => ({ v, f: f(v) }))(p.v.map((x, j) => simplex[0].v[j] + 0.5 * (x - simplex[0].v[j])))));
+    }
+    if (Math.abs(simplex[n].f - simplex[0].f) < 1e-14 && it > 40) break;
+  }
+  simplex.sort((a, b) => a.f - b.f);
+  return simplex[0].v;
+};
+
+/* ---------- piecewise-linear (log-log) least squares ---------- */
+
+/** Knot values of the least-squares continuous piecewise-linear fit (hat basis). */
+const linearSplineValues = (lx: number[], ly: number[], knots: number[]): number[] | null => {
+  const m = knots.length;
+  const A = Array.from({ length: m }, () => new Float64Array(m)), b = new Float64Array(m);
+  for (let i = 0; i < lx.length; i++) {
+    let j = 0;
+    while (j < m - 2 && lx[i] > knots[j + 1]) j++;
+    const t = Math.min(1, Math.max(0, (lx[i] - knots[j]) / (knots[j + 1] - knots[j])));
+    const w0 = 1 - t, w1 = t;
+    A[j][j] += w0 * w0; A[j][j + 1] += w0 * w1; A[j + 1][j] += w0 * w1; A[j + 1][j + 1] += w1 * w1;
+    b[j] += w0 * ly[i]; b[j + 1] += w1 * ly[i];
+  }
+  for (let j = 0; j < m; j++) A[j][j] += 1e-9; // keeps knots without nearby points solvable
+  /* Gaussian elimination (tiny, well conditioned) */
+  for (let c = 0; c < m; c++) {
+    let p = c;
+    for (let r = c + 1; r < m; r++) if (Math.abs(A[r][c]) > Math.abs(A[p][c])) p = r;
+    if (Math.abs(A[p][c]) < 1e-15) return null;
+    [A[c], A[p]] = [A[p], A[c]]; [b[c], b[p]] = [b[p], b[c]];
+    for (let r = c + 1; r < m; r++) {
+      const k = A[r][c] / A[c][c];
+      for (let q = c; q < m; q++) A[r][q] -= k * A[c][q];
+      b[r] -= k * b[c];
+    }
+  }
+  const v = new Array(m).fill(0);
+  for (let r = m - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let q = r + 1; q < m; q++) s -= A[r][q] * v[q];
+    v[r] = s / A[r][r];
+  }
+  return v;
+};
+
+const splineSse = (lx: number[], ly: number[], knots: number[]) => {
+  const v = linearSplineValues(lx, ly, knots);
+  if (!v) return Infinity;
+  let s = 0;
+  for (let i = 0; i < lx.length; i++) {
+    let j = 0;
+    while (j < knots.length - 2 && lx[i] > knots[j + 1]) j++;
+    const t = (lx[i] - knots[j]) / (knots[j + 1] - knots[j]);
+    s += (v[j] + t * (v[j + 1] - v[j]) - ly[i]) ** 2;
+  }
+  return s;
+};
+
+/** Breakpoints for `segments` power-law pieces: coordinate search over each interior knot. */
+const optimizeKnots = (lx: number[], ly: number[], segments: number): number[] => {
+  const x0 = lx[0], x1 = lx[lx.length - 1];
+  const knots = Array.from({ length: segments + 1 }, (_, j) => x0 + ((x1 - x0) * j) / segments);
+  if (segments < 2) return knots;
+  const minGap = (x1 - x0) / (segments * 8);
+  let best = splineSse(lx, ly, knots);
+  for (let pass = 0; pass < 4; pass++) {
+    for (let j = 1; j < segments; j++) {
+      const lo = knots[j - 1] + minGap, hi = knots[j + 1] - minGap;
+      for (let c = 0; c <= 24; c++) {
+        const trial = knots.slice();
+        trial[j] = lo + ((hi - lo) * c) / 24;
+        const sse = splineSse(lx, ly, trial);
+        if (sse < best - 1e-15) { best = sse; knots[j] = trial[j]; }
+      }
+    }
+  }
+  return knots;
+};
+
+/* ---------- monotone spline ---------- */
+
+/** Pool-adjacent-violators: closest monotone sequence (dir −1 = non-increasing). */
+const isotonic = (v: number[], dir: 1 | -1): number[] => {
+  const blocks: { sum: number; n: number }[] = [];
+  for (const raw of v) {
+    blocks.push({ sum: raw * dir, n: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].sum / blocks[blocks.length - 2].n > blocks[blocks.length - 1].sum / blocks[blocks.length - 1].n) {
+      const top = blocks.pop()!;
+      blocks[blocks.length - 1].sum += top.sum; blocks[blocks.length - 1].n += top.n;
+    }
+  }
+  return blocks.flatMap(bk => Array(bk.n).fill((bk.sum / bk.n) * dir));
+};
+
+/** Fritsch–Carlson slopes for a monotone cubic Hermite through (x, y). */
+const monotoneHermite = (x: number[], y: number[]): SplineKnot[] => {
+  const n = x.length, d = x.slice(0, -1).map((_, k) => (y[k + 1] - y[k]) / (x[k + 1] - x[k]));
+  const m = x.map((_, k) => (k === 0 ? d[0] : k === n - 1 ? d[n - 2] : d[k - 1] * d[k] <= 0 ? 0 : (d[k - 1] + d[k]) / 2));
+  for (let k = 0; k < n - 1; k++) {
+    if (d[k] === 0) { m[k] = 0; m[k + 1] = 0; continue; }
+    const a = m[k] / d[k], b = m[k + 1] / d[k], s = a * a + b * b;
+    if (s > 9) { const t = 3 / Math.sqrt(s); m[k] = t * a * d[k]; m[k + 1] = t * b * d[k]; }
+  }
+  return x.map((lx, k) => ({ lx, ly: y[k], m: m[k] }));
+};
+
+/**
+ * One-line formula / coefficient summary for display and export.
+ *
+ * @param model - Fitted model
+ * @returns Human-readable description
+ */
+export function describeCurveModel(model: CurveModel): string {
+  const g = (v: number) => Number(v.toPrecision(5));
+  if (model.kind === "thermal") {
+    return `t = -τ·ln(1 - I²t/(τ·I²)), I²t = ${g(model.i2t)} A²s, τ = ${g(model.tau)} s, I_min = ${g(Math.sqrt(model.i2t / model.tau))} A`;
+  }
+  if (model.kind === "powerlaw") {
+    return model.segments.map(s => `${g(s.from)}–${g(s.to)} A: t = ${g(s.a)}·I^${g(s.b)}`).join("; ");
+  }
+  return `${model.knots.length} knots (log10 I, log10 t, slope): ` + model.knots.map(k => `(${g(k.lx)}, ${g(k.ly)}, ${g(k.m)})`).join(" ");
+}
@@ -0,0 +1,387 @@
+/**
+ * WebPlotDigitizer and Engauge Digitizer project import
+ * Reads a WebPlotDigitizer project (`.json`, or `.tar` with the image) or an
+ * Engauge Digitizer 6+ document (`.dig` XML with the embedded image) into a
+ * neutral shape: the image, one group per axes set / coordinate system with
+ * its calibration in image pixels, and the datasets as data-space points.
+ * `importedProject` then lays that out as a project file for the app: one
+ * series per dataset, each in the slot of the same index with the image and
+ * its group's calibration, and the image placed so the calibration points sit
+ * on the axes grid. Whatever cannot be mapped is listed in `issues`.
+ *
+ * Usage example:
+ * ```ts
+ * const imp = await readDigitizerFile(file);               // throws on unreadable files
+ * const { project, images, issues } = importedProject(imp, { frame: innerRect(), slots: 20, series: 20, units });
+ * applyPreset(project, imp.source, [images]);
+ * ```
+ */
+
+import { type ProjectCalibration, PROJECT_VERSION } from "./project";
+import { type AxisUnits } from "./units";
+
+export type XY = { x: number; y: number };
+
+/** Calibration point: image pixel (origin top-left) and the axis value there */
+export type ImportedCalPoint = { u: number; v: number; value: number };
+
+export type ImportedGroup = {
+  name: string;
+  xLog: boolean;
+  yLog: boolean;
+  /** X1·X2 carry x values, Y1·Y2 y values; null when the file has no usable calibration */
+  calibration: { x1: ImportedCalPoint; x2: ImportedCalPoint; y1: ImportedCalPoint; y2: ImportedCalPoint } | null;
+  series: { name: string; color: string | null; points: XY[] }[];
+};
+
+export type DigitizerImport = {
+  source: "WebPlotDigitizer" | "Engauge";
+  name: string;
+  image: string | null; // data URL
+  imageSize: { w: number; h: number } | null;
+  groups: ImportedGroup[];
+  issues: string[];
+};
+
+const IMAGE_MIME: Record<string, string> = {
+  png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif", bmp: "image/bmp", webp: "image/webp", svg: "image/svg+xml",
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+};
+const hex2 = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, "0");
+const finite = (v: unknown) => (v != null && String(v).trim() !== "" && Number.isFinite(Number(v)) ? Number(v) : null);
+const lg = (v: number, log: boolean) => (log ? Math.log10(v) : v);
+type Json = Record<string, unknown>;
+const obj = (v: unknown): Json => (v && typeof v === "object" && !Array.isArray(v) ? (v as Json) : {});
+const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+/** Image dimensions of a data URL (null when the browser cannot decode it) */
+const imageSize = (src: string) =>
+  new Promise<{ w: number; h: number } | null>(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(img.naturalWidth && img.naturalHeight ? { w: img.naturalWidth, h: img.naturalHeight } : null);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+/** Regular files of a (ustar / GNU) tar archive */
+function untar(bytes: Uint8Array): { name: string; data: Uint8Array }[] {
+  const dec = new TextDecoder();
+  const field = (o: number, n: number) => dec.decode(bytes.subarray(o, o + n)).replace(/\0[\s\S]*$/, "");
+  const files: { name: string; data: Uint8Array }[] = [];
+  let longName: string | null = null;
+  for (let o = 0; o + 512 <= bytes.length; ) {
+    if (bytes.subarray(o, o + 512).every(b => b === 0)) break;
+    const size = parseInt(field(o + 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(bytes[o + 156] || 48);
+    const prefix = field(o + 257, 6).startsWith("ustar") ? field(o + 345, 155) : "";
+    const name = longName ?? (prefix ? prefix + "/" : "") + field(o, 100);
+    const data = bytes.subarray(o + 512, o + 512 + size);
+    longName = null;
+    if (type === "L") longName = dec.decode(data).replace(/\0[\s\S]*$/, "");
+    else if (type === "0" || type === "7") files.push({ name, data });
+    o += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+/* ---------- WebPlotDigitizer ---------- */
+
+/** Data value of a pixel from XY axes calibration: each axis value is constant along the other axis' direction (handles rotated / skewed axes) */
+const wpdMap = (cal: { px: number; py: number; x: number; y: number }[], xLog: boolean, yLog: boolean) => {
+  const [p1, p2, p3, p4] = cal;
+  const axis = (a: typeof p1, b: typeof p1, ta: number, tb: number, along: { x: number; y: number }) => {
+    /* gradient g with g·along = 0 and g·(b − a) = tb − ta */
+    const d = { x: b.px - a.px, y: b.py - a.py }, n = { x: -along.y, y: along.x };
+    const k = (tb - ta) / (n.x * d.x + n.y * d.y);
+    return (px: number, py: number) => ta + k * (n.x * (px - a.px) + n.y * (py - a.py));
+  };
+  const fx = axis(p1, p2, lg(p1.x, xLog), lg(p2.x, xLog), { x: p4.px - p3.px, y: p4.py - p3.py });
+  const fy = axis(p3, p4, lg(p3.y, yLog), lg(p4.y, yLog), { x: p2.px - p1.px, y: p2.py - p1.py });
+  return (px: number, py: number) => ({ x: xLog ? 10 ** fx(px, py) : fx(px, py), y: yLog ? 10 ** fy(px, py) : fy(px, py) });
+};
+
+function parseWpd(raw: unknown, issues: string[]): ImportedGroup[] {
+  const root = obj(obj(raw).wpd ?? raw);
+  const axesColl = list(root.axesColl).map(obj);
+  const datasets = list(root.datasetColl ?? root.dataSeriesColl).map(obj);
+  if (!axesColl.length && !datasets.length) throw new Error("WebPlotDigitizer 프로젝트가 아닙니다 (axesColl·datasetColl 없음)");
+  const groups = new Map<string, ImportedGroup & { map: ((px: number, py: number) => XY) | null }>();
+  for (const ax of axesColl) {
+    const name = String(ax.name ?? "XY");
+    if (ax.type && ax.type !== "XYAxes") { issues.push(`축 "${name}": ${String(ax.type)}는 지원하지 않습니다 (XY 축만)`); continue; }
+    const xLog = !!ax.isLogX, yLog = !!ax.isLogY;
+    const cps = list(ax.calibrationPoints).map(obj);
+    const cal = cps.slice(0, 4).map((c, i) => ({ px: finite(c.px), py: finite(c.py), x: finite(c.dx), y: finite(c.dy), i }));
+    const ok = cal.length === 4 && cal.every(c => c.px != null && c.py != null)
+      && [cal[0].x, cal[1].x].every(v => v != null && (!xLog || v > 0)) && [cal[2].y, cal[3].y].every(v => v != null && (!yLog || v > 0))
+      && cal[0].x !== cal[1].x && cal[2].y !== cal[3].y;
+    if (!ok) issues.push(`축 "${name}": 캘리브레이션 값을 읽을 수 없습니다 (날짜 축이거나 점이 부족함)`);
+    const c = cal as { px: number; py: number; x: number; y: number }[];
+    groups.set(name, {
+      name, xLog, yLog,
+      calibration: ok ? { x1: { u: c[0].px, v: c[0].py, value: c[0].x }, x2: { u: c[1].px, v: c[1].py, value: c[1].x }, y1: { u: c[2].px, v: c[2].py, value: c[2].y }, y2: { u: c[3].px, v: c[3].py, value: c[3].y } } : null,
+      series: [],
+      map: ok ? wpdMap(c, xLog, yLog) : null,
+    });
+  }
+  for (const ds of datasets) {
+    const name = String(ds.name ?? `Dataset ${groups.size + 1}`);
+    const g = groups.get(String(ds.axesName ?? "")) ?? (axesColl.length === 1 ? [...groups.values()][0] : undefined);
+    if (!g) { issues.push(`데이터셋 "${name}": 지원하는 축에 연결되어 있지 않습니다`); continue; }
+    const points: XY[] = [];
+    let bad = 0;
+    for (const d of list(ds.data).map(obj)) {
+      const value = Array.isArray(d.value) ? d.value : null;
+      const x = finite(d.x), y = finite(d.y);
+      const p = value && finite(value[0]) != null && finite(value[1]) != null
+        ? { x: Number(value[0]), y: Number(value[1]) }
+        : g.map && x != null && y != null ? g.map(x, y) : null;
+      if (p && Number.isFinite(p.x) && Number.isFinite(p.y)) points.push(p); else bad++;
+    }
+    if (bad) issues.push(`데이터셋 "${name}": 값을 계산할 수 없는 점 ${bad}개`);
+    const rgb = obj(ds.colorRGB), [r, gr, b] = [finite(rgb.r), finite(rgb.g), finite(rgb.b)];
+    const color = r != null && gr != null && b != null ? `#${hex2(r)}${hex2(gr)}${hex2(b)}` : null;
+    g.series.push({ name, color, points });
+  }
+  const measurements = list(root.measurementColl);
+  if (measurements.length) issues.push(`측정(거리·각도·면적) ${measurements.length}개는 가져오지 않았습니다`);
+  return [...groups.values()].map(({ map, ...g }) => g);
+}
+
+/* ---------- Engauge ---------- */
+
+const ENGAUGE_COLORS: Record<string, string> = {
+  black: "#000000", blue: "#0000ff", cyan: "#00ffff", gold: "#ffd700", green: "#00ff00", magenta: "#ff00ff", red: "#ff0000", yellow: "#ffff00",
+};
+
+const children = (el: Element | null | undefined, tag: string) => (el ? Array.from(el.children).filter(c => c.tagName === tag) : []);
+
+function parseEngaugePoints(curve: Element) {
+  return children(children(curve, "Points")[0], "Point")
+    .map(p => {
+      const screen = children(p, "PositionScreen")[0], graph = children(p, "PositionGraph")[0];
+      return {
+        ordinal: finite(p.getAttribute("Ordinal")) ?? 0,
+        xOnly: p.getAttribute("IsXOnly") === "True",
+        u: finite(screen?.getAttribute("X")), v: finite(screen?.getAttribute("Y")),
+        x: finite(graph?.getAttribute("X")), y: finite(graph?.getAttribute("Y")),
+      };
+    })
+    .sort((a, b) => a.ordinal - b.ordinal);
+}
+
+function parseEngauge(text: string, issues: string[]): { groups: ImportedGroup[]; image: string | null; imageSize: { w: number; h: number } | null } {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("Engauge .dig XML을 읽을 수 없습니다");
+  const root = doc.documentElement;
+  if (root.tagName !== "Document") throw new Error("Engauge 문서가 아닙니다 (<Document> 없음)");
+
+  let image: string | null = null, size: { w: number; h: number } | null = null;
+  const imgEl = children(root, "Image")[0];
+  if (imgEl) {
+    /* QDataStream << QImage: a 4-byte flag, then the PNG file */
+    const bytes = Uint8Array.from(atob((imgEl.textContent ?? "").replace(/\s+/g, "")), c => c.charCodeAt(0));
+    let start = -1;
+    for (let i = 0; i < Math.min(64, bytes.length - 4) && start < 0; i++) {
+      if (bytes[i] === 0x89 && bytes[i + 1] === 0x50 && bytes[i + 2] === 0x4e && bytes[i + 3] === 0x47) start = i;
+    }
+    if (start >= 0) image = "data:image/png;base64," + toBase64(bytes.subarray(start));
+    else issues.push("내장 이미지 형식을 알 수 없어 이미지는 가져오지 않았습니다");
+    const w = finite(imgEl.getAttribute("Width")), h = finite(imgEl.getAttribute("Height"));
+    if (w && h) size = { w, h };
+  } else issues.push("문서에 이미지가 없습니다");
+
+  /* Engauge 7+ wraps each coordinate system in <CoordSystem>; 6.x keeps its one system directly in <Document> */
+  const systems = children(root, "CoordSystem").length ? children(root, "CoordSystem") : [root];
+  const groups: ImportedGroup[] = [];
+  systems.forEach((cs, k) => {
+    const label = systems.length > 1 ? `좌표계 ${k + 1}` : "좌표계";
+    const coords = children(cs, "Coords")[0];
+    const type = coords?.getAttribute("TypeString") ?? (coords?.getAttribute("Type") === "1" ? "Polar" : "Cartesian");
+    const curves = children(children(cs, "CurvesGraphs")[0], "Curve");
+    if (type !== "Cartesian") { issues.push(`${label}: ${type} 좌표계는 지원하지 않습니다 (곡선 ${curves.length}개 건너뜀)`); return; }
+    const isLog = (name: string) => (coords?.getAttribute(name + "String") ?? "") === "Log" || coords?.getAttribute(name) === "1";
+    const xLog = isLog("ScaleXTheta"), yLog = isLog("ScaleYRadius");
+    for (const axis of ["UnitsX", "UnitsY"]) {
+      const units = coords?.getAttribute(axis + "String");
+      if (units && units !== "Number") issues.push(`${label}: ${axis === "UnitsX" ? "X" : "Y"} 축 형식 "${units}"은 숫자로 가져옵니다`);
+    }
+
+    const axesCurve = children(cs, "Curve").find(c => c.getAttribute("CurveName") === "Axes");
+    const axisPts = axesCurve ? parseEngaugePoints(axesCurve).filter(p => p.u != null && p.v != null) : [];
+    /* X1·X2: the pair farthest apart in x (X-only points in 4-point mode); Y1·Y2 likewise in y */
+    const pick = (cands: typeof axisPts, key: "x" | "y", log: boolean) => {
+      const ok = cands.filter(p => p[key] != null && (!log || p[key]! > 0));
+      let best: [typeof ok[0], typeof ok[0]] | null = null, span = 0;
+      for (let i = 0; i < ok.length; i++) for (let j = i + 1; j < ok.length; j++) {
+        const d = Math.abs(lg(ok[j][key]!, log) - lg(ok[i][key]!, log));
+        if (d > span) { span = d; best = [ok[i], ok[j]]; }
+      }
+      return best;
+    };
+    const xOnly = axisPts.filter(p => p.xOnly);
+    const xs = pick(xOnly.length >= 2 ? xOnly : axisPts, "x", xLog);
+    const ys = pick(xOnly.length >= 2 ? axisPts.filter(p => !p.xOnly) : axisPts, "y", yLog);
+    const cp = (p: typeof axisPts[0], key: "x" | "y"): ImportedCalPoint => ({ u: p.u!, v: p.v!, value: p[key]! });
+    const calibration = xs && ys ? { x1: cp(xs[0], "x"), x2: cp(xs[1], "x"), y1: cp(ys[0], "y"), y2: cp(ys[1], "y") } : null;
+    if (!calibration) issues.push(`${label}: 축 기준점이 부족해 캘리브레이션은 가져오지 않았습니다`);
+
+    const series = curves.map(curve => {
+      const name = curve.getAttribute("CurveName") ?? "Curve";
+      const style = children(curve, "CurveStyle")[0];
+      const colorName = (children(style, "LineStyle")[0]?.getAttribute("ColorString") ?? children(style, "PointStyle")[0]?.getAttribute("ColorString") ?? "").toLowerCase();
+      const pts = parseEngaugePoints(curve);
+      const points = pts.filter(p => p.x != null && p.y != null).map(p => ({ x: p.x!, y: p.y! }));
+      if (points.length < pts.length) issues.push(`곡선 "${name}": 그래프 좌표가 없는 점 ${pts.length - points.length}개`);
+      return { name, color: ENGAUGE_COLORS[colorName] ?? null, points };
+    });
+    groups.push({ name: label, xLog, yLog, calibration, series });
+  });
+  return { groups, image, imageSize: size };
+}
+
+/**
+ * Read a WebPlotDigitizer (.json / .tar) or Engauge (.dig) project.
+ *
+ * @param file - Project file
+ * @returns Image, axes groups with calibration and datasets, and unmapped items
+ * @throws Error when the file is none of these formats or cannot be parsed
+ */
+export async function readDigitizerFile(file: File): Promise<DigitizerImport> {
+  const issues: string[] = [];
+  const name = file.name.replace(/\.(json|tar|dig)$/i, "");
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isTar = /\.tar$/i.test(file.name) || new TextDecoder().decode(bytes.subarray(257, 262)) === "ustar";
+
+  if (isTar) {
+    const files = untar(bytes);
+    const base = (p: string) => p.split("/").pop() ?? p;
+    const info = files.find(f => base(f.name) === "info.json");
+    let infoJson: Json = {};
+    try { infoJson = obj(info ? JSON.parse(new TextDecoder().decode(info.data)) : null); } catch {}
+    const json = files.find(f => infoJson.json && base(f.name) === infoJson.json) ?? files.find(f => /\.json$/i.test(f.name) && f !== info);
+    if (!json) throw new Error("tar 안에 WebPlotDigitizer 프로젝트(JSON)가 없습니다");
+    let raw;
+    try { raw = JSON.parse(new TextDecoder().decode(json.data)); } catch { throw new Error(`${base(json.name)}을 JSON으로 읽을 수 없습니다`); }
+    const groups = parseWpd(raw, issues);
+    const wanted = list(infoJson.images).map(String);
+    const imgs = files.filter(f => (base(f.name).split(".").pop() ?? "").toLowerCase() in IMAGE_MIME || /\.pdf$/i.test(f.name));
+    const imgFile = imgs.find(f => wanted.includes(base(f.name))) ?? imgs[0];
+    let image: string | null = null;
+    if (!imgFile) issues.push("tar 안에 이미지가 없습니다");
+    else if (/\.pdf$/i.test(imgFile.name)) issues.push(`${base(imgFile.name)}: PDF 문서는 가져오지 않습니다 (이미지로 불러온 뒤 캘리브레이션 하세요)`);
+    else image = `data:${IMAGE_MIME[(base(imgFile.name).split(".").pop() ?? "").toLowerCase()]};base64,${toBase64(imgFile.data)}`;
+    if (imgs.length > 1) issues.push(`이미지 ${imgs.length}개 중 첫 번째만 가져왔습니다`);
+    return { source: "WebPlotDigitizer", name, image, imageSize: image ? await imageSize(image) : null, groups, issues };
+  }
+
+  const text = new TextDecoder().decode(bytes).replace(/^\ufeff/, "").trimStart();
+  if (text.startsWith("<")) {
+    const { groups, image, imageSize: size } = parseEngauge(text, issues);
+    return { source: "Engauge", name, image, imageSize: image ? size ?? await imageSize(image) : null, groups, issues };
+  }
+  if (text.startsWith("{")) {
+    let raw;
+    try { raw = JSON.parse(text); } catch { throw new Error("JSON을 읽을 수 없습니다"); }
+    const groups = parseWpd(raw, issues);
+    issues.push("JSON 프로젝트에는 이미지가 없어 캘리브레이션은 가져오지 않았습니다 (이미지가 필요하면 .tar 프로젝트를 쓰세요)");
+    return { source: "WebPlotDigitizer", name, image: null, imageSize: null, groups, issues };
+  }
+  if (/\.dig$/i.test(file.name)) throw new Error("Engauge 4·5의 이진 .dig 파일은 지원하지 않습니다. Engauge 6 이상에서 열어 다시 저장하세요");
+  throw new Error("WebPlotDigitizer(.json·.tar) 또는 Engauge(.dig) 프로젝트가 아닙니다");
+}
+
+/**
+ * Lay out an import as a project file. Series `i` goes to slot `i` with the
+ * image (shown only in the first slot) and its group's calibration; the image
+ * is scaled and moved so the calibration points land on the axes grid, the
+ * way "fit image to axes" places it.
+ *
+ * @param imp - Result of `readDigitizerFile`
+ * @param opts - Plot frame in canvas px (where an untransformed image is drawn), slot / series limits, axis units
+ * @returns Raw project for `parseProject`, slot images, and everything that was not mapped
+ * @throws Error when there is no data to import
+ */
+export function importedProject(imp: DigitizerImport, opts: { frame: { x: number; y: number; w: number; h: number }; slots: number; series: number; units: AxisUnits }) {
+  const issues = [...imp.issues];
+  const withData = imp.groups.filter(g => g.series.some(s => s.points.length));
+  if (!withData.length) throw new Error("가져올 데이터 점이 없습니다");
+  const { xLog, yLog } = withData[0];
+
+  const entries: { group: ImportedGroup; s: ImportedGroup["series"][0] }[] = [];
+  for (const group of imp.groups) {
+    if (group.xLog !== xLog || group.yLog !== yLog) issues.push(`${group.name}: 축 스케일이 첫 축과 달라 ${xLog ? "log" : "linear"}-${yLog ? "log" : "linear"} 축에 표시합니다 (캘리브레이션 제외)`);
+    for (const s of group.series) {
+      if (!s.points.length) { issues.push(`"${s.name}": 점이 없어 건너뜀`); continue; }
+      const points = s.points.filter(p => (!xLog || p.x > 0) && (!yLog || p.y > 0));
+      if (points.length < s.points.length) issues.push(`"${s.name}": 로그 축에서 0 이하인 점 ${s.points.length - points.length}개 제외`);
+      if (points.length) entries.push({ group, s: { ...s, points } });
+    }
+  }
+  const limit = Math.min(opts.series, opts.slots);
+  if (entries.length > limit) issues.push(`시리즈 ${limit}개 초과분 ${entries.length - limit}개는 가져오지 않았습니다`);
+  const used = entries.slice(0, limit);
+
+  /* axis range: whole decades on log axes, 5 % margin on linear ones */
+  const range = (vals: number[], log: boolean): [number, number] => {
+    const lo = Math.min(...vals), hi = Math.max(...vals);
+    if (log) {
+      const a = Math.floor(Math.log10(lo)), b = Math.max(a + 1, Math.ceil(Math.log10(hi)));
+      return [10 ** a, 10 ** b];
+    }
+    const pad = hi > lo ? (hi - lo) * 0.05 : Math.abs(hi) * 0.1 || 1;
+    return [lo - pad, hi + pad];
+  };
+  const all = used.flatMap(e => e.s.points);
+  const [xMin, xMax] = range(all.map(p => p.x), xLog), [yMin, yMax] = range(all.map(p => p.y), yLog);
+
+  const n = opts.slots, f = opts.frame;
+  const t = (v: number, log: boolean) => (log ? Math.log10(v) : v);
+  const pxAt = (v: number) => f.x + ((t(v, xLog) - t(xMin, xLog)) / (t(xMax, xLog) - t(xMin, xLog))) * f.w;
+  const pyAt = (v: number) => f.y + f.h - ((t(v, yLog) - t(yMin, yLog)) / (t(yMax, yLog) - t(yMin, yLog))) * f.h;
+  const images: (string | null)[] = Array(n).fill(null);
+  const xform: ({ sx: number; sy: number; offX: number; offY: number })[] = Array.from({ length: n }, () => ({ sx: 1, sy: 1, offX: 0, offY: 0 }));
+  const cal = {
+    enabled: Array(n).fill(false), clip: Array(n).fill(false),
+    pixels: Array.from({ length: n }, (): ProjectCalibration["pixels"][number] => ({ x1: null, x2: null, y1: null, y2: null })),
+    values: Array.from({ length: n }, () => ({ x1: "", x2: "", y1: "", y2: "" })),
+    mode: Array(n).fill("axes"), refs: Array.from({ length: n }, () => []), ticks: Array.from({ length: n }, () => ({ x: [], y: [] })),
+  };
+  const skewed = new Set<string>();
+  used.forEach(({ group }, i) => {
+    images[i] = imp.image;
+    const c = group.calibration, size = imp.imageSize;
+    if (!c || !size || group.xLog !== xLog || group.yLog !== yLog) return;
+    const fu1 = c.x1.u / size.w, fu2 = c.x2.u / size.w, fv1 = c.y1.v / size.h, fv2 = c.y2.v / size.h;
+    const dw = (pxAt(c.x2.value) - pxAt(c.x1.value)) / (fu2 - fu1), dh = (pyAt(c.y2.value) - pyAt(c.y1.value)) / (fv2 - fv1);
+    if (!Number.isFinite(dw) || !Number.isFinite(dh) || dw <= 1 || dh <= 1 || dw / f.w > 50 || dh / f.h > 50 || dw / f.w < 0.05 || dh / f.h < 0.05) {
+      issues.push(`${group.name}: 캘리브레이션 점으로 이미지를 축에 맞출 수 없습니다 (방향·값 확인)`);
+      return;
+    }
+    if (Math.abs(c.x2.v - c.x1.v) > 0.02 * Math.abs(c.x2.u - c.x1.u) || Math.abs(c.y2.u - c.y1.u) > 0.02 * Math.abs(c.y2.v - c.y1.v)) skewed.add(group.name);
+    const dx = pxAt(c.x1.value) - fu1 * dw, dy = pyAt(c.y1.value) - fv1 * dh;
+    /* custom anchor at the frame's bottom-left (fx 0, fy 1), as in the calibration fit */
+    xform[i] = { sx: dw / f.w, sy: dh / f.h, offX: dx - f.x, offY: dy + dh - (f.y + f.h) };
+    const at = (p: ImportedCalPoint) => ({ px: dx + (p.u / size.w) * dw, py: dy + (p.v / size.h) * dh });
+    cal.enabled[i] = true;
+    cal.pixels[i] = { x1: at(c.x1), x2: at(c.x2), y1: at(c.y1), y2: at(c.y2) };
+    cal.values[i] = { x1: String(c.x1.value), x2: String(c.x2.value), y1: String(c.y1.value), y2: String(c.y2.value) };
+  });
+  skewed.forEach(g => issues.push(`${g}: 축이 기울어진 이미지라 축 캘리브레이션은 근사입니다 (시리즈 값은 원본 그대로)`));
+
+  const project = {
+    v: PROJECT_VERSION,
+    axes: { xMin, xMax, yMin, yMax, xLog, yLog, units: opts.units },
+    series: used.map(({ s }) => ({ name: s.name, color: s.color ?? undefined, points: s.points, visible: true, crossLines: true, specs: {} })),
+    bg: { xform, customAnchors: Array(n).fill(null), activeBg: 0, keepAspect: false, showBgs: images.map((img, i) => !!img && i === 0), opacityBgs: [], filtersByBg: [] },
+    guidesX: [], guidesY: [],
+    minBreakCurrents: used.map(() => null),
+    calibrationByBg: cal,
+  };
+  return { project, images, issues };
+}
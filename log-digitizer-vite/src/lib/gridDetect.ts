@@ -0,0 +1,186 @@
+/**
+ * Gridline detection on raster chart images
+ * Finds long horizontal/vertical lines and recognizes log-decade spacing
+ * (decade line + 2..9 sub-lines) or an evenly spaced linear grid.
+ *
+ * Usage example:
+ * ```ts
+ * const grid = detectGrid(raster, { xLog: true, yLog: true });
+ * if (grid.x && grid.x.majors.length >= 2) {
+ *   const x1 = grid.x.majors[0];                       // image px of the first decade line
+ *   const x2 = grid.x.majors[grid.x.majors.length - 1]; // last decade line
+ * }
+ * ```
+ */
+
+import type { Raster } from "./trace";
+
+export type GridAxisFit = {
+  pattern: "log-sublines" | "even";
+  lines: number[]; // detected line centers, image px
+  majors: number[]; // decade (log) or grid-step (linear) lines, image px, ascending data value
+  spacing: number; // px per decade (log) or per grid step (linear)
+  matched: number; // detected lines explained by the fitted pattern
+};
+
+export type LineScanOptions = {
+  darkness?: number; // min (background − pixel) luminance difference counted as ink
+  minCoverage?: number; // line must cover this fraction of the strongest line
+};
+
+const LOG_M = [1, 2, 3, 4, 5, 6, 7, 8, 9].map(m => Math.log10(m));
+
+const luminance = (d: Uint8ClampedArray, o: number) => d[o] * 0.299 + d[o + 1] * 0.587 + d[o + 2] * 0.114;
+
+/**
+ * Project ink onto one axis and return centers of long straight lines.
+ * axis "x" finds vertical lines (x positions), "y" horizontal lines (y positions).
+ *
+ * @param img - Raster image
+ * @param axis - "x" for vertical gridlines, "y" for horizontal gridlines
+ * @param options - Ink threshold and coverage
+ * @returns Sorted line centers in image pixels
+ */
+export function findLongLines(img: Raster, axis: "x" | "y", options: LineScanOptions = {}): number[] {
+  const darkness = options.darkness ?? 35;
+  const minCoverage = options.minCoverage ?? 0.45;
+  const { width: w, height: h, data } = img;
+  let bg = 0;
+  for (let o = 0; o < data.length; o += 4 * 97) bg = Math.max(bg, luminance(data, o));
+  const n = axis === "x" ? w : h, len = axis === "x" ? h : w;
+  const cover = new Float64Array(n);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (bg - luminance(data, (y * w + x) * 4) < darkness) continue;
+      cover[axis === "x" ? x : y] += 1 / len;
+    }
+  }
+  const peak = cover.reduce((m, v) => Math.max(m, v), 0);
+  if (!(peak > 0.1)) return [];
+  const limit = peak * minCoverage;
+  const lines: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (cover[i] < limit) continue;
+    let sum = 0, wsum = 0, j = i;
+    while (j < n && cover[j] >= limit) { sum += j * cover[j]; wsum += cover[j]; j++; }
+    lines.push(sum / wsum);
+    i = j;
+  }
+  return lines;
+}
+
+const nearest = (sorted: number[], v: number) => {
+  let lo = 0, hi = sorted.length - 1;
+  while (hi - lo > 1) { const mid = (lo + hi) >> 1; if (sorted[mid] < v) lo = mid; else hi = mid; }
+  return Math.abs(sorted[lo] - v) <= Math.abs(sorted[hi] - v) ? lo : hi;
+};
+
+/**
+ * Least-squares line pos = a + b·t over matched pairs.
+ */
+const refine = (pairs: { t: number; u: number }[]) => {
+  const n = pairs.length;
+  const mt = pairs.reduce((s, p) => s + p.t, 0) / n, mu = pairs.reduce((s, p) => s + p.u, 0) / n;
+  let stt = 0, stu = 0;
+  for (const p of pairs) { stt += (p.t - mt) ** 2; stu += (p.t - mt) * (p.u - mu); }
+  const b = stt > 0 ? stu / stt : 0;
+  return { a: mu - b * mt, b };
+};
+
+/**
+ * Fit the log-decade pattern u = u0 + D·(n + log10 m), m = 1..9.
+ * Pixel positions are multiplied by `dir` first so that u grows with the
+ * data value (+1 for x axes, −1 for image rows of a y axis).
+ *
+ * @param lines - Detected line centers (image px)
+ * @param dir - +1 when value increases with pixel, −1 otherwise
+ * @returns Fitted decade lines, or null when the pattern is not found
+ */
+export function fitLogGrid(lines: number[], dir: 1 | -1): GridAxisFit | null {
+  const u = lines.map(p => p * dir).sort((a, b) => a - b);
+  if (u.length < 4) return null;
+  const uMin = u[0], uMax = u[u.length - 1];
+  let best: { score: number; u0: number; D: number } | null = null;
+  const evaluate = (u0: number, D: number) => {
+    const tol = Math.max(1.5, D * 0.012);
+    const hit = new Set<number>();
+    let missed = 0;
+    for (let n = Math.floor((uMin - u0) / D) - 1; n <= Math.ceil((uMax - u0) / D) + 1; n++) {
+      for (const lm of LOG_M) {
+        const q = u0 + D * (n + lm);
+        if (q < uMin - tol || q > uMax + tol) continue;
+        const k = nearest(u, q);
+        if (Math.abs(u[k] - q) <= tol) hit.add(k); else missed++;
+      }
+    }
+    return hit.size - 0.5 * missed - 0.25 * (u.length - hit.size);
+  };
+  for (let i = 0; i < u.length; i++) {
+    for (let j = i + 1; j < Math.min(u.length, i + 12); j++) {
+      for (let m = 2; m <= 10; m++) {
+        const D = (u[j] - u[i]) / Math.log10(m);
+        if (D < 20) continue;
+        const score = evaluate(u[i], D);
+        if (!best || score > best.score) best = { score, u0: u[i], D };
+      }
+    }
+  }
+  if (!best) return null;
+  /* refine u0 and D on every matched line */
+  const tol = Math.max(1.5, best.D * 0.012);
+  const pairs: { t: number; u: number }[] = [];
+  for (let n = Math.floor((uMin - best.u0) / best.D) - 1; n <= Math.ceil((uMax - best.u0) / best.D) + 1; n++) {
+    for (const lm of LOG_M) {
+      const q = best.u0 + best.D * (n + lm), k = nearest(u, q);
+      if (Math.abs(u[k] - q) <= tol) pairs.push({ t: n + lm, u: u[k] });
+    }
+  }
+  if (pairs.length < 4 || pairs.length < u.length * 0.5) return null;
+  const { a: u0, b: D } = refine(pairs);
+  if (!(D > 0)) return null;
+  const majors: number[] = [];
+  for (let n = Math.floor((uMin - u0) / D) - 1; n <= Math.ceil((uMax - u0) / D) + 1; n++) {
+    const q = u0 + D * n;
+    if (q >= uMin - tol && q <= uMax + tol) majors.push(q * dir);
+  }
+  return { pattern: "log-sublines", lines: lines.slice().sort((a, b) => a - b), majors, spacing: D, matched: pairs.length };
+}
+
+/**
+ * Fit an evenly spaced grid (linear axes, or log axes drawn with decade lines only).
+ *
+ * @param lines - Detected line centers (image px)
+ * @param dir - +1 when value increases with pixel, −1 otherwise
+ * @returns Evenly spaced grid lines, or null with fewer than 3 consistent lines
+ */
+export function fitEvenGrid(lines: number[], dir: 1 | -1): GridAxisFit | null {
+  const u = lines.map(p => p * dir).sort((a, b) => a - b);
+  if (u.length < 3) return null;
+  const gaps = u.slice(1).map((v, i) => v - u[i]).filter(g => g > 4).sort((a, b) => a - b);
+  if (!gaps.length) return null;
+  const step = gaps[Math.floor(gaps.length / 2)];
+  const tol = Math.max(1.5, step * 0.06);
+  const pairs = u.map(v => ({ t: Math.round((v - u[0]) / step), u: v })).filter(p => Math.abs(u[0] + p.t * step - p.u) <= tol);
+  if (pairs.length < 3) return null;
+  const { a, b } = refine(pairs);
+  if (!(b > 0)) return null;
+  const majors = pairs.map(p => (a + b * p.t) * dir);
+  return { pattern: "even", lines: lines.slice().sort((x, y) => x - y), majors, spacing: b, matched: pairs.length };
+}
+
+/**
+ * Detect both axes' gridlines. Log axes try the decade/sub-line pattern first
+ * and fall back to an even grid (each step taken as one decade).
+ *
+ * @param img - Raster image
+ * @param axes - Which axes are logarithmic
+ * @returns Per-axis fits (null when no grid is recognized)
+ */
+export function detectGrid(img: Raster, axes: { xLog: boolean; yLog: boolean }, options: LineScanOptions = {}): { x: GridAxisFit | null; y: GridAxisFit | null } {
+  const fitAxis = (lines: number[], dir: 1 | -1, log: boolean) =>
+    (log ? fitLogGrid(lines, dir) : null) ?? fitEvenGrid(lines, dir);
+  return {
+    x: fitAxis(findLongLines(img, "x", options), 1, axes.xLog),
+    y: fitAxis(findLongLines(img, "y", options), -1, axes.yLog),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Undo history helpers
+ * A history entry is the editor state (axes, series, image placement) plus a
+ * snapshot of the workspace state that lives outside it — calibration,
+ * background slots, guides, min-break currents and lifetime tables. Entries
+ * share unchanged arrays, so memory is estimated per unique array/image and
+ * the oldest entries are dropped once the budget is exceeded.
+ *
+ * Usage example:
+ * ```ts
+ * const ws = { calPixelsByBg, guideXs, ..., bgRefs: bgRefs.current.slice() };
+ * if (!sameWorkspace(entry._ws, ws)) push({ ...entry, _ws: ws, ...describeWorkspaceChange(entry._ws, ws) });
+ * const drop = historyTrimCount(history, historyIndex, 256 * 2 ** 20);
+ * ```
+ */
+
+import { type ImageFilters } from "./imageFilters";
+
+export type XY = { x: number; y: number };
+
+type CalKey = "x1" | "x2" | "y1" | "y2";
+const CAL_KEYS: CalKey[] = ["x1", "x2", "y1", "y2"];
+
+export type WorkspaceSnapshot = {
+  calEnabledByBg: boolean[];
+  calClipByBg: boolean[];
+  calPixelsByBg: (Record<CalKey, { px: number; py: number } | null> | null)[];
+  calValuesByBg: (Record<CalKey, string> | null)[];
+  calModeByBg: string[];
+  calTicksByBg: ({ x: unknown[]; y: unknown[] } | null)[];
+  calRefsByBg: unknown[][];
+  guideXs: number[];
+  guideYs: number[];
+  guideXLabels: Record<string, string>;
+  guideYLabels: Record<string, string>;
+  minBreakCurrents: (number | null)[];
+  lifetimeCycles: number[];
+  currentMultipliers: number[];
+  lifetimeRatios: number[];
+  filtersByBg: ImageFilters[];
+  bgList: ({ w: number; h: number } | null)[];
+  bgRefs: (HTMLImageElement | null)[]; // image elements per slot
+  bgUrls: (string | null)[];
+};
+
+export type HistoryLabel = {
+  label: string; // shown in the history panel
+  key?: string; // consecutive changes with the same key are merged (typing into one field)
+};
+
+/** The editor-state fields `describeStateChange` reads */
+export type EditorStateLike = {
+  xMin?: number;
+  xMax?: number;
+  yMin?: number;
+  yMax?: number;
+  xScale?: string;
+  yScale?: string;
+  xLog?: boolean;
+  yLog?: boolean;
+  units?: { x?: { unit?: string }; y?: { unit?: string } };
+  series?: { name?: string; points?: XY[] }[];
+  bgXform?: unknown[];
+  customAnchors?: unknown[];
+};
+
+export type HistoryEntry = {
+  series?: { name?: string; points?: XY[]; basePoints?: XY[] }[];
+  _ws?: WorkspaceSnapshot;
+  _label?: string;
+  _key?: string;
+  _time?: number;
+};
+
+const WS_KEYS = [
+  "calEnabledByBg", "calClipByBg", "calPixelsByBg", "calValuesByBg", "calModeByBg", "calTicksByBg", "calRefsByBg",
+  "guideXs", "guideYs", "guideXLabels", "guideYLabels", "minBreakCurrents",
+  "lifetimeCycles", "currentMultipliers", "lifetimeRatios", "filtersByBg", "bgList",
+] as const;
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+const fmt = (v: unknown) => (typeof v === "number" ? String(Number(v.toPrecision(6))) : String(v ?? ""));
+const sameList = (a: unknown[] = [], b: unknown[] = []) => a.length === b.length && a.every((v, i) => v === b[i]);
+const changedSlots = (a: unknown[] = [], b: unknown[] = []) =>
+  Array.from({ length: Math.max(a.length, b.length) }, (_, i) => i).filter(i => a[i] !== b[i]);
+
+/**
+ * Whether two workspace snapshots hold the same state (arrays compared by reference,
+ * image slots element-wise).
+ *
+ * @param a - Snapshot (may be missing)
+ * @param b - Snapshot
+ * @returns True when nothing changed
+ */
+export function sameWorkspace(a: WorkspaceSnapshot | undefined, b: WorkspaceSnapshot): boolean {
+  if (!a) return false;
+  return WS_KEYS.every(k => a[k] === b[k]) && sameList(a.bgRefs, b.bgRefs) && sameList(a.bgUrls, b.bgUrls);
+}
+
+/**
+ * Human-readable label for a workspace change, e.g. "Set X1 = 100".
+ *
+ * @param prev - Previous snapshot
+ * @param next - New snapshot
+ * @param seriesNames - Series names (for min-break labels)
+ * @returns Label and merge key
+ */
+export function describeWorkspaceChange(prev: WorkspaceSnapshot | undefined, next: WorkspaceSnapshot, seriesNames: string[] = []): HistoryLabel {
+  if (!prev) return { label: "Workspace", key: "ws" };
+  const slot = (i: number) => `slot ${i + 1}`;
+
+  const imgSlots = changedSlots(prev.bgRefs, next.bgRefs);
+  if (imgSlots.length) {
+    const i = imgSlots[0], was = prev.bgRefs[i], now = next.bgRefs[i];
+    const label = !was ? `Loaded image (${slot(i)})` : !now ? `Cleared ${slot(i)}` : `Replaced image (${slot(i)})`;
+    return { label: imgSlots.length > 1 ? `Changed ${plural(imgSlots.length, "image slot")}` : label };
+  }
+  if (prev.calValuesByBg !== next.calValuesByBg) {
+    for (const i of changedSlots(prev.calValuesByBg, next.calValuesByBg)) {
+      const a = prev.calValuesByBg[i], b = next.calValuesByBg[i];
+      const k = CAL_KEYS.find(f => a?.[f] !== b?.[f]);
+      if (k) return { label: `Set ${k.toUpperCase()} = ${fmt(b?.[k]) || "—"}`, key: `calValue:${i}:${k}` };
+    }
+  }
+  if (prev.calPixelsByBg !== next.calPixelsByBg) {
+    for (const i of changedSlots(prev.calPixelsByBg, next.calPixelsByBg)) {
+      const a = prev.calPixelsByBg[i], b = next.calPixelsByBg[i];
+      const ks = CAL_KEYS.filter(f => a?.[f] !== b?.[f]);
+      if (ks.length > 1) return { label: `Moved ${plural(ks.length, "calibration point")}`, key: `calPixel:${i}:*` };
+      if (ks.length) return { label: `${!a?.[ks[0]] ? "Placed" : b?.[ks[0]] ? "Moved" : "Removed"} ${ks[0].toUpperCase()}`, key: `calPixel:${i}:${ks[0]}` };
+    }
+  }
+  const listChange = (field: "calTicksByBg" | "calRefsByBg", what: string) => {
+    if (prev[field] === next[field]) return null;
+    const i = changedSlots(prev[field], next[field])[0];
+    if (i == null) return null;
+    const count = (v: WorkspaceSnapshot[typeof field][number]) =>
+      Array.isArray(v) ? v.length : v && "x" in v ? (v.x?.length ?? 0) + (v.y?.length ?? 0) : 0;
+    const d = count(next[field][i]) - count(prev[field][i]);
+    const label = d > 0 ? `Added ${what}` : d < 0 ? `Removed ${what}` : `Edited ${what}s`;
+    return { label, key: d === 0 ? `${field}:${i}` : undefined };
+  };
+  const tickChange = listChange("calTicksByBg", "calibration tick") ?? listChange("calRefsByBg", "reference point");
+  if (tickChange) return tickChange;
+  if (prev.calEnabledByBg !== next.calEnabledByBg) {
+    const i = changedSlots(prev.calEnabledByBg, next.calEnabledByBg)[0] ?? 0;
+    return { label: `Calibration ${next.calEnabledByBg[i] ? "on" : "off"} (${slot(i)})` };
+  }
+  if (prev.calModeByBg !== next.calModeByBg) {
+    const i = changedSlots(prev.calModeByBg, next.calModeByBg)[0] ?? 0;
+    return { label: `Calibration mode: ${next.calModeByBg[i]} (${slot(i)})` };
+  }
+  if (prev.calClipByBg !== next.calClipByBg) {
+    const i = changedSlots(prev.calClipByBg, next.calClipByBg)[0] ?? 0;
+    return { label: `Clip to calibration ${next.calClipByBg[i] ? "on" : "off"} (${slot(i)})` };
+  }
+  for (const [field, axis] of [["guideXs", "X"], ["guideYs", "Y"]] as const) {
+    if (prev[field] === next[field]) continue;
+    const added = next[field].filter(v => !prev[field].includes(v)), removed = prev[field].filter(v => !next[field].includes(v));
+    if (added.length === 1 && !removed.length) return { label: `Added guide ${axis} = ${fmt(added[0])}` };
+    if (removed.length === 1 && !added.length) return { label: `Removed guide ${axis} = ${fmt(removed[0])}` };
+    if (!next[field].length) return { label: `Cleared ${axis} guides` };
+    return { label: `Edited ${axis} guides`, key: `guide:${axis}` };
+  }
+  if (prev.guideXLabels !== next.guideXLabels || prev.guideYLabels !== next.guideYLabels) return { label: "Renamed guide", key: "guideLabel" };
+  if (prev.minBreakCurrents !== next.minBreakCurrents) {
+    const i = changedSlots(prev.minBreakCurrents, next.minBreakCurrents)[0] ?? 0, v = next.minBreakCurrents[i];
+    const name = seriesNames[i] ?? `series ${i + 1}`;
+    return { label: v == null ? `Cleared min-break current (${name})` : `Set min-break current = ${fmt(v)} (${name})`, key: `minBreak:${i}` };
+  }
+  if (prev.lifetimeCycles !== next.lifetimeCycles || prev.currentMultipliers !== next.currentMultipliers || prev.lifetimeRatios !== next.lifetimeRatios)
+    return { label: "Edited lifetime table", key: "lifetime" };
+  if (prev.filtersByBg !== next.filtersByBg) {
+    const i = changedSlots(prev.filtersByBg, next.filtersByBg)[0] ?? 0;
+    return { label: `Adjusted image filters (${slot(i)})`, key: `filters:${i}` };
+  }
+  if (prev.bgList !== next.bgList) return { label: "Changed image slots", key: "bgList" };
+  return { label: "Edited workspace", key: "ws" };
+}
+
+/**
+ * Human-readable label for an editor state change, e.g. "Moved 3 points in A".
+ *
+ * @param prev - Previous state (may be missing)
+ * @param next - New state
+ * @returns Label and merge key
+ */
+export function describeStateChange(prev: EditorStateLike | null | undefined, next: EditorStateLike): HistoryLabel {
+  if (!prev) return { label: "Start", key: "start" };
+  for (const f of ["xMin", "xMax", "yMin", "yMax"] as const) {
+    if (prev[f] !== next[f]) return { label: `Set ${f[0].toUpperCase()} ${f.slice(1)} = ${fmt(next[f])}`, key: `axis:${f}` };
+  }
+  for (const [a, sk, lk] of [["x", "xScale", "xLog"], ["y", "yScale", "yLog"]] as const) {
+    if (prev[sk] !== next[sk] || prev[lk] !== next[lk])
+      return { label: `${a.toUpperCase()} scale: ${next[sk] ?? (next[lk] ? "log10" : "linear")}` };
+    if (prev.units?.[a] !== next.units?.[a]) return { label: `${a.toUpperCase()} unit: ${next.units?.[a]?.unit || "-"}` };
+  }
+  const ps = prev.series ?? [], ns = next.series ?? [];
+  if (ns.length > ps.length) return { label: ns.length - ps.length === 1 ? `Added series ${ns[ns.length - 1]?.name ?? ""}` : `Added ${plural(ns.length - ps.length, "series")}` };
+  if (ns.length < ps.length) {
+    const gone = ps.find(s => !ns.includes(s) && !ns.some(n => n.name === s.name));
+    return { label: gone ? `Deleted series ${gone.name}` : `Deleted ${plural(ps.length - ns.length, "series")}` };
+  }
+  const changed = ns.map((s, i) => i).filter(i => ns[i] !== ps[i]);
+  if (changed.length > 1) return { label: `Edited ${plural(changed.length, "series")}` };
+  if (changed.length === 1) {
+    const i = changed[0], a = ps[i], b = ns[i];
+    if (a.points !== b.points) {
+      const d = (b.points?.length ?? 0) - (a.points?.length ?? 0);
+      if (d > 0) return { label: `Added ${plural(d, "point")} to ${b.name}` };
+      if (d < 0) return { label: `Deleted ${plural(-d, "point")} from ${b.name}` };
+      const moved = b.points.filter((p, k) => p.x !== a.points[k]?.x || p.y !== a.points[k]?.y).length;
+      return { label: moved ? `Moved ${plural(moved, "point")} in ${b.name}` : `Edited points of ${b.name}` };
+    }
+    if (a.name !== b.name) return { label: `Renamed series to ${b.name}`, key: `name:${i}` };
+    return { label: `Edited series ${b.name}` };
+  }
+  if (prev.bgXform !== next.bgXform || prev.customAnchors !== next.customAnchors) {
+    const i = changedSlots(prev.bgXform, next.bgXform)[0] ?? changedSlots(prev.customAnchors, next.customAnchors)[0] ?? 0;
+    return { label: `Moved/scaled image (slot ${i + 1})` };
+  }
+  return { label: "Edit" };
+}
+
+const POINT_BYTES = 48; // two doubles plus object overhead
+const ENTRY_BYTES = 2048; // state object, snapshot arrays, labels
+
+const imageBytes = (img: HTMLImageElement | null | undefined) => {
+  const w = img?.naturalWidth || img?.width || 0, h = img?.naturalHeight || img?.height || 0;
+  return w * h * 4; // decoded RGBA
+};
+
+/**
+ * Estimated memory held by each entry: arrays and images are counted once,
+ * on the newest entry that references them, so dropping an old entry frees
+ * exactly its share.
+ *
+ * @param entries - History, oldest first
+ * @returns Bytes per entry (same order)
+ */
+export function historyEntryBytes(entries: HistoryEntry[]): number[] {
+  const seen = new Set<unknown>();
+  const out = Array(entries.length).fill(0);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i];
+    let bytes = ENTRY_BYTES;
+    for (const s of e.series ?? []) {
+      for (const pts of [s.points, s.basePoints]) {
+        if (!pts || seen.has(pts)) continue;
+        seen.add(pts);
+        bytes += pts.length * POINT_BYTES;
+      }
+    }
+    (e._ws?.bgRefs ?? []).forEach((img, k) => {
+      if (!img || seen.has(img)) return;
+      seen.add(img);
+      bytes += imageBytes(img) + (e._ws?.bgUrls[k]?.length ?? 0) * 2;
+    });
+    out[i] = bytes;
+  }
+  return out;
+}
+
+/**
+ * How many of the oldest entries to drop so the history fits the budget.
+ * The current entry and everything after it are always kept.
+ *
+ * @param entries - History, oldest first
+ * @param index - Current entry
+ * @param budgetBytes - Memory budget
+ * @param maxEntries - Entry limit
+ * @returns Number of entries to remove from the front
+ */
+export function historyTrimCount(entries: HistoryEntry[], index: number, budgetBytes: number, maxEntries = 500): number {
+  const bytes = historyEntryBytes(entries);
+  let total = 0, keepFrom = entries.length;
+  while (keepFrom > 0) {
+    const next = total + bytes[keepFrom - 1];
+    if (keepFrom > index || (next <= budgetBytes && entries.length - keepFrom < maxEntries)) { total = next; keepFrom--; }
+    else break;
+  }
+  return Math.min(keepFrom, Math.max(0, index));
+}
@@ -0,0 +1,151 @@
+/**
+ * Non-destructive image filters for background slots
+ * Brightness/contrast, grayscale, invert, threshold and "keep only this hue"
+ * masking, applied to a copy of the raster (the source image is untouched).
+ *
+ * Usage example:
+ * ```ts
+ * const f = { ...DEFAULT_IMAGE_FILTERS, contrast: 40, hueKeep: true, hue: 0 };
+ * if (!isIdentityFilters(f)) {
+ *   const out = applyImageFilters(raster, f); // { data, width, height }
+ *   const img = ctx.createImageData(out.width, out.height);
+ *   img.data.set(out.data);
+ *   ctx.putImageData(img, 0, 0);
+ * }
+ * ```
+ */
+
+import type { Raster, RGB } from "./trace";
+
+export type ImageFilters = {
+  brightness: number; // -100..100 (%)
+  contrast: number; // -100..100 (%)
+  grayscale: boolean;
+  invert: boolean;
+  threshold: number | null; // 0..255 luminance cut (dark → black, else white), null = off
+  hueKeep: boolean; // keep only pixels near `hue`; the rest becomes white
+  hue: number; // 0..360°
+  hueWidth: number; // ± degrees around `hue`
+};
+
+export const DEFAULT_IMAGE_FILTERS: ImageFilters = {
+  brightness: 0,
+  contrast: 0,
+  grayscale: false,
+  invert: false,
+  threshold: null,
+  hueKeep: false,
+  hue: 0,
+  hueWidth: 25,
+};
+
+/** Pixels below this HSV saturation count as gray and never match a hue. */
+const MIN_HUE_SATURATION = 0.18;
+
+/**
+ * Fill missing/invalid fields from defaults (saved settings, presets).
+ *
+ * @param raw - Untrusted filter object
+ * @returns Complete filter settings
+ */
+export function normalizeImageFilters(raw: unknown): ImageFilters {
+  const num = (v: unknown, lo: number, hi: number, d: number) => (Number.isFinite(Number(v)) ? Math.min(hi, Math.max(lo, Number(v))) : d);
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_IMAGE_FILTERS };
+  const r = raw as Record<string, unknown>;
+  return {
+    brightness: num(r.brightness, -100, 100, 0),
+    contrast: num(r.contrast, -100, 100, 0),
+    grayscale: !!r.grayscale,
+    invert: !!r.invert,
+    threshold: r.threshold == null ? null : num(r.threshold, 0, 255, 128),
+    hueKeep: !!r.hueKeep,
+    hue: num(r.hue, 0, 360, 0),
+    hueWidth: num(r.hueWidth, 1, 180, 25),
+  };
+}
+
+/**
+ * True when the filters leave the image unchanged (skip processing).
+ *
+ * @param f - Filter settings
+ * @returns Whether the settings are a no-op
+ */
+export function isIdentityFilters(f: ImageFilters): boolean {
+  return !f || (f.brightness === 0 && f.contrast === 0 && !f.grayscale && !f.invert && f.threshold == null && !f.hueKeep);
+}
+
+/**
+ * Stable cache key for a filter setting.
+ *
+ * @param f - Filter settings
+ * @returns String key
+ */
+export function imageFiltersKey(f: ImageFilters): string {
+  return isIdentityFilters(f) ? "" : [f.brightness, f.contrast, +f.grayscale, +f.invert, f.threshold ?? "-", +f.hueKeep, f.hue, f.hueWidth].join("|");
+}
+
+/**
+ * Hue in degrees and HSV saturation of an RGB pixel.
+ *
+ * @param r - Red 0..255
+ * @param g - Green 0..255
+ * @param b - Blue 0..255
+ * @returns { h: 0..360, s: 0..1 }
+ */
+export function hueSat(r: number, g: number, b: number): { h: number; s: number } {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b), d = max - min;
+  if (max === 0 || d === 0) return { h: 0, s: 0 };
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return { h: (h * 60 + 360) % 360, s: d / max };
+}
+
+/**
+ * Saturated display color for a hue (swatches, color inputs).
+ *
+ * @param h - Hue 0..360°
+ * @returns RGB at full saturation, value 0.85
+ */
+export function hueColor(h: number): RGB {
+  const v = 0.85 * 255, k = (n: number) => (n + h / 60) % 6;
+  const f = (n: number) => v - v * Math.max(0, Math.min(k(n), 4 - k(n), 1));
+  return { r: f(5), g: f(3), b: f(1) };
+}
+
+/**
+ * Apply filters in a fixed order: hue mask → brightness/contrast →
+ * grayscale → invert → threshold. Alpha is preserved.
+ *
+ * @param src - Source raster (not modified)
+ * @param f - Filter settings
+ * @returns New raster with filtered pixels
+ */
+export function applyImageFilters(src: Raster, f: ImageFilters): Raster {
+  const data = new Uint8ClampedArray(src.data);
+  const bright = (f.brightness / 100) * 255;
+  const c = (f.contrast / 100) * 255;
+  const contrast = (259 * (c + 255)) / (255 * (259 - c));
+  for (let o = 0; o < data.length; o += 4) {
+    let r = data[o], g = data[o + 1], b = data[o + 2];
+    if (f.hueKeep) {
+      const { h, s } = hueSat(r, g, b);
+      const dist = Math.min(Math.abs(h - f.hue), 360 - Math.abs(h - f.hue));
+      if (s < MIN_HUE_SATURATION || dist > f.hueWidth) { r = g = b = 255; }
+    }
+    if (bright !== 0 || contrast !== 1) {
+      r = contrast * (r - 128) + 128 + bright;
+      g = contrast * (g - 128) + 128 + bright;
+      b = contrast * (b - 128) + 128 + bright;
+    }
+    if (f.grayscale || f.threshold != null) {
+      const l = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = g = b = l;
+    }
+    if (f.invert) { r = 255 - r; g = 255 - g; b = 255 - b; }
+    if (f.threshold != null) r = g = b = r < f.threshold ? 0 : 255;
+    data[o] = r; data[o + 1] = g; data[o + 2] = b;
+  }
+  return { data, width: src.width, height: src.height };
+}
@@ -0,0 +1,276 @@
+/**
+ * Local projects in IndexedDB
+ * Projects are stored as validated project JSON plus their background images
+ * as blobs. Images are keyed by a SHA-256 of their data URL, so the same
+ * datasheet page shared by several projects (or saved again by the session
+ * autosave) is stored once; images no project refers to are removed after
+ * every save and delete. The record `SESSION_ID` is the crash-recovery copy
+ * of the last session and is not listed among the projects.
+ *
+ * Usage example:
+ * ```ts
+ * const meta = await saveLocalProject({ name: "Fuse 10A", project: serialize(), images: [bgUrls] });
+ * const list = await listLocalProjects();
+ * const open = await loadLocalProject(list[0].id); // { meta, project, images: data URLs per plot }
+ * ```
+ */
+
+export type LocalProjectMeta = {
+  id: string;
+  name: string;
+  created: number;
+  updated: number;
+  bytes: number; // project JSON + its images
+  imageCount: number;
+  plotCount: number;
+  sourceId?: string; // session only: the local project that was open
+};
+
+type ProjectRecord = LocalProjectMeta & {
+  project: unknown;
+  images: (string | null)[][]; // image ids per plot and slot
+};
+
+type ImageRecord = { id: string; blob: Blob };
+
+export const SESSION_ID = "__session__";
+
+const DB_NAME = "log-digitizer";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const IMAGES = "images";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Writes run one at a time, so image cleanup never races a save that reuses an image */
+const serial = <T>(fn: () => Promise<T>): Promise<T> => {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const req = <T>(r: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+
+/** Quota errors get a readable message; everything else passes through */
+const storageError = (e: unknown) =>
+  typeof e === "object" && e !== null && "name" in e && e.name === "QuotaExceededError" ? new Error("브라우저 저장 공간이 부족합니다. 오래된 프로젝트를 삭제하세요") : e instanceof Error ? e : new Error(String(e));
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") { reject(new Error("IndexedDB를 사용할 수 없습니다")); return; }
+      const r = indexedDB.open(DB_NAME, DB_VERSION);
+      r.onupgradeneeded = () => {
+        const db = r.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: "id" });
+      };
+      r.onsuccess = () => resolve(r.result);
+      r.onerror = () => reject(r.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+const hashCache = new Map<string, string>(); // data URL → image id (recent images only)
+
+async function imageId(dataUrl: string): Promise<string> {
+  const hit = hashCache.get(dataUrl);
+  if (hit) return hit;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(dataUrl));
+  const id = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+  if (hashCache.size >= 64) hashCache.delete(hashCache.keys().next().value);
+  hashCache.set(dataUrl, id);
+  return id;
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(String(fr.result));
+    fr.onerror = () => reject(fr.error);
+    fr.readAsDataURL(blob);
+  });
+
+const meta = ({ project, images, ...m }: ProjectRecord): LocalProjectMeta => m;
+
+/** Remove images that no project record refers to */
+async function collectImages(db: IDBDatabase): Promise<void> {
+  const records = await req(db.transaction(PROJECTS).objectStore(PROJECTS).getAll()) as ProjectRecord[];
+  const used = new Set(records.flatMap(r => r.images.flat()).filter(Boolean));
+  const tx = db.transaction(IMAGES, "readwrite"), store = tx.objectStore(IMAGES);
+  const keys = await req(store.getAllKeys());
+  for (const k of keys) if (!used.has(String(k))) store.delete(k);
+  await done(tx);
+}
+
+/**
+ * Saved projects, most recently updated first (the session record excluded).
+ *
+ * @returns Project summaries
+ */
+export async function listLocalProjects(): Promise<LocalProjectMeta[]> {
+  const db = await openDb();
+  const records = await req(db.transaction(PROJECTS).objectStore(PROJECTS).getAll()) as ProjectRecord[];
+  return records.filter(r => r.id !== SESSION_ID).map(meta).sort((a, b) => b.updated - a.updated);
+}
+
+type SaveInput = { id?: string; name: string; project: unknown; images: (string | null)[][]; sourceId?: string };
+
+async function writeProject(input: SaveInput): Promise<LocalProjectMeta> {
+  try {
+    const db = await openDb();
+    const ids = await Promise.all(input.images.map(slots => Promise.all(slots.map(u => (typeof u === "string" && u.startsWith("data:") ? imageId(u) : null)))));
+    /* only blobs the store does not have yet are converted and written */
+    const have = new Set((await req(db.transaction(IMAGES).objectStore(IMAGES).getAllKeys())).map(String));
+    const sizes = new Map<string, number>();
+    const fresh: ImageRecord[] = [];
+    for (let p = 0; p < ids.length; p++) {
+      for (let s = 0; s < ids[p].length; s++) {
+        const id = ids[p][s];
+        if (!id || sizes.has(id)) continue;
+        const url = input.images[p][s] as string;
+        sizes.set(id, Math.round(url.length * 0.75)); // base64 payload ≈ blob size
+        if (!have.has(id)) fresh.push({ id, blob: await (await fetch(url)).blob() });
+      }
+    }
+    const now = Date.now();
+    const store = db.transaction(PROJECTS).objectStore(PROJECTS);
+    const prev = input.id ? (await req(store.get(input.id)) as ProjectRecord | undefined) : undefined;
+    const json = JSON.stringify(input.project);
+    const record: ProjectRecord = {
+      id: input.id ?? `p${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: input.name.trim() || "Untitled",
+      created: prev?.created ?? now,
+      updated: now,
+      bytes: json.length + [...sizes.values()].reduce((a, b) => a + b, 0),
+      imageCount: sizes.size,
+      plotCount: ids.length,
+      sourceId: input.sourceId,
+      project: input.project,
+      images: ids,
+    };
+    const tx = db.transaction([PROJECTS, IMAGES], "readwrite");
+    for (const img of fresh) tx.objectStore(IMAGES).put(img);
+    tx.objectStore(PROJECTS).put(record);
+    await done(tx);
+    await collectImages(db);
+    return meta(record);
+  } catch (e) {
+    throw storageError(e);
+  }
+}
+
+/**
+ * Create or overwrite a project with its images.
+ *
+ * @param input - `id` to overwrite (new id when missing), name, project JSON and data URLs per plot/slot
+ * @returns Stored summary
+ * @throws Error with a readable message when the browser storage is full
+ */
+export function saveLocalProject(input: SaveInput): Promise<LocalProjectMeta> {
+  return serial(() => writeProject(input));
+}
+
+/**
+ * Read a project with its images.
+ *
+ * @param id - Project id (or SESSION_ID)
+ * @returns Summary, project JSON and image data URLs per plot/slot, or null when missing
+ */
+export async function loadLocalProject(id: string): Promise<{ meta: LocalProjectMeta; project: unknown; images: (string | null)[][] } | null> {
+  const db = await openDb();
+  const record = await req(db.transaction(PROJECTS).objectStore(PROJECTS).get(id)) as ProjectRecord | undefined;
+  if (!record) return null;
+  const imgStore = db.transaction(IMAGES).objectStore(IMAGES);
+  const blobs = new Map<string, Blob | null>();
+  for (const imgId of new Set(record.images.flat().filter(Boolean) as string[])) {
+    blobs.set(imgId, ((await req(imgStore.get(imgId))) as ImageRecord | undefined)?.blob ?? null);
+  }
+  const urls = new Map<string, string | null>();
+  for (const [k, blob] of blobs) {
+    const url = blob ? await blobToDataUrl(blob) : null;
+    if (url) hashCache.set(url, k);
+    urls.set(k, url);
+  }
+  return { meta: meta(record), project: record.project, images: record.images.map(slots => slots.map(k => (k ? urls.get(k) ?? null : null))) };
+}
+
+/**
+ * Rename a project.
+ *
+ * @param id - Project id
+ * @param name - New name
+ */
+export async function renameLocalProject(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, "readwrite"), store = tx.objectStore(PROJECTS);
+  const record = await req(store.get(id)) as ProjectRecord | undefined;
+  if (record) store.put({ ...record, name: name.trim() || record.name, updated: Date.now() });
+  await done(tx);
+}
+
+/**
+ * Copy a project (images are shared, not duplicated).
+ *
+ * @param id - Project id
+ * @param name - Name of the copy
+ * @returns Summary of the copy, or null when the source is missing
+ */
+export async function duplicateLocalProject(id: string, name: string): Promise<LocalProjectMeta | null> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(PROJECTS, "readwrite"), store = tx.objectStore(PROJECTS);
+    const record = await req(store.get(id)) as ProjectRecord | undefined;
+    if (!record) return null;
+    const now = Date.now();
+    const copy: ProjectRecord = { ...record, id: `p${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`, name, created: now, updated: now, sourceId: undefined };
+    store.put(copy);
+    await done(tx);
+    return meta(copy);
+  } catch (e) {
+    throw storageError(e);
+  }
+}
+
+/**
+ * Delete a project and the images only it used.
+ *
+ * @param id - Project id
+ */
+export function deleteLocalProject(id: string): Promise<void> {
+  return serial(async () => {
+    const db = await openDb();
+    const tx = db.transaction(PROJECTS, "readwrite");
+    tx.objectStore(PROJECTS).delete(id);
+    await done(tx);
+    await collectImages(db);
+  });
+}
+
+/**
+ * Browser storage usage for this origin.
+ *
+ * @returns Used and available bytes, or null when the browser does not report them
+ */
+export async function localStorageUsage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const est = await navigator.storage?.estimate?.();
+    return est && Number.isFinite(est.usage) && Number.isFinite(est.quota) ? { usage: est.usage!, quota: est.quota! } : null;
+  } catch {
+    return null;
+  }
+}
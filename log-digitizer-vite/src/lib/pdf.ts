@@ -0,0 +1,172 @@
+/**
+ * In-browser PDF page rendering for background slots (pdf.js, no server)
+ * pdf.js is loaded on first use so the main bundle stays small.
+ *
+ * Usage example:
+ * ```ts
+ * const doc = await openPdf(await file.arrayBuffer());
+ * const thumb = await renderPdfPage(doc, 1, { dpi: 72, maxSize: 160 });
+ * const page = await renderPdfPage(doc, 3, { dpi: 200, crop: { x: 0.1, y: 0.2, w: 0.5, h: 0.4 } });
+ * loadImageFromSrc(slot, page.url);
+ * const vectors = await extractPdfPaths(doc, 3); // stroked/filled paths in page units
+ * ```
+ */
+
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { type Affine, type VecPt, type VectorPage, type VectorPath, composeAffine, applyAffine, cubicPoints, pathBBox } from "./vectorPaths";
+
+export type { PDFDocumentProxy };
+
+/** Crop rectangle as fractions of the page (0..1, origin top-left). */
+export type PdfCrop = { x: number; y: number; w: number; h: number };
+
+/** Slot metadata for an image rendered from a PDF page. */
+export type PdfSource = { kind: "pdf"; fileName: string; page: number; dpi: number; crop: PdfCrop | null };
+
+export type RenderedPage = { url: string; width: number; height: number; dpi: number };
+
+const MAX_PIXELS = 36e6; // keep canvases well under browser limits
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+const pdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist").then(m => {
+      m.GlobalWorkerOptions.workerSrc = workerUrl;
+      return m;
+    });
+  }
+  return pdfjsPromise;
+};
+
+/**
+ * Open a PDF from its bytes.
+ *
+ * @param data - File contents
+ * @returns pdf.js document (call `destroy()` when done)
+ */
+export async function openPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const lib = await pdfjs();
+  return lib.getDocument({ data: new Uint8Array(data) }).promise;
+}
+
+/**
+ * Render one page (optionally cropped) to a PNG data URL.
+ * The resolution is `dpi`, reduced when the result would exceed `maxSize`
+ * pixels on its longer side or the overall pixel budget.
+ *
+ * @param doc - Open document
+ * @param pageNumber - 1-based page number
+ * @param options - Resolution, crop and size cap
+ * @returns Data URL, pixel size and the DPI actually used
+ */
+export async function renderPdfPage(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  options: { dpi: number; crop?: PdfCrop | null; maxSize?: number }
+): Promise<RenderedPage> {
+  const page = await doc.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 }); // 72 dpi
+  const crop = options.crop ?? { x: 0, y: 0, w: 1, h: 1 };
+  const cw = base.width * crop.w, ch = base.height * crop.h;
+  let scale = options.dpi / 72;
+  if (options.maxSize) scale = Math.min(scale, options.maxSize / Math.max(cw, ch));
+  scale = Math.min(scale, Math.sqrt(MAX_PIXELS / Math.max(1, cw * ch)));
+  const viewport = page.getViewport({ scale, offsetX: -crop.x * base.width * scale, offsetY: -crop.y * base.height * scale });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(cw * scale));
+  canvas.height = Math.max(1, Math.round(ch * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+  return { url: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height, dpi: Math.round(scale * 72) };
+}
+
+/**
+ * Collect the vector paths painted on a page from its operator list, in
+ * viewport units at 72 dpi (y down, same frame as `renderPdfPage` at dpi 72).
+ * Text glyphs and images are not included.
+ *
+ * @param doc - Open document
+ * @param pageNumber - 1-based page number
+ * @returns Page size and flattened paths with stroke/fill colors
+ */
+export async function extractPdfPaths(doc: PDFDocumentProxy, pageNumber: number): Promise<VectorPage> {
+  const { OPS } = await pdfjs();
+  const page = await doc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const list = await page.getOperatorList();
+  type GState = { ctm: Affine; stroke: string; fill: string; width: number };
+  let g: GState = { ctm: viewport.transform as Affine, stroke: "#000000", fill: "#000000", width: 1 };
+  const stack: GState[] = [];
+  const paths: VectorPath[] = [];
+  let pending: VecPt[][] = [];
+  const hex = (c: ArrayLike<number>) => "#" + Array.from(c).slice(0, 3).map(v => Math.round(v).toString(16).padStart(2, "0")).join("");
+  const emit = (stroke: boolean, fill: boolean) => {
+    const subpaths = pending.filter(sp => sp.length >= 2);
+    pending = [];
+    if (!subpaths.length) return;
+    const scale = Math.sqrt(Math.abs(g.ctm[0] * g.ctm[3] - g.ctm[1] * g.ctm[2])) || 1;
+    paths.push({ id: paths.length, subpaths, stroke: stroke ? g.stroke : null, fill: fill ? g.fill : null, width: Math.max(g.width, 0.5) * scale, bbox: pathBBox(subpaths) });
+  };
+  for (let i = 0; i < list.fnArray.length; i++) {
+    const args = list.argsArray[i];
+    switch (list.fnArray[i]) {
+      case OPS.save: stack.push({ ...g }); break;
+      case OPS.restore: g = stack.pop() ?? g; break;
+      case OPS.transform: g = { ...g, ctm: composeAffine(g.ctm, args as Affine) }; break;
+      case OPS.paintFormXObjectBegin:
+        stack.push({ ...g });
+        if (Array.isArray(args[0]) || ArrayBuffer.isView(args[0])) g = { ...g, ctm: composeAffine(g.ctm, Array.from(args[0] as ArrayLike<number>) as Affine) };
+        break;
+      case OPS.paintFormXObjectEnd: g = stack.pop() ?? g; break;
+      case OPS.setLineWidth: g = { ...g, width: Number(args[0]) || 0 }; break;
+      case OPS.setGState:
+        for (const [key, value] of args[0] ?? []) if (key === "LW") g = { ...g, width: Number(value) || 0 };
+        break;
+      case OPS.setStrokeRGBColor: g = { ...g, stroke: hex(args) }; break;
+      case OPS.setFillRGBColor: g = { ...g, fill: hex(args) }; break;
+      case OPS.constructPath: {
+        const [ops, coords] = args as [number[], number[]];
+        const tp = (x: number, y: number) => applyAffine(g.ctm, { x, y });
+        let cur: VecPt[] | null = null, last = { x: 0, y: 0 }, start = { x: 0, y: 0 }, j = 0;
+        const open = () => { if (!cur) { cur = [tp(last.x, last.y)]; pending.push(cur); } return cur; };
+        for (const op of ops) {
+          if (op === OPS.moveTo) {
+            last = start = { x: coords[j++], y: coords[j++] };
+            cur = [tp(last.x, last.y)]; pending.push(cur);
+          } else if (op === OPS.lineTo) {
+            const sp = open();
+            last = { x: coords[j++], y: coords[j++] };
+            sp.push(tp(last.x, last.y));
+          } else if (op === OPS.curveTo || op === OPS.curveTo2 || op === OPS.curveTo3) {
+            let c1: VecPt, c2: VecPt, end: VecPt;
+            if (op === OPS.curveTo) { c1 = { x: coords[j], y: coords[j + 1] }; c2 = { x: coords[j + 2], y: coords[j + 3] }; end = { x: coords[j + 4], y: coords[j + 5] }; j += 6; }
+            else if (op === OPS.curveTo2) { c1 = last; c2 = { x: coords[j], y: coords[j + 1] }; end = { x: coords[j + 2], y: coords[j + 3] }; j += 4; }
+            else { c1 = { x: coords[j], y: coords[j + 1] }; end = { x: coords[j + 2], y: coords[j + 3] }; c2 = end; j += 4; }
+            const sp = open();
+            for (const q of cubicPoints(last, c1, c2, end)) sp.push(tp(q.x, q.y));
+            last = end;
+          } else if (op === OPS.rectangle) {
+            const x = coords[j++], y = coords[j++], w = coords[j++], h = coords[j++];
+            pending.push([tp(x, y), tp(x + w, y), tp(x + w, y + h), tp(x, y + h), tp(x, y)]);
+            cur = null; last = start = { x, y };
+          } else if (op === OPS.closePath) {
+            if (cur?.length) cur.push(tp(start.x, start.y));
+            cur = null; last = start;
+          }
+        }
+        break;
+      }
+      case OPS.stroke: case OPS.closeStroke: emit(true, false); break;
+      case OPS.fill: case OPS.eoFill: emit(false, true); break;
+      case OPS.fillStroke: case OPS.eoFillStroke: case OPS.closeFillStroke: case OPS.closeEOFillStroke: emit(true, true); break;
+      case OPS.endPath: pending = []; break;
+    }
+  }
+  page.cleanup();
+  return { width: viewport.width, height: viewport.height, paths };
+}
@@ -0,0 +1,387 @@
+/**
+ * Versioned project (preset) file schema
+ * Everything that reaches the app from a preset file, a `#s=` share URL or
+ * the localStorage autosave goes through `parseProject`: older shapes are
+ * migrated step by step to the current version, then every field is
+ * checked and rebuilt from a whitelist. Invalid entries are dropped and
+ * reported; input that cannot be a project at all throws.
+ *
+ * Versions:
+ * - 1 (no `v`): single `calibration` for slot A, `bg.showAB` / `bg.opacityAB`
+ * - 2: `calibrationByBg`, `bg.showBgs` / `bg.opacityBgs`, symmetric `tolerancePercent`
+ * - 3: per-series `toleranceBand`, strict validation; optional `workspace` with
+ *   further plots (each a nested v3 project, the active one is the top level)
+ *
+ * Usage example:
+ * ```ts
+ * try {
+ *   const { project, dropped } = parseProject(JSON.parse(text));
+ *   apply(project);
+ *   if (dropped.length) console.warn(dropped);
+ * } catch (e) {
+ *   notify(`Invalid preset: ${e.message}`, "err");
+ * }
+ * ```
+ */
+
+import { type ImageFilters, normalizeImageFilters } from "./imageFilters";
+import { type ToleranceBand, normalizeToleranceBand } from "./toleranceBand";
+import { type CurveModel, CURVE_MODEL_LABELS } from "./curveModels";
+import { type ConsensusStats } from "./consensus";
+import { type AxisUnits, normalizeAxisUnits } from "./units";
+import { getAxisTransform, resolveAxisScale } from "./axisScales";
+
+export const PROJECT_VERSION = 3;
+
+/** Limits that keep a hostile file from exhausting memory */
+export const PROJECT_LIMITS = { slots: 20, series: 20, points: 50000, guides: 200, refs: 64, text: 500, plots: 8 };
+
+export type ProjectPt = { x: number; y: number };
+export type ProjectCalPixel = { px: number; py: number } | null;
+
+export type ProjectSeries = {
+  name?: string;
+  color?: string;
+  points: ProjectPt[];
+  basePoints?: ProjectPt[];
+  shiftMultiplier?: number;
+  visible: boolean;
+  crossLines: boolean;
+  toleranceBand?: ToleranceBand;
+  model?: CurveModel;
+  consensus?: ConsensusStats & { sources?: string[] };
+  units?: AxisUnits; // units the data came in (points are stored in axis units)
+  specs: Record<string, string>;
+};
+
+export type ProjectCalibration = {
+  enabled: boolean[];
+  clip: boolean[];
+  pixels: { x1: ProjectCalPixel; x2: ProjectCalPixel; y1: ProjectCalPixel; y2: ProjectCalPixel }[];
+  values: { x1: string; x2: string; y1: string; y2: string }[];
+  mode: ("axes" | "perspective")[];
+  refs: { px: number; py: number; x: string; y: string }[][];
+  ticks: { x: { px: number; py: number; value: string }[]; y: { px: number; py: number; value: string }[] }[];
+};
+
+export type Project = {
+  v: typeof PROJECT_VERSION;
+  axes?: { xMin: number; xMax: number; yMin: number; yMax: number; xLog: boolean; yLog: boolean; xScale?: string; yScale?: string; units: AxisUnits };
+  series?: ProjectSeries[];
+  bg?: {
+    xform: ({ sx: number; sy: number; offX: number; offY: number } | null)[];
+    customAnchors: ({ ax: number; ay: number; fx: number; fy: number } | null)[];
+    activeBg?: number;
+    keepAspect?: boolean;
+    showBgs: (boolean | null)[];
+    opacityBgs: (number | null)[];
+    filtersByBg: ImageFilters[];
+  };
+  guidesX?: number[];
+  guidesY?: number[];
+  cross?: { fromX: boolean; fromY: boolean };
+  i2t?: { mode?: "I_mode" | "I2t_mode"; cycles?: number[]; multipliers?: number[]; ratios?: number[] };
+  minBreakCurrents?: (number | null)[];
+  calibrationByBg?: ProjectCalibration;
+  ui?: { showIntersectionMarkers: boolean };
+  workspace?: ProjectWorkspace;
+};
+
+/** Several plots in one file; `project` is null for the active plot (stored at the top level) */
+export type ProjectWorkspace = { active: number; plots: { name: string; project: Project | null }[] };
+
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const num = (v: unknown): number | null => (typeof v === "number" || (typeof v === "string" && v.trim() !== "")) && Number.isFinite(Number(v)) ? Number(v) : null;
+const str = (v: unknown): string => (typeof v === "string" || typeof v === "number" ? String(v).slice(0, PROJECT_LIMITS.text) : "");
+const bool = (v: unknown, dflt: boolean): boolean => (typeof v === "boolean" ? v : dflt);
+const COLOR_RE = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla)\([-\d.%,\s]+\))$/i;
+
+/* ---------- migrations ---------- */
+
+/** v1 → v2: slot-A calibration and two-slot background arrays */
+function migrateV1(p: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...p, v: 2 };
+  if (!p.calibrationByBg && isObj(p.calibration)) {
+    out.calibrationByBg = {
+      enabled: [!!p.calibration.enabled],
+      clip: [false],
+      pixels: [p.calibration.pixels ?? null],
+      values: [p.calibration.values ?? null],
+    };
+  }
+  delete out.calibration;
+  if (isObj(p.bg)) {
+    const { showAB, opacityAB, ...bg } = p.bg;
+    out.bg = { ...bg, showBgs: bg.showBgs ?? showAB, opacityBgs: bg.opacityBgs ?? opacityAB };
+  }
+  return out;
+}
+
+/** v2 → v3: symmetric `tolerancePercent` becomes a `toleranceBand` */
+function migrateV2(p: Record<string, unknown>): Record<string, unknown> {
+  const series = Array.isArray(p.series)
+    ? p.series.map(s => {
+        if (!isObj(s)) return s;
+        const { tolerancePercent, ...rest } = s;
+        return { ...rest, toleranceBand: s.toleranceBand ?? normalizeToleranceBand(null, tolerancePercent) ?? undefined };
+      })
+    : p.series;
+  return { ...p, v: 3, series };
+}
+
+const MIGRATIONS: Record<number, (p: Record<string, unknown>) => Record<string, unknown>> = { 1: migrateV1, 2: migrateV2 };
+
+/* ---------- validation ---------- */
+
+function points(raw: unknown, where: string, dropped: string[]): ProjectPt[] {
+  if (!Array.isArray(raw)) { dropped.push(`${where}: 점 배열이 아님`); return []; }
+  const out: ProjectPt[] = [];
+  let bad = 0;
+  for (const p of raw.slice(0, PROJECT_LIMITS.points)) {
+    const x = isObj(p) ? num(p.x) : null, y = isObj(p) ? num(p.y) : null;
+    if (x == null || y == null) bad++;
+    else out.push({ x, y });
+  }
+  if (bad) dropped.push(`${where}: 잘못된 점 ${bad}개`);
+  if (raw.length > PROJECT_LIMITS.points) dropped.push(`${where}: ${PROJECT_LIMITS.points}점 초과분 ${raw.length - PROJECT_LIMITS.points}개`);
+  return out;
+}
+
+const own = (o: object, k: unknown) => typeof k === "string" && Object.prototype.hasOwnProperty.call(o, k);
+const numFields = <K extends string>(raw: unknown, keys: readonly K[]): Record<K, number> | null => {
+  if (!isObj(raw)) return null;
+  const out = {} as Record<K, number>;
+  for (const k of keys) {
+    const v = own(raw, k) && typeof raw[k] === "number" && Number.isFinite(raw[k]) ? (raw[k] as number) : null;
+    if (v == null) return null;
+    out[k] = v;
+  }
+  return out;
+};
+const numRecords = <K extends string>(raw: unknown, keys: readonly K[], min: number): Record<K, number>[] | null => {
+  if (!Array.isArray(raw) || raw.length < min || raw.length > PROJECT_LIMITS.points) return null;
+  const out = raw.map(r => numFields(r, keys));
+  return out.every(r => r != null) ? out : null;
+};
+
+/** Stored fits are rebuilt field by field so `evaluateCurveModel` never sees a malformed model */
+function curveModel(raw: unknown): CurveModel | undefined {
+  if (!isObj(raw) || !own(CURVE_MODEL_LABELS, raw.kind) || typeof raw.signature !== "string") return undefined;
+  const fit = numFields(raw, ["rmsDecades", "maxPct"] as const);
+  const domain = numRecords(Array.isArray(raw.domain) ? raw.domain.map(v => ({ v })) : null, ["v"] as const, 2);
+  const perDecade = numRecords(raw.perDecade, ["decade", "n", "rmsDecades", "maxPct"] as const, 0);
+  if (!fit || !domain || domain.length !== 2 || !perDecade) return undefined;
+  const base = { domain: [domain[0].v, domain[1].v] as [number, number], ...fit, perDecade, signature: raw.signature };
+  if (raw.kind === "thermal") {
+    const c = numFields(raw, ["i2t", "tau"] as const);
+    return c && c.i2t > 0 && c.tau > 0 ? { kind: "thermal", ...c, ...base } : undefined;
+  }
+  if (raw.kind === "powerlaw") {
+    const segments = numRecords(raw.segments, ["from", "to", "a", "b"] as const, 1);
+    return segments ? { kind: "powerlaw", segments, ...base } : undefined;
+  }
+  const knots = numRecords(raw.knots, ["lx", "ly", "m"] as const, 2);
+  return knots ? { kind: "spline", knots, ...base } : undefined;
+}
+
+function consensus(raw: unknown, where: string, dropped: string[]): ProjectSeries["consensus"] {
+  if (raw == null) return undefined;
+  if (!isObj(raw) || num(raw.rmsPct) == null || num(raw.maxPct) == null) { dropped.push(`${where}: consensus 정보`); return undefined; }
+  return {
+    members: num(raw.members) ?? 0,
+    samples: num(raw.samples) ?? 0,
+    rmsPct: num(raw.rmsPct)!,
+    maxPct: num(raw.maxPct)!,
+    lower: points(raw.lower ?? [], `${where} consensus`, dropped),
+    upper: points(raw.upper ?? [], `${where} consensus`, dropped),
+    sources: Array.isArray(raw.sources) ? raw.sources.slice(0, PROJECT_LIMITS.series).map(str) : undefined,
+  };
+}
+
+function series(raw: unknown, i: number, dropped: string[]): ProjectSeries | null {
+  const where = `series[${i}]`;
+  if (!isObj(raw)) { dropped.push(`${where}: 객체가 아님`); return null; }
+  const color = typeof raw.color === "string" && COLOR_RE.test(raw.color.trim()) ? raw.color.trim() : undefined;
+  if (raw.color != null && !color) dropped.push(`${where}: 색상 "${str(raw.color)}"`);
+  const model = curveModel(raw.model);
+  if (raw.model != null && !model) dropped.push(`${where}: 곡선 모델`);
+  const shift = num(raw.shiftMultiplier);
+  const specs: Record<string, string> = {};
+  if (isObj(raw.specs)) for (const [k, v] of Object.entries(raw.specs)) if (/^[a-zA-Z]{1,40}$/.test(k)) specs[k] = str(v);
+  return {
+    name: raw.name != null ? str(raw.name) : undefined,
+    color,
+    points: points(raw.points ?? [], where, dropped),
+    basePoints: Array.isArray(raw.basePoints) ? points(raw.basePoints, `${where} base`, dropped) : undefined,
+    shiftMultiplier: shift != null && shift > 0 ? shift : undefined,
+    visible: raw.visible !== false,
+    crossLines: raw.crossLines !== false,
+    toleranceBand: normalizeToleranceBand(raw.toleranceBand) ?? undefined,
+    model,
+    consensus: consensus(raw.consensus, where, dropped),
+    units: raw.units != null ? normalizeAxisUnits(raw.units) : undefined,
+    specs,
+  };
+}
+
+const numList = (raw: unknown, where: string, dropped: string[], ok: (v: number) => boolean = () => true): number[] | undefined => {
+  if (raw == null) return undefined;
+  if (!Array.isArray(raw)) { dropped.push(`${where}: 배열이 아님`); return undefined; }
+  const out = raw.slice(0, PROJECT_LIMITS.guides).map(num).filter((v): v is number => v != null && ok(v));
+  if (out.length !== raw.length) dropped.push(`${where}: ${raw.length - out.length}개 값`);
+  return out;
+};
+
+const calPixel = (v: unknown): ProjectCalPixel => (isObj(v) && num(v.px) != null && num(v.py) != null ? { px: num(v.px)!, py: num(v.py)! } : null);
+
+function calibration(raw: unknown, dropped: string[]): ProjectCalibration | undefined {
+  if (raw == null) return undefined;
+  if (!isObj(raw)) { dropped.push("calibrationByBg: 객체가 아님"); return undefined; }
+  const n = PROJECT_LIMITS.slots;
+  const at = (key: string, i: number) => (Array.isArray(raw[key]) ? raw[key][i] : undefined);
+  const tickList = (a: unknown) => (Array.isArray(a) ? a.slice(0, PROJECT_LIMITS.refs).filter(q => calPixel(q)).map(q => ({ ...calPixel(q)!, value: str(q.value) })) : []);
+  return {
+    enabled: Array.from({ length: n }, (_, i) => !!at("enabled", i)),
+    clip: Array.from({ length: n }, (_, i) => !!at("clip", i)),
+    pixels: Array.from({ length: n }, (_, i) => {
+      const p = at("pixels", i);
+      return { x1: calPixel(p?.x1), x2: calPixel(p?.x2), y1: calPixel(p?.y1), y2: calPixel(p?.y2) };
+    }),
+    values: Array.from({ length: n }, (_, i) => {
+      const v = at("values", i);
+      return { x1: str(v?.x1), x2: str(v?.x2), y1: str(v?.y1), y2: str(v?.y2) };
+    }),
+    mode: Array.from({ length: n }, (_, i) => (at("mode", i) === "perspective" ? "perspective" : "axes")),
+    refs: Array.from({ length: n }, (_, i) => {
+      const r = at("refs", i);
+      return Array.isArray(r) ? r.slice(0, PROJECT_LIMITS.refs).filter(q => calPixel(q)).map(q => ({ ...calPixel(q)!, x: str(q.x), y: str(q.y) })) : [];
+    }),
+    ticks: Array.from({ length: n }, (_, i) => {
+      const t = at("ticks", i);
+      return { x: tickList(t?.x), y: tickList(t?.y) };
+    }),
+  };
+}
+
+function axes(raw: unknown): Project["axes"] {
+  if (raw == null) return undefined;
+  if (!isObj(raw)) throw new Error("axes가 객체가 아닙니다");
+  const xMin = num(raw.xMin ?? 10), xMax = num(raw.xMax ?? 1000000), yMin = num(raw.yMin ?? 0.0001), yMax = num(raw.yMax ?? 1000000);
+  if (xMin == null || xMax == null || yMin == null || yMax == null) throw new Error("축 범위가 숫자가 아닙니다");
+  if (xMin === xMax || yMin === yMax) throw new Error("축 Min과 Max가 같습니다");
+  const xScale = resolveAxisScale(raw.xScale, raw.xLog), yScale = resolveAxisScale(raw.yScale, raw.yLog);
+  const xLog = xScale === "log10", yLog = yScale === "log10";
+  if ((xLog && (xMin <= 0 || xMax <= 0)) || (yLog && (yMin <= 0 || yMax <= 0))) throw new Error("로그 축 범위에 0 이하 값이 있습니다");
+  const xt = getAxisTransform(xScale), yt = getAxisTransform(yScale);
+  if (![xMin, xMax].every(xt.valid) || ![yMin, yMax].every(yt.valid)) throw new Error(`축 범위가 축 스케일(${xt.label} / ${yt.label}) 범위 밖입니다`);
+  return { xMin, xMax, yMin, yMax, xLog, yLog, xScale, yScale, units: normalizeAxisUnits(raw.units) };
+}
+
+function background(raw: unknown, dropped: string[]): Project["bg"] {
+  if (raw == null) return undefined;
+  if (!isObj(raw)) { dropped.push("bg: 객체가 아님"); return undefined; }
+  const n = PROJECT_LIMITS.slots;
+  const at = (key: string, i: number) => (Array.isArray(raw[key]) ? raw[key][i] : undefined);
+  const activeBg = num(raw.activeBg);
+  return {
+    xform: Array.from({ length: n }, (_, i) => {
+      const x = at("xform", i);
+      if (x == null) return null;
+      const sx = num(x.sx), sy = num(x.sy), offX = num(x.offX), offY = num(x.offY);
+      if (sx == null || sy == null || offX == null || offY == null || !sx || !sy) { dropped.push(`bg.xform[${i}]`); return null; }
+      return { sx, sy, offX, offY };
+    }),
+    customAnchors: Array.from({ length: n }, (_, i) => {
+      const a = at("customAnchors", i);
+      if (a == null) return null;
+      const ax = num(a.ax), ay = num(a.ay), fx = num(a.fx), fy = num(a.fy);
+      if (ax == null || ay == null || fx == null || fy == null) { dropped.push(`bg.customAnchors[${i}]`); return null; }
+      return { ax, ay, fx, fy };
+    }),
+    activeBg: activeBg != null && Number.isInteger(activeBg) && activeBg >= 0 && activeBg < n ? activeBg : undefined,
+    keepAspect: typeof raw.keepAspect === "boolean" ? raw.keepAspect : undefined,
+    showBgs: Array.from({ length: n }, (_, i) => (typeof at("showBgs", i) === "boolean" ? at("showBgs", i) : null)),
+    opacityBgs: Array.from({ length: n }, (_, i) => {
+      const o = num(at("opacityBgs", i));
+      return o != null && o >= 0 && o <= 1 ? o : null;
+    }),
+    filtersByBg: Array.from({ length: n }, (_, i) => normalizeImageFilters(at("filtersByBg", i))),
+  };
+}
+
+function workspace(raw: unknown, dropped: string[]): ProjectWorkspace | undefined {
+  if (raw == null) return undefined;
+  const active = isObj(raw) ? num(raw.active) : null;
+  if (!isObj(raw) || !Array.isArray(raw.plots) || active == null || !Number.isInteger(active) || active < 0 || active >= Math.min(raw.plots.length, PROJECT_LIMITS.plots)) {
+    dropped.push("workspace: 플롯 목록이 잘못됨 (현재 플롯만 불러옴)");
+    return undefined;
+  }
+  if (raw.plots.length > PROJECT_LIMITS.plots) dropped.push(`workspace: ${PROJECT_LIMITS.plots}개 초과 플롯 ${raw.plots.length - PROJECT_LIMITS.plots}개`);
+  const plots: ProjectWorkspace["plots"] = [];
+  let activeOut = 0;
+  raw.plots.slice(0, PROJECT_LIMITS.plots).forEach((pl, i) => {
+    const name = str(pl?.name).trim() || `Plot ${i + 1}`;
+    if (i === active) { activeOut = plots.length; plots.push({ name, project: null }); return; }
+    try {
+      const nested = parseProject(pl?.project, true);
+      nested.dropped.forEach(d => dropped.push(`${name} › ${d}`));
+      plots.push({ name, project: nested.project });
+    } catch (e) {
+      dropped.push(`플롯 "${name}": ${(e as Error).message}`);
+    }
+  });
+  return { active: activeOut, plots };
+}
+
+/**
+ * Migrate and validate any project-like JSON value.
+ *
+ * @param raw - Parsed JSON from a file, share URL or autosave
+ * @param nested - Parsing a plot inside a workspace (its own `workspace` is ignored)
+ * @returns The current-version project and a list of what was dropped
+ * @throws Error with a readable message when the input cannot be applied safely
+ */
+export function parseProject(raw: unknown, nested = false): { project: Project; dropped: string[]; migratedFrom: number } {
+  if (!isObj(raw)) throw new Error("프로젝트 파일이 JSON 객체가 아닙니다");
+  const from = raw.v == null ? 1 : num(raw.v);
+  if (from == null || !Number.isInteger(from) || from < 1) throw new Error(`알 수 없는 버전 "${str(raw.v)}"`);
+  if (from > PROJECT_VERSION) throw new Error(`더 새로운 버전(v${from})의 파일입니다. 앱을 업데이트하세요`);
+  let p: Record<string, unknown> = raw;
+  for (let v = from; v < PROJECT_VERSION; v++) p = MIGRATIONS[v](p);
+
+  const dropped: string[] = [];
+  if (p.series != null && !Array.isArray(p.series)) throw new Error("series가 배열이 아닙니다");
+  if (Array.isArray(p.series) && p.series.length > PROJECT_LIMITS.series) dropped.push(`series: ${PROJECT_LIMITS.series}개 초과분 ${p.series.length - PROJECT_LIMITS.series}개`);
+  const seriesOut = Array.isArray(p.series)
+    ? p.series.slice(0, PROJECT_LIMITS.series).map((s, i) => series(s, i, dropped)).filter((s): s is ProjectSeries => !!s)
+    : undefined;
+  if (seriesOut && Array.isArray(p.series) && p.series.length && !seriesOut.length) throw new Error("사용할 수 있는 시리즈가 없습니다");
+
+  const i2t = isObj(p.i2t)
+    ? {
+        mode: p.i2t.mode === "I_mode" || p.i2t.mode === "I2t_mode" ? (p.i2t.mode as "I_mode" | "I2t_mode") : undefined,
+        cycles: numList(p.i2t.cycles, "i2t.cycles", dropped, v => v > 0),
+        multipliers: numList(p.i2t.multipliers, "i2t.multipliers", dropped, v => v > 0),
+        ratios: numList(p.i2t.ratios, "i2t.ratios", dropped, v => v > 0),
+      }
+    : undefined;
+  const minBreak = Array.isArray(p.minBreakCurrents)
+    ? p.minBreakCurrents.slice(0, PROJECT_LIMITS.series).map(v => { const n = num(v); return n != null && n > 0 ? n : null; })
+    : undefined;
+
+  const project: Project = {
+    v: PROJECT_VERSION,
+    axes: axes(p.axes),
+    series: seriesOut,
+    bg: background(p.bg, dropped),
+    guidesX: numList(p.guidesX, "guidesX", dropped),
+    guidesY: numList(p.guidesY, "guidesY", dropped),
+    cross: isObj(p.cross) ? { fromX: bool(p.cross.fromX, true), fromY: bool(p.cross.fromY, true) } : undefined,
+    i2t,
+    minBreakCurrents: minBreak,
+    calibrationByBg: calibration(p.calibrationByBg, dropped),
+    ui: isObj(p.ui) ? { showIntersectionMarkers: p.ui.showIntersectionMarkers !== false } : undefined,
+    workspace: nested ? undefined : workspace(p.workspace, dropped),
+  };
+  return { project, dropped, migratedFrom: from };
+}
@@ -0,0 +1,125 @@
+/**
+ * Resampling and decimation of digitized series in axis space
+ * Log axes are handled in log10 units, so spacing and tolerances are in
+ * decades and match the piecewise-linear interpolation used for guides.
+ *
+ * Usage example:
+ * ```ts
+ * const axes = { xLog: true, yLog: true };
+ * const even = resampleEvenX(series.points, 40, axes);     // 40 points, even in log10(x)
+ * const thin = decimatePolyline(series.points, 0.01, axes); // drop points within 0.01 decade of the line
+ * const t = interpolateYAtX(series.points, 250, axes);      // same rule as the guide readout
+ * ```
+ */
+
+export type XY = { x: number; y: number };
+export type AxisScales = { xLog: boolean; yLog: boolean };
+
+const EPS = 1e-12;
+
+const fwd = (v: number, log: boolean) => (log ? Math.log10(Math.max(EPS, v)) : v);
+const inv = (v: number, log: boolean) => (log ? Math.pow(10, v) : v);
+
+/**
+ * Y on a polyline at a given x: the first segment (in point order) that
+ * brackets x is interpolated linearly in axis space.
+ *
+ * @param pts - Series points
+ * @param xTarget - X in data units
+ * @param axes - Axis scales
+ * @returns Y in data units, or null outside the series
+ */
+export function interpolateYAtX(pts: XY[], xTarget: number, axes: AxisScales): number | null {
+  if (!pts || pts.length < 2) return null;
+  const xT = fwd(xTarget, axes.xLog);
+  for (let i = 0; i < pts.length - 1; i++) {
+    const p1 = pts[i], p2 = pts[i + 1], x1 = fwd(p1.x, axes.xLog), x2 = fwd(p2.x, axes.xLog);
+    if ((x1 <= xT && xT <= x2) || (x2 <= xT && xT <= x1)) {
+      const t = (xT - x1) / ((x2 - x1) || EPS);
+      return inv(fwd(p1.y, axes.yLog) + t * (fwd(p2.y, axes.yLog) - fwd(p1.y, axes.yLog)), axes.yLog);
+    }
+  }
+  return null;
+}
+
+/**
+ * Resample to `n` points evenly spaced in axis x (log10(x) on log axes)
+ * between the series' x extremes. Points are sorted by x first; invalid
+ * values for a log axis (≤ 0) are dropped.
+ *
+ * @param pts - Series points
+ * @param n - Number of output points (≥ 2)
+ * @param axes - Axis scales
+ * @returns Resampled points sorted by x (empty when fewer than 2 usable points)
+ */
+export function resampleEvenX(pts: XY[], n: number, axes: AxisScales): XY[] {
+  const src = pts
+    .filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && (!axes.xLog || p.x > 0) && (!axes.yLog || p.y > 0))
+    .slice()
+    .sort((a, b) => a.x - b.x);
+  if (src.length < 2 || !(n >= 2)) return [];
+  const x0 = fwd(src[0].x, axes.xLog), x1 = fwd(src[src.length - 1].x, axes.xLog);
+  if (!(x1 > x0)) return [];
+  const count = Math.round(n);
+  const out: XY[] = [];
+  for (let k = 0; k < count; k++) {
+    const x = k === 0 ? src[0].x : k === count - 1 ? src[src.length - 1].x : inv(x0 + ((x1 - x0) * k) / (count - 1), axes.xLog);
+    const y = interpolateYAtX(src, x, axes);
+    if (y != null && Number.isFinite(y)) out.push({ x, y });
+  }
+  return out;
+}
+
+/**
+ * Douglas–Peucker simplification with the tolerance measured in axis units
+ * (decades on log axes): a point is kept when it lies farther than
+ * `tolerance` from the chord between the kept neighbours. Endpoints are
+ * always kept and the point order is preserved.
+ *
+ * @param pts - Series points
+ * @param tolerance - Max perpendicular deviation in axis units
+ * @param axes - Axis scales
+ * @returns Subset of the input points
+ */
+export function decimatePolyline(pts: XY[], tolerance: number, axes: AxisScales): XY[] {
+  if (!pts || pts.length <= 2 || !(tolerance > 0)) return pts ? pts.slice() : [];
+  const q = pts.map(p => ({ x: fwd(p.x, axes.xLog), y: fwd(p.y, axes.yLog) }));
+  const keep = new Uint8Array(pts.length);
+  keep[0] = keep[pts.length - 1] = 1;
+  const stack: [number, number][] = [[0, pts.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    const dx = q[b].x - q[a].x, dy = q[b].y - q[a].y, len = Math.hypot(dx, dy);
+    let worst = -1, worstD = tolerance;
+    for (let i = a + 1; i < b; i++) {
+      const d = len > EPS
+        ? Math.abs(dy * (q[i].x - q[a].x) - dx * (q[i].y - q[a].y)) / len
+        : Math.hypot(q[i].x - q[a].x, q[i].y - q[a].y);
+      if (d > worstD) { worstD = d; worst = i; }
+    }
+    if (worst >= 0) {
+      keep[worst] = 1;
+      stack.push([a, worst], [worst, b]);
+    }
+  }
+  return pts.filter((_, i) => keep[i]);
+}
+
+/**
+ * Largest deviation of `candidate` from `reference` along reference x, in
+ * axis y units (decades on log axes) — the error shown for a preview.
+ *
+ * @param reference - Original points
+ * @param candidate - Resampled/decimated points
+ * @param axes - Axis scales
+ * @returns Max |Δy| in axis units (0 when nothing overlaps)
+ */
+export function maxDeviation(reference: XY[], candidate: XY[], axes: AxisScales): number {
+  let worst = 0;
+  for (const p of reference) {
+    const y = interpolateYAtX(candidate, p.x, axes);
+    if (y == null) continue;
+    worst = Math.max(worst, Math.abs(fwd(y, axes.yLog) - fwd(p.y, axes.yLog)));
+  }
+  return worst;
+}
@@ -0,0 +1,143 @@
+/**
+ * Share links
+ * Small projects travel in the URL hash, deflate-compressed and base64url
+ * encoded (`#z=…`); the old uncompressed form (`#s=…`) still opens. Projects
+ * with images or too large for a URL go to the snapshot endpoint
+ * (`/api/snapshots`, local server or Vercel), which returns a short id; the
+ * link `#snap=<id>` opens the snapshot read-only and `#snap=<id>&copy` opens
+ * it as an editable copy.
+ *
+ * Usage example:
+ * ```ts
+ * const hash = await encodeShareHash(serialize());          // "z=…" (or "s=…" without CompressionStream)
+ * if (hash.length <= SHARE_HASH_MAX) copy(`${base}#${hash}`);
+ * else copy(`${base}#${snapshotHash(await createSnapshot({ project, images }), "view")}`);
+ * const raw = await decodeShareHash(location.hash);         // project JSON or null
+ * ```
+ */
+
+/** Longest hash payload that is still shared as a plain link (characters) */
+export const SHARE_HASH_MAX = 8000;
+
+/** Server-side snapshot limits (server.js, api/snapshots): checked here first for a readable message */
+export const SNAPSHOT_LIMITS = { bytes: 4 * 1024 * 1024, images: 16, imageBytes: 3 * 1024 * 1024 };
+
+export type SnapshotMode = "view" | "copy";
+
+export type Snapshot = {
+  id: string;
+  createdAt: string;
+  project: unknown;
+  images: (string | null)[][]; // data URLs per plot and slot
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+};
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string) => {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: GenericTransformStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+/**
+ * Encode a project for the URL hash.
+ *
+ * @param project - Serialized project
+ * @returns Hash without "#": `z=<deflate+base64url>`, or legacy `s=<base64>` when the browser cannot compress
+ */
+export async function encodeShareHash(project: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(project));
+  if (!canCompress()) return "s=" + toBase64(bytes);
+  return "z=" + toBase64Url(await pipe(bytes, new CompressionStream("deflate-raw")));
+}
+
+/**
+ * Decode a share hash.
+ *
+ * @param hash - `location.hash` (with or without "#")
+ * @returns Project JSON, or null when the hash is not a share payload
+ * @throws Error when the payload is corrupt
+ */
+export async function decodeShareHash(hash: string): Promise<unknown | null> {
+  const h = hash.replace(/^#/, "");
+  if (h.startsWith("s=")) return JSON.parse(decodeURIComponent(escape(atob(h.slice(2)))));
+  if (!h.startsWith("z=")) return null;
+  if (!canCompress()) throw new Error("이 브라우저는 압축된 링크를 열 수 없습니다");
+  return JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(h.slice(2)), new DecompressionStream("deflate-raw"))));
+}
+
+/**
+ * Hash of a snapshot link.
+ *
+ * @param id - Snapshot id
+ * @param mode - "view" (read-only) or "copy"
+ * @returns Hash without "#"
+ */
+export function snapshotHash(id: string, mode: SnapshotMode): string {
+  return `snap=${encodeURIComponent(id)}${mode === "copy" ? "&copy" : ""}`;
+}
+
+/**
+ * Snapshot id and mode of a link hash.
+ *
+ * @param hash - `location.hash` (with or without "#")
+ * @returns `{ id, mode }`, or null when the hash is not a snapshot link
+ */
+export function parseSnapshotHash(hash: string): { id: string; mode: SnapshotMode } | null {
+  const m = /^#?snap=([^&]+)(&copy)?$/.exec(hash);
+  return m ? { id: decodeURIComponent(m[1]), mode: m[2] ? "copy" : "view" } : null;
+}
+
+const responseError = async (res: Response) => {
+  if (res.status === 413) return new Error("스냅샷이 너무 큽니다 (이미지 크기를 줄이세요)");
+  let msg = `HTTP ${res.status}`;
+  try { msg = (await res.json()).error || msg; } catch {}
+  return new Error(msg);
+};
+
+/**
+ * Store a workspace snapshot on the server.
+ *
+ * @param input - Serialized project and image data URLs per plot/slot
+ * @returns Snapshot id
+ * @throws Error when the server is unreachable or rejects the snapshot
+ */
+export async function createSnapshot(input: { project: unknown; images: (string | null)[][] }): Promise<string> {
+  const used = input.images.flat().filter((v): v is string => !!v);
+  if (used.length > SNAPSHOT_LIMITS.images) throw new Error(`스냅샷 이미지는 ${SNAPSHOT_LIMITS.images}개까지입니다 (현재 ${used.length}개)`);
+  if (used.some(v => v.length > SNAPSHOT_LIMITS.imageBytes)) throw new Error(`스냅샷 이미지는 장당 ${SNAPSHOT_LIMITS.imageBytes / 2 ** 20} MB까지입니다`);
+  const body = JSON.stringify(input);
+  if (new Blob([body]).size > SNAPSHOT_LIMITS.bytes) throw new Error(`스냅샷이 ${SNAPSHOT_LIMITS.bytes / 2 ** 20} MB를 넘습니다 (이미지 크기를 줄이세요)`);
+  const res = await fetch("/api/snapshots", { method: "POST", headers: { "Content-Type": "application/json" }, body });
+  if (!res.ok) throw await responseError(res);
+  const { id } = await res.json();
+  if (typeof id !== "string" || !id) throw new Error("서버 응답에 스냅샷 id가 없습니다");
+  return id;
+}
+
+/**
+ * Fetch a snapshot.
+ *
+ * @param id - Snapshot id
+ * @returns Snapshot with project JSON and images (anything but a `data:image/` URL becomes null)
+ * @throws Error when it is missing or the server is unreachable
+ */
+export async function fetchSnapshot(id: string): Promise<Snapshot> {
+  const res = await fetch("/api/snapshots/" + encodeURIComponent(id));
+  if (!res.ok) throw res.status === 404 ? new Error("스냅샷을 찾을 수 없습니다") : await responseError(res);
+  const snap = await res.json();
+  /* untrusted: only inline images load (no remote fetch, no tainted canvas) */
+  const image = (v: unknown) => (typeof v === "string" && v.startsWith("data:image/") ? v : null);
+  const images = Array.isArray(snap.images) ? snap.images.map((slots: unknown) => (Array.isArray(slots) ? slots.map(image) : [])) : [];
+  return { id, createdAt: String(snap.createdAt ?? ""), project: snap.project, images };
+}
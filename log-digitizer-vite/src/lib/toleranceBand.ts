@@ -0,0 +1,107 @@
+/**
+ * Product tolerance bands for TC curves
+ * A band widens the nominal curve on one axis by independent percentages:
+ * the "max" edge is the slow side (more current / more time), the "min"
+ * edge the fast side. Legacy symmetric `tolerancePercent` values (10/15 %
+ * on the current axis) are read as bands too.
+ *
+ * Usage example:
+ * ```ts
+ * const band = normalizeToleranceBand({ axis: "current", plus: 10, minus: 5 });
+ * const { max, min } = bandEdgeCurves(series.points, band);   // derived curves
+ * const tSlow = bandEdgeTime(t => interp(points, t), 250, band, "max");
+ * ```
+ */
+
+export type XY = { x: number; y: number };
+
+export type ToleranceBand = {
+  axis: "current" | "time";
+  plus: number; // % towards the slow side (max edge)
+  minus: number; // % towards the fast side (min edge), stored positive
+};
+
+export type BandEdge = "max" | "min";
+
+/** Quick choices shown in the tolerance panel */
+export const TOLERANCE_PRESETS: { label: string; band: ToleranceBand | null }[] = [
+  { label: "Off", band: null },
+  { label: "I ±10%", band: { axis: "current", plus: 10, minus: 10 } },
+  { label: "I ±15%", band: { axis: "current", plus: 15, minus: 15 } },
+  { label: "I +10/−5%", band: { axis: "current", plus: 10, minus: 5 } },
+  { label: "t ±20%", band: { axis: "time", plus: 20, minus: 20 } },
+];
+
+/**
+ * Validate a stored band, falling back to a legacy symmetric percentage.
+ *
+ * @param raw - Stored band (any shape)
+ * @param legacyPercent - Old `tolerancePercent` value
+ * @returns A usable band, or null when the tolerance is off
+ */
+export function normalizeToleranceBand(raw: unknown, legacyPercent?: unknown): ToleranceBand | null {
+  if (raw && typeof raw === "object") {
+    const r = raw as Record<string, unknown>;
+    const axis = r.axis === "time" ? "time" : "current";
+    const plus = Math.max(0, Math.min(500, Number(r.plus) || 0));
+    const minus = Math.max(0, Math.min(99, Number(r.minus) || 0));
+    return plus > 0 || minus > 0 ? { axis, plus, minus } : null;
+  }
+  const p = Number(legacyPercent);
+  return p > 0 && p < 100 ? { axis: "current", plus: p, minus: p } : null;
+}
+
+/**
+ * Scale factor of a band edge on its axis.
+ *
+ * @param band - Tolerance band
+ * @param edge - "max" (slow) or "min" (fast)
+ * @returns Multiplier for current or time
+ */
+export function bandEdgeFactor(band: ToleranceBand, edge: BandEdge): number {
+  return edge === "max" ? 1 + band.plus / 100 : 1 - band.minus / 100;
+}
+
+/**
+ * Both edge curves of a band, point for point.
+ *
+ * @param points - Nominal curve
+ * @param band - Tolerance band
+ * @returns Slow (`max`) and fast (`min`) edge curves
+ */
+export function bandEdgeCurves(points: XY[], band: ToleranceBand): { max: XY[]; min: XY[] } {
+  const edge = (e: BandEdge) => {
+    const f = bandEdgeFactor(band, e);
+    return points.map(p => (band.axis === "current" ? { x: p.x * f, y: p.y } : { x: p.x, y: p.y * f }));
+  };
+  return { max: edge("max"), min: edge("min") };
+}
+
+/**
+ * Time on a band edge at a given current, from any nominal time function.
+ *
+ * @param timeAt - Nominal curve time at a current (null outside the curve)
+ * @param current - Current in A
+ * @param band - Tolerance band, or null for the nominal curve
+ * @param edge - Edge to read
+ * @returns Time in s, or null outside the (shifted) curve
+ */
+export function bandEdgeTime(timeAt: (current: number) => number | null, current: number, band: ToleranceBand | null, edge: BandEdge): number | null {
+  if (!band) return timeAt(current);
+  const f = bandEdgeFactor(band, edge);
+  if (band.axis === "current") return timeAt(current / f);
+  const t = timeAt(current);
+  return t == null ? null : t * f;
+}
+
+/**
+ * Short label, e.g. "I +10/−5%" or "t ±20%".
+ *
+ * @param band - Tolerance band, or null
+ * @returns Label ("OFF" when null)
+ */
+export function describeToleranceBand(band: ToleranceBand | null): string {
+  if (!band) return "OFF";
+  const axis = band.axis === "current" ? "I" : "t";
+  return band.plus === band.minus ? `${axis} ±${band.plus}%` : `${axis} +${band.plus}/−${band.minus}%`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Color-based curve tracing on raster background images
+ * Follows connected pixels of one stroke color and returns its centerline.
+ *
+ * Usage example:
+ * ```ts
+ * const raster = { data: imageData.data, width: imageData.width, height: imageData.height };
+ * const color = sampleStrokeColor(raster, { x: 120, y: 80 });
+ * const line = traceCurve(raster, { x: 120, y: 80 }, color!, { tolerance: 60 });
+ * const even = resamplePolyline(line, 4); // one point every 4 px of arc length
+ * ```
+ */
+
+export type Raster = { data: Uint8ClampedArray; width: number; height: number };
+export type RGB = { r: number; g: number; b: number };
+export type Vec = { x: number; y: number };
+export type Bounds = { x0: number; y0: number; x1: number; y1: number };
+
+export type TraceOptions = {
+  tolerance?: number; // max RGB distance to the stroke color (0..441)
+  step?: number; // walking step along the stroke, image pixels
+  maxWidth?: number; // half-width searched across the stroke, image pixels
+  maxTurn?: number; // largest direction change tried per step, radians
+  maxGap?: number; // consecutive missed steps bridged before stopping
+  maxPoints?: number; // safety limit per walking direction
+  bounds?: Bounds | null; // restrict tracing to this image rectangle
+};
+
+const DEFAULTS = { tolerance: 60, step: 2, maxWidth: 8, maxTurn: Math.PI / 3, maxGap: 3, maxPoints: 6000 };
+
+/**
+ * Parse "#rrggbb" (or "#rgb") into RGB.
+ *
+ * @param hex - CSS hex color
+ * @returns RGB components, or null if the string is not a hex color
+ */
+export function parseHexColor(hex: string): RGB | null {
+  const m = String(hex ?? "").trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!m) return null;
+  const h = m[1].length === 3 ? m[1].split("").map(c => c + c).join("") : m[1];
+  return { r: parseInt(h.slice(0, 2), 16), g: parseInt(h.slice(2, 4), 16), b: parseInt(h.slice(4, 6), 16) };
+}
+
+/**
+ * Format RGB as "#rrggbb" for color inputs.
+ *
+ * @param c - RGB components (0..255)
+ * @returns CSS hex color
+ */
+export function toHexColor(c: RGB): string {
+  const h = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, "0");
+  return `#${h(c.r)}${h(c.g)}${h(c.b)}`;
+}
+
+/**
+ * Euclidean distance between two colors in RGB space.
+ *
+ * @param a - First color
+ * @param b - Second color
+ * @returns Distance (0 = identical, ~441 = black vs white)
+ */
+export function colorDistance(a: RGB, b: RGB): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+/**
+ * Read one pixel (integer coordinates, nearest pixel).
+ *
+ * @param img - Raster image
+ * @param x - Image x
+ * @param y - Image y
+ * @returns RGB, or null outside the image
+ */
+export function pixelAt(img: Raster, x: number, y: number): RGB | null {
+  const ix = Math.round(x), iy = Math.round(y);
+  if (ix < 0 || iy < 0 || ix >= img.width || iy >= img.height) return null;
+  const o = (iy * img.width + ix) * 4;
+  return { r: img.data[o], g: img.data[o + 1], b: img.data[o + 2] };
+}
+
+const inBounds = (x: number, y: number, b?: Bounds | null) =>
+  !b || (x >= b.x0 && x <= b.x1 && y >= b.y0 && y <= b.y1);
+
+/**
+ * True when the pixel at (x, y) is within tolerance of the stroke color.
+ */
+export function matchesColor(img: Raster, x: number, y: number, color: RGB, tolerance: number, bounds?: Bounds | null): boolean {
+  if (!inBounds(x, y, bounds)) return false;
+  const c = pixelAt(img, x, y);
+  return !!c && colorDistance(c, color) <= tolerance;
+}
+
+/**
+ * Pick the stroke color under a click: the pixel within `radius` that differs
+ * most from the local background (brightest pixel in a wider window).
+ *
+ * @param img - Raster image
+ * @param p - Clicked image point
+ * @param radius - Search radius in image pixels
+ * @returns Stroke color, or null if the point is outside the image
+ */
+export function sampleStrokeColor(img: Raster, p: Vec, radius = 3): RGB | null {
+  let background: RGB | null = null, bestLum = -1;
+  for (let dy = -radius * 3; dy <= radius * 3; dy++) {
+    for (let dx = -radius * 3; dx <= radius * 3; dx++) {
+      const c = pixelAt(img, p.x + dx, p.y + dy);
+      if (!c) continue;
+      const lum = c.r * 0.299 + c.g * 0.587 + c.b * 0.114;
+      if (lum > bestLum) { bestLum = lum; background = c; }
+    }
+  }
+  if (!background) return null;
+  let stroke: RGB | null = null, bestDist = -1;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const c = pixelAt(img, p.x + dx, p.y + dy);
+      if (!c) continue;
+      const d = colorDistance(c, background) - Math.hypot(dx, dy); // prefer pixels near the click
+      if (d > bestDist) { bestDist = d; stroke = c; }
+    }
+  }
+  return stroke;
+}
+
+/**
+ * Nearest pixel of the stroke color within a square radius.
+ *
+ * @returns Matching image point, or null if none is found
+ */
+export function nearestMatch(img: Raster, p: Vec, color: RGB, tolerance: number, radius: number, bounds?: Bounds | null): Vec | null {
+  let best: Vec | null = null, bestD = Infinity;
+  const cx = Math.round(p.x), cy = Math.round(p.y);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const d = dx * dx + dy * dy;
+      if (d >= bestD || !matchesColor(img, cx + dx, cy + dy, color, tolerance, bounds)) continue;
+      bestD = d; best = { x: cx + dx, y: cy + dy };
+    }
+  }
+  return best;
+}
+
+/**
+ * Local stroke direction from the principal axis of matching pixels around p.
+ *
+ * @returns Unit vector along the stroke, or null with fewer than 3 matches
+ */
+export function strokeDirection(img: Raster, p: Vec, color: RGB, tolerance: number, radius = 6, bounds?: Bounds | null): Vec | null {
+  const pts: Vec[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy > radius * radius) continue;
+      if (matchesColor(img, p.x + dx, p.y + dy, color, tolerance, bounds)) pts.push({ x: dx, y: dy });
+    }
+  }
+  if (pts.length < 3) return null;
+  const mx = pts.reduce((s, q) => s + q.x, 0) / pts.length;
+  const my = pts.reduce((s, q) => s + q.y, 0) / pts.length;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const q of pts) { sxx += (q.x - mx) ** 2; syy += (q.y - my) ** 2; sxy += (q.x - mx) * (q.y - my); }
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+}
+
+/**
+ * Center of the stroke crossing the line through p along `normal`.
+ * Scans ±maxWidth, groups matching samples into runs and returns the middle
+ * of the run closest to p.
+ *
+ * @returns Centerline point and stroke width, or null if no run is found
+ */
+export function centerAcross(img: Raster, p: Vec, normal: Vec, color: RGB, tolerance: number, maxWidth: number, bounds?: Bounds | null): { point: Vec; width: number } | null {
+  const STEP = 0.5;
+  const runs: { tc: number; width: number }[] = [];
+  let runStart: number | null = null;
+  for (let t = -maxWidth; t <= maxWidth + 1e-9; t += STEP) {
+    const hit = matchesColor(img, p.x + normal.x * t, p.y + normal.y * t, color, tolerance, bounds);
+    if (hit && runStart === null) runStart = t;
+    if (!hit && runStart !== null) {
+      runs.push({ tc: (runStart + t - STEP) / 2, width: t - runStart });
+      runStart = null;
+    }
+  }
+  if (runStart !== null) runs.push({ tc: (runStart + maxWidth) / 2, width: maxWidth - runStart + STEP });
+  if (!runs.length) return null;
+  const best = runs.reduce((a, b) => (Math.abs(b.tc) < Math.abs(a.tc) ? b : a));
+  return { point: { x: p.x + normal.x * best.tc, y: p.y + normal.y * best.tc }, width: best.width };
+}
+
+/**
+ * Move p onto the centerline of the nearest stroke: find the closest stroke
+ * pixel within `radius`, take the local stroke direction there and scan
+ * perpendicular to it through p. Falls back to the stroke pixel itself when
+ * the direction is undefined (dots, very short strokes).
+ *
+ * @returns Centerline point, or null when no stroke pixel lies within radius
+ */
+export function snapToStroke(img: Raster, p: Vec, color: RGB, tolerance: number, radius: number, bounds?: Bounds | null): Vec | null {
+  const near = nearestMatch(img, p, color, tolerance, Math.max(1, Math.ceil(radius)), bounds);
+  if (!near) return null;
+  const dir = strokeDirection(img, near, color, tolerance, 6, bounds);
+  if (!dir) return near;
+  const normal = { x: -dir.y, y: dir.x };
+  const hit = centerAcross(img, p, normal, color, tolerance, radius + 2, bounds)
+    ?? centerAcross(img, near, normal, color, tolerance, 8, bounds);
+  return hit && Math.hypot(hit.point.x - p.x, hit.point.y - p.y) <= radius + 2 ? hit.point : near;
+}
+
+const rotate = (v: Vec, a: number): Vec => ({ x: v.x * Math.cos(a) - v.y * Math.sin(a), y: v.x * Math.sin(a) + v.y * Math.cos(a) });
+const unit = (v: Vec): Vec | null => { const n = Math.hypot(v.x, v.y); return n > 1e-9 ? { x: v.x / n, y: v.y / n } : null; };
+
+/**
+ * Trace a curve of one color starting at `seed`, walking in both directions.
+ * Each step probes ahead, re-centers across the stroke, and bends up to
+ * `maxTurn` to stay on it. Stops at the image/bounds edge, after `maxGap`
+ * misses, or when the walk runs back onto itself.
+ *
+ * @param img - Raster image
+ * @param seed - Image point on (or next to) the curve
+ * @param color - Stroke color
+ * @param options - Tracing parameters
+ * @returns Ordered centerline points in image pixels (end to end)
+ */
+export function traceCurve(img: Raster, seed: Vec, color: RGB, options: TraceOptions = {}): Vec[] {
+  const o = { ...DEFAULTS, ...options };
+  const start = nearestMatch(img, seed, color, o.tolerance, Math.ceil(o.maxWidth), o.bounds);
+  if (!start) return [];
+  const dir = strokeDirection(img, start, color, o.tolerance, 6, o.bounds) ?? { x: 1, y: 0 };
+  const first = centerAcross(img, start, { x: -dir.y, y: dir.x }, color, o.tolerance, o.maxWidth, o.bounds)?.point ?? start;
+  const turns = [0];
+  for (let a = 0.15; a <= o.maxTurn + 1e-9; a += 0.15) turns.push(a, -a);
+  const cell = (p: Vec) => `${Math.round(p.x / o.step)},${Math.round(p.y / o.step)}`;
+
+  const walk = (d0: Vec, foreign: Map<string, number> | null) => {
+    const out: Vec[] = [];
+    const seen = new Map<string, number>([[cell(first), 0]]);
+    let p = first, d = d0, misses = 0;
+    while (out.length < o.maxPoints) {
+      let next: Vec | null = null;
+      for (const turn of turns) {
+        const dd = rotate(d, turn);
+        const reach = o.step * (1 + misses);
+        const probe = { x: p.x + dd.x * reach, y: p.y + dd.y * reach };
+        const hit = centerAcross(img, probe, { x: -dd.y, y: dd.x }, color, o.tolerance, o.maxWidth, o.bounds);
+        if (hit && hit.width <= o.maxWidth * 2) { next = hit.point; break; }
+      }
+      if (!next) { if (++misses > o.maxGap) break; continue; }
+      const nd = unit({ x: next.x - p.x, y: next.y - p.y });
+      if (!nd || nd.x * d.x + nd.y * d.y < Math.cos(o.maxTurn * 1.5)) break;
+      const key = cell(next), idx = out.length + 1;
+      const own = seen.get(key);
+      if (own !== undefined && idx - own > 3) break;
+      const other = foreign?.get(key);
+      if (other !== undefined && other > 3) break;
+      if (own === undefined) seen.set(key, idx);
+      out.push(next);
+      d = unit({ x: d.x + nd.x, y: d.y + nd.y }) ?? nd;
+      p = next; misses = 0;
+    }
+    return { out, seen };
+  };
+
+  const fwd = walk(dir, null);
+  const back = walk({ x: -dir.x, y: -dir.y }, fwd.seen);
+  return [...back.out.reverse(), first, ...fwd.out];
+}
+
+/**
+ * Resample a polyline at a fixed arc-length spacing (first and last point kept).
+ *
+ * @param pts - Ordered points in any 2-D space
+ * @param spacing - Distance between output points in the same units
+ * @returns Evenly spaced points along the polyline
+ */
+export function resamplePolyline(pts: Vec[], spacing: number): Vec[] {
+  if (pts.length < 2 || !(spacing > 0)) return pts.slice();
+  const out: Vec[] = [pts[0]];
+  let carry = 0;
+  for (let i = 0; i < pts.length - 1; i++) {
+    const a = pts[i], b = pts[i + 1];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (!(len > 0)) continue;
+    let s = spacing - carry;
+    while (s <= len) {
+      out.push({ x: a.x + (b.x - a.x) * s / len, y: a.y + (b.y - a.y) * s / len });
+      s += spacing;
+    }
+    carry = len - (s - spacing);
+  }
+  const last = pts[pts.length - 1], tail = out[out.length - 1];
+  if (Math.hypot(last.x - tail.x, last.y - tail.y) > spacing * 0.25) out.push(last);
+  return out;
+}
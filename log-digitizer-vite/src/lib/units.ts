@@ -0,0 +1,121 @@
+/**
+ * Axis quantities and units
+ * Series points always live in the plot's axis units; data that arrives in
+ * other units (library products, pasted tables, a unit change on the axis)
+ * is converted with these factors. Base units are A, s and A²s.
+ *
+ * Usage example:
+ * ```ts
+ * const axes = { x: { quantity: "current", unit: "kA" }, y: { quantity: "time", unit: "ms" } };
+ * const pts = convertPoints(product.points, productUnits ?? DEFAULT_AXIS_UNITS, axes);
+ * axisTitle(axes.x, "log"); // "Current (kA, log)"
+ * ```
+ */
+
+export type XY = { x: number; y: number };
+export type AxisQuantity = "current" | "time" | "i2t" | "none";
+export type AxisUnit = { quantity: AxisQuantity; unit: string };
+export type AxisUnits = { x: AxisUnit; y: AxisUnit };
+
+/** Units per quantity with their factor to the base unit */
+export const UNITS: Record<AxisQuantity, Record<string, number>> = {
+  current: { A: 1, kA: 1e3, mA: 1e-3 },
+  time: { s: 1, ms: 1e-3, "µs": 1e-6 },
+  i2t: { "A²s": 1, "kA²s": 1e6 },
+  none: { "": 1 },
+};
+
+export const QUANTITY_LABELS: Record<AxisQuantity, string> = { current: "Current", time: "Time", i2t: "I²t", none: "Value" };
+
+/** Own-key lookup, so "constructor" or "toString" never pass as a quantity or unit */
+const own = (o: object, k: string) => Object.prototype.hasOwnProperty.call(o, k);
+
+/** Base unit of each quantity (first entry of UNITS) */
+export const baseUnit = (q: AxisQuantity): string => Object.keys(UNITS[q])[0];
+
+/** TC chart default: current in A on x, time in s on y */
+export const DEFAULT_AXIS_UNITS: AxisUnits = { x: { quantity: "current", unit: "A" }, y: { quantity: "time", unit: "s" } };
+
+/**
+ * Check a stored axis unit, falling back to a default.
+ *
+ * @param raw - Stored value (any shape)
+ * @param fallback - Used when `raw` is not a known quantity/unit pair
+ * @returns A valid axis unit
+ */
+export function normalizeAxisUnit(raw: unknown, fallback: AxisUnit): AxisUnit {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (typeof r.quantity !== "string" || !own(UNITS, r.quantity)) return { ...fallback };
+  const q = r.quantity as AxisQuantity;
+  return { quantity: q, unit: typeof r.unit === "string" && own(UNITS[q], r.unit) ? r.unit : baseUnit(q) };
+}
+
+/**
+ * Check stored units for both axes.
+ *
+ * @param raw - Stored value (any shape)
+ * @returns Valid units (TC defaults where missing)
+ */
+export function normalizeAxisUnits(raw: unknown): AxisUnits {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return { x: normalizeAxisUnit(r.x, DEFAULT_AXIS_UNITS.x), y: normalizeAxisUnit(r.y, DEFAULT_AXIS_UNITS.y) };
+}
+
+/**
+ * Factor that converts a value from one unit to another.
+ *
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns Multiplier, or 1 when the quantities differ (no meaningful conversion)
+ */
+export function unitFactor(from: AxisUnit, to: AxisUnit): number {
+  if (from.quantity !== to.quantity) return 1;
+  const table = UNITS[from.quantity];
+  return (table[from.unit] ?? 1) / (table[to.unit] ?? 1);
+}
+
+/**
+ * Whether data in `from` can be shown on axes in `to` (same quantities).
+ *
+ * @param from - Source units
+ * @param to - Target units
+ * @returns True when both axes measure the same quantities
+ */
+export function sameQuantities(from: AxisUnits, to: AxisUnits): boolean {
+  return from.x.quantity === to.x.quantity && from.y.quantity === to.y.quantity;
+}
+
+/**
+ * Convert points between unit systems.
+ *
+ * @param points - Points in `from` units
+ * @param from - Source units
+ * @param to - Target units
+ * @returns New points in `to` units (same array contents when nothing changes)
+ */
+export function convertPoints(points: XY[], from: AxisUnits, to: AxisUnits): XY[] {
+  const fx = unitFactor(from.x, to.x), fy = unitFactor(from.y, to.y);
+  return points.map(p => ({ ...p, x: p.x * fx, y: p.y * fy }));
+}
+
+/**
+ * Axis title with unit, e.g. "Current (kA, log)".
+ *
+ * @param axis - Axis unit
+ * @param scale - Scale tag ("log", "prob", …; empty for linear)
+ * @returns Title text
+ */
+export function axisTitle(axis: AxisUnit, scale: string): string {
+  const parts = [axis.unit, scale].filter(Boolean);
+  return parts.length ? `${QUANTITY_LABELS[axis.quantity]} (${parts.join(", ")})` : QUANTITY_LABELS[axis.quantity];
+}
+
+/**
+ * Short label for a unit system, e.g. "kA / ms".
+ *
+ * @param units - Axis units
+ * @returns Label
+ */
+export function describeUnits(units: AxisUnits): string {
+  return `${units.x.unit || "-"} / ${units.y.unit || "-"}`;
+}
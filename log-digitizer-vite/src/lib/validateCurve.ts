@@ -0,0 +1,135 @@
+/**
+ * Physical plausibility checks for digitized fuse TC curves
+ * (x = current, y = time). Errors make a curve unusable for selection
+ * checks; warnings point at likely digitizing mistakes.
+ *
+ * Usage example:
+ * ```ts
+ * const issues = validateCurve(series.points, {
+ *   xLog: true, yLog: true,
+ *   range: { xMin: 1, xMax: 1e4, yMin: 1e-3, yMax: 1e3 },
+ *   insideImage: p => pointInPolygon(toCanvas(p), calFrame),
+ * });
+ * const blocking = issues.filter(i => i.severity === "error");
+ * ```
+ */
+
+export type XY = { x: number; y: number };
+
+export type CurveIssueKind =
+  | "too-few"
+  | "non-positive"
+  | "duplicate-x"
+  | "unsorted"
+  | "non-monotonic"
+  | "kink"
+  | "gap"
+  | "out-of-range"
+  | "outside-image";
+
+export type CurveIssue = {
+  kind: CurveIssueKind;
+  severity: "error" | "warning";
+  pointIndex: number | null; // index into the series' points (as stored)
+  message: string;
+};
+
+export type CurveValidationOptions = {
+  xLog: boolean;
+  yLog: boolean;
+  range?: { xMin: number; xMax: number; yMin: number; yMax: number };
+  slopeLimitDeg?: number; // max direction change between segments (log-log, 1 decade = 1 unit), default 45°
+  maxGapDecades?: number; // max spacing between neighbours, default 1 decade
+  monotonicTolerance?: number; // relative time increase tolerated as noise, default 1 %
+  insideImage?: (p: XY) => boolean | null; // null = no image/calibration to check against
+};
+
+const EPS = 1e-12;
+
+/**
+ * Even-odd point-in-polygon test.
+ *
+ * @param p - Point
+ * @param poly - Polygon vertices (any winding)
+ * @returns Whether p is inside
+ */
+export function pointInPolygon(p: { px: number; py: number }, poly: { px: number; py: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.py > p.py) !== (b.py > p.py) && p.px < ((b.px - a.px) * (p.py - a.py)) / (b.py - a.py) + a.px) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Lint one series.
+ *
+ * @param points - Series points in stored order
+ * @param options - Axis scales, range and thresholds
+ * @returns Issues, errors first, then by point index
+ */
+export function validateCurve(points: XY[], options: CurveValidationOptions): CurveIssue[] {
+  const issues: CurveIssue[] = [];
+  const slopeLimit = options.slopeLimitDeg ?? 45;
+  const maxGap = options.maxGapDecades ?? 1;
+  const monoTol = options.monotonicTolerance ?? 0.01;
+  const tx = (v: number) => (options.xLog ? Math.log10(Math.max(EPS, v)) : v);
+  const ty = (v: number) => (options.yLog ? Math.log10(Math.max(EPS, v)) : v);
+  const fmt = (v: number) => Number(v.toPrecision(4)).toString();
+
+  if (!points || points.length < 2) {
+    issues.push({ kind: "too-few", severity: "warning", pointIndex: null, message: "점이 2개 미만입니다" });
+  }
+  const valid: { p: XY; i: number }[] = [];
+  (points ?? []).forEach((p, i) => {
+    if (!Number.isFinite(p.x) || !Number.isFinite(p.y) || (options.xLog && p.x <= 0) || (options.yLog && p.y <= 0)) {
+      issues.push({ kind: "non-positive", severity: "error", pointIndex: i, message: `#${i + 1}: log 축에 0 이하/잘못된 값 (${p.x}, ${p.y})` });
+      return;
+    }
+    valid.push({ p, i });
+    const r = options.range;
+    if (r && (p.x < r.xMin || p.x > r.xMax || p.y < r.yMin || p.y > r.yMax)) {
+      issues.push({ kind: "out-of-range", severity: "warning", pointIndex: i, message: `#${i + 1}: 축 범위 밖 (${fmt(p.x)}, ${fmt(p.y)})` });
+    }
+    if (options.insideImage && options.insideImage(p) === false) {
+      issues.push({ kind: "outside-image", severity: "warning", pointIndex: i, message: `#${i + 1}: 캘리브된 이미지 영역 밖` });
+    }
+  });
+
+  for (let k = 1; k < valid.length; k++) {
+    if (valid[k].p.x < valid[k - 1].p.x) {
+      issues.push({ kind: "unsorted", severity: "warning", pointIndex: valid[k].i, message: `#${valid[k].i + 1}: 전류(x) 순서가 뒤바뀜 — 보간이 틀어질 수 있음` });
+      break;
+    }
+  }
+
+  const sorted = valid.slice().sort((a, b) => a.p.x - b.p.x || a.i - b.i);
+  for (let k = 1; k < sorted.length; k++) {
+    const a = sorted[k - 1], b = sorted[k];
+    if (Math.abs(b.p.x - a.p.x) <= Math.abs(a.p.x) * 1e-9) {
+      issues.push({ kind: "duplicate-x", severity: "error", pointIndex: b.i, message: `#${b.i + 1}: #${a.i + 1}와 같은 전류 ${fmt(b.p.x)}` });
+      continue;
+    }
+    if (b.p.y > a.p.y * (1 + monoTol)) {
+      issues.push({ kind: "non-monotonic", severity: "error", pointIndex: b.i, message: `#${b.i + 1}: 전류가 커지는데 시간이 증가 (${fmt(a.p.y)} → ${fmt(b.p.y)})` });
+    }
+    const gx = tx(b.p.x) - tx(a.p.x), gy = Math.abs(ty(b.p.y) - ty(a.p.y));
+    if ((options.xLog && gx > maxGap) || (options.yLog && gy > maxGap)) {
+      issues.push({ kind: "gap", severity: "warning", pointIndex: b.i, message: `#${a.i + 1}→#${b.i + 1}: ${fmt(Math.max(options.xLog ? gx : 0, options.yLog ? gy : 0))} decade 간격` });
+    }
+  }
+
+  for (let k = 1; k < sorted.length - 1; k++) {
+    const a = sorted[k - 1].p, b = sorted[k].p, c = sorted[k + 1].p;
+    const a1 = Math.atan2(ty(b.y) - ty(a.y), tx(b.x) - tx(a.x));
+    const a2 = Math.atan2(ty(c.y) - ty(b.y), tx(c.x) - tx(b.x));
+    let turn = Math.abs(a2 - a1) * (180 / Math.PI);
+    if (turn > 180) turn = 360 - turn;
+    if (turn > slopeLimit) {
+      issues.push({ kind: "kink", severity: "warning", pointIndex: sorted[k].i, message: `#${sorted[k].i + 1}: 기울기 급변 ${turn.toFixed(0)}° (한도 ${slopeLimit}°)` });
+    }
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? (a.pointIndex ?? -1) - (b.pointIndex ?? -1) : a.severity === "error" ? -1 : 1));
+}
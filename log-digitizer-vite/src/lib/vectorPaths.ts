@@ -0,0 +1,388 @@
+/**
+ * Vector chart extraction (SVG / PDF path objects)
+ * Paths are kept in page units (y down). Gridline paths give the axis
+ * mapping, curve paths become series with their exact vertex coordinates.
+ *
+ * Usage example:
+ * ```ts
+ * const page = parseSvgPaths(svgText);                 // or extractPdfPaths(doc, n)
+ * const region = { x0: 50, y0: 40, x1: 520, y1: 400 };
+ * const grid = fitVectorGrid(page.paths.filter(p => gridIds.has(p.id)), region, { xLog: true, yLog: true });
+ * const xMap = axisMap(grid.x.majors[0], 1, grid.x.majors.at(-1), 1000, "log10");
+ * const yMap = axisMap(grid.y.majors[0], 0.01, grid.y.majors.at(-1), 100, "log10");
+ * const pts = pathToDataPoints(curvePath, xMap, yMap, region); // [{ x, y }] in data units
+ * ```
+ */
+
+import { getAxisTransform } from "./axisScales";
+import { fitLogGrid, fitEvenGrid, type GridAxisFit } from "./gridDetect";
+
+export type VecPt = { x: number; y: number };
+export type VecBox = { x0: number; y0: number; x1: number; y1: number };
+
+export type VectorPath = {
+  id: number;
+  subpaths: VecPt[][]; // flattened (Bézier curves sampled), page units
+  stroke: string | null; // CSS color, null when not stroked
+  fill: string | null;
+  width: number; // stroke width, page units
+  bbox: VecBox;
+};
+
+export type VectorPage = { width: number; height: number; paths: VectorPath[] };
+
+/** 2D affine [a, b, c, d, e, f] — x' = a·x + c·y + e, y' = b·x + d·y + f (SVG/PDF order). */
+export type Affine = [number, number, number, number, number, number];
+
+export const IDENTITY: Affine = [1, 0, 0, 1, 0, 0];
+
+/** Samples per Bézier segment; TC curves are smooth so this is well below a pixel. */
+const BEZIER_STEPS = 16;
+
+/** A segment counts as horizontal/vertical when its slope is below this. */
+const AXIS_SLOPE = 0.01;
+
+/**
+ * Compose two transforms: the result applies `inner` first, then `outer`.
+ *
+ * @param outer - Transform applied second
+ * @param inner - Transform applied first
+ * @returns outer ∘ inner
+ */
+export function composeAffine(outer: Affine, inner: Affine): Affine {
+  const [a, b, c, d, e, f] = outer, [A, B, C, D, E, F] = inner;
+  return [a * A + c * B, b * A + d * B, a * C + c * D, b * C + d * D, a * E + c * F + e, b * E + d * F + f];
+}
+
+/**
+ * Apply an affine transform to a point.
+ *
+ * @param m - Transform
+ * @param p - Point
+ * @returns Transformed point
+ */
+export function applyAffine(m: Affine, p: VecPt): VecPt {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+/**
+ * Sample a cubic Bézier (excluding the start point).
+ *
+ * @returns BEZIER_STEPS points ending at p3
+ */
+export function cubicPoints(p0: VecPt, p1: VecPt, p2: VecPt, p3: VecPt): VecPt[] {
+  const out: VecPt[] = [];
+  for (let i = 1; i <= BEZIER_STEPS; i++) {
+    const t = i / BEZIER_STEPS, u = 1 - t;
+    const a = u * u * u, b = 3 * u * u * t, c = 3 * u * t * t, d = t * t * t;
+    out.push({ x: a * p0.x + b * p1.x + c * p2.x + d * p3.x, y: a * p0.y + b * p1.y + c * p2.y + d * p3.y });
+  }
+  return out;
+}
+
+/**
+ * Bounding box of a set of subpaths.
+ *
+ * @param subpaths - Polylines
+ * @returns Box (empty input gives an inverted box)
+ */
+export function pathBBox(subpaths: VecPt[][]): VecBox {
+  const box = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+  for (const sp of subpaths) for (const p of sp) {
+    if (p.x < box.x0) box.x0 = p.x; if (p.x > box.x1) box.x1 = p.x;
+    if (p.y < box.y0) box.y0 = p.y; if (p.y > box.y1) box.y1 = p.y;
+  }
+  return box;
+}
+
+/**
+ * Whether a path's bounding box overlaps a region.
+ */
+export function pathInRegion(path: VectorPath, region: VecBox | null): boolean {
+  if (!region) return true;
+  const b = path.bbox;
+  return b.x1 >= region.x0 && b.x0 <= region.x1 && b.y1 >= region.y0 && b.y0 <= region.y1;
+}
+
+/**
+ * Parse SVG path data into flattened subpaths (M L H V C S Q T Z; arcs are
+ * replaced by a straight segment to their end point).
+ *
+ * @param d - The `d` attribute
+ * @returns Subpaths in the path's own coordinates
+ */
+export function parseSvgPathData(d: string): VecPt[][] {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? [];
+  const subpaths: VecPt[][] = [];
+  let cur: VecPt[] | null = null;
+  let p = { x: 0, y: 0 }, start = { x: 0, y: 0 }, ctrl: VecPt | null = null, qctrl: VecPt | null = null;
+  let cmd = "", i = 0;
+  const num = () => Number(tokens[i++]);
+  const hasNum = () => i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i]);
+  const lineTo = (q: VecPt) => { if (!cur) { cur = [p]; subpaths.push(cur); } cur.push(q); p = q; };
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i])) cmd = tokens[i++];
+    else if (!cmd) { i++; continue; }
+    const rel = cmd === cmd.toLowerCase();
+    const ox = rel ? p.x : 0, oy = rel ? p.y : 0;
+    const C = cmd.toUpperCase();
+    if (C === "Z") {
+      if (cur && cur.length) cur.push({ ...start });
+      p = start; cur = null; ctrl = qctrl = null;
+      cmd = ""; // numbers after Z are malformed; skip them
+      continue;
+    }
+    if (!hasNum()) continue;
+    switch (C) {
+      case "M": {
+        p = { x: ox + num(), y: oy + num() };
+        start = p; cur = [p]; subpaths.push(cur);
+        cmd = rel ? "l" : "L"; // further pairs are implicit lineTo
+        ctrl = qctrl = null;
+        break;
+      }
+      case "L": lineTo({ x: ox + num(), y: oy + num() }); ctrl = qctrl = null; break;
+      case "H": lineTo({ x: ox + num(), y: p.y }); ctrl = qctrl = null; break;
+      case "V": lineTo({ x: p.x, y: oy + num() }); ctrl = qctrl = null; break;
+      case "C":
+      case "S": {
+        const c1 = C === "C" ? { x: ox + num(), y: oy + num() } : ctrl ? { x: 2 * p.x - ctrl.x, y: 2 * p.y - ctrl.y } : p;
+        const c2 = { x: ox + num(), y: oy + num() }, end = { x: ox + num(), y: oy + num() };
+        const from = p;
+        for (const q of cubicPoints(from, c1, c2, end)) lineTo(q);
+        ctrl = c2; qctrl = null;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const q1 = C === "Q" ? { x: ox + num(), y: oy + num() } : qctrl ? { x: 2 * p.x - qctrl.x, y: 2 * p.y - qctrl.y } : p;
+        const end = { x: ox + num(), y: oy + num() };
+        const from = p;
+        const c1 = { x: from.x + (2 / 3) * (q1.x - from.x), y: from.y + (2 / 3) * (q1.y - from.y) };
+        const c2 = { x: end.x + (2 / 3) * (q1.x - end.x), y: end.y + (2 / 3) * (q1.y - end.y) };
+        for (const q of cubicPoints(from, c1, c2, end)) lineTo(q);
+        qctrl = q1; ctrl = null;
+        break;
+      }
+      case "A": {
+        i += 5; // rx ry rotation large-arc sweep
+        lineTo({ x: ox + num(), y: oy + num() });
+        ctrl = qctrl = null;
+        break;
+      }
+      default: i++;
+    }
+  }
+  return subpaths.filter(sp => sp.length >= 2);
+}
+
+/**
+ * Parse an SVG `transform` attribute.
+ *
+ * @param attr - e.g. "translate(10 20) scale(2)"
+ * @returns Combined transform
+ */
+export function parseSvgTransform(attr: string | null): Affine {
+  let m = IDENTITY;
+  if (!attr) return m;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let hit: RegExpExecArray | null;
+  while ((hit = re.exec(attr))) {
+    const v = (hit[2].match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    let t: Affine = IDENTITY;
+    switch (hit[1]) {
+      case "matrix": if (v.length === 6) t = v as Affine; break;
+      case "translate": t = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0]; break;
+      case "scale": t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0]; break;
+      case "rotate": {
+        const r = ((v[0] ?? 0) * Math.PI) / 180, cs = Math.cos(r), sn = Math.sin(r);
+        const rot: Affine = [cs, sn, -sn, cs, 0, 0];
+        t = v.length >= 3 ? composeAffine(composeAffine([1, 0, 0, 1, v[1], v[2]], rot), [1, 0, 0, 1, -v[1], -v[2]]) : rot;
+        break;
+      }
+      case "skewX": t = [1, 0, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 1, 0, 0]; break;
+      case "skewY": t = [1, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]; break;
+    }
+    m = composeAffine(m, t);
+  }
+  return m;
+}
+
+const svgPaint = (el: Element, name: "stroke" | "fill", inherited: string | null): string | null => {
+  const style = el.getAttribute("style") ?? "";
+  const fromStyle = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`))?.[1]?.trim();
+  const v = fromStyle ?? el.getAttribute(name) ?? undefined;
+  if (v === undefined) return inherited;
+  return v === "none" || v === "transparent" ? null : v;
+};
+
+/**
+ * Extract every drawable shape of an SVG document as flattened paths in the
+ * root viewBox coordinates (path, line, polyline, polygon, rect).
+ *
+ * @param svgText - SVG markup
+ * @returns Page size and paths
+ */
+export function parseSvgPaths(svgText: string): VectorPage {
+  const doc = new DOMParser().parseFromString(svgText, "image/svg+xml");
+  const root = doc.documentElement;
+  if (!root || root.nodeName.toLowerCase() !== "svg") throw new Error("Not an SVG document");
+  const vb = (root.getAttribute("viewBox") ?? "").split(/[\s,]+/).map(Number);
+  const hasVb = vb.length === 4 && vb.every(Number.isFinite) && vb[2] > 0 && vb[3] > 0;
+  const width = hasVb ? vb[2] : parseFloat(root.getAttribute("width") ?? "") || 1000;
+  const height = hasVb ? vb[3] : parseFloat(root.getAttribute("height") ?? "") || 1000;
+  const base: Affine = hasVb ? [1, 0, 0, 1, -vb[0], -vb[1]] : IDENTITY;
+  const paths: VectorPath[] = [];
+  const attr = (el: Element, n: string) => parseFloat(el.getAttribute(n) ?? "0") || 0;
+  const walk = (el: Element, m: Affine, stroke: string | null, fill: string | null, width: number) => {
+    const tag = el.nodeName.toLowerCase();
+    if (["defs", "clippath", "mask", "symbol", "marker", "pattern", "text", "style", "title"].includes(tag)) return;
+    m = composeAffine(m, parseSvgTransform(el.getAttribute("transform")));
+    stroke = svgPaint(el, "stroke", stroke);
+    fill = svgPaint(el, "fill", fill);
+    const sw = parseFloat(el.getAttribute("stroke-width") ?? (el.getAttribute("style") ?? "").match(/stroke-width\s*:\s*([\d.]+)/)?.[1] ?? "");
+    if (Number.isFinite(sw)) width = sw;
+    let local: VecPt[][] | null = null;
+    if (tag === "path") local = parseSvgPathData(el.getAttribute("d") ?? "");
+    else if (tag === "line") local = [[{ x: attr(el, "x1"), y: attr(el, "y1") }, { x: attr(el, "x2"), y: attr(el, "y2") }]];
+    else if (tag === "polyline" || tag === "polygon") {
+      const v = (el.getAttribute("points") ?? "").match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi)?.map(Number) ?? [];
+      const pts: VecPt[] = [];
+      for (let k = 0; k + 1 < v.length; k += 2) pts.push({ x: v[k], y: v[k + 1] });
+      if (tag === "polygon" && pts.length) pts.push({ ...pts[0] });
+      local = [pts];
+    } else if (tag === "rect") {
+      const x = attr(el, "x"), y = attr(el, "y"), w = attr(el, "width"), h = attr(el, "height");
+      local = [[{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }, { x, y }]];
+    }
+    if (local) {
+      const subpaths = local.filter(sp => sp.length >= 2).map(sp => sp.map(q => applyAffine(m, q)));
+      const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+      if (subpaths.length && (stroke || fill)) paths.push({ id: paths.length, subpaths, stroke, fill, width: width * scale, bbox: pathBBox(subpaths) });
+    }
+    for (const child of Array.from(el.children)) walk(child, m, stroke, fill, width);
+  };
+  walk(root, base, null, "black", 1);
+  return { width, height, paths };
+}
+
+/**
+ * Positions of axis-aligned segments in gridline paths: vertical segments give
+ * x positions, horizontal ones y positions. Nearby positions are merged.
+ *
+ * @param paths - Paths marked as gridlines
+ * @param region - Only segments inside this box count (null = all)
+ * @returns Sorted, de-duplicated positions in page units
+ */
+export function gridlinePositions(paths: VectorPath[], region: VecBox | null): { x: number[]; y: number[] } {
+  const xs: number[] = [], ys: number[] = [];
+  const inside = (p: VecPt) => !region || (p.x >= region.x0 - 1 && p.x <= region.x1 + 1 && p.y >= region.y0 - 1 && p.y <= region.y1 + 1);
+  for (const path of paths) for (const sp of path.subpaths) {
+    for (let k = 1; k < sp.length; k++) {
+      const a = sp[k - 1], b = sp[k], dx = Math.abs(b.x - a.x), dy = Math.abs(b.y - a.y);
+      if (!inside({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })) continue;
+      if (dy > 0 && dx <= dy * AXIS_SLOPE) xs.push((a.x + b.x) / 2);
+      else if (dx > 0 && dy <= dx * AXIS_SLOPE) ys.push((a.y + b.y) / 2);
+    }
+  }
+  const merge = (v: number[]) => {
+    v.sort((a, b) => a - b);
+    const out: number[] = [];
+    for (const p of v) if (!out.length || p - out[out.length - 1] > 0.25) out.push(p);
+    return out;
+  };
+  return { x: merge(xs), y: merge(ys) };
+}
+
+/**
+ * Paths that look like gridlines: only axis-aligned segments, and at least one
+ * of them spans most of the region.
+ *
+ * @param paths - Candidate paths
+ * @param region - Chart region (null = page)
+ * @param page - Page size, used when region is null
+ * @returns Ids of gridline-like paths
+ */
+export function guessGridPaths(paths: VectorPath[], region: VecBox | null, page: { width: number; height: number }): number[] {
+  const box = region ?? { x0: 0, y0: 0, x1: page.width, y1: page.height };
+  const w = box.x1 - box.x0, h = box.y1 - box.y0;
+  return paths.filter(path => {
+    if (!pathInRegion(path, region)) return false;
+    let long = false;
+    for (const sp of path.subpaths) for (let k = 1; k < sp.length; k++) {
+      const dx = Math.abs(sp[k].x - sp[k - 1].x), dy = Math.abs(sp[k].y - sp[k - 1].y);
+      if (dx > dy * AXIS_SLOPE && dy > dx * AXIS_SLOPE) return false;
+      if (dy >= h * 0.6 || dx >= w * 0.6) long = true;
+    }
+    return long;
+  }).map(p => p.id);
+}
+
+/**
+ * Recognize the grid pattern on each axis from gridline positions (same
+ * detector as raster auto calibration; page units are rescaled so the
+ * pattern search works regardless of the page's unit size).
+ *
+ * @param gridPaths - Paths marked as gridlines
+ * @param region - Chart region (null = all)
+ * @param axes - Which axes are logarithmic
+ * @returns Per-axis fits in page units (null when not recognized)
+ */
+export function fitVectorGrid(gridPaths: VectorPath[], region: VecBox | null, axes: { xLog: boolean; yLog: boolean }): { x: GridAxisFit | null; y: GridAxisFit | null } {
+  const pos = gridlinePositions(gridPaths, region);
+  const fit = (lines: number[], dir: 1 | -1, log: boolean): GridAxisFit | null => {
+    if (lines.length < 2) return null;
+    const span = lines[lines.length - 1] - lines[0];
+    if (!(span > 0)) return null;
+    const k = 2000 / span; // work at ~2000 "px" across the grid
+    const scaled = lines.map(v => v * k);
+    const f = (log ? fitLogGrid(scaled, dir) : null) ?? fitEvenGrid(scaled, dir);
+    if (f) return { ...f, lines, majors: f.majors.map(v => v / k), spacing: f.spacing / k };
+    /* two lines only (e.g. frame): treat them as the grid ends */
+    return { pattern: "even", lines, majors: dir > 0 ? [lines[0], lines[lines.length - 1]] : [lines[lines.length - 1], lines[0]], spacing: span, matched: lines.length };
+  };
+  return { x: fit(pos.x, 1, axes.xLog), y: fit(pos.y, -1, axes.yLog) };
+}
+
+/**
+ * Page position → data value from two reference positions.
+ *
+ * @param p1 - Page position of the first reference
+ * @param v1 - Data value at p1
+ * @param p2 - Page position of the second reference
+ * @param v2 - Data value at p2
+ * @param scale - Axis scale id (interpolation runs in its transformed space)
+ * @returns Mapping function, or null for invalid references
+ */
+export function axisMap(p1: number, v1: number, p2: number, v2: number, scale: string): ((p: number) => number) | null {
+  const tf = getAxisTransform(scale);
+  if (!(Math.abs(p2 - p1) > 1e-9) || !Number.isFinite(v1) || !Number.isFinite(v2) || v1 === v2) return null;
+  if (!tf.valid(v1) || !tf.valid(v2)) return null;
+  const t1 = tf.forward(v1), t2 = tf.forward(v2);
+  if (!(Math.abs(t2 - t1) > 1e-12)) return null;
+  return p => tf.inverse(t1 + ((p - p1) / (p2 - p1)) * (t2 - t1));
+}
+
+/**
+ * Convert a curve path to data points. Subpaths are joined in order of their
+ * first x, vertices outside the region are dropped and repeated points removed.
+ *
+ * @param path - Curve path
+ * @param xMap - Page x → data x
+ * @param yMap - Page y → data y
+ * @param region - Chart region (null = keep all)
+ * @returns Data points sorted by x
+ */
+export function pathToDataPoints(path: VectorPath, xMap: (p: number) => number, yMap: (p: number) => number, region: VecBox | null): VecPt[] {
+  const out: VecPt[] = [];
+  const subs = [...path.subpaths].sort((a, b) => Math.min(a[0].x, a[a.length - 1].x) - Math.min(b[0].x, b[b.length - 1].x));
+  for (const sp of subs) for (const p of sp) {
+    if (region && (p.x < region.x0 || p.x > region.x1 || p.y < region.y0 || p.y > region.y1)) continue;
+    const x = xMap(p.x), y = yMap(p.y);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    const last = out[out.length - 1];
+    if (last && Math.abs(last.x - x) <= Math.abs(x) * 1e-9 && Math.abs(last.y - y) <= Math.abs(y) * 1e-9) continue;
+    out.push({ x, y });
+  }
+  return out.sort((a, b) => a.x - b.x);
+}
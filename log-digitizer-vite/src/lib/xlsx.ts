@@ -0,0 +1,169 @@
+/**
+ * Minimal XLSX writer
+ * Builds an Office Open XML workbook in the browser: one worksheet per sheet,
+ * inline strings, numbers as numeric cells, bold frozen header row. The
+ * package is a plain (stored, uncompressed) ZIP, which Excel, LibreOffice and
+ * Google Sheets all open.
+ *
+ * Usage example:
+ * ```ts
+ * const blob = buildXlsx([{ name: "A", rows: [["I [A]", "t [s]"], [100, 0.5]] }]);
+ * a.href = URL.createObjectURL(blob);
+ * ```
+ */
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+export type XlsxSheet = {
+  name: string;
+  rows: XlsxCell[][];
+  /** Column widths in characters (default: from the content, 8–40) */
+  widths?: number[];
+  /** First row is a bold, frozen header (default true) */
+  header?: boolean;
+};
+
+const esc = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+    // characters XML 1.0 does not allow
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "");
+
+const colName = (i: number) => {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+};
+
+/**
+ * Sheet names Excel accepts: at most 31 characters, no `[]:*?/\`, unique
+ * (case-insensitive).
+ *
+ * @param names - Wanted names
+ * @returns Valid, unique names in the same order
+ */
+export function xlsxSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = String(raw ?? "").replace(/[[\]:*?/\\]/g, "_").replace(/^'+|'+$/g, "").trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let k = 2; used.has(name.toLowerCase()); k++) name = `${base.slice(0, 31 - String(k).length - 1)}~${k}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+const cellXml = (v: XlsxCell, ref: string, bold: boolean) => {
+  const s = bold ? ' s="1"' : "";
+  if (v == null || v === "") return "";
+  if (typeof v === "number") return Number.isFinite(v) ? `<c r="${ref}"${s}><v>${v}</v></c>` : "";
+  if (typeof v === "boolean") return `<c r="${ref}"${s} t="b"><v>${v ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${esc(v)}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet) => {
+  const header = sheet.header !== false && sheet.rows.length > 0;
+  const nCols = Math.max(0, ...sheet.rows.map(r => r.length));
+  const widths = Array.from({ length: nCols }, (_, c) =>
+    sheet.widths?.[c] ?? Math.min(40, Math.max(8, ...sheet.rows.slice(0, 200).map(r => String(r[c] ?? "").length + 2))));
+  const rows = sheet.rows.map((r, ri) =>
+    `<row r="${ri + 1}">${r.map((v, ci) => cellXml(v, colName(ci) + (ri + 1), header && ri === 0)).join("")}</row>`).join("");
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + (header ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' : "")
+    + (nCols ? `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("")}</cols>` : "")
+    + `<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+/** CRC-32 (ZIP/PNG polynomial) */
+export const crc32 = (data: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/** Stored (uncompressed) ZIP archive */
+const zip = (files: { name: string; data: Uint8Array }[]) => {
+  const enc = new TextEncoder();
+  const d = new Date();
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  const parts: Uint8Array[] = [], central: Uint8Array[] = [];
+  let offset = 0;
+  for (const f of files) {
+    const name = enc.encode(f.name), crc = crc32(f.data), size = f.data.length;
+    const local = new Uint8Array(30 + name.length), lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); lv.setUint16(4, 20, true); lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, 0, true); lv.setUint16(10, time, true); lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true); lv.setUint32(18, size, true); lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true); lv.setUint16(28, 0, true);
+    local.set(name, 30);
+    const dir = new Uint8Array(46 + name.length), cv = new DataView(dir.buffer);
+    cv.setUint32(0, 0x02014b50, true); cv.setUint16(4, 20, true); cv.setUint16(6, 20, true); cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true); cv.setUint16(12, time, true); cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true); cv.setUint32(20, size, true); cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true); cv.setUint32(42, offset, true);
+    dir.set(name, 46);
+    parts.push(local, f.data); central.push(dir);
+    offset += local.length + size;
+  }
+  const dirSize = central.reduce((a, c) => a + c.length, 0);
+  const end = new Uint8Array(22), ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); ev.setUint16(8, files.length, true); ev.setUint16(10, files.length, true);
+  ev.setUint32(12, dirSize, true); ev.setUint32(16, offset, true);
+  const out = new Uint8Array(offset + dirSize + 22);
+  let p = 0;
+  for (const part of [...parts, ...central, end]) { out.set(part, p); p += part.length; }
+  return out;
+};
+
+/**
+ * Build an .xlsx file.
+ *
+ * @param sheets - Worksheets in tab order (names are made valid and unique)
+ * @returns The workbook file
+ */
+export function buildXlsx(sheets: XlsxSheet[]): Blob {
+  const enc = new TextEncoder();
+  const list = sheets.length ? sheets : [{ name: "Sheet1", rows: [] }];
+  const names = xlsxSheetNames(list.map(s => s.name));
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const NS = "http://schemas.openxmlformats.org";
+  const files: { name: string; data: string }[] = [
+    { name: "[Content_Types].xml", data: xml + `<Types xmlns="${NS}/package/2006/content-types">`
+      + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+      + `<Default Extension="xml" ContentType="application/xml"/>`
+      + `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>`
+      + `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>`
+      + list.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("")
+      + `</Types>` },
+    { name: "_rels/.rels", data: xml + `<Relationships xmlns="${NS}/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${NS}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>` },
+    { name: "xl/workbook.xml", data: xml + `<workbook xmlns="${NS}/spreadsheetml/2006/main" xmlns:r="${NS}/officeDocument/2006/relationships"><sheets>`
+      + names.map((n, i) => `<sheet name="${esc(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")
+      + `</sheets></workbook>` },
+    { name: "xl/_rels/workbook.xml.rels", data: xml + `<Relationships xmlns="${NS}/package/2006/relationships">`
+      + list.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("")
+      + `<Relationship Id="rId${list.length + 1}" Type="${NS}/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>` },
+    { name: "xl/styles.xml", data: xml + `<styleSheet xmlns="${NS}/spreadsheetml/2006/main">`
+      + `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>`
+      + `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>`
+      + `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>`
+      + `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>`
+      + `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>`
+      + `</styleSheet>` },
+    ...list.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(s) })),
+  ];
+  return new Blob([zip(files.map(f => ({ name: f.name, data: enc.encode(f.data) }))) as BlobPart], { type: XLSX_MIME });
+}